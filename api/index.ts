@@ -1,12 +1,21 @@
 import express, { Request, Response } from "express";
 import { createContext } from "../server/_core/context.js";
 import { appRouter } from "../server/routers.js";
+import { registerJobRoutes } from "../server/jobs.js";
+import { registerExportRoutes } from "../server/export.js";
+import { registerReportRoutes } from "../server/report.js";
+import { registerRestApiRoutes } from "../server/restApi.js";
+import { registerOpenApiRoutes } from "../server/openapi.js";
+import { registerStorageRoutes } from "../server/localStorage.js";
+import { registerRetentionRoutes } from "../server/retention.js";
+import { getTrustedProxyHops } from "../server/loginThrottle.js";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 // @ts-ignore
 import cookieParser from "cookie-parser";
 
 
 const app = express();
+app.set("trust proxy", getTrustedProxyHops());
 
 // upload ДО json middleware
 app.options("/api/upload", (_req, res) => {
@@ -29,6 +38,15 @@ app.use(
   })
 );
 
+registerJobRoutes(app);
+// No /api/progress here: its events live in one process's memory, see server/progress.ts
+registerExportRoutes(app);
+registerReportRoutes(app);
+registerRestApiRoutes(app);
+registerOpenApiRoutes(app);
+registerStorageRoutes(app);
+registerRetentionRoutes(app);
+
 app.get("/api/health", (_req: Request, res: Response) => {
   res.send({ status: "ok", time: new Date().toISOString() });
 });
@@ -1,9 +1,10 @@
 // api/upload.ts
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import Busboy from "busboy";
-import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
-import { Upload } from "@aws-sdk/lib-storage";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { storageGet, storagePut, toKeySegment } from "../server/storage.js";
+import { sdk } from "../server/_core/sdk.js";
+import { getClientIp } from "../server/loginThrottle.js";
+import { consumeRateLimit, rateLimitMessage, retryAfterSeconds } from "../server/rateLimit.js";
 
 export const config = {
   api: {
@@ -11,30 +12,6 @@ export const config = {
   },
 };
 
-function getEnv(name: string) {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
-
-function makeS3Client() {
-  const accessKeyId = getEnv("S3_ACCESS_KEY_ID");
-  const secretAccessKey = getEnv("S3_SECRET_ACCESS_KEY");
-  const region = process.env.S3_REGION || "us-east-1";
-
-  // Например для Backblaze B2 S3 endpoint:
-  // S3_ENDPOINT=https://s3.us-east-005.backblazeb2.com
-  let endpoint = process.env.S3_ENDPOINT;
-  if (endpoint && !endpoint.startsWith("http")) endpoint = `https://${endpoint}`;
-
-  return new S3Client({
-    region,
-    credentials: { accessKeyId, secretAccessKey },
-    endpoint: endpoint || undefined,
-    forcePathStyle: false,
-  });
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     // CORS
@@ -45,13 +22,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (req.method === "OPTIONS") return res.status(204).end();
     if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
 
-    const bucket = getEnv("S3_BUCKET");
-    const s3 = makeS3Client();
+    // Signed-in callers get a per-user bucket on top of the per-IP one
+    const user = await sdk.authenticateRequest(req as any).catch(() => null);
+    const retryAfterMs = await consumeRateLimit("upload", { userId: user?.id, ip: getClientIp(req) });
+    if (retryAfterMs > 0) {
+      res.setHeader("Retry-After", String(retryAfterSeconds(retryAfterMs)));
+      return res.status(429).json({ error: rateLimitMessage(retryAfterMs) });
+    }
 
     const bb = Busboy({ headers: req.headers });
 
     let gotFile = false;
-    let uploadedKey = "";
 
     const done = new Promise<{ fileUrl: string; key: string }>((resolve, reject) => {
       bb.on("file", (_field, fileStream, info) => {
@@ -60,33 +41,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         const filename = info?.filename || "file";
         const mimeType = (info?.mimeType || "application/octet-stream") as string;
 
-        uploadedKey = `uploads/${Date.now()}-${filename}`.replace(/\s+/g, "_");
-
-        const upload = new Upload({
-          client: s3,
-          params: {
-            Bucket: bucket,
-            Key: uploadedKey,
-            Body: fileStream,
-            ContentType: mimeType,
-          },
-        });
-
-        upload
-          .done()
-          .then(async () => {
-            // ✅ ВАЖНО: бакет приватный -> отдаём SIGNED URL на чтение
-            const signedGetUrl = await getSignedUrl(
-              s3,
-              new GetObjectCommand({
-                Bucket: bucket,
-                Key: uploadedKey,
-              }),
-              { expiresIn: 60 * 10 } // 10 минут
-            );
+        const uploadedKey = `uploads/${Date.now()}-${toKeySegment(filename)}`.replace(/\s+/g, "_");
 
-            resolve({ fileUrl: signedGetUrl, key: uploadedKey });
-          })
+        // Whichever storage driver is configured; the download URL is signed where the backend supports it
+        storagePut(uploadedKey, fileStream, mimeType)
+          .then(({ key }) => storageGet(key))
+          .then(({ key, url }) => resolve({ fileUrl: url, key }))
           .catch(reject);
       });
 
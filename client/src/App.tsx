@@ -6,10 +6,19 @@ import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
 import Upload from "./pages/Upload";
+import Batch from "./pages/Batch";
 import History from "./pages/History";
 import TextDetection from "./pages/TextDetection";
 import Statistics from "./pages/Statistics";
 import Login from "./pages/Login";
+import SharedResult from "./pages/SharedResult";
+import SharedLinks from "./pages/SharedLinks";
+import ApiKeys from "./pages/ApiKeys";
+import ApiDocs from "./pages/ApiDocs";
+import Webhooks from "./pages/Webhooks";
+import Team from "./pages/Team";
+import Admin from "./pages/Admin";
+import Account from "./pages/Account";
 
 function Router() {
   return (
@@ -17,9 +26,19 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/login" component={Login} />
       <Route path="/upload" component={Upload} />
+      <Route path="/batch" component={Batch} />
+      <Route path="/batch/:id" component={Batch} />
       <Route path="/text" component={TextDetection} />
       <Route path="/history" component={History} />
       <Route path="/statistics" component={Statistics} />
+      <Route path="/share/:token" component={SharedResult} />
+      <Route path="/shared-links" component={SharedLinks} />
+      <Route path="/api-keys" component={ApiKeys} />
+      <Route path="/api-docs" component={ApiDocs} />
+      <Route path="/webhooks" component={Webhooks} />
+      <Route path="/team" component={Team} />
+      <Route path="/admin" component={Admin} />
+      <Route path="/account" component={Account} />
       <Route path="/404" component={NotFound} />
       <Route component={NotFound} />
     </Switch>
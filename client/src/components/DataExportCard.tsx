@@ -0,0 +1,79 @@
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Archive, Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+/**
+ * Request a ZIP of everything stored about the user and download it once built
+ */
+export default function DataExportCard() {
+  const utils = trpc.useUtils();
+  // The archive is built by the job worker; poll until it is done
+  const { data: takeout } = trpc.takeout.latest.useQuery(undefined, {
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "queued" || status === "running" ? 3000 : false;
+    },
+  });
+
+  const requestExport = trpc.takeout.request.useMutation({
+    onSuccess: (latest) => {
+      utils.takeout.latest.setData(undefined, latest);
+      toast.success("Export requested. It will be ready to download here shortly.");
+    },
+    onError: (err) => toast.error(err.message || "Failed to request export"),
+  });
+
+  const inProgress = takeout?.status === "queued" || takeout?.status === "running";
+
+  return (
+    <Card className="border-2 border-slate-200 p-6 bg-white mb-6">
+      <h2 className="text-xl font-semibold text-slate-900 mb-2">Download your data</h2>
+      <p className="text-sm text-slate-600 mb-4">
+        Get a ZIP with your profile, every result you ran (JSON and CSV), the original files and your
+        share links with their view counts. Download links stay valid for 7 days.
+      </p>
+
+      {inProgress && (
+        <p className="flex items-center gap-2 text-sm text-slate-600 mb-4">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Preparing your archive…
+        </p>
+      )}
+      {takeout?.status === "failed" && (
+        <p className="text-sm text-red-600 mb-4">The last export failed: {takeout.error ?? "unknown error"}</p>
+      )}
+      {takeout?.expired && <p className="text-sm text-slate-500 mb-4">Your last export has expired.</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {takeout?.downloadUrl && (
+          <Button asChild className="bg-blue-600 hover:bg-blue-700 text-white flex items-center gap-2">
+            <a href={takeout.downloadUrl} download>
+              <Download className="w-4 h-4" />
+              Download{takeout.fileSize ? ` (${formatBytes(takeout.fileSize)})` : ""}
+            </a>
+          </Button>
+        )}
+        <Button
+          onClick={() => requestExport.mutate()}
+          disabled={inProgress || requestExport.isPending}
+          variant="outline"
+          className="flex items-center gap-2 border-slate-300"
+        >
+          {requestExport.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Archive className="w-4 h-4" />}
+          {takeout ? "Request a new export" : "Request export"}
+        </Button>
+      </div>
+      {takeout?.downloadUrl && takeout.expiresAt && (
+        <p className="text-xs text-slate-500 mt-3">Available until {new Date(takeout.expiresAt).toLocaleString()}</p>
+      )}
+    </Card>
+  );
+}
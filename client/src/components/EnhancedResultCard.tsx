@@ -3,9 +3,11 @@ import { Button } from "@/components/ui/button";
 import { CheckCircle, AlertCircle, Download, Share2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
+import ShareDialog from "@/components/ShareDialog";
 
 interface DetectionResult {
   success: boolean;
+  id?: number | null;
   verdict: "ai" | "human";
   confidence: string;
   detectedGenerator: string | null;
@@ -17,6 +19,8 @@ interface EnhancedResultCardProps {
   result: DetectionResult;
   fileType?: string;
   fileName?: string;
+  // Hides the share / download actions, e.g. on the public share page
+  readOnly?: boolean;
 }
 
 const CircularGauge = ({
@@ -93,7 +97,10 @@ export default function EnhancedResultCard({
   result,
   fileType,
   fileName,
+  readOnly = false,
 }: EnhancedResultCardProps) {
+  const [shareOpen, setShareOpen] = useState(false);
+
   const isAI = result.verdict === "ai";
   const confidenceDecimal = parseFloat(result.confidence) || 0;
   const confidence = Math.round(confidenceDecimal * 100);
@@ -114,14 +121,24 @@ export default function EnhancedResultCard({
   ].filter((g) => g.likelihood > 0);
 
   const handleDownloadReport = () => {
-    // TODO: Implement PDF report download
-    toast.success("Report download feature coming soon!");
+    if (!result.id) {
+      toast.error("This result has not been saved yet, so no report is available");
+      return;
+    }
+
+    const link = document.createElement("a");
+    link.href = `/api/reports?ids=${result.id}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
   };
 
   const handleShareResult = () => {
-    const shareUrl = `${window.location.origin}/share/${btoa(JSON.stringify(result))}`;
-    navigator.clipboard.writeText(shareUrl);
-    toast.success("Share link copied to clipboard!");
+    if (!result.id) {
+      toast.error("This result has not been saved yet, so it can't be shared");
+      return;
+    }
+    setShareOpen(true);
   };
 
   return (
@@ -132,24 +149,30 @@ export default function EnhancedResultCard({
           <h2 className="text-3xl font-bold text-white mb-2">Detection Report</h2>
           <p className="text-slate-400">{fileName}</p>
         </div>
-        <div className="flex gap-2">
-          <Button
-            onClick={handleShareResult}
-            className="bg-blue-600 hover:bg-blue-700 text-white flex items-center gap-2"
-          >
-            <Share2 className="w-4 h-4" />
-            Share Result
-          </Button>
-          <Button
-            onClick={handleDownloadReport}
-            className="bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-2"
-          >
-            <Download className="w-4 h-4" />
-            Download Report
-          </Button>
-        </div>
+        {!readOnly && (
+          <div className="flex gap-2">
+            <Button
+              onClick={handleShareResult}
+              className="bg-blue-600 hover:bg-blue-700 text-white flex items-center gap-2"
+            >
+              <Share2 className="w-4 h-4" />
+              Share Result
+            </Button>
+            <Button
+              onClick={handleDownloadReport}
+              className="bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download Report
+            </Button>
+          </div>
+        )}
       </div>
 
+      {!readOnly && result.id && (
+        <ShareDialog detectionResultId={result.id} open={shareOpen} onOpenChange={setShareOpen} />
+      )}
+
       {/* Verdict Banner */}
       <Card className="border border-slate-700 bg-gradient-to-r from-slate-800 to-slate-900 p-6">
         <div className="flex items-center gap-4">
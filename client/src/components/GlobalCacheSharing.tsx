@@ -0,0 +1,36 @@
+import { trpc } from "@/lib/trpc";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+
+/**
+ * Opt-in for the cross-user result cache. Hidden while the server has it turned off.
+ */
+export default function GlobalCacheSharing() {
+  const utils = trpc.useUtils();
+  const { data } = trpc.detection.globalCache.useQuery();
+
+  const setSharing = trpc.detection.setGlobalCacheSharing.useMutation({
+    onSuccess: () => utils.detection.globalCache.invalidate(),
+    onError: (err) => toast.error(err.message || "Failed to update sharing"),
+  });
+
+  if (!data?.enabled) return null;
+
+  return (
+    <div className="flex items-start justify-between gap-4 rounded-lg border border-slate-200 bg-white p-4 mb-6 text-sm">
+      <div>
+        <p className="font-semibold text-slate-900">Share verdicts with other users</p>
+        <p className="text-slate-600">
+          When someone analyzes a file identical to one of yours, they get your verdict instead of a new analysis.
+          Only the verdict is shared — never your file, its name or your account. Turning this off withdraws
+          verdicts you already shared.
+        </p>
+      </div>
+      <Switch
+        checked={data.sharing}
+        disabled={setSharing.isPending}
+        onCheckedChange={(share) => setSharing.mutate({ share })}
+      />
+    </div>
+  );
+}
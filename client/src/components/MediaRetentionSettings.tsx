@@ -0,0 +1,63 @@
+import { trpc } from "@/lib/trpc";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+
+const RETENTION_OPTIONS = [
+  { value: "forever", label: "Keep forever" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+];
+
+/**
+ * How long the active workspace keeps uploaded files. Only owners can change it.
+ */
+export default function MediaRetentionSettings() {
+  const utils = trpc.useUtils();
+  const { data } = trpc.detection.retention.useQuery();
+
+  const setRetention = trpc.detection.setRetention.useMutation({
+    onSuccess: () => {
+      utils.detection.retention.invalidate();
+      toast.success("Retention updated");
+    },
+    onError: (err) => toast.error(err.message || "Failed to update retention"),
+  });
+
+  if (!data) return null;
+
+  const value = data.days === null ? "forever" : String(data.days);
+  // Keep a custom value set through the API selectable
+  const options = RETENTION_OPTIONS.some((o) => o.value === value)
+    ? RETENTION_OPTIONS
+    : [...RETENTION_OPTIONS, { value, label: `${value} days` }];
+
+  return (
+    <div className="flex items-start justify-between gap-4 rounded-lg border border-slate-200 bg-white p-4 mb-6 text-sm">
+      <div>
+        <p className="font-semibold text-slate-900">Media retention</p>
+        <p className="text-slate-600">
+          Uploaded files and text excerpts are deleted after this period. Verdicts, confidence and
+          file names stay in the history.
+        </p>
+      </div>
+      <Select
+        value={value}
+        disabled={!data.canEdit || setRetention.isPending}
+        onValueChange={(next) => setRetention.mutate({ days: next === "forever" ? null : Number(next) })}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { trpc } from "@/lib/trpc";
+import { AlertTriangle } from "lucide-react";
+
+type UsageFileType = "image" | "audio" | "video" | "text";
+
+const TYPE_LABELS: Record<UsageFileType, string> = {
+  image: "Images",
+  audio: "Audio",
+  video: "Video",
+  text: "Text",
+};
+
+/**
+ * The quota message from a failed analysis, or null when it failed for another reason
+ */
+export function getQuotaErrorMessage(error: any): string | null {
+  return error?.data?.quota ? error.message : null;
+}
+
+export function QuotaExceededNotice({ message }: { message: string }) {
+  return (
+    <div className="flex items-start gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 mb-6 text-sm text-amber-900">
+      <AlertTriangle className="w-5 h-5 shrink-0 text-amber-600" />
+      <div>
+        <p className="font-semibold">Quota reached</p>
+        <p>{message}</p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Remaining analyses today and this month on the user's plan
+ */
+export default function QuotaUsage({ fileTypes }: { fileTypes: UsageFileType[] }) {
+  const { data } = trpc.detection.usage.useQuery();
+  if (!data) return null;
+
+  const types = data.types.filter((type) => fileTypes.includes(type.fileType));
+  // Nothing worth showing on a plan without limits
+  if (types.every((type) => type.daily.limit === null && type.monthly.limit === null)) return null;
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-4 mb-6 text-sm">
+      <p className="font-semibold text-slate-900 mb-2">
+        <span className="capitalize">{data.plan}</span> plan usage
+      </p>
+      <ul className="space-y-1 text-slate-600">
+        {types.map((type) => (
+          <li key={type.fileType} className="flex justify-between gap-4">
+            <span>{TYPE_LABELS[type.fileType]}</span>
+            <span>
+              {type.daily.limit === null ? "Unlimited" : `${Math.max(type.daily.limit - type.daily.used, 0)} of ${type.daily.limit} left today`}
+              {type.monthly.limit !== null &&
+                ` · ${Math.max(type.monthly.limit - type.monthly.used, 0)} of ${type.monthly.limit} this month`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
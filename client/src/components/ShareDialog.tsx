@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+// Values are hours; "never" leaves expiresAt empty
+const SHARE_EXPIRY_OPTIONS = [
+  { value: "1", label: "1 hour" },
+  { value: "24", label: "24 hours" },
+  { value: "168", label: "7 days" },
+  { value: "720", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+interface ShareDialogProps {
+  detectionResultId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ShareDialog({ detectionResultId, open, onOpenChange }: ShareDialogProps) {
+  const [expiry, setExpiry] = useState("168");
+  const [usePassword, setUsePassword] = useState(false);
+  const [password, setPassword] = useState("");
+  const [exposeFile, setExposeFile] = useState(false);
+
+  const utils = trpc.useUtils();
+  const createShareLinkMutation = trpc.detection.createShareLink.useMutation({
+    onSuccess: () => utils.detection.getUserShareLinks.invalidate(),
+  });
+
+  const handleCreate = async () => {
+    if (usePassword && password.length < 8) {
+      toast.error("Password must be at least 8 characters");
+      return;
+    }
+
+    try {
+      const link = await createShareLinkMutation.mutateAsync({
+        detectionResultId,
+        expiresInHours: expiry === "never" ? undefined : Number(expiry),
+        password: usePassword ? password : undefined,
+        exposeFile,
+      });
+      await navigator.clipboard.writeText(`${window.location.origin}${link.shareUrl}`);
+      toast.success("Share link copied to clipboard!");
+      setPassword("");
+      onOpenChange(false);
+    } catch (error: any) {
+      toast.error(error?.message || "Failed to create share link");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share result</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view the verdict. You can revoke it any time from "My shared links".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="share-expiry">Link expires after</Label>
+            <select
+              id="share-expiry"
+              value={expiry}
+              onChange={(e) => setExpiry(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SHARE_EXPIRY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="share-expose-file">Include the original file</Label>
+            <Switch id="share-expose-file" checked={exposeFile} onCheckedChange={setExposeFile} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="share-use-password">Require a password</Label>
+              <Switch id="share-use-password" checked={usePassword} onCheckedChange={setUsePassword} />
+            </div>
+            {usePassword && (
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="At least 8 characters"
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={createShareLinkMutation.isPending}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {createShareLinkMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create & copy link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
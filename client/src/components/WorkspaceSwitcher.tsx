@@ -0,0 +1,44 @@
+import { trpc } from "@/lib/trpc";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+
+const PERSONAL = "personal";
+
+/**
+ * Picks the workspace History, Statistics and new analyses use.
+ * Switching refetches everything, since every detection query is workspace-scoped.
+ */
+export default function WorkspaceSwitcher({ className }: { className?: string }) {
+  const utils = trpc.useUtils();
+  const { data } = trpc.organizations.list.useQuery();
+
+  const switchMutation = trpc.organizations.switch.useMutation({
+    onSuccess: () => utils.invalidate(),
+    onError: (err) => toast.error(err.message || "Failed to switch workspace"),
+  });
+
+  // Nothing to choose between until the user joins a team
+  if (!data || data.organizations.length === 0) return null;
+
+  return (
+    <Select
+      value={data.activeOrganizationId ? String(data.activeOrganizationId) : PERSONAL}
+      onValueChange={(value) =>
+        switchMutation.mutate({ organizationId: value === PERSONAL ? null : Number(value) })
+      }
+      disabled={switchMutation.isPending}
+    >
+      <SelectTrigger className={className ?? "w-56 bg-white border-slate-300"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PERSONAL}>Personal</SelectItem>
+        {data.organizations.map((org) => (
+          <SelectItem key={org.id} value={String(org.id)}>
+            {org.name} <span className="text-xs text-slate-500 capitalize">({org.role})</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+
+export const ANALYSIS_STAGES = [
+  { key: "uploading", label: "Uploading" },
+  { key: "hashing", label: "Hashing file" },
+  { key: "cache_check", label: "Checking previous results" },
+  { key: "vendor_call", label: "Running detection" },
+  { key: "storing", label: "Storing file" },
+  { key: "saved", label: "Saved" },
+] as const;
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number]["key"];
+export type StageState = "pending" | "active" | "done" | "failed";
+
+interface ProgressEvent {
+  stage: AnalysisStage;
+  status: "started" | "completed" | "failed";
+  message?: string;
+}
+
+export interface AnalysisProgress {
+  stages: Record<AnalysisStage, StageState>;
+  failure: { stage: AnalysisStage; message?: string } | null;
+  // False when no stream is served, e.g. on serverless deployments
+  available: boolean;
+}
+
+function initialProgress(): AnalysisProgress {
+  const stages = {} as Record<AnalysisStage, StageState>;
+  ANALYSIS_STAGES.forEach(({ key }) => (stages[key] = "pending"));
+  return { stages, failure: null, available: true };
+}
+
+/**
+ * Rebuild the stage list from a polled job, for when there is no stream to follow
+ */
+export function progressFromJob(job: {
+  status: string;
+  stage: AnalysisStage | null;
+  failedStage: AnalysisStage | null;
+  error: string | null;
+}): AnalysisProgress {
+  const progress = initialProgress();
+  if (job.status === "succeeded") {
+    ANALYSIS_STAGES.forEach(({ key }) => (progress.stages[key] = "done"));
+    return progress;
+  }
+
+  // A queued job starts over, so only a running or failed one has a stage to show
+  const current = job.status === "running" ? job.stage : job.status === "failed" ? job.failedStage : null;
+  if (!current) return progress;
+
+  const index = ANALYSIS_STAGES.findIndex(({ key }) => key === current);
+  ANALYSIS_STAGES.forEach(({ key }, i) => {
+    if (i < index) progress.stages[key] = "done";
+  });
+  if (job.status === "failed") {
+    progress.stages[current] = "failed";
+    progress.failure = { stage: current, message: job.error ?? undefined };
+  } else {
+    progress.stages[current] = "active";
+  }
+  return progress;
+}
+
+/**
+ * Follow /api/progress/:progressId while an analysis runs. Pass null to disconnect.
+ * Progress is best-effort: callers still take the outcome from the mutation or getJob.
+ */
+export function useAnalysisProgress(progressId: string | null) {
+  const [progress, setProgress] = useState<AnalysisProgress>(initialProgress);
+
+  useEffect(() => {
+    setProgress(initialProgress());
+    if (!progressId) return;
+
+    const source = new EventSource(`/api/progress/${encodeURIComponent(progressId)}`, {
+      withCredentials: true,
+    });
+
+    let received = false;
+    source.addEventListener("progress", (e) => {
+      received = true;
+      const event = JSON.parse((e as MessageEvent).data) as ProgressEvent;
+
+      setProgress((prev) => {
+        const stages = { ...prev.stages };
+        if (event.status === "started") stages[event.stage] = "active";
+        if (event.status === "completed") stages[event.stage] = "done";
+        if (event.status === "failed") stages[event.stage] = "failed";
+
+        const failure =
+          event.status === "failed" ? { stage: event.stage, message: event.message } : prev.failure;
+        return { ...prev, stages, failure };
+      });
+
+      if (event.status === "failed" || event.stage === "saved") source.close();
+    });
+
+    // The server ends the stream once the analysis is finished; don't reconnect.
+    // Failing before the first event means there is no stream to follow at all.
+    source.onerror = () => {
+      source.close();
+      if (!received) setProgress((prev) => ({ ...prev, available: false }));
+    };
+
+    return () => source.close();
+  }, [progressId]);
+
+  return progress;
+}
@@ -0,0 +1,101 @@
+export type FileType = "image" | "audio" | "video";
+
+export const MB = 1024 * 1024;
+export const SIZE_LIMITS: Record<FileType, number> = { image: 10 * MB, audio: 50 * MB, video: 100 * MB };
+export const TYPE_NAMES: Record<FileType, string> = { image: "Image", audio: "Audio", video: "Video" };
+
+const MIME_TYPES: Record<FileType, string[]> = {
+  image: ["image/jpeg", "image/png", "image/webp"],
+  audio: ["audio/mpeg", "audio/wav", "audio/x-m4a", "audio/mp4"],
+  video: ["video/mp4", "video/quicktime", "video/webm"],
+};
+
+export function getFileType(mimeType: string): FileType | undefined {
+  return (Object.keys(MIME_TYPES) as FileType[]).find((type) => MIME_TYPES[type].includes(mimeType));
+}
+
+type PlanUsage = { plan: string; types: { fileType: string; maxFileSize: number | null }[] } | undefined;
+
+/**
+ * Check type and size against the global limits and the plan's, which may allow less
+ */
+export function validateMediaFile(file: File, usage: PlanUsage): { valid: boolean; type?: FileType; error?: string } {
+  const type = getFileType(file.type);
+  if (!type) return { valid: false, error: "Unsupported file type" };
+
+  const planLimit = usage?.types.find((t) => t.fileType === type)?.maxFileSize ?? null;
+  const sizeLimit = planLimit === null ? SIZE_LIMITS[type] : Math.min(planLimit, SIZE_LIMITS[type]);
+  if (file.size > sizeLimit) {
+    const plan = planLimit !== null && planLimit < SIZE_LIMITS[type] ? ` on the ${usage?.plan} plan` : "";
+    return { valid: false, error: `${TYPE_NAMES[type]} exceeds ${Math.round(sizeLimit / MB)}MB limit${plan}` };
+  }
+  return { valid: true, type };
+}
+
+export class UploadRateLimitError extends Error {
+  retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Stream a file to /api/upload (multipart) and return its storage URL
+ */
+export async function uploadFileToApi(file: File): Promise<{ fileUrl: string }> {
+  const form = new FormData();
+  form.append("file", file);
+
+  const resp = await fetch("/api/upload", {
+    method: "POST",
+    body: form,
+    credentials: "include",
+  });
+
+  if (resp.status === 429) {
+    const body = await resp.json().catch(() => null);
+    const retryAfter = Number(resp.headers.get("Retry-After")) || 60;
+    throw new UploadRateLimitError(
+      body?.error || "Too many uploads. Please wait a moment and try again.",
+      retryAfter * 1000
+    );
+  }
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => "");
+    throw new Error(`Upload API failed: ${resp.status} ${text}`);
+  }
+
+  const json = await resp.json();
+  if (!json?.fileUrl) throw new Error("Upload API returned no fileUrl");
+  return { fileUrl: json.fileUrl };
+}
+
+/**
+ * Files of a drop, descending into dropped folders
+ */
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  const walk = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      files.push(await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
+      return;
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns at most ~100 entries per call
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      for (const child of batch) await walk(child);
+    }
+  };
+
+  for (const entry of entries) await walk(entry);
+  return files;
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import DataExportCard from "@/components/DataExportCard";
+import { ArrowLeft, Download, Loader2, Trash2 } from "lucide-react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+
+type DeletionReceipt = {
+  receiptId: string;
+  userId: number;
+  deletedAt: string;
+  deleted: Record<string, number>;
+  teamResultsKept: number;
+};
+
+function downloadReceipt(receipt: DeletionReceipt) {
+  const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: "application/json" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `deletion-receipt-${receipt.receiptId}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
+
+export default function Account() {
+  const [, navigate] = useLocation();
+  const { data: me } = trpc.auth.me.useQuery();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [receipt, setReceipt] = useState<DeletionReceipt | null>(null);
+
+  const deleteAccount = trpc.auth.deleteAccount.useMutation({
+    onSuccess: (result) => {
+      setReceipt(result.receipt);
+      downloadReceipt(result.receipt);
+    },
+    onError: (err) => toast.error(err.message || "Failed to delete account"),
+  });
+
+  // The session is gone; reload so every cached query starts over signed out
+  if (receipt) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+        <div className="max-w-2xl mx-auto">
+          <Card className="border-2 border-slate-200 p-8 bg-white">
+            <h1 className="text-2xl font-bold text-slate-900 mb-2">Your account has been deleted</h1>
+            <p className="text-slate-600 mb-4">
+              Keep the receipt below as proof of deletion. It contains no personal data.
+            </p>
+            <pre className="text-xs bg-slate-50 border border-slate-200 rounded-lg p-4 overflow-x-auto mb-6">
+              {JSON.stringify(receipt, null, 2)}
+            </pre>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => downloadReceipt(receipt)}
+                variant="outline"
+                className="flex items-center gap-2 border-slate-300"
+              >
+                <Download className="w-4 h-4" />
+                Download receipt
+              </Button>
+              <Button onClick={() => window.location.assign("/")} className="bg-blue-600 hover:bg-blue-700 text-white">
+                Done
+              </Button>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const canDelete = !!me && confirmation === me.username && password.length > 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-6">
+          <Button
+            onClick={() => navigate("/history")}
+            variant="outline"
+            className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 mb-2">Account</h1>
+          <p className="text-slate-600">Signed in as {me?.username}</p>
+        </div>
+
+        <DataExportCard />
+
+        <Card className="border-2 border-red-200 p-6 bg-white">
+          <h2 className="text-xl font-semibold text-red-700 mb-2">Delete account</h2>
+          <p className="text-sm text-slate-600 mb-4">
+            Permanently deletes your personal results and uploaded files, share links, API keys, webhooks
+            and usage records, and any team you are the only member of. Results you ran in other teams
+            stay with those teams. You'll get a deletion receipt.
+          </p>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canDelete) deleteAccount.mutate({ password });
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="confirm-username">Type your username to confirm</Label>
+              <Input
+                id="confirm-username"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder={me?.username}
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={!canDelete || deleteAccount.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white flex items-center gap-2"
+            >
+              {deleteAccount.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+              Delete my account
+            </Button>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
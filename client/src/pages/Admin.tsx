@@ -0,0 +1,572 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, ArrowLeft, Search, ShieldCheck, ShieldOff, RefreshCw } from "lucide-react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 25;
+const PLANS = ["free", "pro", "enterprise"] as const;
+const FILE_TYPES = ["image", "audio", "video", "text"] as const;
+const SPEND_RANGES = [7, 30, 90];
+
+const usd = (value: number) => `$${value.toFixed(2)}`;
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: "bg-amber-100 text-amber-700",
+  pending: "bg-amber-100 text-amber-700",
+  running: "bg-blue-100 text-blue-700",
+  sending: "bg-blue-100 text-blue-700",
+  succeeded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+function UsersTab({ currentUserId }: { currentUserId: number }) {
+  const utils = trpc.useUtils();
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading, error } = trpc.admin.users.useQuery({
+    query: query || undefined,
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  const roleMutation = trpc.admin.setRole.useMutation({
+    onSuccess: () => utils.admin.users.invalidate(),
+    onError: (err) => toast.error(err.message || "Failed to change role"),
+  });
+
+  const planMutation = trpc.admin.setPlan.useMutation({
+    onSuccess: () => utils.admin.users.invalidate(),
+    onError: (err) => toast.error(err.message || "Failed to change plan"),
+  });
+
+  const disableMutation = trpc.admin.setDisabled.useMutation({
+    onSuccess: () => utils.admin.users.invalidate(),
+    onError: (err) => toast.error(err.message || "Failed to update account"),
+  });
+
+  return (
+    <>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setOffset(0);
+          setQuery(search.trim());
+        }}
+        className="flex gap-2 mb-4"
+      >
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by username, name or email"
+          className="bg-white"
+        />
+        <Button type="submit" variant="outline">
+          <Search className="w-4 h-4" />
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto" />
+      ) : error ? (
+        <Card className="border-2 border-red-200 bg-red-50 p-6">
+          <p className="text-red-900">Failed to load users. Please try again.</p>
+        </Card>
+      ) : (
+        <>
+          <div className="overflow-x-auto bg-white rounded-lg border border-slate-200">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-200 bg-slate-50">
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">User</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Analyses</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Vendor spend</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Last analysis</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Plan</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Role</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Enabled</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data?.users.map((user) => {
+                  const isSelf = user.id === currentUserId;
+                  return (
+                    <tr key={user.id} className="border-b border-slate-200 hover:bg-slate-50">
+                      <td className="px-6 py-4">
+                        <p className="text-sm font-medium text-slate-900">{user.username}</p>
+                        <p className="text-xs text-slate-600 mt-1">
+                          {user.email ?? user.name ?? "—"} • joined {format(new Date(user.createdAt), "MMM d, yyyy")}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="text-sm text-slate-900">{user.totalAnalyses}</p>
+                        <p className="text-xs text-slate-600 mt-1">
+                          {user.analyses.image} img • {user.analyses.audio} aud • {user.analyses.video} vid •{" "}
+                          {user.analyses.text} txt
+                        </p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="text-sm text-slate-900">${user.estimatedSpend.toFixed(2)}</p>
+                        <p className="text-xs text-slate-600 mt-1">{user.vendorCalls} vendor calls</p>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-600">
+                        {user.lastAnalysisAt ? format(new Date(user.lastAnalysisAt), "MMM d, yyyy") : "Never"}
+                      </td>
+                      <td className="px-6 py-4">
+                        <Select
+                          value={user.plan}
+                          onValueChange={(plan) =>
+                            planMutation.mutate({ userId: user.id, plan: plan as (typeof PLANS)[number] })
+                          }
+                          disabled={planMutation.isPending}
+                        >
+                          <SelectTrigger className="w-32 capitalize">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PLANS.map((plan) => (
+                              <SelectItem key={plan} value={plan} className="capitalize">
+                                {plan}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="px-6 py-4">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isSelf || roleMutation.isPending}
+                          onClick={() =>
+                            roleMutation.mutate({
+                              userId: user.id,
+                              role: user.role === "admin" ? "user" : "admin",
+                            })
+                          }
+                        >
+                          {user.role === "admin" ? (
+                            <ShieldCheck className="w-4 h-4 mr-1 text-blue-600" />
+                          ) : (
+                            <ShieldOff className="w-4 h-4 mr-1 text-slate-400" />
+                          )}
+                          <span className="capitalize">{user.role}</span>
+                        </Button>
+                      </td>
+                      <td className="px-6 py-4">
+                        <Switch
+                          checked={user.status === "active"}
+                          disabled={isSelf || disableMutation.isPending}
+                          onCheckedChange={(enabled) =>
+                            disableMutation.mutate({ userId: user.id, disabled: !enabled })
+                          }
+                          aria-label="Enabled"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between mt-4 text-sm text-slate-600">
+            <span>
+              {data && data.total > 0
+                ? `${offset + 1}–${Math.min(offset + PAGE_SIZE, data.total)} of ${data.total}`
+                : "No users found"}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!data || offset + PAGE_SIZE >= data.total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+function FailuresTab() {
+  const { data: failures, isLoading, refetch, isFetching } = trpc.admin.failures.useQuery({ limit: 100 });
+
+  if (isLoading) {
+    return <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto" />;
+  }
+
+  if (!failures || failures.length === 0) {
+    return (
+      <Card className="border-2 border-slate-200 p-12 text-center bg-white">
+        <h2 className="text-2xl font-semibold text-slate-900 mb-2">No failed analyses</h2>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Button size="sm" variant="outline" disabled={isFetching} onClick={() => refetch()}>
+          <RefreshCw className={`w-4 h-4 mr-1 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+      <div className="overflow-x-auto bg-white rounded-lg border border-slate-200">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-200 bg-slate-50">
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">When</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">User</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Analysis</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {failures.map((failure) => (
+              <tr key={failure.id} className="border-b border-slate-200 align-top">
+                <td className="px-6 py-4 text-sm text-slate-600 whitespace-nowrap">
+                  {format(new Date(failure.createdAt), "MMM d, HH:mm:ss")}
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-900">{failure.username ?? `#${failure.userId}`}</td>
+                <td className="px-6 py-4">
+                  <p className="text-sm text-slate-900 capitalize">
+                    {failure.fileType} <span className="text-xs text-slate-500">via {failure.source}</span>
+                  </p>
+                  {failure.fileName && <p className="text-xs text-slate-600 mt-1 truncate max-w-xs">{failure.fileName}</p>}
+                </td>
+                <td className="px-6 py-4">
+                  <p className="text-sm text-slate-900">
+                    <span className="font-mono text-xs text-red-600 mr-2">{failure.code}</span>
+                    {failure.message}
+                  </p>
+                  {failure.detail && failure.detail !== failure.message && (
+                    <p className="text-xs font-mono text-slate-600 mt-1 break-all">{failure.detail}</p>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+function StatusCounts({ counts }: { counts: Record<string, number> }) {
+  const entries = Object.entries(counts);
+  if (entries.length === 0) return <p className="text-sm text-slate-600">None</p>;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {entries.map(([status, count]) => (
+        <span
+          key={status}
+          className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status] ?? "bg-slate-100 text-slate-700"}`}
+        >
+          {status}: {count}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function BudgetCard({ label, spent, budget }: { label: string; spent: number; budget: number | null }) {
+  const over = budget !== null && spent >= budget;
+  return (
+    <Card className="border-2 border-slate-200 p-6 bg-white">
+      <p className="text-sm text-slate-600 mb-2">{label}</p>
+      <p className={`text-3xl font-bold ${over ? "text-red-700" : "text-slate-900"}`}>{usd(spent)}</p>
+      <p className="text-xs text-slate-500 mt-1">
+        {budget === null ? "No budget set" : `Budget ${usd(budget)}${over ? " — exceeded" : ""}`}
+      </p>
+    </Card>
+  );
+}
+
+function SpendTab() {
+  const [days, setDays] = useState(30);
+  const { data: spend, isLoading } = trpc.admin.spend.useQuery({ days });
+
+  if (isLoading || !spend) {
+    return <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto" />;
+  }
+
+  // One row per day with a cost column per media type
+  const dayRows = Array.from(new Set(spend.byDay.map((row) => row.day)))
+    .reverse()
+    .map((day) => {
+      const rows = spend.byDay.filter((row) => row.day === day);
+      return {
+        day,
+        calls: rows.reduce((sum, row) => sum + row.calls, 0),
+        cacheHits: rows.reduce((sum, row) => sum + row.cacheHits, 0),
+        cost: Object.fromEntries(FILE_TYPES.map((type) => [type, rows.find((row) => row.fileType === type)?.cost ?? 0])),
+        total: rows.reduce((sum, row) => sum + row.cost, 0),
+      };
+    });
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEND_RANGES.map((range) => (
+              <SelectItem key={range} value={String(range)}>
+                Last {range} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 mb-6">
+        <BudgetCard label="Today (UTC)" spent={spend.budgets.day.spent} budget={spend.budgets.day.budget} />
+        <BudgetCard label="This month (UTC)" spent={spend.budgets.month.spent} budget={spend.budgets.month.budget} />
+        <Card className="border-2 border-slate-200 p-6 bg-white">
+          <p className="text-sm text-slate-600 mb-2">Last {days} days</p>
+          <p className="text-3xl font-bold text-slate-900">{usd(spend.totalCost)}</p>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4 mb-6">
+        {spend.byType.map((type) => (
+          <Card key={type.fileType} className="border-2 border-slate-200 p-4 bg-white">
+            <p className="text-sm text-slate-600 capitalize mb-1">{type.fileType}</p>
+            <p className="text-xl font-semibold text-slate-900">{usd(type.cost)}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {type.calls} calls • {type.cacheHits} cached • {formatBytes(type.bytes)}
+            </p>
+            <p className="text-xs text-slate-500">{usd(spend.prices[type.fileType])} per call</p>
+          </Card>
+        ))}
+      </div>
+
+      <h3 className="text-lg font-semibold text-slate-900 mb-3">By day</h3>
+      <div className="overflow-x-auto bg-white rounded-lg border border-slate-200 mb-6">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-200 bg-slate-50">
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Day</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Calls</th>
+              {FILE_TYPES.map((type) => (
+                <th key={type} className="px-6 py-4 text-left text-sm font-semibold text-slate-900 capitalize">
+                  {type}
+                </th>
+              ))}
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dayRows.length === 0 ? (
+              <tr>
+                <td colSpan={FILE_TYPES.length + 3} className="px-6 py-8 text-center text-sm text-slate-600">
+                  No vendor calls in this period
+                </td>
+              </tr>
+            ) : (
+              dayRows.map((row) => (
+                <tr key={row.day} className="border-b border-slate-200">
+                  <td className="px-6 py-4 text-sm text-slate-900 whitespace-nowrap">{row.day}</td>
+                  <td className="px-6 py-4 text-sm text-slate-600">
+                    {row.calls} <span className="text-xs text-slate-500">(+{row.cacheHits} cached)</span>
+                  </td>
+                  {FILE_TYPES.map((type) => (
+                    <td key={type} className="px-6 py-4 text-sm text-slate-600">
+                      {usd(row.cost[type])}
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 text-sm font-semibold text-slate-900">{usd(row.total)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="text-lg font-semibold text-slate-900 mb-3">Top users</h3>
+      <div className="overflow-x-auto bg-white rounded-lg border border-slate-200">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-200 bg-slate-50">
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">User</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Calls</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Cache hits</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Data</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Spend</th>
+            </tr>
+          </thead>
+          <tbody>
+            {spend.byUser.map((user) => (
+              <tr key={user.userId} className="border-b border-slate-200">
+                <td className="px-6 py-4 text-sm text-slate-900">{user.username ?? `#${user.userId}`}</td>
+                <td className="px-6 py-4 text-sm text-slate-600">
+                  {user.calls}
+                  {user.failures > 0 && <span className="text-xs text-red-600"> ({user.failures} failed)</span>}
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-600">{user.cacheHits}</td>
+                <td className="px-6 py-4 text-sm text-slate-600">{formatBytes(user.bytes)}</td>
+                <td className="px-6 py-4 text-sm font-semibold text-slate-900">{usd(user.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+function HealthTab() {
+  const { data: health, isLoading } = trpc.admin.health.useQuery(undefined, { refetchInterval: 30_000 });
+
+  if (isLoading || !health) {
+    return <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto" />;
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <Card className="border-2 border-slate-200 p-6 bg-white">
+        <p className="text-sm text-slate-600 mb-2">Database</p>
+        {health.database.ok ? (
+          <p className="text-lg font-semibold text-green-700">Reachable ({health.database.latencyMs} ms)</p>
+        ) : (
+          <p className="text-lg font-semibold text-red-700">Unreachable: {health.database.error}</p>
+        )}
+      </Card>
+      <Card className="border-2 border-slate-200 p-6 bg-white">
+        <p className="text-sm text-slate-600 mb-2">Storage</p>
+        {health.storage ? (
+          <p className="text-lg font-semibold text-green-700 uppercase">{health.storage}</p>
+        ) : (
+          <p className="text-lg font-semibold text-red-700">Not configured</p>
+        )}
+      </Card>
+      <Card className="border-2 border-slate-200 p-6 bg-white">
+        <p className="text-sm text-slate-600 mb-2">Detection providers</p>
+        <ul className="space-y-1">
+          {health.providers.map((entry) => (
+            <li key={entry.fileType} className="text-sm">
+              <span className="capitalize text-slate-900">{entry.fileType}:</span>{" "}
+              {entry.error ? (
+                <span className="text-red-700">{entry.error}</span>
+              ) : (
+                <span className="text-slate-700">{entry.providers.join(", ")}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </Card>
+      <Card className="border-2 border-slate-200 p-6 bg-white">
+        <p className="text-sm text-slate-600 mb-2">Failed analyses (24h)</p>
+        <p className="text-3xl font-bold text-slate-900">{health.failuresLast24h ?? "—"}</p>
+      </Card>
+      <Card className="border-2 border-slate-200 p-6 bg-white">
+        <p className="text-sm text-slate-600 mb-2">Background jobs</p>
+        <StatusCounts counts={health.jobs} />
+      </Card>
+      <Card className="border-2 border-slate-200 p-6 bg-white">
+        <p className="text-sm text-slate-600 mb-2">Webhook deliveries</p>
+        <StatusCounts counts={health.webhookDeliveries} />
+      </Card>
+      <Card className="border-2 border-slate-200 p-6 bg-white md:col-span-2">
+        <p className="text-sm text-slate-600">
+          Node {health.nodeVersion} • up {Math.floor(health.uptimeSeconds / 3600)}h{" "}
+          {Math.floor((health.uptimeSeconds % 3600) / 60)}m • {health.memoryMb} MB RSS
+        </p>
+      </Card>
+    </div>
+  );
+}
+
+export default function Admin() {
+  const [, navigate] = useLocation();
+  const { data: user, isLoading } = trpc.auth.me.useQuery();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+        <div className="max-w-6xl mx-auto text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6">
+          <Button
+            onClick={() => navigate("/history")}
+            variant="outline"
+            className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 mb-2">Admin</h1>
+          <p className="text-slate-600">Users, usage and system health</p>
+        </div>
+
+        {!user || user.role !== "admin" ? (
+          <Card className="border-2 border-red-200 bg-red-50 p-6">
+            <p className="text-red-900">You need admin access to view this page.</p>
+          </Card>
+        ) : (
+          <Tabs defaultValue="users">
+            <TabsList className="mb-4">
+              <TabsTrigger value="users">Users</TabsTrigger>
+              <TabsTrigger value="failures">Failures</TabsTrigger>
+              <TabsTrigger value="spend">Spend</TabsTrigger>
+              <TabsTrigger value="health">Health</TabsTrigger>
+            </TabsList>
+            <TabsContent value="users">
+              <UsersTab currentUserId={user.id} />
+            </TabsContent>
+            <TabsContent value="failures">
+              <FailuresTab />
+            </TabsContent>
+            <TabsContent value="spend">
+              <SpendTab />
+            </TabsContent>
+            <TabsContent value="health">
+              <HealthTab />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Loader2, ArrowLeft, Download } from "lucide-react";
+import { useLocation } from "wouter";
+
+interface Operation {
+  operationId: string;
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  parameters?: { name: string; in: string; content?: any; schema?: any }[];
+  requestBody?: { content: Record<string, { schema: unknown }> };
+}
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description?: string };
+  tags?: { name: string; description?: string }[];
+  paths: Record<string, Record<string, Operation>>;
+}
+
+const METHOD_STYLES: Record<string, string> = {
+  get: "bg-blue-100 text-blue-700",
+  post: "bg-green-100 text-green-700",
+};
+
+// Schema a caller has to send: request body, or the JSON inside the `input` query parameter
+function requestSchema(operation: Operation) {
+  if (operation.requestBody) return operation.requestBody.content["application/json"]?.schema;
+  const input = operation.parameters?.find((p) => p.name === "input");
+  return input?.content?.["application/json"]?.schema;
+}
+
+export default function ApiDocs() {
+  const [, navigate] = useLocation();
+
+  // The spec is generated server-side from the router, so this page never goes stale
+  const { data: spec, isLoading, error } = useQuery({
+    queryKey: ["openapi"],
+    queryFn: async (): Promise<OpenApiDocument> => {
+      const res = await fetch("/api/openapi.json");
+      if (!res.ok) throw new Error(`Failed to load API spec (${res.status})`);
+      return await res.json();
+    },
+    staleTime: Infinity,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+        <div className="max-w-6xl mx-auto text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto" />
+          <p className="text-slate-600 mt-4">Loading API reference...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const operations = spec
+    ? Object.entries(spec.paths).flatMap(([path, methods]) =>
+        Object.entries(methods).map(([method, operation]) => ({ path, method, operation }))
+      )
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <Button
+            onClick={() => navigate("/api-keys")}
+            variant="outline"
+            className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <Button asChild variant="outline" className="flex items-center gap-2 border-slate-300 text-slate-700">
+            <a href="/api/openapi.json" download="openapi.json">
+              <Download className="w-4 h-4" />
+              openapi.json
+            </a>
+          </Button>
+        </div>
+
+        {error || !spec ? (
+          <Card className="border-2 border-red-200 bg-red-50 p-6">
+            <p className="text-red-900">Failed to load the API reference. Please try again.</p>
+          </Card>
+        ) : (
+          <>
+            <div className="mb-8">
+              <h1 className="text-4xl font-bold text-slate-900 mb-2">
+                {spec.info.title} <span className="text-lg text-slate-500">v{spec.info.version}</span>
+              </h1>
+              <p className="text-slate-600">{spec.info.description}</p>
+            </div>
+
+            {(spec.tags ?? []).map((tag) => {
+              const tagged = operations.filter(({ operation }) => operation.tags?.includes(tag.name));
+              if (tagged.length === 0) return null;
+
+              return (
+                <section key={tag.name} className="mb-10">
+                  <h2 className="text-2xl font-semibold text-slate-900 mb-1">{tag.name}</h2>
+                  {tag.description && <p className="text-sm text-slate-600 mb-4">{tag.description}</p>}
+
+                  <div className="space-y-3">
+                    {tagged.map(({ path, method, operation }) => {
+                      const schema = requestSchema(operation);
+                      return (
+                        <Card key={`${method} ${path}`} className="border border-slate-200 bg-white p-4">
+                          <div className="flex items-center gap-3">
+                            <span
+                              className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${METHOD_STYLES[method] ?? "bg-slate-100 text-slate-700"}`}
+                            >
+                              {method}
+                            </span>
+                            <code className="text-sm text-slate-900">{path}</code>
+                          </div>
+                          {operation.summary && operation.summary !== operation.operationId && (
+                            <p className="text-sm font-medium text-slate-900 mt-2">{operation.summary}</p>
+                          )}
+                          {operation.description && (
+                            <p className="text-sm text-slate-600 mt-1">{operation.description}</p>
+                          )}
+                          {schema !== undefined && (
+                            <details className="mt-3">
+                              <summary className="cursor-pointer text-sm text-blue-600">Request schema</summary>
+                              <pre className="mt-2 max-h-96 overflow-auto rounded bg-slate-900 p-3 text-xs text-slate-100">
+                                {JSON.stringify(schema, null, 2)}
+                              </pre>
+                            </details>
+                          )}
+                        </Card>
+                      );
+                    })}
+                  </div>
+                </section>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ArrowLeft, Copy, Ban, KeyRound, BookOpen, Webhook } from "lucide-react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const SCOPE_OPTIONS = [
+  { value: "detections:read", label: "Read results" },
+  { value: "detections:write", label: "Submit content for analysis" },
+] as const;
+
+type Scope = (typeof SCOPE_OPTIONS)[number]["value"];
+
+export default function ApiKeys() {
+  const [, navigate] = useLocation();
+  const utils = trpc.useUtils();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Scope[]>(["detections:read", "detections:write"]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const { data: keys, isLoading, error } = trpc.apiKeys.list.useQuery();
+
+  const createMutation = trpc.apiKeys.create.useMutation({
+    onSuccess: (key) => {
+      utils.apiKeys.list.invalidate();
+      setCreatedKey(key.key);
+      setName("");
+    },
+    onError: (err) => toast.error(err.message || "Failed to create API key"),
+  });
+
+  const revokeMutation = trpc.apiKeys.revoke.useMutation({
+    onSuccess: () => {
+      utils.apiKeys.list.invalidate();
+      toast.success("API key revoked");
+    },
+    onError: (err) => toast.error(err.message || "Failed to revoke API key"),
+  });
+
+  const toggleScope = (scope: Scope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast.success("API key copied to clipboard!");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+        <div className="max-w-6xl mx-auto text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto" />
+          <p className="text-slate-600 mt-4">Loading your API keys...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <Button
+            onClick={() => navigate("/history")}
+            variant="outline"
+            className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => navigate("/webhooks")}
+              variant="outline"
+              className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              <Webhook className="w-4 h-4" />
+              Webhooks
+            </Button>
+            <Button
+              onClick={() => navigate("/api-docs")}
+              variant="outline"
+              className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              <BookOpen className="w-4 h-4" />
+              API Reference
+            </Button>
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 mb-2">API Keys</h1>
+          <p className="text-slate-600">
+            Call <code className="text-sm">/api/v1/detections</code> from your own services with{" "}
+            <code className="text-sm">Authorization: Bearer &lt;key&gt;</code>
+          </p>
+        </div>
+
+        <Card className="border-2 border-slate-200 p-6 mb-6 bg-white">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate({ name, scopes });
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Moderation backend"
+                maxLength={100}
+              />
+            </div>
+            <div className="flex flex-wrap gap-6">
+              {SCOPE_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`scope-${option.value}`}
+                    checked={scopes.includes(option.value)}
+                    onCheckedChange={(checked) => toggleScope(option.value, checked === true)}
+                  />
+                  <Label htmlFor={`scope-${option.value}`}>{option.label}</Label>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="submit"
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <KeyRound className="w-4 h-4 mr-2" />
+              )}
+              Create key
+            </Button>
+          </form>
+
+          {createdKey && (
+            <div className="mt-6 rounded-lg border border-amber-300 bg-amber-50 p-4">
+              <p className="text-sm text-amber-900 mb-2">
+                Copy this key now. It won't be shown again.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={createdKey} className="font-mono text-sm bg-white" />
+                <Button variant="outline" onClick={copyKey}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {error ? (
+          <Card className="border-2 border-red-200 bg-red-50 p-6">
+            <p className="text-red-900">Failed to load API keys. Please try again.</p>
+          </Card>
+        ) : !keys || keys.length === 0 ? (
+          <Card className="border-2 border-slate-200 p-12 text-center bg-white">
+            <h2 className="text-2xl font-semibold text-slate-900 mb-2">No API keys yet</h2>
+            <p className="text-slate-600">Create one above to use the REST API</p>
+          </Card>
+        ) : (
+          <div className="overflow-x-auto bg-white rounded-lg border border-slate-200">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-200 bg-slate-50">
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Name</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Key</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Scopes</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Last used</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Status</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-slate-900">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {keys.map((key) => (
+                  <tr key={key.id} className="border-b border-slate-200 hover:bg-slate-50">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-slate-900">{key.name}</p>
+                      <p className="text-xs text-slate-600 mt-1">
+                        Created {format(new Date(key.createdAt), "MMM d, yyyy")}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm font-mono text-slate-700">{key.keyPrefix}…</td>
+                    <td className="px-6 py-4 text-xs text-slate-700">{key.scopes.join(", ")}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">
+                      {key.lastUsedAt ? format(new Date(key.lastUsedAt), "MMM d, yyyy HH:mm") : "Never"}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`inline-block px-3 py-1 rounded-full text-xs font-medium capitalize ${
+                          key.status === "active" ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+                        }`}
+                      >
+                        {key.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end">
+                        {key.status === "active" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={revokeMutation.isPending}
+                            onClick={() => revokeMutation.mutate({ id: key.id })}
+                            className="text-red-600"
+                          >
+                            <Ban className="w-4 h-4 mr-1" />
+                            Revoke
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,561 @@
+import { useEffect, useRef, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  ArrowLeft,
+  CheckCircle,
+  Circle,
+  Download,
+  FolderOpen,
+  Loader2,
+  RotateCcw,
+  UploadCloud,
+  X,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import { useLocation, useParams } from "wouter";
+import QuotaUsage, { QuotaExceededNotice, getQuotaErrorMessage } from "@/components/QuotaUsage";
+import {
+  type FileType,
+  UploadRateLimitError,
+  getDroppedFiles,
+  uploadFileToApi,
+  validateMediaFile,
+} from "@/lib/mediaFiles";
+
+// Must match MAX_BATCH_ITEMS in server/batches.ts
+const MAX_BATCH_ITEMS = 100;
+// Files sent to /api/upload at the same time
+const UPLOAD_CONCURRENCY = 2;
+
+type AudioType = "voice" | "music";
+type UploadState = "pending" | "uploading" | "waiting" | "uploaded" | "failed";
+
+interface BatchFile {
+  id: string;
+  file: File;
+  fileType: FileType;
+  state: UploadState;
+  fileUrl?: string;
+  error?: string;
+}
+
+const UPLOAD_LABELS: Record<UploadState, string> = {
+  pending: "Ready",
+  uploading: "Uploading...",
+  waiting: "Waiting for upload limit...",
+  uploaded: "Uploaded",
+  failed: "Upload failed",
+};
+
+function downloadText(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
+
+export default function BatchPage() {
+  const { id } = useParams<{ id?: string }>();
+  return id ? <BatchSummary batchId={Number(id)} /> : <BatchUpload />;
+}
+
+function BackButton({ to }: { to: string }) {
+  const [, navigate] = useLocation();
+  return (
+    <Button
+      onClick={() => navigate(to)}
+      variant="outline"
+      className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+    >
+      <ArrowLeft className="w-4 h-4" />
+      Back
+    </Button>
+  );
+}
+
+function BatchUpload() {
+  const [, navigate] = useLocation();
+  const [files, setFiles] = useState<BatchFile[]>([]);
+  const [name, setName] = useState("");
+  const [audioType, setAudioType] = useState<AudioType>("voice");
+  const [dragActive, setDragActive] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [quotaError, setQuotaError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const usageQuery = trpc.detection.usage.useQuery();
+  const batchesQuery = trpc.detection.listBatches.useQuery();
+  const createBatchMutation = trpc.detection.createBatch.useMutation();
+
+  // Not in React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  const updateFile = (id: string, patch: Partial<BatchFile>) =>
+    setFiles((current) => current.map((f) => (f.id === id ? { ...f, ...patch } : f)));
+
+  const addFiles = (incoming: File[]) => {
+    const accepted: BatchFile[] = [];
+    let rejected = 0;
+    for (const file of incoming) {
+      const validation = validateMediaFile(file, usageQuery.data);
+      if (!validation.valid || !validation.type) {
+        rejected++;
+        continue;
+      }
+      accepted.push({ id: crypto.randomUUID(), file, fileType: validation.type, state: "pending" });
+    }
+
+    const room = MAX_BATCH_ITEMS - files.length;
+    if (accepted.length > room) toast.error(`A batch holds at most ${MAX_BATCH_ITEMS} files`);
+    if (rejected > 0) toast.error(`Skipped ${rejected} unsupported or too large file${rejected === 1 ? "" : "s"}`);
+    setFiles((current) => [...current, ...accepted.slice(0, Math.max(room, 0))]);
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === "dragenter" || e.type === "dragover") setDragActive(true);
+    if (e.type === "dragleave") setDragActive(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    addFiles(await getDroppedFiles(e.dataTransfer));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) addFiles(Array.from(e.target.files));
+    e.target.value = "";
+  };
+
+  // Uploads wait out the upload rate limit instead of failing the whole batch
+  const uploadOne = async (item: BatchFile): Promise<string | null> => {
+    if (item.fileUrl) return item.fileUrl;
+    while (true) {
+      updateFile(item.id, { state: "uploading", error: undefined });
+      try {
+        const { fileUrl } = await uploadFileToApi(item.file);
+        updateFile(item.id, { state: "uploaded", fileUrl });
+        return fileUrl;
+      } catch (error: any) {
+        if (error instanceof UploadRateLimitError) {
+          updateFile(item.id, { state: "waiting" });
+          await new Promise((resolve) => setTimeout(resolve, error.retryAfterMs));
+          continue;
+        }
+        updateFile(item.id, { state: "failed", error: error?.message || "Upload failed" });
+        return null;
+      }
+    }
+  };
+
+  const handleStart = async () => {
+    setSubmitting(true);
+    setQuotaError(null);
+
+    try {
+      const uploaded: { item: BatchFile; fileUrl: string }[] = [];
+      const queue = [...files];
+      await Promise.all(
+        Array.from({ length: UPLOAD_CONCURRENCY }, async () => {
+          for (let item = queue.shift(); item; item = queue.shift()) {
+            const fileUrl = await uploadOne(item);
+            if (fileUrl) uploaded.push({ item, fileUrl });
+          }
+        })
+      );
+
+      if (uploaded.length === 0) {
+        toast.error("No files could be uploaded");
+        return;
+      }
+      if (uploaded.length < files.length) {
+        toast.error(`${files.length - uploaded.length} files failed to upload and were left out`);
+      }
+
+      // Keep the order the files were added in
+      uploaded.sort((a, b) => files.indexOf(a.item) - files.indexOf(b.item));
+      const batch = await createBatchMutation.mutateAsync({
+        name: name.trim() || undefined,
+        items: uploaded.map(({ item, fileUrl }) => ({
+          fileType: item.fileType,
+          fileName: item.file.name,
+          fileUrl,
+          mimeType: item.file.type,
+          audioType: item.fileType === "audio" ? audioType : undefined,
+        })),
+      });
+      toast.success(`Queued ${uploaded.length} files for analysis`);
+      navigate(`/batch/${batch.batchId}`);
+    } catch (error: any) {
+      const quotaMessage = getQuotaErrorMessage(error);
+      if (quotaMessage) setQuotaError(quotaMessage);
+      else toast.error(error?.message || "Failed to start the batch");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const hasAudio = files.some((f) => f.fileType === "audio");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-4xl mx-auto mb-6">
+        <BackButton to="/upload" />
+      </div>
+
+      <div className="max-w-3xl mx-auto">
+        <div className="text-center mb-10">
+          <h1 className="text-4xl font-bold text-slate-900 mb-2">Batch Analysis</h1>
+          <p className="text-slate-600">Upload up to {MAX_BATCH_ITEMS} images, audio or video files at once</p>
+        </div>
+
+        <QuotaUsage fileTypes={["image", "audio", "video"]} />
+        {quotaError && <QuotaExceededNotice message={quotaError} />}
+
+        <Card className="border-2 border-slate-200 shadow-lg mb-6">
+          <div
+            className={`p-10 border-2 border-dashed rounded-lg transition-all duration-200 text-center ${
+              dragActive ? "border-blue-500 bg-blue-50" : "border-slate-300 bg-white hover:border-slate-400"
+            }`}
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              onChange={handleInputChange}
+              className="hidden"
+              accept="image/*,audio/*,video/*"
+            />
+            <input ref={folderInputRef} type="file" multiple onChange={handleInputChange} className="hidden" />
+
+            <UploadCloud className="w-14 h-14 text-slate-400 mx-auto mb-4" />
+            <p className="text-lg font-semibold text-slate-900 mb-2">Drop files or folders here</p>
+            <p className="text-sm text-slate-600 mb-6">
+              Supports: JPG, PNG, WebP (10MB) • MP3, WAV, M4A (50MB) • MP4, MOV, WebM (100MB)
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={submitting}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                Select Files
+              </Button>
+              <Button
+                onClick={() => folderInputRef.current?.click()}
+                disabled={submitting}
+                variant="outline"
+                className="flex items-center gap-2 border-slate-300"
+              >
+                <FolderOpen className="w-4 h-4" />
+                Select Folder
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        {files.length > 0 && (
+          <Card className="border border-slate-200 shadow-md p-6 mb-6 bg-white">
+            <div className="flex flex-col sm:flex-row gap-4 mb-4">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Batch name (optional)"
+                maxLength={255}
+                disabled={submitting}
+              />
+              {hasAudio && (
+                <select
+                  value={audioType}
+                  onChange={(e) => setAudioType(e.target.value as AudioType)}
+                  disabled={submitting}
+                  className="border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+                >
+                  <option value="voice">Audio is voice/speech</option>
+                  <option value="music">Audio is music</option>
+                </select>
+              )}
+            </div>
+
+            <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto mb-4">
+              {files.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate text-slate-900">{item.file.name}</p>
+                    <p className={`text-xs ${item.state === "failed" ? "text-red-600" : "text-slate-500"}`}>
+                      {item.fileType} • {(item.file.size / 1024 / 1024).toFixed(2)} MB • {item.error || UPLOAD_LABELS[item.state]}
+                    </p>
+                  </div>
+                  {item.state === "uploading" || item.state === "waiting" ? (
+                    <Loader2 className="w-4 h-4 text-blue-600 animate-spin shrink-0" />
+                  ) : item.state === "uploaded" ? (
+                    <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={submitting}
+                      onClick={() => setFiles((current) => current.filter((f) => f.id !== item.id))}
+                      aria-label={`Remove ${item.file.name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <Button
+              onClick={handleStart}
+              disabled={submitting}
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold py-3"
+            >
+              {submitting ? (
+                <>
+                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                  Uploading {files.filter((f) => f.state === "uploaded").length} of {files.length}...
+                </>
+              ) : (
+                `Analyze ${files.length} file${files.length === 1 ? "" : "s"}`
+              )}
+            </Button>
+          </Card>
+        )}
+
+        {batchesQuery.data && batchesQuery.data.length > 0 && (
+          <Card className="border border-slate-200 p-6 bg-white">
+            <h2 className="font-semibold text-slate-900 mb-3">Recent batches</h2>
+            <ul className="divide-y divide-slate-100">
+              {batchesQuery.data.map((batch) => (
+                <li key={batch.id}>
+                  <button
+                    onClick={() => navigate(`/batch/${batch.id}`)}
+                    className="w-full flex items-center justify-between py-2 text-sm text-left hover:bg-slate-50"
+                  >
+                    <span className="text-slate-900">{batch.name}</span>
+                    <span className="text-slate-500">
+                      {batch.succeeded}/{batch.total} done
+                      {batch.failed > 0 ? ` • ${batch.failed} failed` : ""} •{" "}
+                      {new Date(batch.createdAt).toLocaleDateString()}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BatchSummary({ batchId }: { batchId: number }) {
+  const utils = trpc.useUtils();
+  const [exporting, setExporting] = useState(false);
+
+  // The job worker analyzes the items; poll until none are left
+  const { data: batch, isLoading, error } = trpc.detection.getBatch.useQuery(
+    { batchId },
+    { refetchInterval: (query) => (query.state.data?.finished ? false : 3000) }
+  );
+
+  const retryMutation = trpc.detection.retryBatch.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Retrying ${result.requeued} file${result.requeued === 1 ? "" : "s"}`);
+      utils.detection.getBatch.invalidate({ batchId });
+    },
+    onError: (err) => toast.error(err.message || "Failed to retry"),
+  });
+
+  const handleExport = async (format: "csv" | "json") => {
+    if (!batch) return;
+    setExporting(true);
+    try {
+      const exported = await utils.detection.exportBatch.fetch({ batchId, format });
+      const content = format === "json" ? JSON.stringify(exported.data, null, 2) : (exported.data as string);
+      downloadText(content, `batch-${batchId}.${format}`, format === "json" ? "application/json" : "text/csv");
+    } catch (err: any) {
+      toast.error(err?.message || "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!batch) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+        <div className="max-w-4xl mx-auto">
+          <BackButton to="/batch" />
+          <p className="mt-8 text-slate-600">{error?.message || "Batch not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const done = batch.statuses.succeeded + batch.statuses.failed;
+  const stats = [
+    { label: "Files", value: batch.total, className: "text-slate-900" },
+    { label: "AI-generated", value: batch.verdicts.ai, className: "text-red-600" },
+    { label: "Human", value: batch.verdicts.human, className: "text-green-600" },
+    { label: "Failed", value: batch.statuses.failed, className: "text-amber-600" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-6">
+          <BackButton to="/batch" />
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 mb-1">{batch.name}</h1>
+            <p className="text-slate-600">
+              {batch.finished ? "Finished" : `Analyzing ${done} of ${batch.total}...`} • Started{" "}
+              {new Date(batch.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => handleExport("csv")}
+              disabled={exporting || batch.statuses.succeeded === 0}
+              variant="outline"
+              className="flex items-center gap-2 border-slate-300"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </Button>
+            <Button
+              onClick={() => handleExport("json")}
+              disabled={exporting || batch.statuses.succeeded === 0}
+              variant="outline"
+              className="flex items-center gap-2 border-slate-300"
+            >
+              <Download className="w-4 h-4" />
+              Export JSON
+            </Button>
+          </div>
+        </div>
+
+        {!batch.finished && <Progress value={(done / Math.max(batch.total, 1)) * 100} className="mb-6" />}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {stats.map((stat) => (
+            <Card key={stat.label} className="p-4 bg-white border border-slate-200">
+              <p className="text-sm text-slate-500">{stat.label}</p>
+              <p className={`text-2xl font-bold ${stat.className}`}>{stat.value}</p>
+            </Card>
+          ))}
+        </div>
+
+        {batch.statuses.failed > 0 && (
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 p-4 mb-6 text-sm">
+            <span className="text-amber-800">
+              {batch.statuses.failed} file{batch.statuses.failed === 1 ? "" : "s"} could not be analyzed.
+              {batch.retryable === 0 && " Their uploads have expired; upload them again to retry."}
+            </span>
+            {batch.retryable > 0 && (
+              <Button
+                onClick={() => retryMutation.mutate({ batchId })}
+                disabled={retryMutation.isPending}
+                variant="outline"
+                className="flex items-center gap-2 border-amber-300"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry failed
+              </Button>
+            )}
+          </div>
+        )}
+
+        <Card className="bg-white border border-slate-200 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-left text-slate-600">
+              <tr>
+                <th className="px-4 py-3 font-medium">File</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium">Verdict</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {batch.items.map((item) => (
+                <tr key={item.jobId}>
+                  <td className="px-4 py-3">
+                    <p className="text-slate-900 truncate max-w-xs">{item.fileName}</p>
+                    <p className="text-xs text-slate-500">{item.fileType}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className="flex items-center gap-2">
+                      {item.status === "succeeded" && <CheckCircle className="w-4 h-4 text-green-500" />}
+                      {item.status === "running" && <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />}
+                      {item.status === "queued" && <Circle className="w-4 h-4 text-slate-300" />}
+                      {item.status === "failed" && <XCircle className="w-4 h-4 text-red-500" />}
+                      <span className="capitalize text-slate-700">{item.status}</span>
+                    </span>
+                    {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                    {item.status === "queued" && item.attempts > 0 && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        Retrying (attempt {item.attempts + 1} of {item.maxAttempts})
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {item.verdict ? (
+                      <span className={item.verdict === "ai" ? "text-red-600 font-semibold" : "text-green-600 font-semibold"}>
+                        {item.verdict === "ai" ? "AI" : "Human"}
+                        {item.confidence ? ` • ${(parseFloat(item.confidence) * 100).toFixed(0)}%` : ""}
+                      </span>
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {item.retryable && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={retryMutation.isPending}
+                        onClick={() => retryMutation.mutate({ batchId, jobIds: [item.jobId] })}
+                        aria-label={`Retry ${item.fileName}`}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      </div>
+    </div>
+  );
+}
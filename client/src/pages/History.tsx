@@ -1,45 +1,113 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { trpc } from "@/lib/trpc";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, AlertCircle, Loader2, Download, X, ArrowLeft } from "lucide-react";
+import { CheckCircle, AlertCircle, Loader2, Download, X, ArrowLeft, FileText, Share2, KeyRound, Users, Shield, Trash2, UserCog } from "lucide-react";
 import { useLocation } from "wouter";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import WorkspaceSwitcher from "@/components/WorkspaceSwitcher";
+import MediaRetentionSettings from "@/components/MediaRetentionSettings";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 type VerdictFilter = "ai" | "human" | null;
 type FileTypeFilter = "image" | "audio" | "video" | "text" | null;
+type SortOption = "createdAt:desc" | "createdAt:asc" | "confidence:desc" | "confidence:asc" | "fileSize:desc" | "fileSize:asc" | "processingTimeMs:desc" | "processingTimeMs:asc";
+
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "confidence:desc", label: "Highest confidence" },
+  { value: "confidence:asc", label: "Lowest confidence" },
+  { value: "fileSize:desc", label: "Largest files" },
+  { value: "fileSize:asc", label: "Smallest files" },
+  { value: "processingTimeMs:desc", label: "Slowest analyses" },
+  { value: "processingTimeMs:asc", label: "Fastest analyses" },
+];
+
+const PAGE_SIZE = 25;
+const MAX_REPORT_RESULTS = 50;
 
 export default function History() {
   const [, navigate] = useLocation();
+  const { data: me } = trpc.auth.me.useQuery();
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [verdictFilter, setVerdictFilter] = useState<VerdictFilter>(null);
   const [fileTypeFilter, setFileTypeFilter] = useState<FileTypeFilter>(null);
   const [startDate, setStartDate] = useState<string>("");
   const [endDate, setEndDate] = useState<string>("");
+  const [sort, setSort] = useState<SortOption>("createdAt:desc");
   const [showFilters, setShowFilters] = useState(false);
+  // Results waiting for the user to confirm their deletion
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<number[] | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  // Use filtered history if any filters are applied
   const hasFilters = verdictFilter || fileTypeFilter || startDate || endDate;
-  
-  const { data: results, isLoading, error } = trpc.detection.getFilteredHistory.useQuery(
+  const [sortBy, sortDir] = sort.split(":") as [
+    "createdAt" | "confidence" | "fileSize" | "processingTimeMs",
+    "asc" | "desc",
+  ];
+
+  const filters = {
+    verdict: verdictFilter || undefined,
+    fileType: fileTypeFilter || undefined,
+    startDate: startDate ? new Date(`${startDate}T00:00:00`) : undefined,
+    // Date inputs are whole days; include everything up to the end of the chosen day
+    endDate: endDate ? new Date(`${endDate}T23:59:59.999`) : undefined,
+  };
+
+  const {
+    data,
+    isLoading: isLoadingResults,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = trpc.detection.getFilteredHistory.useInfiniteQuery(
     {
-      verdict: verdictFilter || undefined,
-      fileType: fileTypeFilter || undefined,
-      startDate: startDate ? new Date(startDate) : undefined,
-      endDate: endDate ? new Date(endDate) : undefined,
-      limit: 100,
+      ...filters,
+      sortBy,
+      sortDir,
+      limit: PAGE_SIZE,
     },
-    { enabled: !!hasFilters }
+    { getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined }
   );
 
-  const { data: allResults, isLoading: isLoadingAll } = trpc.detection.getHistory.useQuery(
-    { limit: 100 },
-    { enabled: !!(!hasFilters) }
-  );
+  const utils = trpc.useUtils();
+  const deleteMany = trpc.detection.deleteMany.useMutation({
+    onSuccess: (result) => {
+      utils.detection.getFilteredHistory.invalidate();
+      setSelectedIds(new Set());
+      toast.success(`Deleted ${result.results} result${result.results !== 1 ? "s" : ""}`);
+    },
+    onError: (err) => toast.error(err.message || "Failed to delete results"),
+    onSettled: () => setPendingDeleteIds(null),
+  });
+
+  const displayResults = data?.pages.flatMap((page) => page.items);
+  const totals = data?.pages[0];
+
+  // Infinite scroll: load the next page when the sentinel below the table becomes visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
 
-  const displayResults = hasFilters ? results : allResults;
-  const isLoadingResults = hasFilters ? isLoading : isLoadingAll;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const getVerdictIcon = (verdict: "ai" | "human") => {
     if (verdict === "ai") {
@@ -86,52 +154,41 @@ export default function History() {
     }
   };
 
-  const handleExport = async (format: "csv" | "json") => {
-    if (selectedIds.size === 0) {
-      toast.error("Please select at least one result to export");
-      return;
+  // Streams from /api/export; the browser handles the download so large exports never sit in memory
+  const handleExport = (format: "csv" | "json") => {
+    const params = new URLSearchParams({ format });
+
+    if (selectedIds.size > 0) {
+      params.set("ids", Array.from(selectedIds).join(","));
+    } else {
+      if (filters.verdict) params.set("verdict", filters.verdict);
+      if (filters.fileType) params.set("fileType", filters.fileType);
+      if (filters.startDate) params.set("startDate", filters.startDate.toISOString());
+      if (filters.endDate) params.set("endDate", filters.endDate.toISOString());
     }
 
-    try {
-      const response = await fetch("/api/trpc/detection.exportResults", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          input: {
-            ids: Array.from(selectedIds),
-            format,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Export failed");
-      }
-
-      const result = await response.json();
-      const data = result.result.data;
-
-      // Create blob and download
-      const blob = new Blob([data], {
-        type: format === "csv" ? "text/csv" : "application/json",
-      });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `detection-results.${format}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-
-      toast.success(`Exported ${selectedIds.size} results as ${format.toUpperCase()}`);
-      setSelectedIds(new Set());
-    } catch (error) {
-      console.error("Export error:", error);
-      toast.error("Failed to export results");
+    const link = document.createElement("a");
+    link.href = `/api/export?${params.toString()}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    const count = selectedIds.size > 0 ? selectedIds.size : totals?.total ?? 0;
+    toast.success(`Exporting ${count} results as ${format.toUpperCase()}`);
+    setSelectedIds(new Set());
+  };
+
+  const handleDownloadReport = () => {
+    if (selectedIds.size > MAX_REPORT_RESULTS) {
+      toast.error(`A PDF report can include at most ${MAX_REPORT_RESULTS} results`);
+      return;
     }
+
+    const link = document.createElement("a");
+    link.href = `/api/reports?ids=${Array.from(selectedIds).join(",")}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
   };
 
   const clearFilters = () => {
@@ -164,13 +221,13 @@ export default function History() {
     );
   }
 
-  const isEmpty = !displayResults || displayResults.length === 0;
+  const isEmpty = !hasFilters && (!displayResults || displayResults.length === 0);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
       <div className="max-w-6xl mx-auto">
         {/* Back Button */}
-        <div className="mb-6">
+        <div className="mb-6 flex items-center justify-between">
           <Button
             onClick={() => navigate("/")}
             variant="outline"
@@ -179,16 +236,63 @@ export default function History() {
             <ArrowLeft className="w-4 h-4" />
             Back
           </Button>
+          <div className="flex gap-2">
+            <WorkspaceSwitcher />
+            {me?.role === "admin" && (
+              <Button
+                onClick={() => navigate("/admin")}
+                variant="outline"
+                className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+              >
+                <Shield className="w-4 h-4" />
+                Admin
+              </Button>
+            )}
+            <Button
+              onClick={() => navigate("/account")}
+              variant="outline"
+              className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              <UserCog className="w-4 h-4" />
+              Account
+            </Button>
+            <Button
+              onClick={() => navigate("/team")}
+              variant="outline"
+              className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              <Users className="w-4 h-4" />
+              Team
+            </Button>
+            <Button
+              onClick={() => navigate("/api-keys")}
+              variant="outline"
+              className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              <KeyRound className="w-4 h-4" />
+              API Keys
+            </Button>
+            <Button
+              onClick={() => navigate("/shared-links")}
+              variant="outline"
+              className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              <Share2 className="w-4 h-4" />
+              My Shared Links
+            </Button>
+          </div>
         </div>
 
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-4xl font-bold text-slate-900 mb-2">Detection History</h1>
           <p className="text-slate-600">
-            View all your previous AI content detection analyses
+            View all previous AI content detection analyses in this workspace
           </p>
         </div>
 
+        <MediaRetentionSettings />
+
         {isEmpty ? (
           <Card className="border-2 border-slate-200 p-12 text-center bg-white">
             <div className="text-6xl mb-4">📋</div>
@@ -206,19 +310,15 @@ export default function History() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
               <Card className="border border-slate-200 p-6 bg-white">
                 <p className="text-sm text-slate-600 mb-1">Total Analyses</p>
-                <p className="text-3xl font-bold text-slate-900">{displayResults?.length || 0}</p>
+                <p className="text-3xl font-bold text-slate-900">{totals?.total || 0}</p>
               </Card>
               <Card className="border border-slate-200 p-6 bg-white">
                 <p className="text-sm text-slate-600 mb-1">AI-Generated</p>
-                <p className="text-3xl font-bold text-red-600">
-                  {displayResults?.filter((r) => r.verdict === "ai").length || 0}
-                </p>
+                <p className="text-3xl font-bold text-red-600">{totals?.aiCount || 0}</p>
               </Card>
               <Card className="border border-slate-200 p-6 bg-white">
                 <p className="text-sm text-slate-600 mb-1">Authentic</p>
-                <p className="text-3xl font-bold text-green-600">
-                  {displayResults?.filter((r) => r.verdict === "human").length || 0}
-                </p>
+                <p className="text-3xl font-bold text-green-600">{totals?.humanCount || 0}</p>
               </Card>
             </div>
 
@@ -234,7 +334,7 @@ export default function History() {
 
               {showFilters && (
                 <div className="mt-4 pt-4 border-t border-slate-200 space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                     {/* Verdict Filter */}
                     <div>
                       <label className="block text-sm font-medium text-slate-700 mb-2">
@@ -294,6 +394,24 @@ export default function History() {
                         className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                       />
                     </div>
+
+                    {/* Sort */}
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Sort By
+                      </label>
+                      <select
+                        value={sort}
+                        onChange={(e) => setSort(e.target.value as SortOption)}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {SORT_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
 
                   {hasFilters && (
@@ -312,18 +430,38 @@ export default function History() {
             </Card>
 
             {/* Batch Export Controls */}
-            {selectedIds.size > 0 && (
+            {(selectedIds.size > 0 || (totals?.total ?? 0) > 0) && (
               <Card className="border border-blue-200 bg-blue-50 p-4 mb-6">
                 <div className="flex flex-col md:flex-row items-center justify-between gap-4">
                   <div>
                     <p className="text-sm font-semibold text-blue-900">
-                      {selectedIds.size} result{selectedIds.size !== 1 ? "s" : ""} selected
+                      {selectedIds.size > 0
+                        ? `${selectedIds.size} result${selectedIds.size !== 1 ? "s" : ""} selected`
+                        : `${totals?.total} result${totals?.total !== 1 ? "s" : ""} ${hasFilters ? "match the filters" : "in total"}`}
                     </p>
                     <p className="text-xs text-blue-700">
-                      Export selected results as CSV or JSON
+                      Export {selectedIds.size > 0 ? "selected" : "all matching"} results as CSV or JSON
                     </p>
                   </div>
                   <div className="flex gap-2">
+                    {selectedIds.size > 0 && (
+                      <Button
+                        onClick={handleDownloadReport}
+                        className="bg-slate-900 hover:bg-slate-800 text-white flex items-center gap-2"
+                      >
+                        <FileText className="w-4 h-4" />
+                        PDF Report
+                      </Button>
+                    )}
+                    {selectedIds.size > 0 && (
+                      <Button
+                        onClick={() => setPendingDeleteIds(Array.from(selectedIds))}
+                        className="bg-red-600 hover:bg-red-700 text-white flex items-center gap-2"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </Button>
+                    )}
                     <Button
                       onClick={() => handleExport("csv")}
                       className="bg-blue-600 hover:bg-blue-700 text-white flex items-center gap-2"
@@ -374,6 +512,7 @@ export default function History() {
                     <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">
                       Date
                     </th>
+                    <th className="px-6 py-4" />
                   </tr>
                 </thead>
                 <tbody>
@@ -451,15 +590,62 @@ export default function History() {
                             {format(new Date(result.createdAt), "MMM d, yyyy HH:mm")}
                           </span>
                         </td>
+                        <td className="px-6 py-4 text-right">
+                          <button
+                            onClick={() => setPendingDeleteIds([result.id])}
+                            className="text-slate-400 hover:text-red-600 transition-colors"
+                            aria-label={`Delete ${result.fileName}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
                       </tr>
                     );
                   })}
                 </tbody>
               </table>
+              {displayResults?.length === 0 && (
+                <p className="text-center text-slate-600 py-8">No results match the current filters</p>
+              )}
+            </div>
+
+            <div ref={loadMoreRef} className="py-4 text-center">
+              {isFetchingNextPage && <Loader2 className="w-6 h-6 animate-spin text-blue-600 mx-auto" />}
+              {!hasNextPage && displayResults && displayResults.length > 0 && (
+                <p className="text-xs text-slate-500">
+                  Showing all {totals?.total ?? displayResults.length} results
+                </p>
+              )}
             </div>
           </div>
         )}
       </div>
+
+      <AlertDialog open={pendingDeleteIds !== null} onOpenChange={(open) => !open && setPendingDeleteIds(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {pendingDeleteIds?.length === 1 ? "this result" : `${pendingDeleteIds?.length} results`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The stored files and any share links are deleted too. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMany.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleteMany.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingDeleteIds) deleteMany.mutate({ ids: pendingDeleteIds });
+              }}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {deleteMany.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,167 @@
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Loader2, ArrowLeft, Copy, Ban, RefreshCw, Lock, FileText } from "lucide-react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const STATUS_STYLES = {
+  active: "bg-green-100 text-green-700",
+  expired: "bg-slate-200 text-slate-600",
+  revoked: "bg-red-100 text-red-700",
+};
+
+export default function SharedLinks() {
+  const [, navigate] = useLocation();
+  const utils = trpc.useUtils();
+
+  const { data: links, isLoading, error } = trpc.detection.getUserShareLinks.useQuery();
+
+  const revokeMutation = trpc.detection.revokeShareLink.useMutation({
+    onSuccess: () => {
+      utils.detection.getUserShareLinks.invalidate();
+      toast.success("Share link revoked");
+    },
+    onError: (err) => toast.error(err.message || "Failed to revoke link"),
+  });
+
+  const regenerateMutation = trpc.detection.regenerateShareLink.useMutation({
+    onSuccess: async (link) => {
+      utils.detection.getUserShareLinks.invalidate();
+      await navigator.clipboard.writeText(`${window.location.origin}${link.shareUrl}`);
+      toast.success("New link copied to clipboard. The old link no longer works.");
+    },
+    onError: (err) => toast.error(err.message || "Failed to regenerate link"),
+  });
+
+  const copyLink = async (shareToken: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/share/${shareToken}`);
+    toast.success("Share link copied to clipboard!");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+        <div className="max-w-6xl mx-auto text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto" />
+          <p className="text-slate-600 mt-4">Loading your shared links...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6">
+          <Button
+            onClick={() => navigate("/history")}
+            variant="outline"
+            className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 mb-2">My Shared Links</h1>
+          <p className="text-slate-600">See who is viewing your shared results and turn links off</p>
+        </div>
+
+        {error ? (
+          <Card className="border-2 border-red-200 bg-red-50 p-6">
+            <p className="text-red-900">Failed to load share links. Please try again.</p>
+          </Card>
+        ) : !links || links.length === 0 ? (
+          <Card className="border-2 border-slate-200 p-12 text-center bg-white">
+            <h2 className="text-2xl font-semibold text-slate-900 mb-2">No shared links yet</h2>
+            <p className="text-slate-600">Use "Share Result" on any detection report to create one</p>
+          </Card>
+        ) : (
+          <div className="overflow-x-auto bg-white rounded-lg border border-slate-200">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-200 bg-slate-50">
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Result</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Status</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Views</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Last viewed</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Expires</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-slate-900">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {links.map((link) => (
+                  <tr key={link.id} className="border-b border-slate-200 hover:bg-slate-50">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-slate-900 truncate">{link.fileName ?? "Deleted result"}</p>
+                      <div className="flex items-center gap-2 text-xs text-slate-600 mt-1">
+                        <span>Created {format(new Date(link.createdAt), "MMM d, yyyy")}</span>
+                        {link.hasPassword && (
+                          <span className="inline-flex items-center gap-1">
+                            <Lock className="w-3 h-3" /> Password
+                          </span>
+                        )}
+                        {link.exposeFile && (
+                          <span className="inline-flex items-center gap-1">
+                            <FileText className="w-3 h-3" /> File visible
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`inline-block px-3 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[link.status]}`}
+                      >
+                        {link.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-900">{link.viewCount}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">
+                      {link.lastViewedAt ? format(new Date(link.lastViewedAt), "MMM d, yyyy HH:mm") : "Never"}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600">
+                      {link.expiresAt ? format(new Date(link.expiresAt), "MMM d, yyyy HH:mm") : "Never"}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        {link.status === "active" && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => copyLink(link.shareToken)}>
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={revokeMutation.isPending}
+                              onClick={() => revokeMutation.mutate({ shareToken: link.shareToken })}
+                              className="text-red-600"
+                            >
+                              <Ban className="w-4 h-4 mr-1" />
+                              Revoke
+                            </Button>
+                          </>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={regenerateMutation.isPending || !link.fileName}
+                          onClick={() => regenerateMutation.mutate({ shareToken: link.shareToken })}
+                        >
+                          <RefreshCw className="w-4 h-4 mr-1" />
+                          New link
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
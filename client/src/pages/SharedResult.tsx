@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Loader2, AlertCircle, Lock } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import EnhancedResultCard from "@/components/EnhancedResultCard";
+
+export default function SharedResult() {
+  const [, navigate] = useLocation();
+  const { token } = useParams<{ token: string }>();
+  const [passwordInput, setPasswordInput] = useState("");
+  const [password, setPassword] = useState<string | undefined>(undefined);
+
+  // Every fetch counts as a view, so don't refetch behind the visitor's back
+  const { data: result, isLoading, isFetching, error } = trpc.detection.getSharedResult.useQuery(
+    { shareToken: token ?? "", password },
+    { enabled: !!token, retry: false, refetchOnWindowFocus: false }
+  );
+
+  // Keep the form up while password attempts are rate limited; the message says how long to wait
+  const needsPassword = error?.data?.code === "UNAUTHORIZED" || error?.data?.code === "TOO_MANY_REQUESTS";
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 py-12 px-4">
+        <div className="max-w-4xl mx-auto text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-500 mx-auto" />
+          <p className="text-slate-400 mt-4">Loading shared result...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (needsPassword) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 py-12 px-4">
+        <div className="max-w-md mx-auto">
+          <Card className="border border-slate-700 bg-slate-800/50 p-8">
+            <Lock className="w-10 h-10 text-blue-500 mx-auto mb-4" />
+            <h1 className="text-xl font-bold text-white text-center mb-2">Password required</h1>
+            <p className="text-slate-400 text-center mb-6">{error?.message}</p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setPassword(passwordInput);
+              }}
+              className="space-y-4"
+            >
+              <Input
+                type="password"
+                value={passwordInput}
+                onChange={(e) => setPasswordInput(e.target.value)}
+                placeholder="Enter the share password"
+                className="bg-slate-900 border-slate-700 text-white"
+                autoFocus
+              />
+              <Button
+                type="submit"
+                disabled={!passwordInput || isFetching}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                {isFetching ? <Loader2 className="w-4 h-4 animate-spin" /> : "View result"}
+              </Button>
+            </form>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !result) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 py-12 px-4">
+        <div className="max-w-lg mx-auto">
+          <Card className="border border-slate-700 bg-slate-800/50 p-8 text-center">
+            <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-white mb-2">Result unavailable</h1>
+            <p className="text-slate-400 mb-6">{error?.message || "Share link not found"}</p>
+            <Button onClick={() => navigate("/")} className="bg-blue-600 hover:bg-blue-700 text-white">
+              Analyze your own content
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <p className="text-sm text-slate-400 mb-6">
+          Shared detection result • Analyzed {format(new Date(result.createdAt), "MMM d, yyyy HH:mm")}
+        </p>
+
+        {result.fileUrl && (
+          <Card className="border border-slate-700 bg-slate-800/50 p-4 mb-6">
+            {result.fileType === "image" && (
+              <img src={result.fileUrl} alt={result.fileName ?? "Shared file"} className="max-h-96 mx-auto rounded" />
+            )}
+            {result.fileType === "video" && (
+              <video src={result.fileUrl} controls className="max-h-96 mx-auto rounded" />
+            )}
+            {result.fileType === "audio" && <audio src={result.fileUrl} controls className="w-full" />}
+          </Card>
+        )}
+
+        <EnhancedResultCard
+          result={result}
+          fileType={result.fileType}
+          fileName={result.fileName ?? "Shared result"}
+          readOnly
+        />
+        <Button onClick={() => navigate("/")} className="w-full mt-6 bg-blue-600 hover:bg-blue-700 text-white">
+          Analyze your own content
+        </Button>
+      </div>
+    </div>
+  );
+}
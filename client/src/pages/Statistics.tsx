@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { Loader2, ArrowLeft } from "lucide-react";
 import { useLocation } from "wouter";
+import WorkspaceSwitcher from "@/components/WorkspaceSwitcher";
 
 export default function StatisticsPage() {
   const [, navigate] = useLocation();
@@ -55,7 +56,7 @@ export default function StatisticsPage() {
     <div className="min-h-screen bg-slate-950 p-8">
       <div className="max-w-6xl mx-auto">
         {/* Back Button */}
-        <div className="mb-6">
+        <div className="mb-6 flex items-center justify-between">
           <Button
             onClick={() => navigate("/")}
             variant="outline"
@@ -64,6 +65,7 @@ export default function StatisticsPage() {
             <ArrowLeft className="w-4 h-4" />
             Back
           </Button>
+          <WorkspaceSwitcher className="w-56 bg-slate-900 border-slate-600 text-slate-300" />
         </div>
         <h1 className="text-4xl font-bold text-white mb-8">Detection Statistics</h1>
 
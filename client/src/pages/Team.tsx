@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import WorkspaceSwitcher from "@/components/WorkspaceSwitcher";
+import { Loader2, ArrowLeft, Check, X, UserPlus, Users, Ban, LogOut } from "lucide-react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+type Role = "owner" | "analyst" | "viewer";
+
+const ROLE_OPTIONS: { value: Role; label: string }[] = [
+  { value: "viewer", label: "Viewer — sees results" },
+  { value: "analyst", label: "Analyst — also runs and shares analyses" },
+  { value: "owner", label: "Owner — also manages members" },
+];
+
+function MyInvitations() {
+  const utils = trpc.useUtils();
+  const { data: invitations } = trpc.organizations.myInvitations.useQuery();
+
+  const acceptMutation = trpc.organizations.accept.useMutation({
+    onSuccess: () => {
+      utils.invalidate();
+      toast.success("Invitation accepted");
+    },
+    onError: (err) => toast.error(err.message || "Failed to accept invitation"),
+  });
+
+  const declineMutation = trpc.organizations.decline.useMutation({
+    onSuccess: () => utils.organizations.myInvitations.invalidate(),
+    onError: (err) => toast.error(err.message || "Failed to decline invitation"),
+  });
+
+  if (!invitations || invitations.length === 0) return null;
+
+  return (
+    <Card className="border-2 border-blue-200 bg-blue-50 p-6 mb-6">
+      <h2 className="text-lg font-semibold text-slate-900 mb-4">Invitations</h2>
+      <div className="space-y-3">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-slate-700">
+              Join <span className="font-semibold">{invitation.organizationName}</span> as{" "}
+              <span className="capitalize">{invitation.role}</span>
+              <span className="text-slate-500">
+                {" "}
+                • expires {format(new Date(invitation.expiresAt), "MMM d, yyyy")}
+              </span>
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={acceptMutation.isPending}
+                onClick={() => acceptMutation.mutate({ id: invitation.id })}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={declineMutation.isPending}
+                onClick={() => declineMutation.mutate({ id: invitation.id })}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+function Members({ organizationId, role, userId }: { organizationId: number; role: Role; userId: number }) {
+  const utils = trpc.useUtils();
+  const isOwner = role === "owner";
+  const [invitee, setInvitee] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("viewer");
+
+  const { data: members, isLoading } = trpc.organizations.members.useQuery({ organizationId });
+  const { data: invitations } = trpc.organizations.listInvitations.useQuery(
+    { organizationId },
+    { enabled: isOwner }
+  );
+
+  const updateRoleMutation = trpc.organizations.updateMemberRole.useMutation({
+    onSuccess: () => utils.organizations.invalidate(),
+    onError: (err) => toast.error(err.message || "Failed to change role"),
+  });
+
+  const removeMutation = trpc.organizations.removeMember.useMutation({
+    onSuccess: (_, { userId: removed }) => {
+      // Leaving drops us back into the personal workspace
+      if (removed === userId) utils.invalidate();
+      else utils.organizations.members.invalidate({ organizationId });
+    },
+    onError: (err) => toast.error(err.message || "Failed to remove member"),
+  });
+
+  const inviteMutation = trpc.organizations.invite.useMutation({
+    onSuccess: () => {
+      utils.organizations.listInvitations.invalidate({ organizationId });
+      setInvitee("");
+      toast.success("Invitation sent. It shows up on their Team page after they sign in.");
+    },
+    onError: (err) => toast.error(err.message || "Failed to send invitation"),
+  });
+
+  const revokeMutation = trpc.organizations.revokeInvitation.useMutation({
+    onSuccess: () => utils.organizations.listInvitations.invalidate({ organizationId }),
+    onError: (err) => toast.error(err.message || "Failed to revoke invitation"),
+  });
+
+  if (isLoading) {
+    return <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto" />;
+  }
+
+  return (
+    <>
+      {isOwner && (
+        <Card className="border-2 border-slate-200 p-6 mb-6 bg-white">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const value = invitee.trim();
+              inviteMutation.mutate(
+                value.includes("@")
+                  ? { organizationId, email: value, role: inviteRole }
+                  : { organizationId, username: value, role: inviteRole }
+              );
+            }}
+            className="grid gap-4 md:grid-cols-[2fr_1fr_auto] md:items-end"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="invitee">Username or email</Label>
+              <Input
+                id="invitee"
+                value={invitee}
+                onChange={(e) => setInvitee(e.target.value)}
+                placeholder="jane or jane@example.com"
+                maxLength={320}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="submit"
+              disabled={!invitee.trim() || inviteMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {inviteMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <UserPlus className="w-4 h-4 mr-2" />
+              )}
+              Invite
+            </Button>
+          </form>
+
+          {invitations && invitations.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <p className="text-sm font-semibold text-slate-700">Pending invitations</p>
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between text-sm">
+                  <span className="text-slate-700">
+                    {invitation.username ?? invitation.email}{" "}
+                    <span className="text-slate-500 capitalize">({invitation.role})</span>
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate({ id: invitation.id })}
+                    className="text-red-600"
+                  >
+                    <Ban className="w-4 h-4 mr-1" />
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+
+      <div className="overflow-x-auto bg-white rounded-lg border border-slate-200">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-200 bg-slate-50">
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Member</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Role</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-slate-900">Joined</th>
+              <th className="px-6 py-4 text-right text-sm font-semibold text-slate-900">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {members?.map((member) => (
+              <tr key={member.userId} className="border-b border-slate-200 hover:bg-slate-50">
+                <td className="px-6 py-4">
+                  <p className="text-sm font-medium text-slate-900">{member.name || member.username}</p>
+                  <p className="text-xs text-slate-600 mt-1">
+                    {member.username}
+                    {member.email ? ` • ${member.email}` : ""}
+                  </p>
+                </td>
+                <td className="px-6 py-4">
+                  {isOwner ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) =>
+                        updateRoleMutation.mutate({ organizationId, userId: member.userId, role: value as Role })
+                      }
+                      disabled={updateRoleMutation.isPending}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value} className="capitalize">
+                            {option.value}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-sm text-slate-700 capitalize">{member.role}</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-600">
+                  {format(new Date(member.joinedAt), "MMM d, yyyy")}
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex justify-end">
+                    {(isOwner || member.userId === userId) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={removeMutation.isPending}
+                        onClick={() => removeMutation.mutate({ organizationId, userId: member.userId })}
+                        className="text-red-600"
+                      >
+                        {member.userId === userId ? (
+                          <>
+                            <LogOut className="w-4 h-4 mr-1" />
+                            Leave
+                          </>
+                        ) : (
+                          <>
+                            <X className="w-4 h-4 mr-1" />
+                            Remove
+                          </>
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+export default function Team() {
+  const [, navigate] = useLocation();
+  const utils = trpc.useUtils();
+  const [name, setName] = useState("");
+
+  const { data: user } = trpc.auth.me.useQuery();
+  const { data, isLoading, error } = trpc.organizations.list.useQuery();
+
+  const createMutation = trpc.organizations.create.useMutation({
+    onSuccess: (org) => {
+      utils.invalidate();
+      setName("");
+      toast.success(`Created ${org.name}`);
+    },
+    onError: (err) => toast.error(err.message || "Failed to create organization"),
+  });
+
+  const active = data?.organizations.find((org) => org.id === data.activeOrganizationId);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+        <div className="max-w-6xl mx-auto text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto" />
+          <p className="text-slate-600 mt-4">Loading your team...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between">
+          <Button
+            onClick={() => navigate("/history")}
+            variant="outline"
+            className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <WorkspaceSwitcher />
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 mb-2">{active ? active.name : "Team"}</h1>
+          <p className="text-slate-600">
+            Members of an organization share its detection history, statistics and share links
+          </p>
+        </div>
+
+        <MyInvitations />
+
+        <Card className="border-2 border-slate-200 p-6 mb-6 bg-white">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate({ name });
+            }}
+            className="flex flex-col gap-4 md:flex-row md:items-end"
+          >
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="organization-name">New organization</Label>
+              <Input
+                id="organization-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Trust & Safety"
+                maxLength={100}
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={!name.trim() || createMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Users className="w-4 h-4 mr-2" />
+              )}
+              Create
+            </Button>
+          </form>
+        </Card>
+
+        {error ? (
+          <Card className="border-2 border-red-200 bg-red-50 p-6">
+            <p className="text-red-900">Failed to load your organizations. Please try again.</p>
+          </Card>
+        ) : active && user ? (
+          <Members organizationId={active.id} role={active.role} userId={user.id} />
+        ) : (
+          <Card className="border-2 border-slate-200 p-12 text-center bg-white">
+            <h2 className="text-2xl font-semibold text-slate-900 mb-2">You're in your personal workspace</h2>
+            <p className="text-slate-600">
+              Create an organization above, or switch to one you belong to, to manage its members
+            </p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,9 +6,12 @@ import { Loader2, AlertCircle, ArrowLeft } from "lucide-react";
 import { useLocation } from "wouter";
 import { toast } from "sonner";
 import EnhancedResultCard from "@/components/EnhancedResultCard";
+import GlobalCacheSharing from "@/components/GlobalCacheSharing";
+import QuotaUsage, { QuotaExceededNotice, getQuotaErrorMessage } from "@/components/QuotaUsage";
 
 interface AnalysisResult {
   success: boolean;
+  id?: number | null;
   verdict: "ai" | "human";
   confidence: string;
   detectedGenerator: string | null;
@@ -21,8 +24,12 @@ export default function TextDetectionPage() {
   const [text, setText] = useState("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [quotaError, setQuotaError] = useState<string | null>(null);
 
-  const analyzeTextMutation = trpc.detection.analyzeText.useMutation();
+  const utils = trpc.useUtils();
+  const analyzeTextMutation = trpc.detection.analyzeText.useMutation({
+    onSettled: () => utils.detection.usage.invalidate(),
+  });
 
   const handleAnalyze = async () => {
     if (!text.trim()) {
@@ -36,6 +43,7 @@ export default function TextDetectionPage() {
     }
 
     setIsAnalyzing(true);
+    setQuotaError(null);
     try {
       const response = await analyzeTextMutation.mutateAsync({
         text: text.trim(),
@@ -45,7 +53,10 @@ export default function TextDetectionPage() {
       toast.success("Analysis complete!");
     } catch (error: any) {
       console.error("Analysis error:", error);
-      if (error?.message) {
+      const quotaMessage = getQuotaErrorMessage(error);
+      if (quotaMessage) {
+        setQuotaError(quotaMessage);
+      } else if (error?.message) {
         toast.error(error.message);
       } else {
         toast.error("Failed to analyze text. Please try again.");
@@ -97,6 +108,10 @@ export default function TextDetectionPage() {
           <p className="text-slate-600">Analyze text to detect AI-generated content</p>
         </div>
 
+        <QuotaUsage fileTypes={["text"]} />
+        {quotaError && <QuotaExceededNotice message={quotaError} />}
+        <GlobalCacheSharing />
+
         {/* Input Card */}
         <Card className="border-2 border-slate-200 shadow-lg mb-6">
           <div className="p-8">
@@ -1,17 +1,35 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Loader2, UploadCloud, CheckCircle, ArrowLeft } from "lucide-react";
+import { Loader2, UploadCloud, CheckCircle, ArrowLeft, Circle, XCircle, Files } from "lucide-react";
 import { toast } from "sonner";
 import { useLocation } from "wouter";
+import { nanoid } from "nanoid";
 import EnhancedResultCard from "@/components/EnhancedResultCard";
+import GlobalCacheSharing from "@/components/GlobalCacheSharing";
+import QuotaUsage, { QuotaExceededNotice, getQuotaErrorMessage } from "@/components/QuotaUsage";
+import {
+  ANALYSIS_STAGES,
+  progressFromJob,
+  useAnalysisProgress,
+  type AnalysisProgress,
+} from "@/hooks/useAnalysisProgress";
+import { type FileType, uploadFileToApi, validateMediaFile } from "@/lib/mediaFiles";
 
-type FileType = "image" | "audio" | "video";
 type AudioType = "voice" | "music";
+type AnalysisPhase = "idle" | "uploading" | "analyzing" | "queued" | "running";
+
+const PHASE_LABELS: Record<Exclude<AnalysisPhase, "idle">, string> = {
+  uploading: "Uploading file...",
+  analyzing: "Analyzing...",
+  queued: "Waiting in queue...",
+  running: "Analyzing in the background...",
+};
 
 interface AnalysisResult {
   success: boolean;
+  id?: number | null;
   verdict: "ai" | "human";
   confidence: string;
   detectedGenerator: string | null;
@@ -19,75 +37,70 @@ interface AnalysisResult {
   processingTimeMs: number;
 }
 
-async function uploadLargeFileToApi(file: File): Promise<{ fileUrl: string }> {
-  const form = new FormData();
-  form.append("file", file);
-
-  const resp = await fetch("/api/upload", {
-    method: "POST",
-    body: form,
-    credentials: "include",
-  });
-
-  if (!resp.ok) {
-    const text = await resp.text().catch(() => "");
-    throw new Error(`Upload API failed: ${resp.status} ${text}`);
-  }
-
-  const json = await resp.json();
-  if (!json?.fileUrl) throw new Error("Upload API returned no fileUrl");
-  return { fileUrl: json.fileUrl };
-}
-
 export default function UploadPage() {
   const [, navigate] = useLocation();
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [fileType, setFileType] = useState<FileType | null>(null);
   const [audioType, setAudioType] = useState<AudioType>("voice");
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysisProgress, setAnalysisProgress] = useState(0);
+  const [phase, setPhase] = useState<AnalysisPhase>("idle");
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [progressId, setProgressId] = useState<string | null>(null);
+  const [jobProgress, setJobProgress] = useState<AnalysisProgress | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [quotaError, setQuotaError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const progressIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  const isAnalyzing = phase !== "idle";
+  const streamed = useAnalysisProgress(progressId);
+  // Without a stream (serverless), show the stages the job saved instead
+  const progress = streamed.available ? streamed : (jobProgress ?? streamed);
 
   const analyzeImageMutation = trpc.detection.analyzeImage.useMutation();
   const analyzeAudioMutation = trpc.detection.analyzeAudio.useMutation();
-  const analyzeVideoMutation = trpc.detection.analyzeVideo.useMutation();
-
-  const handleDrag = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    if (e.type === "dragenter" || e.type === "dragover") setDragActive(true);
-    if (e.type === "dragleave") setDragActive(false);
-  };
-
-  const validateFile = (file: File): { valid: boolean; type?: FileType; error?: string } => {
-    const imageTypes = ["image/jpeg", "image/png", "image/webp"];
-    const audioTypes = ["audio/mpeg", "audio/wav", "audio/x-m4a", "audio/mp4"];
-    const videoTypes = ["video/mp4", "video/quicktime", "video/webm"];
+  const enqueueAnalysisMutation = trpc.detection.enqueueAnalysis.useMutation();
+  const utils = trpc.useUtils();
+  const usageQuery = trpc.detection.usage.useQuery();
+
+  // Large files are analyzed by the job worker; poll until it is done
+  const jobQuery = trpc.detection.getJob.useQuery(
+    { jobId: jobId ?? 0 },
+    {
+      enabled: jobId !== null,
+      refetchInterval: (query) => {
+        const status = query.state.data?.status;
+        return status === "succeeded" || status === "failed" ? false : 1500;
+      },
+    }
+  );
 
-    const imageSizeLimit = 10 * 1024 * 1024;
-    const audioSizeLimit = 50 * 1024 * 1024;
-    const videoSizeLimit = 100 * 1024 * 1024;
+  useEffect(() => {
+    const job = jobQuery.data;
+    if (!job || jobId === null) return;
+    setJobProgress(progressFromJob(job));
 
-    if (imageTypes.includes(file.type)) {
-      if (file.size > imageSizeLimit) return { valid: false, error: "Image exceeds 10MB limit" };
-      return { valid: true, type: "image" };
+    if (job.status === "queued" || job.status === "running") {
+      setPhase(job.status);
+      return;
     }
 
-    if (audioTypes.includes(file.type)) {
-      if (file.size > audioSizeLimit) return { valid: false, error: "Audio exceeds 50MB limit" };
-      return { valid: true, type: "audio" };
-    }
+    setJobId(null);
+    setPhase("idle");
+    utils.detection.usage.invalidate();
 
-    if (videoTypes.includes(file.type)) {
-      if (file.size > videoSizeLimit) return { valid: false, error: "Video exceeds 100MB limit" };
-      return { valid: true, type: "video" };
+    if (job.status === "succeeded" && job.result) {
+      setResult(job.result);
+      toast.success("Analysis complete!");
+    } else {
+      toast.error(job.error || "Analysis failed. Please try again.");
     }
+  }, [jobQuery.data, jobId]);
 
-    return { valid: false, error: "Unsupported file type" };
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === "dragenter" || e.type === "dragover") setDragActive(true);
+    if (e.type === "dragleave") setDragActive(false);
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -95,11 +108,12 @@ export default function UploadPage() {
     e.stopPropagation();
     setDragActive(false);
     const files = e.dataTransfer.files;
+    if (files.length > 1) toast.info("Only the first file is analyzed here. Use batch upload for several files.");
     if (files && files[0]) handleFileSelect(files[0]);
   };
 
   const handleFileSelect = (file: File) => {
-    const validation = validateFile(file);
+    const validation = validateMediaFile(file, usageQuery.data);
     if (!validation.valid) {
       toast.error(validation.error || "Invalid file");
       return;
@@ -119,83 +133,79 @@ export default function UploadPage() {
       return;
     }
 
-    setIsAnalyzing(true);
-    setAnalysisProgress(10);
-
-    progressIntervalRef.current = setInterval(() => {
-      setAnalysisProgress((prev) => Math.min(prev + Math.random() * 30, 90));
-    }, 500);
+    const currentProgressId = nanoid();
+    setProgressId(currentProgressId);
+    setJobProgress(null);
+    setQuotaError(null);
 
     try {
-      setAnalysisProgress(20);
-      let analysisResult: any;
-
       // 🔥 КЛЮЧЕВОЕ: большие файлы грузим НЕ через tRPC/JSON, а через /api/upload (multipart)
       const isLarge =
         fileType === "video" || (fileType === "audio" && selectedFile.size > 4 * 1024 * 1024);
 
       if (isLarge) {
-        setAnalysisProgress(35);
-
-        const { fileUrl } = await uploadLargeFileToApi(selectedFile);
-
-        setAnalysisProgress(65);
-
-        if (fileType === "video") {
-          analysisResult = await analyzeVideoMutation.mutateAsync({
-            fileName: selectedFile.name,
-            fileUrl,
-            mimeType: selectedFile.type,
-          });
-        } else {
-          analysisResult = await analyzeAudioMutation.mutateAsync({
-            fileName: selectedFile.name,
-            fileUrl,
-            mimeType: selectedFile.type,
-            audioType,
-          });
-        }
-      } else {
-        // маленькие файлы — оставляем base64 как было
-        const reader = new FileReader();
-        const fileData = await new Promise<string>((resolve, reject) => {
-          reader.onload = (e) => resolve((e.target?.result as string).split(",")[1]);
-          reader.onerror = reject;
-          reader.readAsDataURL(selectedFile);
+        setPhase("uploading");
+
+        const { fileUrl } = await uploadFileToApi(selectedFile);
+
+        const job = await enqueueAnalysisMutation.mutateAsync({
+          fileType: fileType === "video" ? "video" : "audio",
+          fileName: selectedFile.name,
+          fileUrl,
+          mimeType: selectedFile.type,
+          audioType: fileType === "audio" ? audioType : undefined,
+          progressId: currentProgressId,
         });
 
-        setAnalysisProgress(45);
-
-        if (fileType === "image") {
-          analysisResult = await analyzeImageMutation.mutateAsync({
-            fileName: selectedFile.name,
-            fileData,
-            mimeType: selectedFile.type,
-          });
-        } else if (fileType === "audio") {
-          analysisResult = await analyzeAudioMutation.mutateAsync({
-            fileName: selectedFile.name,
-            fileData,
-            mimeType: selectedFile.type,
-            audioType,
-          });
-        }
+        setPhase("queued");
+        setJobId(job.jobId);
+        return;
+      }
+
+      // маленькие файлы — оставляем base64 как было
+      setPhase("analyzing");
+      const reader = new FileReader();
+      const fileData = await new Promise<string>((resolve, reject) => {
+        reader.onload = (e) => resolve((e.target?.result as string).split(",")[1]);
+        reader.onerror = reject;
+        reader.readAsDataURL(selectedFile);
+      });
+
+      let analysisResult: AnalysisResult | undefined;
+      if (fileType === "image") {
+        analysisResult = await analyzeImageMutation.mutateAsync({
+          fileName: selectedFile.name,
+          fileData,
+          mimeType: selectedFile.type,
+          progressId: currentProgressId,
+        });
+      } else if (fileType === "audio") {
+        analysisResult = await analyzeAudioMutation.mutateAsync({
+          fileName: selectedFile.name,
+          fileData,
+          mimeType: selectedFile.type,
+          audioType,
+          progressId: currentProgressId,
+        });
       }
 
+      utils.detection.usage.invalidate();
       if (analysisResult) {
-        setAnalysisProgress(100);
         setResult(analysisResult);
         toast.success("Analysis complete!");
       } else {
         toast.error("Server returned no result. Check logs.");
       }
+      setPhase("idle");
     } catch (error: any) {
       console.error("Analysis error details:", error);
-      toast.error(error?.message || "Unknown error");
-    } finally {
-      if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-      setIsAnalyzing(false);
-      setTimeout(() => setAnalysisProgress(0), 500);
+      const quotaMessage = getQuotaErrorMessage(error);
+      if (quotaMessage) {
+        setQuotaError(quotaMessage);
+      } else {
+        toast.error(error?.message || "Unknown error");
+      }
+      setPhase("idle");
     }
   };
 
@@ -203,8 +213,11 @@ export default function UploadPage() {
     setSelectedFile(null);
     setFileType(null);
     setResult(null);
-    setAnalysisProgress(0);
+    setPhase("idle");
+    setJobId(null);
+    setProgressId(null);
     setAudioType("voice");
+    setQuotaError(null);
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
@@ -223,7 +236,7 @@ export default function UploadPage() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
-      <div className="max-w-4xl mx-auto mb-6">
+      <div className="max-w-4xl mx-auto mb-6 flex justify-between">
         <Button
           onClick={() => navigate("/")}
           variant="outline"
@@ -232,6 +245,14 @@ export default function UploadPage() {
           <ArrowLeft className="w-4 h-4" />
           Back
         </Button>
+        <Button
+          onClick={() => navigate("/batch")}
+          variant="outline"
+          className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+        >
+          <Files className="w-4 h-4" />
+          Batch upload
+        </Button>
       </div>
 
       <div className="max-w-2xl mx-auto">
@@ -240,6 +261,10 @@ export default function UploadPage() {
           <p className="text-slate-600">Upload an image, audio, or video file to detect if it's AI-generated</p>
         </div>
 
+        <QuotaUsage fileTypes={["image", "audio", "video"]} />
+        {quotaError && <QuotaExceededNotice message={quotaError} />}
+        <GlobalCacheSharing />
+
         <Card className="border-2 border-slate-200 shadow-lg mb-8">
           <div
             className={`p-12 border-2 border-dashed rounded-lg transition-all duration-200 ${
@@ -320,18 +345,43 @@ export default function UploadPage() {
           </Card>
         )}
 
-        {isAnalyzing && (
+        {(isAnalyzing || progress.failure) && (
           <Card className="border border-slate-200 shadow-md p-6 mb-6 bg-white">
-            <div className="flex items-center justify-between mb-3">
-              <span className="text-sm font-semibold text-slate-900">Analysis Progress</span>
-              <span className="text-sm font-semibold text-blue-600">{Math.round(analysisProgress)}%</span>
-            </div>
-            <div className="w-full bg-slate-200 rounded-full h-2 overflow-hidden">
-              <div
-                className="bg-gradient-to-r from-blue-500 to-blue-600 h-full rounded-full transition-all duration-300"
-                style={{ width: `${analysisProgress}%` }}
-              />
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold text-slate-900">Analysis Status</span>
+              {isAnalyzing ? (
+                <span className="text-sm font-semibold text-blue-600">{PHASE_LABELS[phase]}</span>
+              ) : (
+                <span className="text-sm font-semibold text-red-600">Failed</span>
+              )}
             </div>
+            {progress.available && (
+              <ul className="mt-4 space-y-2">
+                {ANALYSIS_STAGES.map(({ key, label }) => {
+                  const state = progress.stages[key];
+                  return (
+                    <li key={key} className="flex items-center gap-2 text-sm">
+                      {state === "done" && <CheckCircle className="w-4 h-4 text-green-500" />}
+                      {state === "active" && <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />}
+                      {state === "failed" && <XCircle className="w-4 h-4 text-red-500" />}
+                      {state === "pending" && <Circle className="w-4 h-4 text-slate-300" />}
+                      <span className={state === "pending" ? "text-slate-400" : "text-slate-700"}>{label}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {progress.failure && (
+              <p className="text-xs text-red-600 mt-3">
+                Failed while {ANALYSIS_STAGES.find((s) => s.key === progress.failure?.stage)?.label.toLowerCase()}
+                {progress.failure.message ? `: ${progress.failure.message}` : ""}
+              </p>
+            )}
+            {jobQuery.data && jobQuery.data.attempts > 1 && (
+              <p className="text-xs text-slate-500 mt-2">
+                Retrying (attempt {jobQuery.data.attempts} of {jobQuery.data.maxAttempts})
+              </p>
+            )}
           </Card>
         )}
 
@@ -344,7 +394,7 @@ export default function UploadPage() {
             {isAnalyzing ? (
               <>
                 <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                Analyzing...
+                {PHASE_LABELS[phase]}
               </>
             ) : (
               "Analyze File"
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, ArrowLeft, Copy, Send, RefreshCw, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const DELIVERY_STYLES = {
+  pending: "bg-amber-100 text-amber-700",
+  sending: "bg-blue-100 text-blue-700",
+  succeeded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+function DeliveryLog({ webhookId }: { webhookId: number }) {
+  const { data: deliveries, isLoading } = trpc.webhooks.deliveries.useQuery({ id: webhookId, limit: 25 });
+
+  if (isLoading) {
+    return <Loader2 className="w-5 h-5 animate-spin text-blue-600 my-4" />;
+  }
+
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-sm text-slate-600 mt-4">No deliveries yet</p>;
+  }
+
+  return (
+    <table className="w-full mt-4 text-sm">
+      <thead>
+        <tr className="border-b border-slate-200 text-left text-slate-700">
+          <th className="py-2 pr-4 font-semibold">Event</th>
+          <th className="py-2 pr-4 font-semibold">Status</th>
+          <th className="py-2 pr-4 font-semibold">Attempts</th>
+          <th className="py-2 pr-4 font-semibold">Response</th>
+          <th className="py-2 font-semibold">Created</th>
+        </tr>
+      </thead>
+      <tbody>
+        {deliveries.map((delivery) => (
+          <tr key={delivery.id} className="border-b border-slate-100">
+            <td className="py-2 pr-4 font-mono text-xs">{delivery.event}</td>
+            <td className="py-2 pr-4">
+              <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STYLES[delivery.status]}`}>
+                {delivery.status}
+              </span>
+            </td>
+            <td className="py-2 pr-4">
+              {delivery.attempts}/{delivery.maxAttempts}
+            </td>
+            <td className="py-2 pr-4 text-slate-600">
+              {delivery.lastError ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "—")}
+            </td>
+            <td className="py-2 text-slate-600">{format(new Date(delivery.createdAt), "MMM d, HH:mm:ss")}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function Webhooks() {
+  const [, navigate] = useLocation();
+  const utils = trpc.useUtils();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [secret, setSecret] = useState<string | null>(null);
+  const [openLog, setOpenLog] = useState<number | null>(null);
+
+  const { data: hooks, isLoading, error } = trpc.webhooks.list.useQuery();
+
+  const createMutation = trpc.webhooks.create.useMutation({
+    onSuccess: (hook) => {
+      utils.webhooks.list.invalidate();
+      setSecret(hook.secret);
+      setUrl("");
+      setDescription("");
+    },
+    onError: (err) => toast.error(err.message || "Failed to create webhook"),
+  });
+
+  const updateMutation = trpc.webhooks.update.useMutation({
+    onSuccess: () => utils.webhooks.list.invalidate(),
+    onError: (err) => toast.error(err.message || "Failed to update webhook"),
+  });
+
+  const rotateMutation = trpc.webhooks.rotateSecret.useMutation({
+    onSuccess: ({ secret }) => {
+      setSecret(secret);
+      toast.success("Signing secret rotated");
+    },
+    onError: (err) => toast.error(err.message || "Failed to rotate secret"),
+  });
+
+  const deleteMutation = trpc.webhooks.delete.useMutation({
+    onSuccess: () => {
+      utils.webhooks.list.invalidate();
+      toast.success("Webhook deleted");
+    },
+    onError: (err) => toast.error(err.message || "Failed to delete webhook"),
+  });
+
+  const testMutation = trpc.webhooks.sendTest.useMutation({
+    onSuccess: (result, { id }) => {
+      utils.webhooks.deliveries.invalidate({ id });
+      if (result.status === "succeeded") {
+        toast.success(`Test event delivered (HTTP ${result.responseStatus})`);
+      } else {
+        toast.error(`Test event failed: ${result.error}`);
+      }
+    },
+    onError: (err) => toast.error(err.message || "Failed to send test event"),
+  });
+
+  const copySecret = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    toast.success("Signing secret copied to clipboard!");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+        <div className="max-w-6xl mx-auto text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto" />
+          <p className="text-slate-600 mt-4">Loading your webhooks...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6">
+          <Button
+            onClick={() => navigate("/api-keys")}
+            variant="outline"
+            className="flex items-center gap-2 border-slate-300 text-slate-700 hover:bg-slate-100"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 mb-2">Webhooks</h1>
+          <p className="text-slate-600">
+            We POST <code className="text-sm">detection.completed</code> and{" "}
+            <code className="text-sm">detection.failed</code> events to your endpoints. Verify the{" "}
+            <code className="text-sm">X-Webhook-Signature</code> header (
+            <code className="text-sm">t=…,v1=HMAC-SHA256(secret, "t.body")</code>).
+          </p>
+        </div>
+
+        <Card className="border-2 border-slate-200 p-6 mb-6 bg-white">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate({ url, description: description || undefined });
+            }}
+            className="grid gap-4 md:grid-cols-[2fr_1fr_auto] md:items-end"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/hooks/detections"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+                maxLength={255}
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={!url || createMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <WebhookIcon className="w-4 h-4 mr-2" />
+              )}
+              Add endpoint
+            </Button>
+          </form>
+
+          {secret && (
+            <div className="mt-6 rounded-lg border border-amber-300 bg-amber-50 p-4">
+              <p className="text-sm text-amber-900 mb-2">
+                Copy this signing secret now. It won't be shown again.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={secret} className="font-mono text-sm bg-white" />
+                <Button variant="outline" onClick={copySecret}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {error ? (
+          <Card className="border-2 border-red-200 bg-red-50 p-6">
+            <p className="text-red-900">Failed to load webhooks. Please try again.</p>
+          </Card>
+        ) : !hooks || hooks.length === 0 ? (
+          <Card className="border-2 border-slate-200 p-12 text-center bg-white">
+            <h2 className="text-2xl font-semibold text-slate-900 mb-2">No webhooks yet</h2>
+            <p className="text-slate-600">Add an endpoint above to get notified when analyses finish</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {hooks.map((hook) => (
+              <Card key={hook.id} className="border-2 border-slate-200 p-6 bg-white">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-mono text-sm text-slate-900 truncate">{hook.url}</p>
+                    <p className="text-xs text-slate-600 mt-1">
+                      {hook.description ? `${hook.description} • ` : ""}
+                      Added {format(new Date(hook.createdAt), "MMM d, yyyy")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={hook.active}
+                      onCheckedChange={(active) => updateMutation.mutate({ id: hook.id, active })}
+                      aria-label="Active"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={testMutation.isPending}
+                      onClick={() => testMutation.mutate({ id: hook.id })}
+                    >
+                      <Send className="w-4 h-4 mr-1" />
+                      Send test
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={rotateMutation.isPending}
+                      onClick={() => rotateMutation.mutate({ id: hook.id })}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      New secret
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setOpenLog(openLog === hook.id ? null : hook.id)}
+                    >
+                      Deliveries
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate({ id: hook.id })}
+                      className="text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {openLog === hook.id && <DeliveryLog webhookId={hook.id} />}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+CREATE TABLE `detection_jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`fileType` enum('image','audio','video','text') NOT NULL,
+	`status` enum('queued','running','succeeded','failed') NOT NULL DEFAULT 'queued',
+	`input` json NOT NULL,
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 3,
+	`lastError` text,
+	`detectionResultId` int,
+	`runAfter` timestamp NOT NULL DEFAULT (now()),
+	`startedAt` timestamp,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `detection_jobs_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1 @@
+ALTER TABLE `detection_results` ADD `textExcerpt` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `share_links` ADD `revokedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `share_links` ADD `passwordHash` varchar(255);--> statement-breakpoint
+ALTER TABLE `share_links` ADD `exposeFile` int DEFAULT 0 NOT NULL;
\ No newline at end of file
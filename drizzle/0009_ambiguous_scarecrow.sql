@@ -0,0 +1,13 @@
+CREATE TABLE `api_keys` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`keyPrefix` varchar(16) NOT NULL,
+	`keyHash` varchar(64) NOT NULL,
+	`scopes` json NOT NULL,
+	`lastUsedAt` timestamp,
+	`revokedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `api_keys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `api_keys_keyHash_unique` UNIQUE(`keyHash`)
+);
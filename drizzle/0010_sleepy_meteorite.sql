@@ -0,0 +1,30 @@
+CREATE TABLE `webhook_deliveries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`webhookId` int NOT NULL,
+	`userId` int NOT NULL,
+	`eventId` varchar(64) NOT NULL,
+	`event` varchar(64) NOT NULL,
+	`payload` json NOT NULL,
+	`status` enum('pending','sending','succeeded','failed') NOT NULL DEFAULT 'pending',
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 6,
+	`responseStatus` int,
+	`lastError` text,
+	`nextAttemptAt` timestamp NOT NULL DEFAULT (now()),
+	`lastAttemptAt` timestamp,
+	`deliveredAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `webhook_deliveries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `webhooks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`url` varchar(2048) NOT NULL,
+	`description` varchar(255),
+	`secret` varchar(128) NOT NULL,
+	`active` int NOT NULL DEFAULT 1,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `webhooks_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,35 @@
+CREATE TABLE `organization_invitations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`invitedByUserId` int NOT NULL,
+	`username` varchar(255),
+	`email` varchar(320),
+	`role` enum('owner','analyst','viewer') NOT NULL DEFAULT 'viewer',
+	`status` enum('pending','accepted','declined','revoked') NOT NULL DEFAULT 'pending',
+	`expiresAt` timestamp NOT NULL,
+	`respondedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `organization_invitations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `organization_members` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`userId` int NOT NULL,
+	`role` enum('owner','analyst','viewer') NOT NULL DEFAULT 'viewer',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `organization_members_id` PRIMARY KEY(`id`),
+	CONSTRAINT `organization_members_org_user_unique` UNIQUE(`organizationId`,`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `organizations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`createdByUserId` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `organizations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `detection_results` ADD `organizationId` int;--> statement-breakpoint
+ALTER TABLE `users` ADD `activeOrganizationId` int;
\ No newline at end of file
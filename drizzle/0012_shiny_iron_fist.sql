@@ -0,0 +1,14 @@
+CREATE TABLE `analysis_failures` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`source` enum('app','api','job') NOT NULL,
+	`fileType` enum('image','audio','video','text') NOT NULL,
+	`fileName` varchar(255),
+	`code` varchar(64) NOT NULL,
+	`message` text NOT NULL,
+	`detail` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `analysis_failures_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `disabledAt` timestamp;
\ No newline at end of file
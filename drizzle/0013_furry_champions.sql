@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `plan` enum('free','pro','enterprise') DEFAULT 'free' NOT NULL;
\ No newline at end of file
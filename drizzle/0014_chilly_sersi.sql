@@ -0,0 +1,14 @@
+CREATE TABLE `vendor_calls` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`organizationId` int,
+	`provider` varchar(64),
+	`fileType` enum('image','audio','video','text') NOT NULL,
+	`bytes` int NOT NULL,
+	`durationMs` int NOT NULL,
+	`cacheHit` int NOT NULL DEFAULT 0,
+	`success` int NOT NULL DEFAULT 1,
+	`estimatedCost` decimal(10,4) NOT NULL DEFAULT '0',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `vendor_calls_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `detection_results` ADD `providerVersion` varchar(255);--> statement-breakpoint
+ALTER TABLE `users` ADD `shareResultsGlobally` int DEFAULT 0 NOT NULL;
\ No newline at end of file
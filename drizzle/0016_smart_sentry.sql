@@ -0,0 +1,3 @@
+ALTER TABLE `detection_results` ADD `mediaPurgedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `organizations` ADD `mediaRetentionDays` int;--> statement-breakpoint
+ALTER TABLE `users` ADD `mediaRetentionDays` int;
\ No newline at end of file
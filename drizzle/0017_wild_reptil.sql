@@ -0,0 +1,9 @@
+CREATE TABLE `account_deletions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`receiptId` varchar(64) NOT NULL,
+	`userId` int NOT NULL,
+	`summary` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `account_deletions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `account_deletions_receiptId_unique` UNIQUE(`receiptId`)
+);
@@ -0,0 +1,14 @@
+CREATE TABLE `takeout_exports` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`status` enum('queued','running','succeeded','failed') NOT NULL DEFAULT 'queued',
+	`attempts` int NOT NULL DEFAULT 0,
+	`lastError` text,
+	`s3Key` varchar(512),
+	`fileSize` int,
+	`expiresAt` timestamp,
+	`startedAt` timestamp,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `takeout_exports_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,10 @@
+CREATE TABLE `detection_batches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`organizationId` int,
+	`name` varchar(255) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `detection_batches_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `detection_jobs` ADD `batchId` int;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `analysis_usage` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`fileType` enum('image','audio','video','text') NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `analysis_usage_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+INSERT INTO `analysis_usage` (`userId`, `fileType`, `createdAt`) SELECT `userId`, `fileType`, `createdAt` FROM `detection_results` WHERE `isDuplicate` = 0;
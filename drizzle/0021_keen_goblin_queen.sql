@@ -0,0 +1,2 @@
+ALTER TABLE `detection_jobs` ADD `stage` varchar(32);--> statement-breakpoint
+ALTER TABLE `detection_jobs` ADD `failedStage` varchar(32);
\ No newline at end of file
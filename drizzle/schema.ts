@@ -1,4 +1,4 @@
-import { int, json, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal } from "drizzle-orm/mysql-core";
+import { int, json, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, uniqueIndex } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -17,6 +17,11 @@ export const users = mysqlTable("users", {
   name: text("name"),
   email: varchar("email", { length: 320 }),
   role: mysqlEnum("role", ["user", "admin"]).default("user").notNull(),
+  plan: mysqlEnum("plan", ["free", "pro", "enterprise"]).default("free").notNull(), // Quota tier, see server/quotas.ts
+  activeOrganizationId: int("activeOrganizationId"), // Workspace the user is working in; null = personal
+  disabledAt: timestamp("disabledAt"), // Set by an admin; disabled users can't sign in or use API keys
+  shareResultsGlobally: int("shareResultsGlobally").default(0).notNull(), // Opt-in: verdicts may answer other users' identical uploads
+  mediaRetentionDays: int("mediaRetentionDays"), // Personal workspace: delete stored media after N days; null = keep forever
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
@@ -27,7 +32,8 @@ export type InsertUser = typeof users.$inferInsert;
 
 export const detectionResults = mysqlTable("detection_results", {
   id: int("id").autoincrement().primaryKey(),
-  userId: int("userId").notNull(),
+  userId: int("userId").notNull(), // Who ran the analysis
+  organizationId: int("organizationId"), // Owning team workspace; null = the user's personal workspace
   fileName: varchar("fileName", { length: 255 }).notNull(),
   fileType: mysqlEnum("fileType", ["image", "audio", "video", "text"]).notNull(),
   fileSize: int("fileSize"),
@@ -41,6 +47,9 @@ export const detectionResults = mysqlTable("detection_results", {
   processingTimeMs: int("processingTimeMs"),
   isDuplicate: int("isDuplicate").default(0).notNull(), // 1 if cached from previous analysis
   duplicateOfId: int("duplicateOfId"), // Reference to original analysis if duplicate
+  providerVersion: varchar("providerVersion", { length: 255 }), // Provider(s) and settings that produced the verdict
+  textExcerpt: text("textExcerpt"), // Start of the analyzed text, shown in reports
+  mediaPurgedAt: timestamp("mediaPurgedAt"), // Stored file (and text excerpt) deleted by the retention policy
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -56,7 +65,249 @@ export const shareLinks = mysqlTable("share_links", {
   lastViewedAt: timestamp("lastViewedAt"), // Track when it was last viewed
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   expiresAt: timestamp("expiresAt"), // Optional expiration date
+  revokedAt: timestamp("revokedAt"), // Set when the owner revokes or regenerates the link
+  passwordHash: varchar("passwordHash", { length: 255 }), // scrypt hash; null = no password
+  exposeFile: int("exposeFile").default(0).notNull(), // 1 to show the original file, 0 = verdict only
 });
 
 export type ShareLink = typeof shareLinks.$inferSelect;
 export type InsertShareLink = typeof shareLinks.$inferInsert;
+
+/**
+ * Background analyses for large audio/video files and batch items.
+ * The client enqueues a job and polls its status; the worker in server/jobs.ts runs it.
+ */
+export const detectionJobs = mysqlTable("detection_jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  fileType: mysqlEnum("fileType", ["image", "audio", "video", "text"]).notNull(),
+  status: mysqlEnum("status", ["queued", "running", "succeeded", "failed"]).default("queued").notNull(),
+  input: json("input").notNull(), // { fileName, fileUrl, mimeType, audioType }
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(3).notNull(),
+  lastError: text("lastError"),
+  stage: varchar("stage", { length: 32 }), // Current analysis stage, for clients polling without a progress stream
+  failedStage: varchar("failedStage", { length: 32 }), // Stage the last attempt failed in, next to lastError
+  detectionResultId: int("detectionResultId"), // Set once the job succeeded
+  batchId: int("batchId"), // detection_batches.id when queued as part of a batch
+  runAfter: timestamp("runAfter").defaultNow().notNull(), // Retry backoff
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type DetectionJob = typeof detectionJobs.$inferSelect;
+export type InsertDetectionJob = typeof detectionJobs.$inferInsert;
+
+/**
+ * Personal API keys for the REST API and Bearer-authenticated tRPC calls.
+ * Only a SHA-256 of the key is stored; the plaintext is shown once at creation.
+ */
+export const apiKeys = mysqlTable("api_keys", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  keyPrefix: varchar("keyPrefix", { length: 16 }).notNull(), // First characters of the key, shown in the UI
+  keyHash: varchar("keyHash", { length: 64 }).notNull().unique(),
+  scopes: json("scopes").$type<string[]>().notNull(), // e.g. ["detections:read", "detections:write"]
+  lastUsedAt: timestamp("lastUsedAt"),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+
+/**
+ * Outbound webhooks. Every event is queued as a webhook_deliveries row and sent
+ * by the worker in server/webhooks.ts, signed with the endpoint's secret.
+ */
+export const webhooks = mysqlTable("webhooks", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  url: varchar("url", { length: 2048 }).notNull(),
+  description: varchar("description", { length: 255 }),
+  secret: varchar("secret", { length: 128 }).notNull(), // HMAC-SHA256 signing secret
+  active: int("active").default(1).notNull(), // 0 = paused, events are not queued
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+
+export const webhookDeliveries = mysqlTable("webhook_deliveries", {
+  id: int("id").autoincrement().primaryKey(),
+  webhookId: int("webhookId").notNull(),
+  userId: int("userId").notNull(),
+  eventId: varchar("eventId", { length: 64 }).notNull(), // Same for every endpoint receiving the event
+  event: varchar("event", { length: 64 }).notNull(), // e.g. detection.completed
+  payload: json("payload").notNull(),
+  status: mysqlEnum("status", ["pending", "sending", "succeeded", "failed"]).default("pending").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(6).notNull(),
+  responseStatus: int("responseStatus"),
+  lastError: text("lastError"),
+  nextAttemptAt: timestamp("nextAttemptAt").defaultNow().notNull(), // Retry backoff
+  lastAttemptAt: timestamp("lastAttemptAt"),
+  deliveredAt: timestamp("deliveredAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+/**
+ * Team workspaces. Results with an organizationId are visible to every member;
+ * roles: owner (manage members), analyst (run analyses, share), viewer (read only).
+ */
+export const organizations = mysqlTable("organizations", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdByUserId: int("createdByUserId").notNull(),
+  mediaRetentionDays: int("mediaRetentionDays"), // Delete stored media after N days; null = keep forever
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = typeof organizations.$inferInsert;
+
+export const organizationMembers = mysqlTable(
+  "organization_members",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    organizationId: int("organizationId").notNull(),
+    userId: int("userId").notNull(),
+    role: mysqlEnum("role", ["owner", "analyst", "viewer"]).default("viewer").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  table => [uniqueIndex("organization_members_org_user_unique").on(table.organizationId, table.userId)]
+);
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = typeof organizationMembers.$inferInsert;
+
+/**
+ * Pending invitations, addressed to a username or an email. The invitee sees them
+ * after signing in and accepts or declines.
+ */
+export const organizationInvitations = mysqlTable("organization_invitations", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  invitedByUserId: int("invitedByUserId").notNull(),
+  username: varchar("username", { length: 255 }),
+  email: varchar("email", { length: 320 }),
+  role: mysqlEnum("role", ["owner", "analyst", "viewer"]).default("viewer").notNull(),
+  status: mysqlEnum("status", ["pending", "accepted", "declined", "revoked"]).default("pending").notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  respondedAt: timestamp("respondedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type InsertOrganizationInvitation = typeof organizationInvitations.$inferInsert;
+
+/**
+ * Analyses that failed, kept for the admin console
+ */
+export const analysisFailures = mysqlTable("analysis_failures", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  source: mysqlEnum("source", ["app", "api", "job"]).notNull(), // Web app, REST/Bearer API or background job
+  fileType: mysqlEnum("fileType", ["image", "audio", "video", "text"]).notNull(),
+  fileName: varchar("fileName", { length: 255 }),
+  code: varchar("code", { length: 64 }).notNull(), // TRPC error code returned to the caller
+  message: text("message").notNull(), // What the caller was told
+  detail: text("detail"), // Underlying error, for debugging
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type AnalysisFailure = typeof analysisFailures.$inferSelect;
+export type InsertAnalysisFailure = typeof analysisFailures.$inferInsert;
+
+/**
+ * One row per detection: every provider call, plus cache hits that never reached a vendor
+ */
+export const vendorCalls = mysqlTable("vendor_calls", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  organizationId: int("organizationId"),
+  provider: varchar("provider", { length: 64 }), // Null for cache hits
+  fileType: mysqlEnum("fileType", ["image", "audio", "video", "text"]).notNull(),
+  bytes: int("bytes").notNull(),
+  durationMs: int("durationMs").notNull(),
+  cacheHit: int("cacheHit").default(0).notNull(), // Boolean: 0 or 1
+  success: int("success").default(1).notNull(), // Boolean: 0 or 1
+  estimatedCost: decimal("estimatedCost", { precision: 10, scale: 4 }).default("0").notNull(), // USD
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type VendorCall = typeof vendorCalls.$inferSelect;
+export type InsertVendorCall = typeof vendorCalls.$inferInsert;
+
+/**
+ * Proof that an account was erased. Holds no personal data: only the former
+ * user id and how many rows and files were removed.
+ */
+export const accountDeletions = mysqlTable("account_deletions", {
+  id: int("id").autoincrement().primaryKey(),
+  receiptId: varchar("receiptId", { length: 64 }).notNull().unique(),
+  userId: int("userId").notNull(), // Id of the erased user; the row itself is gone
+  summary: json("summary").notNull(), // Counts of deleted rows and storage objects
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type AccountDeletion = typeof accountDeletions.$inferSelect;
+export type InsertAccountDeletion = typeof accountDeletions.$inferInsert;
+
+/**
+ * Personal data exports ("takeout"). Built by the worker in server/takeout.ts
+ * as one ZIP in storage; the archive is deleted once it expires.
+ */
+export const takeoutExports = mysqlTable("takeout_exports", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  status: mysqlEnum("status", ["queued", "running", "succeeded", "failed"]).default("queued").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  lastError: text("lastError"),
+  s3Key: varchar("s3Key", { length: 512 }), // The archive; null until built and again once expired
+  fileSize: int("fileSize"),
+  expiresAt: timestamp("expiresAt"), // Download stops working after this
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type TakeoutExport = typeof takeoutExports.$inferSelect;
+export type InsertTakeoutExport = typeof takeoutExports.$inferInsert;
+
+/**
+ * A group of files uploaded together. Each file is a detection_jobs row with
+ * this batchId; the batch's progress is derived from their statuses.
+ */
+export const detectionBatches = mysqlTable("detection_batches", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  organizationId: int("organizationId"), // Workspace the results are filed under; null = personal
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type DetectionBatch = typeof detectionBatches.$inferSelect;
+export type InsertDetectionBatch = typeof detectionBatches.$inferInsert;
+
+/**
+ * One row per analysis that counts toward the user's plan quota. Kept when
+ * results are deleted, so deleting results doesn't hand quota back.
+ */
+export const analysisUsage = mysqlTable("analysis_usage", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  fileType: mysqlEnum("fileType", ["image", "audio", "video", "text"]).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type AnalysisUsage = typeof analysisUsage.$inferSelect;
+export type InsertAnalysisUsage = typeof analysisUsage.$inferInsert;
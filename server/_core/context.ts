@@ -3,28 +3,42 @@ import type { CreateExpressContextOptions } from "@trpc/server/adapters/express"
 import type { Request, Response } from "express";
 import type { User } from "../../drizzle/schema.js";
 import { sdk } from "./sdk.js"; // Добавлено .js
+import { authenticateApiKey, getBearerApiKey, type ApiKeyAuth } from "../apiKeys.js";
 
 export type TrpcContext = {
   req: Request;
   res: Response;
   user: User | null;
+  /** Set when the caller authenticated with an API key instead of the session cookie */
+  apiKey?: ApiKeyAuth | null;
 };
 
 export async function createContext(
   opts: CreateExpressContextOptions
 ): Promise<TrpcContext> {
   let user: User | null = null;
+  let apiKey: ApiKeyAuth | null = null;
 
   try {
-    user = await sdk.authenticateRequest(opts.req);
+    // A Bearer key wins over the cookie; an invalid key doesn't fall back to the session
+    const bearer = getBearerApiKey(opts.req);
+    if (bearer) {
+      const auth = await authenticateApiKey(bearer);
+      user = auth?.user ?? null;
+      apiKey = auth?.apiKey ?? null;
+    } else {
+      user = await sdk.authenticateRequest(opts.req);
+    }
   } catch (error) {
     // Authentication is optional for public procedures.
     user = null;
+    apiKey = null;
   }
 
   return {
     req: opts.req,
     res: opts.res,
     user,
+    apiKey,
   };
 }
@@ -8,7 +8,50 @@ export const ENV = {
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
   aiOrNotApiKey: process.env.AIORNOT_API_KEY ?? "",
-  aiOrNotApiUrl: "https://api.aiornot.com/v2",
+  // Point at the bundled mock (pnpm mock:aiornot) for offline development
+  aiOrNotApiUrl: process.env.AIORNOT_API_URL ?? "https://api.aiornot.com/v2",
+  // Detection backend, see server/detectionProvider.ts
+  detectionProvider: process.env.DETECTION_PROVIDER ?? "aiornot",
+  detectionProviders: {
+    image: process.env.DETECTION_PROVIDER_IMAGE ?? "",
+    audio: process.env.DETECTION_PROVIDER_AUDIO ?? "",
+    video: process.env.DETECTION_PROVIDER_VIDEO ?? "",
+    text: process.env.DETECTION_PROVIDER_TEXT ?? "",
+  },
+  // Comma separated provider names; more than one turns on ensemble mode
+  detectionEnsemble: process.env.DETECTION_ENSEMBLE ?? "",
+  detectionAggregation: process.env.DETECTION_AGGREGATION ?? "mean",
+  // e.g. "aiornot=2,inhouse=1", used by the "weighted" aggregation
+  detectionWeights: process.env.DETECTION_WEIGHTS ?? "",
+  // USD per vendor call by media type, e.g. "image=0.01,video=0.08"; see server/vendorPricing.ts
+  vendorPrices: process.env.VENDOR_PRICES ?? "",
+  // USD; the owner is notified when estimated spend crosses one, see server/vendorCosts.ts
+  vendorBudgets: {
+    daily: process.env.VENDOR_BUDGET_DAILY ?? "",
+    monthly: process.env.VENDOR_BUDGET_MONTHLY ?? "",
+  },
+  // Hours a shared verdict may answer other users' identical uploads; empty or 0 turns the global cache off
+  globalCacheTtlHours: process.env.GLOBAL_CACHE_TTL_HOURS ?? "",
+  // JSON overrides of the per-plan quotas, see server/quotas.ts
+  planLimits: process.env.PLAN_LIMITS ?? "",
+  // JSON overrides of the request rate limits, see server/rateLimit.ts
+  rateLimits: process.env.RATE_LIMITS ?? "",
+  // "forge", "s3" or "local"; empty picks whichever is configured, see server/storage.ts
+  storageDriver: process.env.STORAGE_DRIVER ?? "",
+  // Root directory of the local storage driver, see server/localStorage.ts
+  localStorageDir: process.env.LOCAL_STORAGE_DIR ?? "storage",
+  // Hours before an upload no analysis or queued job refers to is deleted, see server/retention.ts
+  orphanUploadGraceHours: process.env.ORPHAN_UPLOAD_GRACE_HOURS ?? "24",
+  // Detection jobs the worker runs at the same time, see server/jobs.ts
+  jobConcurrency: process.env.JOB_CONCURRENCY ?? "2",
+  // Reverse proxies in front of the app that append to X-Forwarded-For (Vercel's edge is one),
+  // see getClientIp in server/loginThrottle.ts
+  trustedProxyHops: process.env.TRUSTED_PROXY_HOPS ?? (process.env.VERCEL ? "1" : "0"),
+  // Lets webhooks reach localhost and private networks, for local receivers in development only
+  webhookAllowPrivateHosts:
+    process.env.NODE_ENV !== "production" && process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true",
+  // Bearer token expected by /api/jobs/run and /api/jobs/retention
+  cronSecret: process.env.CRON_SECRET ?? "",
   s3: {
     bucket: process.env.S3_BUCKET ?? "",
     region: process.env.S3_REGION ?? "",
@@ -5,8 +5,18 @@ import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth.js";
 import { appRouter } from "../routers.js";
+import { registerJobRoutes, startJobWorker } from "../jobs.js";
+import { registerProgressRoutes } from "../progress.js";
+import { registerExportRoutes } from "../export.js";
+import { registerReportRoutes } from "../report.js";
+import { registerRestApiRoutes } from "../restApi.js";
+import { registerOpenApiRoutes } from "../openapi.js";
+import { registerStorageRoutes } from "../localStorage.js";
+import { registerRetentionRoutes, startRetentionWorker } from "../retention.js";
+import { getTrustedProxyHops } from "../loginThrottle.js";
 import { createContext } from "./context.js";
 import { serveStatic, setupVite } from "./vite.js";
+import { ENV } from "./env.js";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -29,12 +39,21 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 
 async function startServer() {
   const app = express();
+  app.set("trust proxy", getTrustedProxyHops());
   const server = createServer(app);
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "100mb" }));
   app.use(express.urlencoded({ limit: "100mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  registerJobRoutes(app);
+  registerProgressRoutes(app);
+  registerExportRoutes(app);
+  registerReportRoutes(app);
+  registerRestApiRoutes(app);
+  registerOpenApiRoutes(app);
+  registerStorageRoutes(app);
+  registerRetentionRoutes(app);
 
   app.get("/api/health", (_req, res) => {
     res.json({ status: "ok", time: new Date().toISOString() });
@@ -58,6 +77,12 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Background analyses (see server/jobs.ts) and media retention (server/retention.ts)
+  if (ENV.databaseUrl) {
+    startJobWorker();
+    startRetentionWorker();
+  }
 }
 
 startServer().catch(console.error);
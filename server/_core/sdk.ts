@@ -42,7 +42,9 @@ export class Sdk {
       const { payload } = await jwtVerify(token, JWT_SECRET);
       const userId = payload.sub ? parseInt(payload.sub) : null;
       if (!userId) return null;
-      return await getUserById(userId);
+      const user = await getUserById(userId);
+      // Disabling an account ends its existing sessions too
+      return user && !user.disabledAt ? user : null;
     } catch (e) {
       return null;
     }
@@ -2,9 +2,37 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '../../shared/const.js';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import type { ApiKeyScope } from "../apiKeys.js";
+import { assertScopeRole, resolveWorkspace } from "../workspaces.js";
+import { QuotaExceededError } from "../quotas.js";
+import { getClientIp } from "../loginThrottle.js";
+import {
+  consumeRateLimit,
+  rateLimitMessage,
+  retryAfterSeconds,
+  type RateLimitBudget,
+} from "../rateLimit.js";
 
-const t = initTRPC.context<TrpcContext>().create({
+/**
+ * How a procedure authenticates callers; read by the OpenAPI generator
+ */
+export type ProcedureMeta = {
+  auth?: "session" | "apiKey" | "admin";
+  scope?: ApiKeyScope;
+};
+
+const t = initTRPC.context<TrpcContext>().meta<ProcedureMeta>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Lets the client tell a used-up quota apart from other failures
+        quota: error.cause instanceof QuotaExceededError ? error.cause.details : null,
+      },
+    };
+  },
 });
 
 export const router = t.router;
@@ -17,17 +45,53 @@ const requireUser = t.middleware(async opts => {
     throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
   }
 
+  // API keys only reach procedures that opt in through scopedProcedure
+  if (ctx.apiKey) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "This procedure is not available to API keys" });
+  }
+
   return next({
     ctx: {
       ...ctx,
       user: ctx.user,
+      workspace: await resolveWorkspace(ctx.user),
     },
   });
 });
 
-export const protectedProcedure = t.procedure.use(requireUser);
+export const protectedProcedure = t.procedure.meta({ auth: "session" }).use(requireUser);
+
+/**
+ * Like protectedProcedure, but also callable with an API key that has `scope`.
+ * `action` names what the procedure does when a member's role is too low for it.
+ */
+export const scopedProcedure = (scope: ApiKeyScope, action?: string) =>
+  t.procedure.meta({ auth: "apiKey", scope }).use(
+    t.middleware(async opts => {
+      const { ctx, next } = opts;
+
+      if (!ctx.user) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+      }
+
+      if (ctx.apiKey && !ctx.apiKey.scopes.includes(scope)) {
+        throw new TRPCError({ code: "FORBIDDEN", message: `API key is missing the ${scope} scope` });
+      }
+
+      const workspace = await resolveWorkspace(ctx.user);
+      assertScopeRole(workspace, scope, action);
+
+      return next({
+        ctx: {
+          ...ctx,
+          user: ctx.user,
+          workspace,
+        },
+      });
+    }),
+  );
 
-export const adminProcedure = t.procedure.use(
+export const adminProcedure = t.procedure.meta({ auth: "admin" }).use(
   t.middleware(async opts => {
     const { ctx, next } = opts;
 
@@ -35,6 +99,11 @@ export const adminProcedure = t.procedure.use(
       throw new TRPCError({ code: "FORBIDDEN", message: NOT_ADMIN_ERR_MSG });
     }
 
+    // An admin session only; an admin's API key carries none of the admin's rights
+    if (ctx.apiKey) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "This procedure is not available to API keys" });
+    }
+
     return next({
       ctx: {
         ...ctx,
@@ -43,3 +112,19 @@ export const adminProcedure = t.procedure.use(
     });
   }),
 );
+
+/**
+ * Per-user and per-IP token bucket for `budget`, see server/rateLimit.ts
+ */
+export const rateLimited = (budget: RateLimitBudget) =>
+  t.middleware(async opts => {
+    const { ctx, next } = opts;
+
+    const retryAfterMs = await consumeRateLimit(budget, { userId: ctx.user?.id, ip: getClientIp(ctx.req) });
+    if (retryAfterMs > 0) {
+      ctx.res.setHeader("Retry-After", String(retryAfterSeconds(retryAfterMs)));
+      throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: rateLimitMessage(retryAfterMs) });
+    }
+
+    return next();
+  });
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  countAnalysisFailuresSince: vi.fn().mockResolvedValue(3),
+  countDetectionJobsByStatus: vi.fn().mockResolvedValue({ queued: 2, failed: 1 }),
+  countWebhookDeliveriesByStatus: vi.fn().mockResolvedValue({}),
+  getRecentAnalysisFailures: vi.fn().mockResolvedValue([]),
+  getUserAnalysisCounts: vi.fn().mockResolvedValue([]),
+  getUserById: vi.fn(),
+  getVendorSpendByDay: vi.fn().mockResolvedValue([]),
+  getVendorSpendByUser: vi.fn().mockResolvedValue([]),
+  sumVendorCostSince: vi.fn().mockResolvedValue(0),
+  pingDatabase: vi.fn().mockResolvedValue(undefined),
+  searchUsers: vi.fn(),
+  setUserDisabled: vi.fn(),
+  updateUserRole: vi.fn(),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+import { appRouter } from "./routers";
+import {
+  countAnalysisFailuresSince,
+  getUserAnalysisCounts,
+  getUserById,
+  getVendorSpendByDay,
+  pingDatabase,
+  searchUsers,
+  setUserDisabled,
+  updateUserRole,
+} from "./db";
+import type { TrpcContext } from "./_core/context";
+
+function createContext(role: "user" | "admin" = "admin"): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      username: "root",
+      password: "",
+      name: "Root",
+      email: null,
+      role,
+      activeOrganizationId: null,
+      disabledAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+function listedUser(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    username: `user${id}`,
+    name: null,
+    email: null,
+    role: "user" as const,
+    disabledAt: null,
+    createdAt: new Date(),
+    lastSignedIn: new Date(),
+    ...overrides,
+  };
+}
+
+describe("admin router", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("is only available to admins", async () => {
+    await expect(appRouter.createCaller(createContext("user")).admin.health()).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("refuses an admin's API key, whatever its scopes", async () => {
+    const ctx = { ...createContext(), apiKey: { id: 5, scopes: ["detections:read", "detections:write"] } as any };
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.admin.setRole({ userId: 2, role: "admin" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.admin.health()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(updateUserRole).not.toHaveBeenCalled();
+  });
+
+  it("lists users with analysis counts and estimated spend", async () => {
+    vi.mocked(searchUsers).mockResolvedValueOnce({
+      users: [listedUser(2), listedUser(3, { disabledAt: new Date() })],
+      total: 2,
+    });
+    vi.mocked(getUserAnalysisCounts).mockResolvedValueOnce([
+      { userId: 2, fileType: "image", total: 10, cached: 2, lastAnalysisAt: new Date("2026-01-02") },
+      { userId: 2, fileType: "video", total: 1, cached: 0, lastAnalysisAt: new Date("2026-01-05") },
+    ]);
+
+    const page = await appRouter.createCaller(createContext()).admin.users({ query: "user" });
+
+    expect(searchUsers).toHaveBeenCalledWith({ query: "user", limit: 25, offset: 0 });
+    const [active, disabled] = page.users;
+    expect(active).toMatchObject({
+      status: "active",
+      analyses: { image: 10, audio: 0, video: 1, text: 0 },
+      totalAnalyses: 11,
+      vendorCalls: 9,
+      // 8 image calls at $0.01 + 1 video call at $0.05
+      estimatedSpend: 0.13,
+      lastAnalysisAt: new Date("2026-01-05"),
+    });
+    expect(disabled).toMatchObject({ status: "disabled", totalAnalyses: 0, lastAnalysisAt: null });
+  });
+
+  it("changes roles and disables other users", async () => {
+    vi.mocked(getUserById).mockResolvedValue(listedUser(2) as any);
+    const caller = appRouter.createCaller(createContext());
+
+    await caller.admin.setRole({ userId: 2, role: "admin" });
+    await caller.admin.setDisabled({ userId: 2, disabled: true });
+
+    expect(updateUserRole).toHaveBeenCalledWith(2, "admin");
+    expect(setUserDisabled).toHaveBeenCalledWith(2, true);
+  });
+
+  it("won't let admins demote or disable themselves", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.admin.setRole({ userId: 1, role: "user" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    await expect(caller.admin.setDisabled({ userId: 1, disabled: true })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(updateUserRole).not.toHaveBeenCalled();
+    expect(setUserDisabled).not.toHaveBeenCalled();
+  });
+
+  it("breaks vendor spend down by media type", async () => {
+    const totals = { calls: 0, cacheHits: 0, failures: 0, bytes: 0, durationMs: 0, cost: 0 };
+    vi.mocked(getVendorSpendByDay).mockResolvedValueOnce([
+      { ...totals, day: "2026-01-01", fileType: "image", calls: 3, cacheHits: 1, bytes: 300, cost: 0.03 },
+      { ...totals, day: "2026-01-02", fileType: "image", calls: 2, bytes: 200, cost: 0.02 },
+      { ...totals, day: "2026-01-02", fileType: "video", calls: 1, bytes: 1000, cost: 0.05 },
+    ]);
+
+    const spend = await appRouter.createCaller(createContext()).admin.spend({ days: 7 });
+
+    expect(spend.totalCost).toBe(0.1);
+    expect(spend.byType.find(type => type.fileType === "image")).toEqual({
+      fileType: "image",
+      calls: 5,
+      cacheHits: 1,
+      bytes: 500,
+      cost: 0.05,
+    });
+    expect(spend.budgets.day).toEqual({ budget: null, spent: 0 });
+  });
+
+  it("reports health even when the database is down", async () => {
+    vi.mocked(pingDatabase).mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+
+    const health = await appRouter.createCaller(createContext()).admin.health();
+
+    expect(health.database).toEqual({ ok: false, latencyMs: null, error: "connect ECONNREFUSED" });
+    expect(health.jobs).toEqual({});
+    expect(health.failuresLast24h).toBeNull();
+    expect(countAnalysisFailuresSince).not.toHaveBeenCalled();
+  });
+
+  it("reports queue counts when the database is up", async () => {
+    const health = await appRouter.createCaller(createContext()).admin.health();
+
+    expect(health.database.ok).toBe(true);
+    expect(health.jobs).toEqual({ queued: 2, failed: 1 });
+    expect(health.failuresLast24h).toBe(3);
+  });
+});
@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, router } from "./_core/trpc.js";
+import {
+  countAnalysisFailuresSince,
+  countDetectionJobsByStatus,
+  countWebhookDeliveriesByStatus,
+  getRecentAnalysisFailures,
+  getUserAnalysisCounts,
+  getUserById,
+  getVendorSpendByDay,
+  getVendorSpendByUser,
+  pingDatabase,
+  searchUsers,
+  setUserDisabled,
+  sumVendorCostSince,
+  updateUserPlan,
+  updateUserRole,
+} from "./db.js";
+import { PLANS } from "./quotas.js";
+import type { DetectionFileType } from "./aiornot.js";
+import { getEnsembleProviders } from "./ensemble.js";
+import { estimateVendorCost, getVendorPrices } from "./vendorPricing.js";
+import { getBudgetPeriodStart, getSpendBudgets } from "./vendorCosts.js";
+import { getStorageDriver } from "./storage.js";
+
+const FILE_TYPES: DetectionFileType[] = ["image", "audio", "video", "text"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const userId = z.object({ userId: z.number().int().positive() });
+
+async function requireOtherUser(targetId: number, adminId: number, action: string) {
+  // Keeps an admin from locking themselves (and possibly everyone) out
+  if (targetId === adminId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `You can't ${action} your own account` });
+  }
+  const user = await getUserById(targetId);
+  if (!user) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+  }
+  return user;
+}
+
+function getStorageBackend() {
+  try {
+    return getStorageDriver().name;
+  } catch {
+    return null;
+  }
+}
+
+function getProviderStatus() {
+  return FILE_TYPES.map(fileType => {
+    try {
+      return { fileType, providers: getEnsembleProviders(fileType).map(p => p.name), error: null };
+    } catch (error: any) {
+      return { fileType, providers: [], error: error?.message ?? "Misconfigured" };
+    }
+  });
+}
+
+export const adminRouter = router({
+  /**
+   * Users with their analysis counts and estimated vendor spend
+   */
+  users: adminProcedure
+    .input(
+      z.object({
+        query: z.string().trim().max(255).optional(),
+        limit: z.number().int().min(1).max(100).default(25),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ input }) => {
+      const { users, total } = await searchUsers(input);
+      const counts = await getUserAnalysisCounts(users.map(user => user.id));
+
+      return {
+        total,
+        users: users.map(user => {
+          const analyses: Record<DetectionFileType, number> = { image: 0, audio: 0, video: 0, text: 0 };
+          let vendorCalls = 0;
+          let estimatedSpend = 0;
+          let lastAnalysisAt: Date | null = null;
+
+          for (const row of counts) {
+            if (row.userId !== user.id) continue;
+            const calls = row.total - row.cached;
+            analyses[row.fileType] = row.total;
+            vendorCalls += calls;
+            estimatedSpend += estimateVendorCost(row.fileType, calls);
+            const last = row.lastAnalysisAt ? new Date(row.lastAnalysisAt) : null;
+            if (last && (!lastAnalysisAt || last > lastAnalysisAt)) lastAnalysisAt = last;
+          }
+
+          return {
+            ...user,
+            status: user.disabledAt ? ("disabled" as const) : ("active" as const),
+            analyses,
+            totalAnalyses: FILE_TYPES.reduce((sum, type) => sum + analyses[type], 0),
+            vendorCalls,
+            estimatedSpend: Math.round(estimatedSpend * 100) / 100,
+            lastAnalysisAt,
+          };
+        }),
+      };
+    }),
+
+  setRole: adminProcedure
+    .input(userId.extend({ role: z.enum(["user", "admin"]) }))
+    .mutation(async ({ input, ctx }) => {
+      await requireOtherUser(input.userId, ctx.user.id, "change the role of");
+      await updateUserRole(input.userId, input.role);
+      return { success: true };
+    }),
+
+  setPlan: adminProcedure
+    .input(userId.extend({ plan: z.enum(PLANS) }))
+    .mutation(async ({ input }) => {
+      const user = await getUserById(input.userId);
+      if (!user) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+      }
+      await updateUserPlan(input.userId, input.plan);
+      return { success: true };
+    }),
+
+  /**
+   * Disabled users are signed out everywhere and their API keys stop working
+   */
+  setDisabled: adminProcedure
+    .input(userId.extend({ disabled: z.boolean() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireOtherUser(input.userId, ctx.user.id, "disable");
+      await setUserDisabled(input.userId, input.disabled);
+      return { success: true };
+    }),
+
+  /**
+   * Most recent failed analyses across all users, newest first
+   */
+  failures: adminProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(200).default(50) }))
+    .query(async ({ input }) => {
+      return await getRecentAnalysisFailures(input.limit);
+    }),
+
+  /**
+   * Recorded vendor calls and their estimated cost per day, media type and user
+   */
+  spend: adminProcedure
+    .input(z.object({ days: z.number().int().min(1).max(90).default(30) }))
+    .query(async ({ input }) => {
+      const since = new Date(getBudgetPeriodStart("day").getTime() - (input.days - 1) * DAY_MS);
+      const [byDay, byUser, spentToday, spentThisMonth] = await Promise.all([
+        getVendorSpendByDay(since),
+        getVendorSpendByUser(since),
+        sumVendorCostSince(getBudgetPeriodStart("day")),
+        sumVendorCostSince(getBudgetPeriodStart("month")),
+      ]);
+
+      const byType = FILE_TYPES.map(fileType => {
+        const rows = byDay.filter(row => row.fileType === fileType);
+        return {
+          fileType,
+          calls: rows.reduce((sum, row) => sum + row.calls, 0),
+          cacheHits: rows.reduce((sum, row) => sum + row.cacheHits, 0),
+          bytes: rows.reduce((sum, row) => sum + row.bytes, 0),
+          cost: round(rows.reduce((sum, row) => sum + row.cost, 0)),
+        };
+      });
+      const budgets = getSpendBudgets();
+
+      return {
+        since,
+        prices: getVendorPrices(),
+        budgets: {
+          day: { budget: budgets.day, spent: round(spentToday) },
+          month: { budget: budgets.month, spent: round(spentThisMonth) },
+        },
+        totalCost: round(byType.reduce((sum, type) => sum + type.cost, 0)),
+        byType,
+        byDay,
+        byUser,
+      };
+    }),
+
+  health: adminProcedure.query(async () => {
+    const startedAt = Date.now();
+    let database: { ok: boolean; latencyMs: number | null; error: string | null };
+    try {
+      await pingDatabase();
+      database = { ok: true, latencyMs: Date.now() - startedAt, error: null };
+    } catch (error: any) {
+      database = { ok: false, latencyMs: null, error: error?.message ?? "Unreachable" };
+    }
+
+    // The counters need the database; don't fail the whole page when it is down
+    const [jobs, webhookDeliveries, failuresLast24h] = database.ok
+      ? await Promise.all([
+          countDetectionJobsByStatus(),
+          countWebhookDeliveriesByStatus(),
+          countAnalysisFailuresSince(new Date(Date.now() - DAY_MS)),
+        ])
+      : [{}, {}, null];
+
+    return {
+      database,
+      storage: getStorageBackend(),
+      providers: getProviderStatus(),
+      jobs,
+      webhookDeliveries,
+      failuresLast24h,
+      uptimeSeconds: Math.round(process.uptime()),
+      memoryMb: Math.round(process.memoryUsage().rss / 1024 / 1024),
+      nodeVersion: process.version,
+    };
+  }),
+});
@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  detectAudioMusicAI,
+  detectAudioVoiceAI,
+  detectImageAI,
+  detectTextAI,
+  detectVideoAI,
+} from "./aiornot";
+import { aiOrNotProvider } from "./detectionProvider";
+import { ENV } from "./_core/env";
+import {
+  startAIOrNotMockServer,
+  type AIOrNotMockServer,
+} from "./mocks/aiornotMockServer";
+
+describe("AI or Not client against the mock server", () => {
+  let mock: AIOrNotMockServer;
+  const original = { url: ENV.aiOrNotApiUrl, key: ENV.aiOrNotApiKey };
+
+  beforeAll(async () => {
+    mock = await startAIOrNotMockServer();
+    ENV.aiOrNotApiUrl = mock.url;
+    ENV.aiOrNotApiKey = "mock-key";
+  });
+
+  afterAll(async () => {
+    ENV.aiOrNotApiUrl = original.url;
+    ENV.aiOrNotApiKey = original.key;
+    await mock.close();
+  });
+
+  const file = Buffer.from("fake image bytes");
+
+  it("returns deterministic image reports", async () => {
+    const first = await detectImageAI(file, "photo.png");
+    const second = await detectImageAI(file, "photo.png");
+
+    expect(first.id).toBe(second.id);
+    expect(first.report.ai_generated.verdict).toBe("ai");
+    expect(first.report.meta.size_bytes).toBe(file.length);
+  });
+
+  it("serves the human fixture when asked", async () => {
+    const result = await detectImageAI(file, "human-portrait.jpg");
+    expect(result.report.ai_generated.verdict).toBe("human");
+  });
+
+  it("covers every sync endpoint", async () => {
+    const voice = await detectAudioVoiceAI(file, "voice.mp3");
+    const music = await detectAudioMusicAI(file, "song.mp3");
+    const video = await detectVideoAI(file, "clip-human.mp4");
+    const text = await detectTextAI("Some paragraph of text");
+
+    expect(voice.report.ai_generated.segments).toHaveLength(2);
+    expect(music.report.ai_generated.generator).toHaveProperty("suno");
+    expect(video.report.ai_video.is_detected).toBe(false);
+    expect(text.report.meta.word_count).toBe(4);
+  });
+
+  it("propagates 402 plan errors", async () => {
+    await expect(detectImageAI(file, "__402__.png")).rejects.toThrow(/402/);
+  });
+
+  it("propagates 429 rate limits", async () => {
+    await expect(detectTextAI("__429__")).rejects.toThrow(/429/);
+  });
+
+  it("rejects malformed payloads", async () => {
+    await expect(detectImageAI(file, "__malformed__.png")).rejects.toThrow();
+    await expect(
+      aiOrNotProvider.detectImage!({ buffer: file, fileName: "__invalid__.png" })
+    ).rejects.toThrow("Invalid response from AI detection service");
+  });
+
+  it("rejects requests without a bearer token", async () => {
+    const response = await fetch(`${mock.url}/image/sync`, { method: "POST" });
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,520 @@
+import { createHash } from "crypto";
+import http from "http";
+import https from "https";
+import { TRPCError } from "@trpc/server";
+import type { AnalysisFailure, DetectionResult } from "../drizzle/schema.js";
+import type { DetectionFileType } from "./aiornot.js";
+import { ENV } from "./_core/env.js";
+import type { AudioKind, NormalizedDetection, Verdict } from "./detectionProvider.js";
+import { getDetectionSignature, runDetection } from "./ensemble.js";
+import {
+  createAnalysisFailure,
+  createDetectionResult,
+  findDuplicateAnalysis,
+  findSharedAnalysis,
+  type WorkspaceScope,
+} from "./db.js";
+import { storageKeyFromUrl, storagePut, storageGet, storageRead, toKeySegment } from "./storage.js";
+import { createPublicLookup, isPrivateHost } from "./publicAddress.js";
+import { createProgressReporter, type ProgressReporter } from "./progress.js";
+import { emitWebhookEvent } from "./webhooks.js";
+import { assertWithinQuota } from "./quotas.js";
+import { meterVendorCall, recordCacheHit, type VendorCallContext } from "./vendorCosts.js";
+
+// File type validation
+export const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const ALLOWED_AUDIO_TYPES = [
+  "audio/mpeg",
+  "audio/wav",
+  "audio/x-m4a",
+  "audio/mp4",
+];
+export const ALLOWED_VIDEO_TYPES = ["video/mp4", "video/quicktime", "video/webm"];
+
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_AUDIO_SIZE = 50 * 1024 * 1024; // 50MB
+export const MAX_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_TEXT_LENGTH = 50000; // 50k characters
+export const TEXT_EXCERPT_LENGTH = 500;
+
+type MediaFileType = Exclude<DetectionFileType, "text">;
+
+const MEDIA_RULES: Record<
+  MediaFileType,
+  { label: string; allowed: string[]; maxSize: number; folder: string }
+> = {
+  image: { label: "image", allowed: ALLOWED_IMAGE_TYPES, maxSize: MAX_IMAGE_SIZE, folder: "images" },
+  audio: { label: "audio", allowed: ALLOWED_AUDIO_TYPES, maxSize: MAX_AUDIO_SIZE, folder: "audio" },
+  video: { label: "video", allowed: ALLOWED_VIDEO_TYPES, maxSize: MAX_VIDEO_SIZE, folder: "videos" },
+};
+
+/**
+ * Shape returned to the client by every analyze* procedure
+ */
+export interface AnalysisOutcome {
+  success: true;
+  id: number | null;
+  verdict: Verdict;
+  confidence: string;
+  detectedGenerator: string | null;
+  fileUrl: string;
+  processingTimeMs: number;
+  isCached: boolean;
+}
+
+export interface FileAnalysisInput {
+  userId: number;
+  organizationId?: number | null; // Team workspace the result belongs to
+  fileType: MediaFileType;
+  fileName: string;
+  mimeType: string;
+  buffer: Buffer;
+  audioType?: AudioKind;
+  progress?: ProgressReporter;
+}
+
+type StoredDetection = Pick<
+  NormalizedDetection,
+  "verdict" | "confidence" | "detectedGenerator" | "generatorScores" | "raw"
+>;
+
+/**
+ * GLOBAL_CACHE_TTL_HOURS in milliseconds, or null while the global cache is off
+ */
+export function getGlobalCacheTtlMs(): number | null {
+  const hours = parseFloat(ENV.globalCacheTtlHours);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : null;
+}
+
+/**
+ * Another user's verdict for the same content and detection signature. Only
+ * the verdict is reused; the caller stores its own copy of the file.
+ */
+async function findSharedDetection(
+  fileHash: string,
+  providerVersion: string
+): Promise<(StoredDetection & { duplicateOfId: number }) | null> {
+  const ttlMs = getGlobalCacheTtlMs();
+  if (ttlMs === null) return null;
+
+  const shared = await findSharedAnalysis(fileHash, providerVersion, new Date(Date.now() - ttlMs));
+  if (!shared) return null;
+
+  return {
+    duplicateOfId: shared.id,
+    verdict: shared.verdict,
+    confidence: Number(shared.confidence),
+    detectedGenerator: shared.detectedGenerator,
+    generatorScores: (shared.generatorScores as Record<string, number> | null) ?? {},
+    raw: { globalCache: { providerVersion } },
+  };
+}
+
+// Helper function to calculate file hash
+export function calculateFileHash(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function assertAllowedMimeType(fileType: MediaFileType, mimeType: string) {
+  const rules = MEDIA_RULES[fileType];
+  if (!rules.allowed.includes(mimeType)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Invalid ${rules.label} type. Allowed: ${rules.allowed.join(", ")}`,
+    });
+  }
+}
+
+export function assertFileSize(fileType: MediaFileType, size: number) {
+  const rules = MEDIA_RULES[fileType];
+  if (size > rules.maxSize) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${capitalize(rules.label)} too large. Maximum size: ${rules.maxSize / 1024 / 1024}MB`,
+    });
+  }
+}
+
+const REMOTE_FETCH_TIMEOUT_MS = 60_000;
+// Remote file hosts are picked by the caller, so only public addresses may be reached
+const remoteFileLookup = createPublicLookup("fileUrl must point to a public host");
+
+/**
+ * GET a public http(s) URL without following redirects, which could bounce us to
+ * an internal address. Bodies beyond the largest accepted media file are refused.
+ */
+function downloadPublicFile(fileUrl: string): Promise<Buffer> {
+  const url = new URL(fileUrl);
+  if (isPrivateHost(url.hostname.replace(/^\[|\]$/g, ""))) {
+    return Promise.reject(new Error("fileUrl must point to a public host"));
+  }
+  const get = url.protocol === "https:" ? https.get : http.get;
+
+  return new Promise((resolve, reject) => {
+    const req = get(url, { lookup: remoteFileLookup, timeout: REMOTE_FETCH_TIMEOUT_MS }, res => {
+      const status = res.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        res.resume();
+        reject(new Error(status >= 300 && status < 400 ? "redirects are not followed" : `HTTP ${status}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_VIDEO_SIZE) {
+          req.destroy(new Error("file is too large"));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on("end", () => resolve(Buffer.concat(chunks)));
+      res.on("error", reject);
+    });
+    req.on("timeout", () => req.destroy(new Error("request timed out")));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Download a file previously uploaded through /api/upload. Links into our own
+ * storage are read by key; anything else must be a public http(s) URL.
+ */
+export async function fetchRemoteFile(fileUrl: string): Promise<Buffer> {
+  let key: string | null;
+  try {
+    key = storageKeyFromUrl(fileUrl);
+  } catch (error: any) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `fileUrl read failed: ${error.message}` });
+  }
+  if (key !== null) return await readStoredUpload(key);
+
+  if (!/^https?:\/\//i.test(fileUrl)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "fileUrl must be an http(s) URL or a storage link" });
+  }
+
+  let fileBuffer: Buffer;
+  try {
+    fileBuffer = await downloadPublicFile(fileUrl);
+  } catch (error: any) {
+    // Only our own message: whatever the host answered stays out of errors the caller can read
+    throw new TRPCError({ code: "BAD_REQUEST", message: `fileUrl fetch failed: ${error?.message ?? "request failed"}` });
+  }
+
+  // Anything this small is an error page, not a media file
+  if (fileBuffer.length < 1024) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Downloaded file too small (${fileBuffer.length} bytes). Probably not a real media file.`,
+    });
+  }
+
+  return fileBuffer;
+}
+
+/**
+ * Read an upload by its storage key
+ */
+export async function readStoredUpload(key: string): Promise<Buffer> {
+  try {
+    return await storageRead(key);
+  } catch (error) {
+    console.error(`[Analysis] Reading upload ${key} failed:`, error);
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The uploaded file is no longer available" });
+  }
+}
+
+/**
+ * Resolve the `fileData` (base64) / `fileUrl` pair accepted by the analyze procedures
+ */
+export async function loadFileBuffer(input: {
+  fileData?: string;
+  fileUrl?: string;
+}): Promise<Buffer> {
+  if (input.fileUrl) return await fetchRemoteFile(input.fileUrl);
+  if (input.fileData) return Buffer.from(input.fileData, "base64");
+  throw new TRPCError({ code: "BAD_REQUEST", message: "No file data provided" });
+}
+
+/**
+ * Hash, check the per-user cache, call the detection provider(s), store the
+ * file and persist the result. Shared by the analyze* mutations and the job worker.
+ */
+export async function analyzeFile(
+  input: FileAnalysisInput,
+  startTime = Date.now()
+): Promise<AnalysisOutcome> {
+  const { userId, fileType, fileName, mimeType, buffer } = input;
+  const scope: WorkspaceScope = { userId, organizationId: input.organizationId ?? null };
+  const progress = input.progress ?? createProgressReporter(userId);
+  const metering: VendorCallContext = {
+    userId,
+    organizationId: scope.organizationId,
+    fileType,
+    bytes: buffer.length,
+  };
+
+  // Calculate file hash for duplicate detection
+  progress.stage("hashing");
+  const fileHash = calculateFileHash(buffer);
+
+  // Check for duplicate analysis
+  progress.stage("cache_check");
+  const duplicate = await findDuplicateAnalysis(scope, fileHash);
+  if (duplicate) {
+    console.log(`[Detection] Found cached result for ${fileType} hash ${fileHash}`);
+    recordCacheHit(metering, Date.now() - startTime);
+    const fileUrl = duplicate.s3Key ? (await storageGet(duplicate.s3Key)).url : "";
+    progress.done();
+    return {
+      success: true,
+      id: duplicate.id,
+      verdict: duplicate.verdict as Verdict,
+      confidence: duplicate.confidence.toString(),
+      detectedGenerator: duplicate.detectedGenerator,
+      fileUrl,
+      processingTimeMs: 0,
+      isCached: true,
+    };
+  }
+
+  const audioType = input.audioType ?? "voice";
+  const providerVersion = getDetectionSignature(fileType, fileType === "audio" ? audioType : undefined);
+  const shared = await findSharedDetection(fileHash, providerVersion);
+
+  let detection: StoredDetection;
+  if (shared) {
+    console.log(`[Detection] Reusing a shared verdict for ${fileType} hash ${fileHash}`);
+    recordCacheHit(metering, Date.now() - startTime);
+    detection = shared;
+  } else {
+    // Cached results are free; anything that reaches a vendor counts against the plan
+    await assertWithinQuota(userId, fileType, buffer.length);
+
+    // Call the configured detection provider(s)
+    progress.stage("vendor_call");
+    detection = await runDetection(fileType, provider =>
+      meterVendorCall(metering, provider.name, () => {
+        const file = { buffer, fileName, mimeType };
+        if (fileType === "image") return provider.detectImage!(file);
+        if (fileType === "audio") return provider.detectAudio!({ ...file, audioType });
+        return provider.detectVideo!(file);
+      })
+    );
+  }
+  const processingTime = Date.now() - startTime;
+
+  const confidence = detection.confidence.toFixed(4);
+
+  // Store file in S3
+  progress.stage("storing");
+  const s3Key = `detections/${userId}/${MEDIA_RULES[fileType].folder}/${Date.now()}-${toKeySegment(fileName)}`;
+  const { url: fileUrl } = await storagePut(s3Key, buffer, mimeType);
+
+  // Save result to database
+  const result = await createDetectionResult(userId, {
+    organizationId: scope.organizationId,
+    fileName,
+    fileType,
+    fileSize: buffer.length,
+    fileHash,
+    s3Key,
+    verdict: detection.verdict,
+    confidence,
+    detectedGenerator: detection.detectedGenerator,
+    generatorScores: detection.generatorScores,
+    rawResponse: detection.raw,
+    processingTimeMs: processingTime,
+    isDuplicate: shared ? 1 : 0,
+    duplicateOfId: shared?.duplicateOfId ?? null,
+    providerVersion,
+  });
+  if (result) await emitWebhookEvent(userId, "detection.completed", toApiDetection(result));
+  progress.done();
+
+  return {
+    success: true,
+    id: result?.id ?? null,
+    verdict: detection.verdict,
+    confidence,
+    detectedGenerator: detection.detectedGenerator,
+    fileUrl,
+    processingTimeMs: processingTime,
+    isCached: !!shared,
+  };
+}
+
+/**
+ * Same pipeline for pasted text (nothing is uploaded to storage)
+ */
+export async function analyzeText(
+  scope: WorkspaceScope,
+  text: string,
+  progress: ProgressReporter = createProgressReporter(scope.userId)
+): Promise<AnalysisOutcome> {
+  const { userId } = scope;
+  const startTime = Date.now();
+  const metering: VendorCallContext = {
+    ...scope,
+    fileType: "text",
+    bytes: Buffer.byteLength(text, "utf-8"),
+  };
+
+  // Calculate text hash for duplicate detection
+  progress.stage("hashing");
+  const textHash = calculateFileHash(Buffer.from(text, "utf-8"));
+
+  // Check for duplicate analysis
+  progress.stage("cache_check");
+  const duplicate = await findDuplicateAnalysis(scope, textHash);
+  if (duplicate) {
+    console.log(`[Detection] Found cached result for text hash ${textHash}`);
+    recordCacheHit(metering, Date.now() - startTime);
+    progress.done();
+    return {
+      success: true,
+      id: duplicate.id,
+      verdict: duplicate.verdict as Verdict,
+      confidence: duplicate.confidence.toString(),
+      detectedGenerator: duplicate.detectedGenerator,
+      fileUrl: "",
+      processingTimeMs: 0,
+      isCached: true,
+    };
+  }
+
+  const providerVersion = getDetectionSignature("text");
+  const shared = await findSharedDetection(textHash, providerVersion);
+
+  let detection: StoredDetection;
+  if (shared) {
+    console.log(`[Detection] Reusing a shared verdict for text hash ${textHash}`);
+    recordCacheHit(metering, Date.now() - startTime);
+    detection = shared;
+  } else {
+    await assertWithinQuota(userId, "text");
+
+    progress.stage("vendor_call");
+    detection = await runDetection("text", provider =>
+      meterVendorCall(metering, provider.name, () => provider.detectText!({ text }))
+    );
+  }
+  const processingTime = Date.now() - startTime;
+
+  const confidence = detection.confidence.toFixed(4);
+
+  progress.stage("storing");
+  const result = await createDetectionResult(userId, {
+    organizationId: scope.organizationId,
+    fileName: "text-input",
+    fileType: "text",
+    fileSize: text.length,
+    fileHash: textHash,
+    s3Key: "",
+    textExcerpt: text.slice(0, TEXT_EXCERPT_LENGTH),
+    verdict: detection.verdict,
+    confidence,
+    detectedGenerator: detection.detectedGenerator,
+    generatorScores: detection.generatorScores,
+    rawResponse: detection.raw,
+    processingTimeMs: processingTime,
+    isDuplicate: shared ? 1 : 0,
+    duplicateOfId: shared?.duplicateOfId ?? null,
+    providerVersion,
+  });
+  if (result) await emitWebhookEvent(userId, "detection.completed", toApiDetection(result));
+  progress.done();
+
+  return {
+    success: true,
+    id: result?.id ?? null,
+    verdict: detection.verdict,
+    confidence,
+    detectedGenerator: detection.detectedGenerator,
+    fileUrl: "",
+    processingTimeMs: processingTime,
+    isCached: !!shared,
+  };
+}
+
+/**
+ * Public representation of a stored result (no storage keys, hashes or raw vendor payloads).
+ * Shared by the REST API and webhook payloads.
+ */
+export function toApiDetection(result: DetectionResult) {
+  return {
+    id: result.id,
+    type: result.fileType,
+    fileName: result.fileName,
+    fileSize: result.fileSize,
+    verdict: result.verdict,
+    confidence: Number(result.confidence),
+    detectedGenerator: result.detectedGenerator,
+    generatorScores: result.generatorScores,
+    processingTimeMs: result.processingTimeMs,
+    cached: result.isDuplicate === 1,
+    createdAt: result.createdAt,
+  };
+}
+
+/**
+ * Translate a pipeline failure into the user-facing tRPC error
+ */
+export function toAnalysisError(fileType: DetectionFileType, error: any): TRPCError {
+  if (error instanceof TRPCError) return error;
+
+  // Check for API plan limitation
+  if (error?.message?.includes("402") || error?.message?.includes("Paid plan")) {
+    return new TRPCError({
+      code: "FORBIDDEN",
+      message: `${capitalize(fileType)} detection is not available with the current API plan. Please upgrade your account.`,
+    });
+  }
+
+  if (error?.message?.includes("Storage configuration missing")) {
+    console.error("[Detection] Storage not configured properly");
+    return new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Server storage not configured. Please contact support.",
+    });
+  }
+
+  return new TRPCError({
+    code: "INTERNAL_SERVER_ERROR",
+    message: `Failed to analyze ${fileType}. Please try again.`,
+  });
+}
+
+const MAX_FAILURE_DETAIL_LENGTH = 1000;
+
+/**
+ * Log a failed analysis for the admin console. Never throws and doesn't
+ * delay the error response.
+ */
+export function recordAnalysisFailure(
+  context: {
+    userId: number;
+    source: AnalysisFailure["source"];
+    fileType: DetectionFileType;
+    fileName?: string | null;
+  },
+  error: unknown,
+  failure: TRPCError
+) {
+  const detail = error instanceof Error ? error.message : error == null ? null : String(error);
+
+  createAnalysisFailure({
+    userId: context.userId,
+    source: context.source,
+    fileType: context.fileType,
+    fileName: context.fileName?.slice(0, 255) ?? null,
+    code: failure.code,
+    message: failure.message,
+    detail: detail?.slice(0, MAX_FAILURE_DETAIL_LENGTH) ?? null,
+  }).catch(err => console.error("[Detection] Failed to record analysis failure:", err));
+}
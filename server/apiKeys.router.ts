@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "./_core/trpc.js";
+import { createApiKey, getUserApiKeys, revokeApiKey } from "./db.js";
+import { API_KEY_SCOPES, generateApiKey } from "./apiKeys.js";
+
+const MAX_ACTIVE_KEYS = 20;
+
+// Key management is session-only: protectedProcedure rejects API-key callers,
+// so a leaked key can't mint new ones.
+export const apiKeysRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const keys = await getUserApiKeys(ctx.user.id);
+    return keys.map(key => ({
+      ...key,
+      status: key.revokedAt ? ("revoked" as const) : ("active" as const),
+    }));
+  }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const existing = await getUserApiKeys(ctx.user.id);
+        if (existing.filter(key => !key.revokedAt).length >= MAX_ACTIVE_KEYS) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `You can have at most ${MAX_ACTIVE_KEYS} active API keys. Revoke one first.`,
+          });
+        }
+
+        const { key, keyPrefix, keyHash } = generateApiKey();
+        const created = await createApiKey({
+          userId: ctx.user.id,
+          name: input.name,
+          keyPrefix,
+          keyHash,
+          scopes: Array.from(new Set(input.scopes)),
+        });
+        if (!created) throw new Error("API key was not saved");
+
+        // The plaintext key is returned exactly once
+        return {
+          id: created.id,
+          name: created.name,
+          keyPrefix: created.keyPrefix,
+          scopes: created.scopes,
+          createdAt: created.createdAt,
+          key,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("[ApiKeys] Create error:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create API key",
+        });
+      }
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const revoked = await revokeApiKey(input.id, ctx.user.id);
+      if (!revoked) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "API key not found" });
+      }
+      return { success: true };
+    }),
+});
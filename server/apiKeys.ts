@@ -0,0 +1,73 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request } from "express";
+import type { User } from "../drizzle/schema.js";
+import { getApiKeyByHash, getUserById, touchApiKey } from "./db.js";
+
+export const API_KEY_SCOPES = ["detections:read", "detections:write"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const API_KEY_PREFIX = "vk_";
+const KEY_PREFIX_LENGTH = 11; // "vk_" + 8 characters
+
+/**
+ * The key a request was authenticated with, as seen by tRPC middleware and REST handlers
+ */
+export interface ApiKeyAuth {
+  id: number;
+  scopes: ApiKeyScope[];
+}
+
+// Throttle lastUsedAt writes so busy keys don't update the row on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const lastTouched = new Map<number, number>();
+
+/**
+ * Keys carry 192 bits of randomness, so a plain SHA-256 is enough and keeps lookups indexable
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { key, keyPrefix: key.slice(0, KEY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+/**
+ * Key from an `Authorization: Bearer vk_...` header, or null when the request doesn't carry one
+ */
+export function getBearerApiKey(req: Request): string | null {
+  const header = req.headers?.authorization;
+  if (!header) return null;
+  const [scheme, token] = header.split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !token?.startsWith(API_KEY_PREFIX)) return null;
+  return token.trim();
+}
+
+export function hasScope(apiKey: ApiKeyAuth | null | undefined, scope: ApiKeyScope) {
+  return !!apiKey && apiKey.scopes.includes(scope);
+}
+
+/**
+ * Resolve a plaintext key to its owner. Unknown and revoked keys resolve to null.
+ */
+export async function authenticateApiKey(
+  key: string
+): Promise<{ user: User; apiKey: ApiKeyAuth } | null> {
+  const record = await getApiKeyByHash(hashApiKey(key));
+  if (!record || record.revokedAt) return null;
+
+  const user = await getUserById(record.userId);
+  if (!user || user.disabledAt) return null;
+
+  const now = Date.now();
+  if (now - (lastTouched.get(record.id) ?? 0) > TOUCH_INTERVAL_MS) {
+    lastTouched.set(record.id, now);
+    touchApiKey(record.id).catch(error => console.error("[ApiKeys] Failed to update lastUsedAt:", error));
+  }
+
+  const scopes = (record.scopes ?? []).filter((scope): scope is ApiKeyScope =>
+    (API_KEY_SCOPES as readonly string[]).includes(scope)
+  );
+  return { user, apiKey: { id: record.id, scopes } };
+}
@@ -3,8 +3,18 @@ import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./_core/oauth.js";
 import { appRouter } from "./routers.js";
 import { createContext } from "./_core/context.js";
+import { registerJobRoutes } from "./jobs.js";
+import { registerProgressRoutes } from "./progress.js";
+import { registerExportRoutes } from "./export.js";
+import { registerReportRoutes } from "./report.js";
+import { registerRestApiRoutes } from "./restApi.js";
+import { registerOpenApiRoutes } from "./openapi.js";
+import { registerStorageRoutes } from "./localStorage.js";
+import { registerRetentionRoutes } from "./retention.js";
+import { getTrustedProxyHops } from "./loginThrottle.js";
 
 const app = express();
+app.set("trust proxy", getTrustedProxyHops());
 
 // Configure body parser with larger size limit for file uploads
 app.use(express.json({ limit: "100mb" }));
@@ -12,6 +22,14 @@ app.use(express.urlencoded({ limit: "100mb", extended: true }));
 
 // OAuth callback under /api/oauth/callback
 registerOAuthRoutes(app);
+registerJobRoutes(app);
+registerProgressRoutes(app);
+registerExportRoutes(app);
+registerReportRoutes(app);
+registerRestApiRoutes(app);
+registerOpenApiRoutes(app);
+registerStorageRoutes(app);
+registerRetentionRoutes(app);
 
 // tRPC API
 app.use(
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  getUserByUsername: vi.fn(),
+  createUser: vi.fn(),
+  updateUserPassword: vi.fn(),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+vi.mock("./_core/sdk", () => ({
+  sdk: { createSession: vi.fn(), clearSession: vi.fn() },
+}));
+
+import { appRouter } from "./routers";
+import { createUser, getUserByUsername, updateUserPassword } from "./db";
+import { hashPassword, verifyPassword } from "./password";
+import { resetLoginThrottle } from "./loginThrottle";
+import { resetRateLimits } from "./rateLimit";
+import { sdk } from "./_core/sdk";
+import type { TrpcContext } from "./_core/context";
+
+function createPublicContext(ip = "203.0.113.7"): TrpcContext {
+  return {
+    user: null,
+    req: { headers: {}, socket: { remoteAddress: ip } } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+function storedUser(password: string) {
+  return {
+    id: 7,
+    username: "alice",
+    password,
+    name: "alice",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+}
+
+describe("auth.register", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("stores a hash and never returns it", async () => {
+    vi.mocked(getUserByUsername).mockResolvedValue(undefined);
+    vi.mocked(createUser).mockImplementation(async (user: any) => storedUser(user.password) as any);
+
+    const result = await appRouter.createCaller(createPublicContext()).auth.register({
+      username: "alice",
+      password: "secret-pass",
+    });
+
+    const stored = vi.mocked(createUser).mock.calls[0][0].password;
+    expect(stored).not.toBe("secret-pass");
+    expect(await verifyPassword("secret-pass", stored)).toBe(true);
+    expect(result.user).not.toHaveProperty("password");
+  });
+});
+
+describe("auth.login", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetLoginThrottle();
+    resetRateLimits();
+  });
+
+  it("accepts a hashed password without rehashing", async () => {
+    vi.mocked(getUserByUsername).mockResolvedValue(storedUser(await hashPassword("secret-pass")) as any);
+
+    const result = await appRouter.createCaller(createPublicContext()).auth.login({
+      username: "alice",
+      password: "secret-pass",
+    });
+
+    expect(result.user).not.toHaveProperty("password");
+    expect(updateUserPassword).not.toHaveBeenCalled();
+  });
+
+  it("migrates a legacy plaintext row on successful login", async () => {
+    vi.mocked(getUserByUsername).mockResolvedValue(storedUser("secret-pass") as any);
+
+    await appRouter.createCaller(createPublicContext()).auth.login({
+      username: "alice",
+      password: "secret-pass",
+    });
+
+    const [id, hash] = vi.mocked(updateUserPassword).mock.calls[0];
+    expect(id).toBe(7);
+    expect(await verifyPassword("secret-pass", hash)).toBe(true);
+  });
+
+  it("rejects unknown users with the same error as a wrong password", async () => {
+    vi.mocked(getUserByUsername).mockResolvedValue(undefined);
+
+    await expect(
+      appRouter.createCaller(createPublicContext()).auth.login({ username: "bob", password: "whatever" })
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED", message: "Invalid username or password" });
+  });
+
+  it("refuses disabled accounts without creating a session", async () => {
+    vi.mocked(getUserByUsername).mockResolvedValue({
+      ...storedUser(await hashPassword("secret-pass")),
+      disabledAt: new Date(),
+    } as any);
+
+    await expect(
+      appRouter.createCaller(createPublicContext()).auth.login({ username: "alice", password: "secret-pass" })
+    ).rejects.toMatchObject({ code: "FORBIDDEN", message: "This account has been disabled" });
+    expect(sdk.createSession).not.toHaveBeenCalled();
+  });
+
+  it("locks the username after repeated failures, even with the right password", async () => {
+    vi.mocked(getUserByUsername).mockResolvedValue(storedUser(await hashPassword("secret-pass")) as any);
+
+    for (let i = 0; i < 5; i++) {
+      await expect(
+        appRouter.createCaller(createPublicContext(`198.51.100.${i}`)).auth.login({
+          username: "alice",
+          password: "wrong",
+        })
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    }
+
+    await expect(
+      appRouter.createCaller(createPublicContext()).auth.login({ username: "alice", password: "secret-pass" })
+    ).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS" });
+  });
+
+  it("locks an IP that guesses across many usernames", async () => {
+    vi.mocked(getUserByUsername).mockResolvedValue(undefined);
+
+    for (let i = 0; i < 20; i++) {
+      await expect(
+        appRouter.createCaller(createPublicContext()).auth.login({ username: `user${i}`, password: "x" })
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    }
+
+    await expect(
+      appRouter.createCaller(createPublicContext()).auth.login({ username: "fresh", password: "x" })
+    ).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS" });
+  });
+});
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  getUserById: vi.fn().mockResolvedValue({ id: 7, plan: "free" }),
+  countUserAnalysesForQuota: vi.fn().mockResolvedValue([]),
+  createDetectionBatch: vi.fn(),
+  getDetectionBatch: vi.fn(),
+  getBatchItems: vi.fn(),
+  requeueFailedBatchJobs: vi.fn(),
+  getUserDetectionBatches: vi.fn(),
+  createDetectionJob: vi.fn(),
+  getDetectionResultsForExport: vi.fn(),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+import * as db from "./db";
+import { appRouter } from "./routers";
+import { resetRateLimits } from "./rateLimit";
+import { createSignedLocalUrl } from "./localStorage";
+import type { TrpcContext } from "./_core/context";
+
+function createCaller() {
+  const ctx: TrpcContext = {
+    user: { id: 7, username: "alice", role: "user", activeOrganizationId: null } as NonNullable<TrpcContext["user"]>,
+    req: { headers: {}, socket: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn(), setHeader: vi.fn() } as unknown as TrpcContext["res"],
+  };
+  return appRouter.createCaller(ctx);
+}
+
+const batch = { id: 3, userId: 7, organizationId: null, name: "Press photos", createdAt: new Date() };
+
+function item(jobId: number, status: string, extra: Record<string, unknown> = {}) {
+  return {
+    jobId,
+    fileType: "image",
+    status,
+    input: { fileName: `photo-${jobId}.png` },
+    attempts: 1,
+    maxAttempts: 3,
+    lastError: status === "failed" ? "Image too large" : null,
+    completedAt: null,
+    detectionResultId: null,
+    verdict: null,
+    confidence: null,
+    detectedGenerator: null,
+    ...extra,
+  } as any;
+}
+
+describe("batches", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRateLimits();
+    vi.mocked(db.createDetectionBatch).mockResolvedValue(batch);
+    vi.mocked(db.createDetectionJob).mockImplementation(async job => ({ id: 100, ...job }) as any);
+    vi.mocked(db.getDetectionBatch).mockResolvedValue(batch);
+  });
+
+  it("queues one job per file, tagged with the batch", async () => {
+    const result = await createCaller().detection.createBatch({
+      name: "Press photos",
+      items: [
+        { fileType: "image", fileName: "a.png", fileUrl: createSignedLocalUrl("uploads/a.png"), mimeType: "image/png" },
+        { fileType: "audio", fileName: "b.mp3", fileUrl: "https://cdn.example.com/b.mp3", mimeType: "audio/mpeg", audioType: "voice" },
+      ],
+    });
+
+    expect(result).toEqual({ batchId: 3, name: "Press photos" });
+    expect(db.createDetectionBatch).toHaveBeenCalledWith({ userId: 7, organizationId: null, name: "Press photos" });
+    expect(db.createDetectionJob).toHaveBeenCalledTimes(2);
+    // Our own uploads are read by key, so the signed link may expire while the item waits
+    expect(db.createDetectionJob).toHaveBeenCalledWith(
+      expect.objectContaining({ input: expect.objectContaining({ fileName: "a.png", fileKey: "uploads/a.png" }) })
+    );
+    expect(db.createDetectionJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fileType: "audio",
+        batchId: 3,
+        input: expect.objectContaining({ fileName: "b.mp3", audioType: "voice", organizationId: null }),
+      })
+    );
+  });
+
+  it("rejects a batch with an unsupported file before queueing anything", async () => {
+    await expect(
+      createCaller().detection.createBatch({
+        items: [{ fileType: "image", fileName: "a.gif", fileUrl: "https://x/a.gif", mimeType: "image/gif" }],
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(db.createDetectionBatch).not.toHaveBeenCalled();
+  });
+
+  it("summarizes items by status and verdict", async () => {
+    vi.mocked(db.getBatchItems).mockResolvedValueOnce([
+      item(1, "succeeded", { detectionResultId: 11, verdict: "ai", confidence: "0.9100" }),
+      item(2, "succeeded", { detectionResultId: 12, verdict: "human", confidence: "0.8000" }),
+      item(3, "failed"),
+      item(4, "queued"),
+    ]);
+
+    const summary = await createCaller().detection.getBatch({ batchId: 3 });
+
+    expect(summary).toMatchObject({
+      id: 3,
+      total: 4,
+      finished: false,
+      statuses: { queued: 1, running: 0, succeeded: 2, failed: 1 },
+      verdicts: { ai: 1, human: 1 },
+    });
+    expect(summary.items[2]).toMatchObject({ jobId: 3, fileName: "photo-3.png", error: "Image too large" });
+  });
+
+  it("hides batches of other users and workspaces", async () => {
+    vi.mocked(db.getDetectionBatch).mockResolvedValueOnce({ ...batch, organizationId: 10 });
+
+    await expect(createCaller().detection.getBatch({ batchId: 3 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.getBatchItems).not.toHaveBeenCalled();
+  });
+
+  it("requeues failed items", async () => {
+    vi.mocked(db.requeueFailedBatchJobs).mockResolvedValueOnce(2);
+
+    expect(await createCaller().detection.retryBatch({ batchId: 3 })).toEqual({ success: true, requeued: 2 });
+    const [batchId, failedSince, jobIds] = vi.mocked(db.requeueFailedBatchJobs).mock.calls[0];
+    expect([batchId, jobIds]).toEqual([3, undefined]);
+    expect(Date.now() - failedSince.getTime()).toBeCloseTo(7 * 24 * 60 * 60 * 1000, -4);
+  });
+
+  it("only offers a retry while the failed upload is kept", async () => {
+    vi.mocked(db.getBatchItems).mockResolvedValueOnce([
+      item(1, "failed", { completedAt: new Date(Date.now() - 60 * 60 * 1000) }),
+      item(2, "failed", { completedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000) }),
+      item(3, "succeeded", { completedAt: new Date() }),
+    ]);
+
+    const summary = await createCaller().detection.getBatch({ batchId: 3 });
+
+    expect(summary.retryable).toBe(1);
+    expect(summary.items.map(entry => entry.retryable)).toEqual([true, false, false]);
+  });
+
+  it("exports the analyzed items of the batch", async () => {
+    vi.mocked(db.getBatchItems).mockResolvedValueOnce([item(1, "succeeded", { detectionResultId: 11 }), item(2, "failed")]);
+    vi.mocked(db.getDetectionResultsForExport).mockResolvedValueOnce([]);
+
+    const exported = await createCaller().detection.exportBatch({ batchId: 3, format: "csv" });
+
+    expect(exported.format).toBe("csv");
+    expect(db.getDetectionResultsForExport).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 7, organizationId: null }),
+      { ids: [11] },
+      1000
+    );
+  });
+});
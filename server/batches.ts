@@ -0,0 +1,127 @@
+import { TRPCError } from "@trpc/server";
+import type { DetectionBatch } from "../drizzle/schema.js";
+import { assertAllowedMimeType } from "./analysis.js";
+import {
+  createDetectionBatch,
+  getBatchItems,
+  getDetectionBatch,
+  requeueFailedBatchJobs,
+  type WorkspaceScope,
+} from "./db.js";
+import { enqueueDetectionJob, FAILED_JOB_RETRY_WINDOW_MS, type DetectionJobInput } from "./jobs.js";
+import { assertWithinQuota } from "./quotas.js";
+
+/**
+ * Batch analysis: many files uploaded through /api/upload at once. Every file
+ * becomes a detection job tagged with the batch, so the job worker analyzes
+ * them (a few at a time) and retries them like any other queued analysis.
+ */
+
+export const MAX_BATCH_ITEMS = 100;
+
+export type BatchItemInput = Pick<DetectionJobInput, "fileType" | "fileName" | "fileUrl" | "mimeType" | "audioType">;
+
+const JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+
+export async function createBatch(scope: WorkspaceScope, items: BatchItemInput[], name?: string) {
+  for (const item of items) assertAllowedMimeType(item.fileType, item.mimeType);
+  // The worker checks each item again; a used-up quota should fail here, not minutes later
+  for (const fileType of Array.from(new Set(items.map(item => item.fileType)))) {
+    await assertWithinQuota(scope.userId, fileType);
+  }
+
+  const batch = await createDetectionBatch({
+    userId: scope.userId,
+    organizationId: scope.organizationId,
+    name: name?.trim() || `${items.length} file${items.length === 1 ? "" : "s"}`,
+  });
+  if (!batch) throw new Error("createBatch: failed to create batch");
+
+  for (const item of items) {
+    await enqueueDetectionJob(scope.userId, {
+      ...item,
+      organizationId: scope.organizationId,
+      batchId: batch.id,
+    });
+  }
+  return batch;
+}
+
+/**
+ * The batch if the user created it in this workspace
+ */
+async function getWorkspaceBatch(scope: WorkspaceScope, batchId: number): Promise<DetectionBatch> {
+  const batch = await getDetectionBatch(batchId);
+  if (!batch || batch.userId !== scope.userId || (batch.organizationId ?? null) !== scope.organizationId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Batch not found" });
+  }
+  return batch;
+}
+
+/**
+ * Every item of the batch with counts by status and by verdict
+ */
+export async function getBatchSummary(scope: WorkspaceScope, batchId: number, now = Date.now()) {
+  const batch = await getWorkspaceBatch(scope, batchId);
+  const rows = await getBatchItems(batch.id);
+  const retryableSince = now - FAILED_JOB_RETRY_WINDOW_MS;
+
+  const statuses = Object.fromEntries(JOB_STATUSES.map(status => [status, 0])) as Record<
+    (typeof JOB_STATUSES)[number],
+    number
+  >;
+  const verdicts = { ai: 0, human: 0 };
+
+  const items = rows.map(row => {
+    statuses[row.status]++;
+    if (row.verdict === "ai" || row.verdict === "human") verdicts[row.verdict]++;
+
+    const input = row.input as Pick<DetectionJobInput, "fileName">;
+    return {
+      jobId: row.jobId,
+      fileName: input.fileName,
+      fileType: row.fileType,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.maxAttempts,
+      error: row.status === "failed" ? row.lastError : null,
+      // Past the window the upload is gone, so a retry couldn't succeed
+      retryable: row.status === "failed" && !!row.completedAt && row.completedAt.getTime() >= retryableSince,
+      completedAt: row.completedAt,
+      resultId: row.detectionResultId,
+      verdict: row.verdict,
+      confidence: row.confidence,
+      detectedGenerator: row.detectedGenerator,
+    };
+  });
+
+  return {
+    id: batch.id,
+    name: batch.name,
+    createdAt: batch.createdAt,
+    total: items.length,
+    finished: statuses.queued === 0 && statuses.running === 0,
+    retryable: items.filter(item => item.retryable).length,
+    statuses,
+    verdicts,
+    items,
+  };
+}
+
+/**
+ * Queue failed items again (all of them without `jobIds`), as long as they
+ * failed within FAILED_JOB_RETRY_WINDOW_MS. Returns how many were requeued.
+ */
+export async function retryBatchItems(scope: WorkspaceScope, batchId: number, jobIds?: number[]) {
+  const batch = await getWorkspaceBatch(scope, batchId);
+  return await requeueFailedBatchJobs(batch.id, new Date(Date.now() - FAILED_JOB_RETRY_WINDOW_MS), jobIds);
+}
+
+/**
+ * Result ids of the batch's finished items, for exporting them
+ */
+export async function getBatchResultIds(scope: WorkspaceScope, batchId: number) {
+  const batch = await getWorkspaceBatch(scope, batchId);
+  const rows = await getBatchItems(batch.id);
+  return rows.flatMap(row => (row.detectionResultId ? [row.detectionResultId] : []));
+}
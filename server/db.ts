@@ -1,5 +1,5 @@
 // server/db.ts
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, asc, lte, lt, gt, gte, or, inArray, isNull, isNotNull, like, sql, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import mysql from "mysql2"; // ✅ callback-based pool (НЕ mysql2/promise)
 
@@ -7,9 +7,36 @@ import {
   users,
   detectionResults,
   shareLinks,
+  detectionJobs,
+  apiKeys,
+  webhooks,
+  webhookDeliveries,
+  organizations,
+  organizationMembers,
+  organizationInvitations,
+  analysisFailures,
+  vendorCalls,
+  accountDeletions,
+  takeoutExports,
+  detectionBatches,
+  analysisUsage,
   type InsertUser,
+  type User,
+  type DetectionResult,
   type InsertDetectionResult,
   type InsertShareLink,
+  type InsertDetectionJob,
+  type InsertApiKey,
+  type InsertWebhook,
+  type InsertWebhookDelivery,
+  type WebhookDelivery,
+  type InsertOrganizationInvitation,
+  type OrganizationMember,
+  type InsertAnalysisFailure,
+  type InsertVendorCall,
+  type InsertAccountDeletion,
+  type InsertTakeoutExport,
+  type InsertDetectionBatch,
 } from "../drizzle/schema.js";
 
 // Тип базы от drizzle(pool)
@@ -57,6 +84,16 @@ export async function createUser(user: InsertUser) {
   return await getUserByUsername(user.username);
 }
 
+export async function updateUserPassword(id: number, passwordHash: string) {
+  const db = await getDb();
+  await db.update(users).set({ password: passwordHash }).where(eq(users.id, id));
+}
+
+export async function setUserShareResultsGlobally(id: number, share: boolean) {
+  const db = await getDb();
+  await db.update(users).set({ shareResultsGlobally: share ? 1 : 0 }).where(eq(users.id, id));
+}
+
 /* -------------------- Detection Results -------------------- */
 
 export type CreateDetectionResultInput = Omit<InsertDetectionResult, "userId">;
@@ -86,6 +123,10 @@ export async function createDetectionResult(userId: number, data: CreateDetectio
 
   // drizzle(mysql2) возвращает { insertId, ... } в разных формах — достанем надёжно
   const insertRes: any = await db.insert(detectionResults).values(payload);
+  // Quota usage outlives the result, so deleting results doesn't hand quota back
+  if (!payload.isDuplicate) {
+    await db.insert(analysisUsage).values({ userId, fileType: payload.fileType });
+  }
 
   const insertedId =
     insertRes?.[0]?.insertId ??
@@ -122,8 +163,30 @@ export async function getDetectionResult(id: number) {
   return rows[0];
 }
 
-export async function getDetectionResultById(id: number) {
-  return await getDetectionResult(id);
+/**
+ * Whose results a query sees: a team workspace, or the user's personal one (organizationId null)
+ */
+export interface WorkspaceScope {
+  userId: number;
+  organizationId: number | null;
+}
+
+function workspaceCondition(scope: WorkspaceScope): SQL {
+  if (scope.organizationId !== null) return eq(detectionResults.organizationId, scope.organizationId);
+  return and(eq(detectionResults.userId, scope.userId), isNull(detectionResults.organizationId))!;
+}
+
+/**
+ * Same as getDetectionResult, but only returns the row if it belongs to the workspace
+ */
+export async function getDetectionResultById(id: number, scope: WorkspaceScope) {
+  const db = await getDb();
+  const rows = await db
+    .select()
+    .from(detectionResults)
+    .where(and(eq(detectionResults.id, id), workspaceCondition(scope)))
+    .limit(1);
+  return rows[0];
 }
 
 export async function getUserDetectionResults(userId: number) {
@@ -135,32 +198,282 @@ export async function getUserDetectionResults(userId: number) {
     .orderBy(desc(detectionResults.createdAt));
 }
 
-export async function getUserDetectionHistory(userId: number, limit = 50) {
+export async function getUserDetectionHistory(scope: WorkspaceScope, limit = 50) {
   const db = await getDb();
   return await db
     .select()
     .from(detectionResults)
-    .where(eq(detectionResults.userId, userId))
+    .where(workspaceCondition(scope))
     .orderBy(desc(detectionResults.createdAt))
     .limit(limit);
 }
 
-export async function findDuplicateAnalysis(userId: number, fileHash: string) {
+export async function findDuplicateAnalysis(scope: WorkspaceScope, fileHash: string) {
   const db = await getDb();
   const rows = await db
     .select()
     .from(detectionResults)
-    .where(and(eq(detectionResults.userId, userId), eq(detectionResults.fileHash, fileHash)))
+    .where(and(workspaceCondition(scope), eq(detectionResults.fileHash, fileHash)))
+    .limit(1);
+  return rows[0];
+}
+
+/**
+ * Newest original verdict for the same content and detection signature from
+ * any user who currently shares results globally. Only verdict columns are
+ * read: never the uploader, file name or storage key.
+ */
+export async function findSharedAnalysis(fileHash: string, providerVersion: string, since: Date) {
+  const db = await getDb();
+  const rows = await db
+    .select({
+      id: detectionResults.id,
+      verdict: detectionResults.verdict,
+      confidence: detectionResults.confidence,
+      detectedGenerator: detectionResults.detectedGenerator,
+      generatorScores: detectionResults.generatorScores,
+    })
+    .from(detectionResults)
+    .innerJoin(users, eq(users.id, detectionResults.userId))
+    .where(
+      and(
+        eq(detectionResults.fileHash, fileHash),
+        eq(detectionResults.providerVersion, providerVersion),
+        eq(detectionResults.isDuplicate, 0),
+        gte(detectionResults.createdAt, since),
+        eq(users.shareResultsGlobally, 1)
+      )
+    )
+    .orderBy(desc(detectionResults.createdAt))
     .limit(1);
   return rows[0];
 }
 
-export async function getDetectionResultsForExport(userId: number, _ids?: number[]) {
-  return await getUserDetectionHistory(userId, 1000);
+export interface DetectionHistoryFilters {
+  verdict?: "ai" | "human";
+  fileType?: "image" | "audio" | "video" | "text";
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export const HISTORY_SORT_FIELDS = ["createdAt", "confidence", "fileSize", "processingTimeMs"] as const;
+export type HistorySortField = (typeof HISTORY_SORT_FIELDS)[number];
+
+export interface HistoryPageOptions {
+  sortBy?: HistorySortField;
+  sortDir?: "asc" | "desc";
+  cursor?: string | null;
+  limit?: number;
+}
+
+// Keyset position: sort value of the last row + its id as tie-breaker.
+// createdAt is an ISO timestamp, confidence a decimal string, the rest numbers.
+interface HistoryCursor {
+  v: string | number;
+  id: number;
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?Z$/;
+
+function isHistorySortValue(field: HistorySortField, v: unknown): v is string | number {
+  switch (field) {
+    case "createdAt":
+      return typeof v === "string" && ISO_TIMESTAMP.test(v) && !Number.isNaN(Date.parse(v));
+    case "confidence":
+      return typeof v === "string" && /^\d{1,4}(\.\d{1,4})?$/.test(v);
+    default:
+      return typeof v === "number" && Number.isFinite(v);
+  }
+}
+
+export function encodeHistoryCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Null unless the cursor holds a value of the type `sortBy` compares against,
+ * so a tampered cursor never reaches the query
+ */
+export function decodeHistoryCursor(value: string, sortBy: HistorySortField): HistoryCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Number.isInteger(parsed?.id)) return null;
+    if (!isHistorySortValue(sortBy, parsed.v)) return null;
+    return { v: parsed.v, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+// fileSize / processingTimeMs are nullable; treat missing as 0 so keyset comparisons stay total
+function historySortExpression(field: HistorySortField): SQL {
+  switch (field) {
+    case "confidence":
+      return sql`${detectionResults.confidence}`;
+    case "fileSize":
+      return sql`COALESCE(${detectionResults.fileSize}, 0)`;
+    case "processingTimeMs":
+      return sql`COALESCE(${detectionResults.processingTimeMs}, 0)`;
+    default:
+      return sql`${detectionResults.createdAt}`;
+  }
+}
+
+function historySortValue(field: HistorySortField, row: DetectionResult): string | number {
+  switch (field) {
+    case "confidence":
+      return String(row.confidence);
+    case "fileSize":
+      return row.fileSize ?? 0;
+    case "processingTimeMs":
+      return row.processingTimeMs ?? 0;
+    default:
+      return new Date(row.createdAt).toISOString();
+  }
+}
+
+function detectionHistoryConditions(scope: WorkspaceScope, filters: DetectionHistoryFilters): SQL[] {
+  const conditions: SQL[] = [workspaceCondition(scope)];
+  if (filters.verdict) conditions.push(eq(detectionResults.verdict, filters.verdict));
+  if (filters.fileType) conditions.push(eq(detectionResults.fileType, filters.fileType));
+  if (filters.startDate) conditions.push(gte(detectionResults.createdAt, filters.startDate));
+  if (filters.endDate) conditions.push(lte(detectionResults.createdAt, filters.endDate));
+  return conditions;
+}
+
+/**
+ * One page of a workspace's history plus totals for the whole filtered set.
+ * Pass `nextCursor` back as `cursor` to continue.
+ */
+export async function getFilteredDetectionHistory(
+  scope: WorkspaceScope,
+  filters: DetectionHistoryFilters,
+  page: HistoryPageOptions = {}
+) {
+  const db = await getDb();
+  const sortBy = page.sortBy ?? "createdAt";
+  const sortDir = page.sortDir ?? "desc";
+  const limit = page.limit ?? 50;
+
+  const conditions = detectionHistoryConditions(scope, filters);
+  const filtered = and(...conditions);
+
+  const sortExpr = historySortExpression(sortBy);
+  const order = sortDir === "asc" ? asc : desc;
+  const after = sortDir === "asc" ? gt : lt;
+
+  const cursor = page.cursor ? decodeHistoryCursor(page.cursor, sortBy) : null;
+  if (cursor) {
+    const value = sortBy === "createdAt" ? new Date(cursor.v) : cursor.v;
+    conditions.push(
+      or(
+        after(sortExpr, value),
+        and(eq(sortExpr, value), after(detectionResults.id, cursor.id))
+      )!
+    );
+  }
+
+  const rows = await db
+    .select()
+    .from(detectionResults)
+    .where(and(...conditions))
+    .orderBy(order(sortExpr), order(detectionResults.id))
+    .limit(limit + 1);
+
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  const nextCursor =
+    rows.length > limit && last
+      ? encodeHistoryCursor({ v: historySortValue(sortBy, last), id: last.id })
+      : null;
+
+  const counts = await db
+    .select({ verdict: detectionResults.verdict, count: sql<number>`count(*)` })
+    .from(detectionResults)
+    .where(filtered)
+    .groupBy(detectionResults.verdict);
+
+  const aiCount = Number(counts.find(c => c.verdict === "ai")?.count ?? 0);
+  const humanCount = Number(counts.find(c => c.verdict === "human")?.count ?? 0);
+
+  return { items, nextCursor, total: aiCount + humanCount, aiCount, humanCount };
+}
+
+/**
+ * Export scope: explicit ids (from the History selection) win over filters
+ */
+export interface ExportSelection {
+  ids?: number[];
+  filters?: DetectionHistoryFilters;
+}
+
+function exportConditions(scope: WorkspaceScope, selection: ExportSelection): SQL[] {
+  if (selection.ids && selection.ids.length > 0) {
+    return [workspaceCondition(scope), inArray(detectionResults.id, selection.ids)];
+  }
+  return detectionHistoryConditions(scope, selection.filters ?? {});
+}
+
+export async function getDetectionResultsForExport(
+  scope: WorkspaceScope,
+  selection: ExportSelection = {},
+  limit = 1000
+) {
+  const db = await getDb();
+  return await db
+    .select()
+    .from(detectionResults)
+    .where(and(...exportConditions(scope, selection)))
+    .orderBy(desc(detectionResults.id))
+    .limit(limit);
+}
+
+/**
+ * Walk an export in id-keyed batches so large exports never sit in memory at once
+ */
+export async function* iterateDetectionResultsForExport(
+  scope: WorkspaceScope,
+  selection: ExportSelection = {},
+  batchSize = 500
+) {
+  const db = await getDb();
+  let beforeId: number | null = null;
+
+  while (true) {
+    const conditions = exportConditions(scope, selection);
+    if (beforeId !== null) conditions.push(lt(detectionResults.id, beforeId));
+
+    const rows = await db
+      .select()
+      .from(detectionResults)
+      .where(and(...conditions))
+      .orderBy(desc(detectionResults.id))
+      .limit(batchSize);
+
+    if (rows.length === 0) return;
+    yield rows;
+    if (rows.length < batchSize) return;
+    beforeId = rows[rows.length - 1].id;
+  }
 }
 
-export async function getFilteredDetectionHistory(userId: number, _filters: any, limit = 50) {
-  return await getUserDetectionHistory(userId, limit);
+/**
+ * Analyses the user ran since `monthStart`, per media type, split into the month
+ * and the part since `dayStart`. Cached results never reached a vendor and aren't counted.
+ */
+export async function countUserAnalysesForQuota(userId: number, dayStart: Date, monthStart: Date) {
+  const db = await getDb();
+  const rows = await db
+    .select({
+      fileType: analysisUsage.fileType,
+      month: sql<number>`count(*)`,
+      day: sql<number>`sum(case when ${analysisUsage.createdAt} >= ${dayStart} then 1 else 0 end)`,
+    })
+    .from(analysisUsage)
+    .where(and(eq(analysisUsage.userId, userId), gte(analysisUsage.createdAt, monthStart)))
+    .groupBy(analysisUsage.fileType);
+
+  return rows.map(row => ({ fileType: row.fileType, month: Number(row.month), day: Number(row.day ?? 0) }));
 }
 
 /* -------------------- Share Links -------------------- */
@@ -194,31 +507,1170 @@ export async function getShareLink(token: string) {
 
 export async function getShareLinkStats(slug: string) {
   const link = await getShareLinkBySlug(slug);
-  return link ? { viewCount: link.viewCount, lastViewedAt: link.lastViewedAt } : null;
+  return link
+    ? {
+        viewCount: link.viewCount,
+        lastViewedAt: link.lastViewedAt,
+        createdAt: link.createdAt,
+        expiresAt: link.expiresAt,
+        revokedAt: link.revokedAt,
+      }
+    : null;
 }
 
 export async function incrementShareLinkView(token: string) {
   const db = await getDb();
-  const link = await getShareLinkBySlug(token);
-  if (!link) return;
-
+  // Increment in SQL so concurrent views aren't lost
   await db
     .update(shareLinks)
-    .set({ viewCount: (link.viewCount || 0) + 1, lastViewedAt: new Date() })
+    .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date() })
     .where(eq(shareLinks.shareToken, token));
 }
 
+/**
+ * The user's links with a summary of the shared result. Password hashes are never selected.
+ */
 export async function getUserShareLinks(userId: number) {
   const db = await getDb();
   return await db
-    .select()
+    .select({
+      id: shareLinks.id,
+      shareToken: shareLinks.shareToken,
+      detectionResultId: shareLinks.detectionResultId,
+      viewCount: shareLinks.viewCount,
+      lastViewedAt: shareLinks.lastViewedAt,
+      createdAt: shareLinks.createdAt,
+      expiresAt: shareLinks.expiresAt,
+      revokedAt: shareLinks.revokedAt,
+      exposeFile: shareLinks.exposeFile,
+      hasPassword: sql<number>`${shareLinks.passwordHash} IS NOT NULL`,
+      fileName: detectionResults.fileName,
+      fileType: detectionResults.fileType,
+      verdict: detectionResults.verdict,
+    })
     .from(shareLinks)
+    .leftJoin(detectionResults, eq(detectionResults.id, shareLinks.detectionResultId))
     .where(eq(shareLinks.userId, userId))
     .orderBy(desc(shareLinks.createdAt));
 }
 
+export async function revokeShareLink(token: string) {
+  const db = await getDb();
+  await db
+    .update(shareLinks)
+    .set({ revokedAt: new Date() })
+    .where(eq(shareLinks.shareToken, token));
+}
+
 export async function getDetectionResultByShareSlug(slug: string) {
   const link = await getShareLinkBySlug(slug);
   if (!link) return null;
   return await getDetectionResult(link.detectionResultId);
 }
+
+/* -------------------- Detection Jobs -------------------- */
+
+export async function createDetectionJob(job: InsertDetectionJob) {
+  const db = await getDb();
+  const insertRes: any = await db.insert(detectionJobs).values(job);
+
+  const insertedId =
+    insertRes?.[0]?.insertId ??
+    insertRes?.insertId ??
+    insertRes?.[0]?.[0]?.insertId;
+
+  return await getDetectionJob(insertedId);
+}
+
+export async function getDetectionJob(id: number) {
+  const db = await getDb();
+  const rows = await db
+    .select()
+    .from(detectionJobs)
+    .where(eq(detectionJobs.id, id))
+    .limit(1);
+  return rows[0];
+}
+
+/**
+ * Atomically move the oldest due job from queued to running.
+ * The conditional UPDATE makes concurrent workers skip jobs someone else claimed.
+ */
+export async function claimNextDetectionJob() {
+  const db = await getDb();
+
+  const candidates = await db
+    .select()
+    .from(detectionJobs)
+    .where(and(eq(detectionJobs.status, "queued"), lte(detectionJobs.runAfter, new Date())))
+    .orderBy(asc(detectionJobs.runAfter), asc(detectionJobs.id))
+    .limit(5);
+
+  for (const candidate of candidates) {
+    const updateRes: any = await db
+      .update(detectionJobs)
+      .set({
+        status: "running",
+        attempts: candidate.attempts + 1,
+        startedAt: new Date(),
+      })
+      .where(and(eq(detectionJobs.id, candidate.id), eq(detectionJobs.status, "queued")));
+
+    const affected = updateRes?.[0]?.affectedRows ?? updateRes?.affectedRows ?? 0;
+    if (affected > 0) {
+      return { ...candidate, status: "running" as const, attempts: candidate.attempts + 1 };
+    }
+  }
+
+  return undefined;
+}
+
+export async function updateDetectionJob(
+  id: number,
+  data: Partial<Omit<InsertDetectionJob, "id" | "userId">>
+) {
+  const db = await getDb();
+  await db.update(detectionJobs).set(data).where(eq(detectionJobs.id, id));
+}
+
+/**
+ * Put jobs whose worker died mid-run back in the queue
+ */
+export async function requeueStaleDetectionJobs(startedBefore: Date) {
+  const db = await getDb();
+  await db
+    .update(detectionJobs)
+    .set({ status: "queued", runAfter: new Date() })
+    .where(and(eq(detectionJobs.status, "running"), lt(detectionJobs.startedAt, startedBefore)));
+}
+
+/* -------------------- Batches -------------------- */
+
+export async function createDetectionBatch(batch: InsertDetectionBatch) {
+  const db = await getDb();
+  const insertRes: any = await db.insert(detectionBatches).values(batch);
+
+  const insertedId =
+    insertRes?.[0]?.insertId ??
+    insertRes?.insertId ??
+    insertRes?.[0]?.[0]?.insertId;
+
+  return await getDetectionBatch(insertedId);
+}
+
+export async function getDetectionBatch(id: number) {
+  const db = await getDb();
+  const rows = await db.select().from(detectionBatches).where(eq(detectionBatches.id, id)).limit(1);
+  return rows[0];
+}
+
+/**
+ * The user's most recent batches in the workspace, with item counts
+ */
+export async function getUserDetectionBatches(scope: WorkspaceScope, limit = 20) {
+  const db = await getDb();
+  const rows = await db
+    .select({
+      id: detectionBatches.id,
+      name: detectionBatches.name,
+      organizationId: detectionBatches.organizationId,
+      createdAt: detectionBatches.createdAt,
+      total: sql<number>`count(${detectionJobs.id})`,
+      succeeded: sql<number>`sum(case when ${detectionJobs.status} = 'succeeded' then 1 else 0 end)`,
+      failed: sql<number>`sum(case when ${detectionJobs.status} = 'failed' then 1 else 0 end)`,
+    })
+    .from(detectionBatches)
+    .leftJoin(detectionJobs, eq(detectionJobs.batchId, detectionBatches.id))
+    .where(
+      and(
+        eq(detectionBatches.userId, scope.userId),
+        scope.organizationId !== null
+          ? eq(detectionBatches.organizationId, scope.organizationId)
+          : isNull(detectionBatches.organizationId)
+      )
+    )
+    .groupBy(detectionBatches.id)
+    .orderBy(desc(detectionBatches.id))
+    .limit(limit);
+
+  return rows.map(row => ({
+    ...row,
+    total: Number(row.total),
+    succeeded: Number(row.succeeded ?? 0),
+    failed: Number(row.failed ?? 0),
+  }));
+}
+
+/**
+ * Jobs of a batch in upload order, with the verdict of the ones that succeeded
+ */
+export async function getBatchItems(batchId: number) {
+  const db = await getDb();
+  return await db
+    .select({
+      jobId: detectionJobs.id,
+      fileType: detectionJobs.fileType,
+      status: detectionJobs.status,
+      input: detectionJobs.input,
+      attempts: detectionJobs.attempts,
+      maxAttempts: detectionJobs.maxAttempts,
+      lastError: detectionJobs.lastError,
+      completedAt: detectionJobs.completedAt,
+      detectionResultId: detectionJobs.detectionResultId,
+      verdict: detectionResults.verdict,
+      confidence: detectionResults.confidence,
+      detectedGenerator: detectionResults.detectedGenerator,
+    })
+    .from(detectionJobs)
+    .leftJoin(detectionResults, eq(detectionResults.id, detectionJobs.detectionResultId))
+    .where(eq(detectionJobs.batchId, batchId))
+    .orderBy(asc(detectionJobs.id));
+}
+
+/**
+ * Queue items of a batch that failed after `failedSince` (all of them without
+ * `jobIds`) again with a fresh attempt budget
+ */
+export async function requeueFailedBatchJobs(batchId: number, failedSince: Date, jobIds?: number[]) {
+  const db = await getDb();
+  const conditions = [
+    eq(detectionJobs.batchId, batchId),
+    eq(detectionJobs.status, "failed"),
+    gte(detectionJobs.completedAt, failedSince),
+  ];
+  if (jobIds) conditions.push(inArray(detectionJobs.id, jobIds));
+
+  const res = await db
+    .update(detectionJobs)
+    .set({
+      status: "queued",
+      attempts: 0,
+      lastError: null,
+      stage: null,
+      failedStage: null,
+      runAfter: new Date(),
+      completedAt: null,
+    })
+    .where(and(...conditions));
+  return affectedRows(res);
+}
+
+/* -------------------- API Keys -------------------- */
+
+export async function createApiKey(key: InsertApiKey) {
+  const db = await getDb();
+  await db.insert(apiKeys).values(key);
+  return await getApiKeyByHash(key.keyHash);
+}
+
+export async function getApiKeyByHash(keyHash: string) {
+  const db = await getDb();
+  const rows = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash)).limit(1);
+  return rows[0];
+}
+
+// keyHash never leaves the server
+export async function getUserApiKeys(userId: number) {
+  const db = await getDb();
+  return await db
+    .select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      keyPrefix: apiKeys.keyPrefix,
+      scopes: apiKeys.scopes,
+      lastUsedAt: apiKeys.lastUsedAt,
+      revokedAt: apiKeys.revokedAt,
+      createdAt: apiKeys.createdAt,
+    })
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt));
+}
+
+/**
+ * Revoke one of the user's keys; returns false when it doesn't exist or is already revoked
+ */
+export async function revokeApiKey(id: number, userId: number) {
+  const db = await getDb();
+  const updateRes: any = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+
+  const affected = updateRes?.[0]?.affectedRows ?? updateRes?.affectedRows ?? 0;
+  return affected > 0;
+}
+
+export async function touchApiKey(id: number) {
+  const db = await getDb();
+  await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+}
+
+/* -------------------- Webhooks -------------------- */
+
+export async function createWebhook(webhook: InsertWebhook) {
+  const db = await getDb();
+  const insertRes: any = await db.insert(webhooks).values(webhook);
+
+  const insertedId =
+    insertRes?.[0]?.insertId ??
+    insertRes?.insertId ??
+    insertRes?.[0]?.[0]?.insertId;
+
+  return await getWebhook(insertedId, webhook.userId);
+}
+
+export async function getWebhook(id: number, userId: number) {
+  const db = await getDb();
+  const rows = await db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+    .limit(1);
+  return rows[0];
+}
+
+// The signing secret is only returned by getWebhook, never in listings
+export async function getUserWebhooks(userId: number) {
+  const db = await getDb();
+  return await db
+    .select({
+      id: webhooks.id,
+      url: webhooks.url,
+      description: webhooks.description,
+      active: webhooks.active,
+      createdAt: webhooks.createdAt,
+      updatedAt: webhooks.updatedAt,
+    })
+    .from(webhooks)
+    .where(eq(webhooks.userId, userId))
+    .orderBy(desc(webhooks.createdAt));
+}
+
+export async function getActiveWebhooks(userId: number) {
+  const db = await getDb();
+  return await db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.userId, userId), eq(webhooks.active, 1)));
+}
+
+export async function updateWebhook(
+  id: number,
+  userId: number,
+  data: Partial<Pick<InsertWebhook, "url" | "description" | "active" | "secret">>
+) {
+  const db = await getDb();
+  await db
+    .update(webhooks)
+    .set(data)
+    .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)));
+}
+
+export async function deleteWebhook(id: number, userId: number) {
+  const db = await getDb();
+  await db
+    .delete(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.webhookId, id), eq(webhookDeliveries.userId, userId)));
+  await db.delete(webhooks).where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)));
+}
+
+export async function createWebhookDeliveries(deliveries: InsertWebhookDelivery[]) {
+  if (deliveries.length === 0) return;
+  const db = await getDb();
+  await db.insert(webhookDeliveries).values(deliveries);
+}
+
+export async function createWebhookDelivery(delivery: InsertWebhookDelivery) {
+  const db = await getDb();
+  const insertRes: any = await db.insert(webhookDeliveries).values(delivery);
+
+  const insertedId =
+    insertRes?.[0]?.insertId ??
+    insertRes?.insertId ??
+    insertRes?.[0]?.[0]?.insertId;
+
+  const rows = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, insertedId)).limit(1);
+  return rows[0];
+}
+
+export async function getWebhookDeliveries(webhookId: number, userId: number, limit = 50) {
+  const db = await getDb();
+  return await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.webhookId, webhookId), eq(webhookDeliveries.userId, userId)))
+    .orderBy(desc(webhookDeliveries.id))
+    .limit(limit);
+}
+
+/**
+ * Atomically move the oldest due delivery from pending to sending (same scheme as claimNextDetectionJob)
+ */
+export async function claimNextWebhookDelivery() {
+  const db = await getDb();
+
+  const candidates = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, new Date())))
+    .orderBy(asc(webhookDeliveries.nextAttemptAt), asc(webhookDeliveries.id))
+    .limit(5);
+
+  for (const candidate of candidates) {
+    const claimed = await claimWebhookDelivery(candidate);
+    if (claimed) return claimed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Claim one specific pending delivery, e.g. a test event sent right away
+ */
+export async function claimWebhookDelivery(delivery: WebhookDelivery) {
+  const db = await getDb();
+  const lastAttemptAt = new Date();
+
+  const updateRes: any = await db
+    .update(webhookDeliveries)
+    .set({ status: "sending", attempts: delivery.attempts + 1, lastAttemptAt })
+    .where(and(eq(webhookDeliveries.id, delivery.id), eq(webhookDeliveries.status, "pending")));
+
+  const affected = updateRes?.[0]?.affectedRows ?? updateRes?.affectedRows ?? 0;
+  if (affected === 0) return undefined;
+
+  return { ...delivery, status: "sending" as const, attempts: delivery.attempts + 1, lastAttemptAt };
+}
+
+export async function updateWebhookDelivery(
+  id: number,
+  data: Partial<Omit<InsertWebhookDelivery, "id" | "webhookId" | "userId">>
+) {
+  const db = await getDb();
+  await db.update(webhookDeliveries).set(data).where(eq(webhookDeliveries.id, id));
+}
+
+/**
+ * Put deliveries whose worker died mid-send back in the queue
+ */
+export async function requeueStaleWebhookDeliveries(attemptedBefore: Date) {
+  const db = await getDb();
+  await db
+    .update(webhookDeliveries)
+    .set({ status: "pending", nextAttemptAt: new Date() })
+    .where(
+      and(eq(webhookDeliveries.status, "sending"), lt(webhookDeliveries.lastAttemptAt, attemptedBefore))
+    );
+}
+
+export async function getWebhookById(id: number) {
+  const db = await getDb();
+  const rows = await db.select().from(webhooks).where(eq(webhooks.id, id)).limit(1);
+  return rows[0];
+}
+
+/* -------------------- Organizations -------------------- */
+
+type OrganizationRole = OrganizationMember["role"];
+
+/**
+ * Create a team workspace with `userId` as its first owner
+ */
+export async function createOrganization(name: string, userId: number) {
+  const db = await getDb();
+  const insertRes: any = await db.insert(organizations).values({ name, createdByUserId: userId });
+
+  const insertedId =
+    insertRes?.[0]?.insertId ??
+    insertRes?.insertId ??
+    insertRes?.[0]?.[0]?.insertId;
+
+  await db.insert(organizationMembers).values({ organizationId: insertedId, userId, role: "owner" });
+  return await getOrganization(insertedId);
+}
+
+export async function getOrganization(id: number) {
+  const db = await getDb();
+  const rows = await db.select().from(organizations).where(eq(organizations.id, id)).limit(1);
+  return rows[0];
+}
+
+export async function renameOrganization(id: number, name: string) {
+  const db = await getDb();
+  await db.update(organizations).set({ name }).where(eq(organizations.id, id));
+}
+
+/**
+ * The user's role in an organization, or undefined when they aren't a member
+ */
+export async function getOrganizationMembership(organizationId: number, userId: number) {
+  const db = await getDb();
+  const rows = await db
+    .select({
+      organizationId: organizationMembers.organizationId,
+      name: organizations.name,
+      role: organizationMembers.role,
+    })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+    .limit(1);
+  return rows[0];
+}
+
+export async function getUserOrganizations(userId: number) {
+  const db = await getDb();
+  return await db
+    .select({
+      id: organizations.id,
+      name: organizations.name,
+      role: organizationMembers.role,
+    })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+    .where(eq(organizationMembers.userId, userId))
+    .orderBy(asc(organizations.name));
+}
+
+export async function getOrganizationMembers(organizationId: number) {
+  const db = await getDb();
+  return await db
+    .select({
+      userId: organizationMembers.userId,
+      username: users.username,
+      name: users.name,
+      email: users.email,
+      role: organizationMembers.role,
+      joinedAt: organizationMembers.createdAt,
+    })
+    .from(organizationMembers)
+    .innerJoin(users, eq(users.id, organizationMembers.userId))
+    .where(eq(organizationMembers.organizationId, organizationId))
+    .orderBy(asc(organizationMembers.createdAt));
+}
+
+export async function addOrganizationMember(organizationId: number, userId: number, role: OrganizationRole) {
+  const db = await getDb();
+  // Accepting a second invitation just updates the role
+  await db
+    .insert(organizationMembers)
+    .values({ organizationId, userId, role })
+    .onDuplicateKeyUpdate({ set: { role } });
+}
+
+export async function updateOrganizationMemberRole(
+  organizationId: number,
+  userId: number,
+  role: OrganizationRole
+) {
+  const db = await getDb();
+  await db
+    .update(organizationMembers)
+    .set({ role })
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+}
+
+export async function removeOrganizationMember(organizationId: number, userId: number) {
+  const db = await getDb();
+  await db
+    .delete(organizationMembers)
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+  // Don't leave the removed member pointing at a workspace they can't see
+  await db
+    .update(users)
+    .set({ activeOrganizationId: null })
+    .where(and(eq(users.id, userId), eq(users.activeOrganizationId, organizationId)));
+}
+
+export async function countOrganizationOwners(organizationId: number) {
+  const db = await getDb();
+  const rows = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(organizationMembers)
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.role, "owner")));
+  return Number(rows[0]?.count ?? 0);
+}
+
+export async function setActiveOrganization(userId: number, organizationId: number | null) {
+  const db = await getDb();
+  await db.update(users).set({ activeOrganizationId: organizationId }).where(eq(users.id, userId));
+}
+
+export async function createOrganizationInvitation(invitation: InsertOrganizationInvitation) {
+  const db = await getDb();
+  await db.insert(organizationInvitations).values(invitation);
+}
+
+export async function getOrganizationInvitation(id: number) {
+  const db = await getDb();
+  const rows = await db
+    .select()
+    .from(organizationInvitations)
+    .where(eq(organizationInvitations.id, id))
+    .limit(1);
+  return rows[0];
+}
+
+/**
+ * Pending, unexpired invitations of one organization (for its owners)
+ */
+export async function getOrganizationInvitations(organizationId: number) {
+  const db = await getDb();
+  return await db
+    .select()
+    .from(organizationInvitations)
+    .where(
+      and(
+        eq(organizationInvitations.organizationId, organizationId),
+        eq(organizationInvitations.status, "pending"),
+        gt(organizationInvitations.expiresAt, new Date())
+      )
+    )
+    .orderBy(desc(organizationInvitations.createdAt));
+}
+
+/**
+ * Pending, unexpired invitations addressed to the user's username or email
+ */
+export async function getInvitationsForUser(user: { username: string; email: string | null }) {
+  const db = await getDb();
+  const addressedTo = user.email
+    ? or(
+        eq(organizationInvitations.username, user.username),
+        eq(organizationInvitations.email, user.email.toLowerCase())
+      )!
+    : eq(organizationInvitations.username, user.username);
+
+  return await db
+    .select({
+      id: organizationInvitations.id,
+      organizationId: organizationInvitations.organizationId,
+      organizationName: organizations.name,
+      role: organizationInvitations.role,
+      expiresAt: organizationInvitations.expiresAt,
+      createdAt: organizationInvitations.createdAt,
+    })
+    .from(organizationInvitations)
+    .innerJoin(organizations, eq(organizations.id, organizationInvitations.organizationId))
+    .where(
+      and(
+        addressedTo,
+        eq(organizationInvitations.status, "pending"),
+        gt(organizationInvitations.expiresAt, new Date())
+      )
+    )
+    .orderBy(desc(organizationInvitations.createdAt));
+}
+
+export async function updateOrganizationInvitation(
+  id: number,
+  data: Partial<Pick<InsertOrganizationInvitation, "status" | "respondedAt">>
+) {
+  const db = await getDb();
+  await db.update(organizationInvitations).set(data).where(eq(organizationInvitations.id, id));
+}
+
+/* -------------------- Admin -------------------- */
+
+/**
+ * Users matching `query` (username, name or email), newest first, with the total for paging
+ */
+export async function searchUsers(options: { query?: string; limit: number; offset: number }) {
+  const db = await getDb();
+  const pattern = options.query ? `%${options.query.replace(/[\\%_]/g, "\\$&")}%` : null;
+  const where = pattern
+    ? or(like(users.username, pattern), like(users.name, pattern), like(users.email, pattern))
+    : undefined;
+
+  const [rows, totals] = await Promise.all([
+    db
+      .select({
+        id: users.id,
+        username: users.username,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+        plan: users.plan,
+        disabledAt: users.disabledAt,
+        createdAt: users.createdAt,
+        lastSignedIn: users.lastSignedIn,
+      })
+      .from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt))
+      .limit(options.limit)
+      .offset(options.offset),
+    db.select({ count: sql<number>`count(*)` }).from(users).where(where),
+  ]);
+
+  return { users: rows, total: Number(totals[0]?.count ?? 0) };
+}
+
+/**
+ * Analysis counts per user and media type; `cached` rows didn't reach a vendor
+ */
+export async function getUserAnalysisCounts(userIds: number[]) {
+  if (userIds.length === 0) return [];
+  const db = await getDb();
+  const rows = await db
+    .select({
+      userId: detectionResults.userId,
+      fileType: detectionResults.fileType,
+      total: sql<number>`count(*)`,
+      cached: sql<number>`sum(${detectionResults.isDuplicate})`,
+      lastAnalysisAt: sql<Date | null>`max(${detectionResults.createdAt})`,
+    })
+    .from(detectionResults)
+    .where(inArray(detectionResults.userId, userIds))
+    .groupBy(detectionResults.userId, detectionResults.fileType);
+
+  return rows.map(row => ({
+    ...row,
+    total: Number(row.total),
+    cached: Number(row.cached ?? 0),
+  }));
+}
+
+export async function updateUserRole(id: number, role: User["role"]) {
+  const db = await getDb();
+  await db.update(users).set({ role }).where(eq(users.id, id));
+}
+
+export async function updateUserPlan(id: number, plan: User["plan"]) {
+  const db = await getDb();
+  await db.update(users).set({ plan }).where(eq(users.id, id));
+}
+
+export async function setUserDisabled(id: number, disabled: boolean) {
+  const db = await getDb();
+  await db
+    .update(users)
+    .set({ disabledAt: disabled ? new Date() : null })
+    .where(eq(users.id, id));
+}
+
+export async function createAnalysisFailure(failure: InsertAnalysisFailure) {
+  const db = await getDb();
+  await db.insert(analysisFailures).values(failure);
+}
+
+export async function getRecentAnalysisFailures(limit = 50) {
+  const db = await getDb();
+  return await db
+    .select({
+      id: analysisFailures.id,
+      userId: analysisFailures.userId,
+      username: users.username,
+      source: analysisFailures.source,
+      fileType: analysisFailures.fileType,
+      fileName: analysisFailures.fileName,
+      code: analysisFailures.code,
+      message: analysisFailures.message,
+      detail: analysisFailures.detail,
+      createdAt: analysisFailures.createdAt,
+    })
+    .from(analysisFailures)
+    .leftJoin(users, eq(users.id, analysisFailures.userId))
+    .orderBy(desc(analysisFailures.createdAt))
+    .limit(limit);
+}
+
+export async function countAnalysisFailuresSince(since: Date) {
+  const db = await getDb();
+  const rows = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(analysisFailures)
+    .where(gte(analysisFailures.createdAt, since));
+  return Number(rows[0]?.count ?? 0);
+}
+
+export async function countDetectionJobsByStatus() {
+  const db = await getDb();
+  const rows = await db
+    .select({ status: detectionJobs.status, count: sql<number>`count(*)` })
+    .from(detectionJobs)
+    .groupBy(detectionJobs.status);
+  return Object.fromEntries(rows.map(row => [row.status, Number(row.count)]));
+}
+
+export async function countWebhookDeliveriesByStatus() {
+  const db = await getDb();
+  const rows = await db
+    .select({ status: webhookDeliveries.status, count: sql<number>`count(*)` })
+    .from(webhookDeliveries)
+    .groupBy(webhookDeliveries.status);
+  return Object.fromEntries(rows.map(row => [row.status, Number(row.count)]));
+}
+
+export async function pingDatabase() {
+  const db = await getDb();
+  await db.execute(sql`select 1`);
+}
+
+/* -------------------- Vendor spend -------------------- */
+
+export async function createVendorCall(call: InsertVendorCall) {
+  const db = await getDb();
+  await db.insert(vendorCalls).values(call);
+}
+
+export async function sumVendorCostSince(since: Date) {
+  const db = await getDb();
+  const rows = await db
+    .select({ cost: sql<string | null>`sum(${vendorCalls.estimatedCost})` })
+    .from(vendorCalls)
+    .where(gte(vendorCalls.createdAt, since));
+  return Number(rows[0]?.cost ?? 0);
+}
+
+function spendColumns() {
+  return {
+    calls: sql<number>`sum(case when ${vendorCalls.cacheHit} = 0 then 1 else 0 end)`,
+    cacheHits: sql<number>`sum(${vendorCalls.cacheHit})`,
+    failures: sql<number>`sum(case when ${vendorCalls.success} = 0 then 1 else 0 end)`,
+    bytes: sql<number>`sum(${vendorCalls.bytes})`,
+    durationMs: sql<number>`sum(${vendorCalls.durationMs})`,
+    cost: sql<string | null>`sum(${vendorCalls.estimatedCost})`,
+  };
+}
+
+function toSpendTotals(row: Record<keyof ReturnType<typeof spendColumns>, unknown>) {
+  return {
+    calls: Number(row.calls ?? 0),
+    cacheHits: Number(row.cacheHits ?? 0),
+    failures: Number(row.failures ?? 0),
+    bytes: Number(row.bytes ?? 0),
+    durationMs: Number(row.durationMs ?? 0),
+    cost: Number(row.cost ?? 0),
+  };
+}
+
+/**
+ * Spend per day (server time zone) and media type since `since`, oldest first
+ */
+export async function getVendorSpendByDay(since: Date) {
+  const db = await getDb();
+  const day = sql<string>`date_format(${vendorCalls.createdAt}, '%Y-%m-%d')`;
+  const rows = await db
+    .select({ day, fileType: vendorCalls.fileType, ...spendColumns() })
+    .from(vendorCalls)
+    .where(gte(vendorCalls.createdAt, since))
+    .groupBy(day, vendorCalls.fileType)
+    .orderBy(day);
+
+  return rows.map(row => ({ day: String(row.day), fileType: row.fileType, ...toSpendTotals(row) }));
+}
+
+/**
+ * Users with the highest spend since `since`
+ */
+export async function getVendorSpendByUser(since: Date, limit = 20) {
+  const db = await getDb();
+  const columns = spendColumns();
+  const rows = await db
+    .select({ userId: vendorCalls.userId, username: users.username, ...columns })
+    .from(vendorCalls)
+    .leftJoin(users, eq(users.id, vendorCalls.userId))
+    .where(gte(vendorCalls.createdAt, since))
+    .groupBy(vendorCalls.userId, users.username)
+    .orderBy(desc(columns.cost))
+    .limit(limit);
+
+  return rows.map(row => ({ userId: row.userId, username: row.username, ...toSpendTotals(row) }));
+}
+
+/* -------------------- Retention -------------------- */
+
+/**
+ * Days the workspace keeps stored media; null = forever
+ */
+export async function getWorkspaceRetentionDays(scope: WorkspaceScope): Promise<number | null> {
+  const db = await getDb();
+  const rows =
+    scope.organizationId !== null
+      ? await db
+          .select({ days: organizations.mediaRetentionDays })
+          .from(organizations)
+          .where(eq(organizations.id, scope.organizationId))
+          .limit(1)
+      : await db
+          .select({ days: users.mediaRetentionDays })
+          .from(users)
+          .where(eq(users.id, scope.userId))
+          .limit(1);
+  return rows[0]?.days ?? null;
+}
+
+export async function setWorkspaceRetentionDays(scope: WorkspaceScope, days: number | null) {
+  const db = await getDb();
+  if (scope.organizationId !== null) {
+    await db.update(organizations).set({ mediaRetentionDays: days }).where(eq(organizations.id, scope.organizationId));
+  } else {
+    await db.update(users).set({ mediaRetentionDays: days }).where(eq(users.id, scope.userId));
+  }
+}
+
+/**
+ * Results whose stored file or text excerpt outlived their workspace's
+ * retention period, oldest first. Personal results follow the user's setting,
+ * team results the organization's.
+ */
+export async function findExpiredMedia(now: Date, limit = 100) {
+  const db = await getDb();
+  const retentionDays = sql`coalesce(${organizations.mediaRetentionDays}, ${users.mediaRetentionDays})`;
+  return await db
+    .select({ id: detectionResults.id, s3Key: detectionResults.s3Key })
+    .from(detectionResults)
+    .leftJoin(users, and(eq(users.id, detectionResults.userId), isNull(detectionResults.organizationId)))
+    .leftJoin(organizations, eq(organizations.id, detectionResults.organizationId))
+    .where(
+      and(
+        isNull(detectionResults.mediaPurgedAt),
+        or(isNotNull(detectionResults.s3Key), isNotNull(detectionResults.textExcerpt)),
+        sql`${detectionResults.createdAt} < ${now} - interval ${retentionDays} day`
+      )
+    )
+    .orderBy(asc(detectionResults.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Keep only the verdict: drop the storage key and text excerpt
+ */
+export async function markMediaPurged(ids: number[], purgedAt: Date) {
+  if (ids.length === 0) return;
+  const db = await getDb();
+  await db
+    .update(detectionResults)
+    .set({ s3Key: null, textExcerpt: null, mediaPurgedAt: purgedAt })
+    .where(inArray(detectionResults.id, ids));
+}
+
+/**
+ * Which of `keys` are still the stored file of some result
+ */
+export async function findReferencedStorageKeys(keys: string[]) {
+  if (keys.length === 0) return [];
+  const db = await getDb();
+  const rows = await db
+    .select({ s3Key: detectionResults.s3Key })
+    .from(detectionResults)
+    .where(inArray(detectionResults.s3Key, keys));
+  return rows.map(row => row.s3Key!);
+}
+
+/**
+ * Uploads jobs will still read: those of queued and running jobs, and of failed
+ * batch items that failed after `retryableSince` and so can still be retried
+ */
+export async function getPendingJobUploads(retryableSince: Date) {
+  const db = await getDb();
+  const rows = await db
+    .select({ input: detectionJobs.input })
+    .from(detectionJobs)
+    .where(
+      or(
+        inArray(detectionJobs.status, ["queued", "running"]),
+        and(
+          eq(detectionJobs.status, "failed"),
+          isNotNull(detectionJobs.batchId),
+          gte(detectionJobs.completedAt, retryableSince)
+        )
+      )
+    );
+  return rows.map(row => {
+    const input = row.input as { fileUrl?: string; fileKey?: string | null } | null;
+    return { fileKey: input?.fileKey ?? null, fileUrl: String(input?.fileUrl ?? "") };
+  });
+}
+
+/* -------------------- Deletion -------------------- */
+
+function affectedRows(res: any): number {
+  return res?.[0]?.affectedRows ?? res?.affectedRows ?? 0;
+}
+
+/**
+ * Id and storage key of the workspace's results, optionally only of `ids`
+ */
+export async function getWorkspaceResultFiles(scope: WorkspaceScope, ids?: number[], createdBy?: number) {
+  const db = await getDb();
+  const conditions = [workspaceCondition(scope)];
+  if (ids) conditions.push(inArray(detectionResults.id, ids));
+  if (createdBy !== undefined) conditions.push(eq(detectionResults.userId, createdBy));
+  return await db
+    .select({ id: detectionResults.id, s3Key: detectionResults.s3Key })
+    .from(detectionResults)
+    .where(and(...conditions));
+}
+
+/**
+ * Delete results together with their share links. Jobs and cached copies
+ * that pointed at them just lose the reference.
+ */
+export async function deleteDetectionResults(ids: number[]) {
+  if (ids.length === 0) return { results: 0, shareLinks: 0 };
+  const db = await getDb();
+
+  const linksRes = await db.delete(shareLinks).where(inArray(shareLinks.detectionResultId, ids));
+  await db.update(detectionJobs).set({ detectionResultId: null }).where(inArray(detectionJobs.detectionResultId, ids));
+  await db.update(detectionResults).set({ duplicateOfId: null }).where(inArray(detectionResults.duplicateOfId, ids));
+  const resultsRes = await db.delete(detectionResults).where(inArray(detectionResults.id, ids));
+
+  return { results: affectedRows(resultsRes), shareLinks: affectedRows(linksRes) };
+}
+
+/**
+ * Team results the user ran; they belong to the organization and survive account erasure
+ */
+export async function countUserTeamResults(userId: number) {
+  const db = await getDb();
+  const rows = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(detectionResults)
+    .where(and(eq(detectionResults.userId, userId), isNotNull(detectionResults.organizationId)));
+  return Number(rows[0]?.count ?? 0);
+}
+
+/**
+ * Remove an organization with its members and invitations. Its results must be deleted first.
+ */
+export async function deleteOrganization(id: number) {
+  const db = await getDb();
+  await db.delete(organizationInvitations).where(eq(organizationInvitations.organizationId, id));
+  await db.delete(organizationMembers).where(eq(organizationMembers.organizationId, id));
+  await db.update(users).set({ activeOrganizationId: null }).where(eq(users.activeOrganizationId, id));
+  await db.delete(organizations).where(eq(organizations.id, id));
+}
+
+/**
+ * Delete every row that belongs to the user, then the user. Results must be
+ * deleted first (they need their storage objects removed too).
+ */
+export async function deleteUserRows(user: Pick<User, "id" | "username" | "email">) {
+  const db = await getDb();
+  const userId = user.id;
+
+  const invitedAs = user.email
+    ? or(
+        eq(organizationInvitations.username, user.username),
+        eq(organizationInvitations.email, user.email.toLowerCase())
+      )!
+    : eq(organizationInvitations.username, user.username);
+
+  return {
+    shareLinks: affectedRows(await db.delete(shareLinks).where(eq(shareLinks.userId, userId))),
+    detectionJobs: affectedRows(await db.delete(detectionJobs).where(eq(detectionJobs.userId, userId))),
+    detectionBatches: affectedRows(
+      await db.delete(detectionBatches).where(eq(detectionBatches.userId, userId))
+    ),
+    apiKeys: affectedRows(await db.delete(apiKeys).where(eq(apiKeys.userId, userId))),
+    webhookDeliveries: affectedRows(
+      await db.delete(webhookDeliveries).where(eq(webhookDeliveries.userId, userId))
+    ),
+    webhooks: affectedRows(await db.delete(webhooks).where(eq(webhooks.userId, userId))),
+    organizationMemberships: affectedRows(
+      await db.delete(organizationMembers).where(eq(organizationMembers.userId, userId))
+    ),
+    invitations: affectedRows(await db.delete(organizationInvitations).where(invitedAs)),
+    analysisFailures: affectedRows(
+      await db.delete(analysisFailures).where(eq(analysisFailures.userId, userId))
+    ),
+    vendorCalls: affectedRows(await db.delete(vendorCalls).where(eq(vendorCalls.userId, userId))),
+    analysisUsage: affectedRows(await db.delete(analysisUsage).where(eq(analysisUsage.userId, userId))),
+    takeoutExports: affectedRows(await db.delete(takeoutExports).where(eq(takeoutExports.userId, userId))),
+    users: affectedRows(await db.delete(users).where(eq(users.id, userId))),
+  };
+}
+
+export async function createAccountDeletion(deletion: InsertAccountDeletion) {
+  const db = await getDb();
+  await db.insert(accountDeletions).values(deletion);
+}
+
+/* -------------------- Takeout exports -------------------- */
+
+export async function createTakeoutExport(userId: number) {
+  const db = await getDb();
+  const insertRes: any = await db.insert(takeoutExports).values({ userId });
+
+  const insertedId =
+    insertRes?.[0]?.insertId ??
+    insertRes?.insertId ??
+    insertRes?.[0]?.[0]?.insertId;
+
+  return await getTakeoutExport(insertedId);
+}
+
+export async function getTakeoutExport(id: number) {
+  const db = await getDb();
+  const rows = await db.select().from(takeoutExports).where(eq(takeoutExports.id, id)).limit(1);
+  return rows[0];
+}
+
+export async function getLatestTakeoutExport(userId: number) {
+  const db = await getDb();
+  const rows = await db
+    .select()
+    .from(takeoutExports)
+    .where(eq(takeoutExports.userId, userId))
+    .orderBy(desc(takeoutExports.id))
+    .limit(1);
+  return rows[0];
+}
+
+/**
+ * Move the oldest queued export to running; same conditional UPDATE as claimNextDetectionJob
+ */
+export async function claimNextTakeoutExport() {
+  const db = await getDb();
+
+  const candidates = await db
+    .select()
+    .from(takeoutExports)
+    .where(eq(takeoutExports.status, "queued"))
+    .orderBy(asc(takeoutExports.id))
+    .limit(5);
+
+  for (const candidate of candidates) {
+    const updateRes: any = await db
+      .update(takeoutExports)
+      .set({ status: "running", attempts: candidate.attempts + 1, startedAt: new Date() })
+      .where(and(eq(takeoutExports.id, candidate.id), eq(takeoutExports.status, "queued")));
+
+    if (affectedRows(updateRes) > 0) {
+      return { ...candidate, status: "running" as const, attempts: candidate.attempts + 1 };
+    }
+  }
+
+  return undefined;
+}
+
+export async function updateTakeoutExport(
+  id: number,
+  data: Partial<Omit<InsertTakeoutExport, "id" | "userId">>
+) {
+  const db = await getDb();
+  await db.update(takeoutExports).set(data).where(eq(takeoutExports.id, id));
+}
+
+export async function requeueStaleTakeoutExports(startedBefore: Date) {
+  const db = await getDb();
+  await db
+    .update(takeoutExports)
+    .set({ status: "queued" })
+    .where(and(eq(takeoutExports.status, "running"), lt(takeoutExports.startedAt, startedBefore)));
+}
+
+/**
+ * Built archives past their expiry that are still in storage
+ */
+export async function findExpiredTakeoutExports(now: Date, limit = 100) {
+  const db = await getDb();
+  return await db
+    .select({ id: takeoutExports.id, s3Key: takeoutExports.s3Key })
+    .from(takeoutExports)
+    .where(and(isNotNull(takeoutExports.s3Key), lt(takeoutExports.expiresAt, now)))
+    .limit(limit);
+}
@@ -0,0 +1,269 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+
+vi.mock("./db", () => ({
+  getWorkspaceResultFiles: vi.fn(),
+  getDetectionResultById: vi.fn(),
+  getOrganizationMembership: vi.fn(),
+  deleteDetectionResults: vi.fn(),
+  getUserOrganizations: vi.fn(),
+  countOrganizationOwners: vi.fn(),
+  getOrganizationMembers: vi.fn(),
+  deleteOrganization: vi.fn(),
+  countUserTeamResults: vi.fn(),
+  deleteUserRows: vi.fn(),
+  createAccountDeletion: vi.fn(),
+  getUserById: vi.fn(),
+  countUserAnalysesForQuota: vi.fn(),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+import { ENV } from "./_core/env";
+import * as db from "./db";
+import { appRouter } from "./routers";
+import { hashPassword } from "./password";
+import { resetRateLimits } from "./rateLimit";
+import { storagePut, storageRead } from "./storage";
+import type { TrpcContext } from "./_core/context";
+
+const userRows = {
+  shareLinks: 1,
+  detectionJobs: 2,
+  detectionBatches: 1,
+  apiKeys: 1,
+  webhookDeliveries: 0,
+  webhooks: 0,
+  organizationMemberships: 1,
+  invitations: 0,
+  analysisFailures: 0,
+  vendorCalls: 3,
+  analysisUsage: 4,
+  takeoutExports: 1,
+  users: 1,
+};
+
+function result(id: number, userId: number) {
+  return { id, userId } as Awaited<ReturnType<typeof db.getDetectionResultById>>;
+}
+
+async function exists(key: string) {
+  return storageRead(key).then(
+    () => true,
+    () => false
+  );
+}
+
+async function createContext(activeOrganizationId: number | null = null) {
+  const clearCookie = vi.fn();
+  const ctx: TrpcContext = {
+    user: {
+      id: 7,
+      username: "alice",
+      email: "alice@example.com",
+      password: await hashPassword("correct horse"),
+      role: "user",
+      activeOrganizationId,
+    } as NonNullable<TrpcContext["user"]>,
+    req: { headers: {}, socket: {} } as TrpcContext["req"],
+    res: { clearCookie, setHeader: vi.fn() } as unknown as TrpcContext["res"],
+  };
+  return { caller: appRouter.createCaller(ctx), clearCookie };
+}
+
+describe("deletion", () => {
+  const saved = { dir: ENV.localStorageDir, driver: ENV.storageDriver };
+
+  beforeAll(async () => {
+    ENV.localStorageDir = await mkdtemp(path.join(tmpdir(), "deletion-test-"));
+    ENV.storageDriver = "local";
+  });
+
+  afterAll(async () => {
+    await rm(ENV.localStorageDir, { recursive: true, force: true });
+    ENV.localStorageDir = saved.dir;
+    ENV.storageDriver = saved.driver;
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRateLimits();
+    vi.mocked(db.deleteDetectionResults).mockImplementation(async ids => ({ results: ids.length, shareLinks: 1 }));
+    vi.mocked(db.getUserOrganizations).mockResolvedValue([]);
+    vi.mocked(db.countUserTeamResults).mockResolvedValue(0);
+    vi.mocked(db.deleteUserRows).mockResolvedValue(userRows);
+  });
+
+  it("deletes a result with its stored file and share links", async () => {
+    await storagePut("detections/7/images/a.png", "png");
+    vi.mocked(db.getDetectionResultById).mockResolvedValueOnce(result(3, 7));
+    vi.mocked(db.getWorkspaceResultFiles).mockResolvedValueOnce([{ id: 3, s3Key: "detections/7/images/a.png" }]);
+    const { caller } = await createContext();
+
+    const deleted = await caller.detection.deleteResult({ id: 3 });
+
+    expect(deleted).toEqual({ success: true, results: 1, shareLinks: 1, files: 1, filesNotDeleted: 0 });
+    expect(db.getWorkspaceResultFiles).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 7, organizationId: null }),
+      [3],
+      undefined
+    );
+    expect(db.deleteDetectionResults).toHaveBeenCalledWith([3]);
+    expect(await exists("detections/7/images/a.png")).toBe(false);
+  });
+
+  it("answers NOT_FOUND for results outside the workspace", async () => {
+    vi.mocked(db.getDetectionResultById).mockResolvedValueOnce(undefined);
+    const { caller } = await createContext();
+
+    await expect(caller.detection.deleteResult({ id: 99 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.deleteDetectionResults).not.toHaveBeenCalled();
+  });
+
+  describe("in a team", () => {
+    const joinAs = (role: "owner" | "analyst" | "viewer") =>
+      vi.mocked(db.getOrganizationMembership).mockResolvedValue({
+        organizationId: 4,
+        name: "Newsroom",
+        role,
+      } as Awaited<ReturnType<typeof db.getOrganizationMembership>>);
+
+    it("keeps analysts from deleting other members' results", async () => {
+      joinAs("analyst");
+      vi.mocked(db.getDetectionResultById).mockResolvedValueOnce(result(3, 8));
+      const { caller } = await createContext(4);
+
+      await expect(caller.detection.deleteResult({ id: 3 })).rejects.toMatchObject({
+        code: "FORBIDDEN",
+        message: "Only workspace owners can delete other members' results",
+      });
+      expect(db.deleteDetectionResults).not.toHaveBeenCalled();
+    });
+
+    it("limits an analyst's bulk delete to their own results", async () => {
+      joinAs("analyst");
+      vi.mocked(db.getWorkspaceResultFiles).mockResolvedValueOnce([{ id: 1, s3Key: null }]);
+      const { caller } = await createContext(4);
+
+      await caller.detection.deleteMany({ ids: [1, 2] });
+
+      expect(db.getWorkspaceResultFiles).toHaveBeenCalledWith(expect.objectContaining({ organizationId: 4 }), [1, 2], 7);
+    });
+
+    it("lets owners delete any result of the team", async () => {
+      joinAs("owner");
+      vi.mocked(db.getDetectionResultById).mockResolvedValueOnce(result(3, 8));
+      vi.mocked(db.getWorkspaceResultFiles).mockResolvedValueOnce([{ id: 3, s3Key: null }]);
+      const { caller } = await createContext(4);
+
+      await expect(caller.detection.deleteResult({ id: 3 })).resolves.toMatchObject({ results: 1 });
+      expect(db.getWorkspaceResultFiles).toHaveBeenCalledWith(expect.objectContaining({ organizationId: 4 }), [3], undefined);
+    });
+
+    it("tells viewers they can't delete results", async () => {
+      joinAs("viewer");
+      const { caller } = await createContext(4);
+
+      await expect(caller.detection.deleteMany({ ids: [1] })).rejects.toMatchObject({
+        code: "FORBIDDEN",
+        message: "Only workspace analysts and owners can delete results",
+      });
+    });
+  });
+
+  it("deletes only the workspace's results in bulk", async () => {
+    vi.mocked(db.getWorkspaceResultFiles).mockResolvedValueOnce([
+      { id: 1, s3Key: null },
+      { id: 2, s3Key: "detections/7/audio/missing.mp3" },
+    ]);
+    const { caller } = await createContext();
+
+    const result = await caller.detection.deleteMany({ ids: [1, 2, 42] });
+
+    expect(result).toMatchObject({ results: 2, files: 1 });
+    expect(db.deleteDetectionResults).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it("keeps rows when their file can't be deleted", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.getWorkspaceResultFiles).mockResolvedValueOnce([{ id: 5, s3Key: "../escape.png" }]);
+    const { caller } = await createContext();
+
+    await expect(caller.detection.deleteMany({ ids: [5] })).rejects.toMatchObject({
+      code: "INTERNAL_SERVER_ERROR",
+    });
+    expect(db.deleteDetectionResults).not.toHaveBeenCalled();
+  });
+
+  it("doesn't hand quota back when results are deleted", async () => {
+    // Usage rows are written with the result and only removed with the account
+    const usageRows = [{ fileType: "image" as const, day: 2, month: 5 }];
+    vi.mocked(db.getUserById).mockResolvedValue({ id: 7, plan: "free" } as Awaited<ReturnType<typeof db.getUserById>>);
+    vi.mocked(db.countUserAnalysesForQuota).mockImplementation(async () => usageRows);
+    vi.mocked(db.getWorkspaceResultFiles).mockResolvedValueOnce([{ id: 1, s3Key: null }, { id: 2, s3Key: null }]);
+    const { caller } = await createContext();
+
+    const before = await caller.detection.usage();
+    await caller.detection.deleteMany({ ids: [1, 2] });
+    const after = await caller.detection.usage();
+
+    expect(after.types).toEqual(before.types);
+    expect(after.types.find(type => type.fileType === "image")).toMatchObject({ daily: { used: 2 }, monthly: { used: 5 } });
+  });
+
+  it("requires the password to erase an account", async () => {
+    const { caller } = await createContext();
+
+    await expect(caller.auth.deleteAccount({ password: "wrong" })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    expect(db.deleteUserRows).not.toHaveBeenCalled();
+  });
+
+  it("erases the account and returns a receipt without personal data", async () => {
+    await storagePut("uploads/7/pending.mp4", "mp4");
+    await storagePut("uploads/8/someone-else.mp4", "mp4");
+    await storagePut("takeouts/7/3-1.zip", "zip");
+    vi.mocked(db.getWorkspaceResultFiles)
+      .mockResolvedValueOnce([{ id: 1, s3Key: null }]) // personal
+      .mockResolvedValueOnce([{ id: 2, s3Key: null }]); // solo team
+    vi.mocked(db.getUserOrganizations).mockResolvedValueOnce([
+      { id: 10, name: "Solo", role: "owner" },
+      { id: 11, name: "Shared", role: "owner" },
+      { id: 12, name: "Other", role: "viewer" },
+    ]);
+    vi.mocked(db.countOrganizationOwners).mockImplementation(async id => (id === 11 ? 2 : 1));
+    vi.mocked(db.getOrganizationMembers).mockResolvedValueOnce([{ userId: 7 } as any]);
+    vi.mocked(db.countUserTeamResults).mockResolvedValueOnce(4);
+    const { caller, clearCookie } = await createContext();
+
+    const { receipt } = await caller.auth.deleteAccount({ password: "correct horse" });
+
+    expect(receipt).toMatchObject({
+      userId: 7,
+      deleted: { results: 2, shareLinks: 3, uploads: 1, takeoutArchives: 1, organizations: 1, vendorCalls: 3, users: 1 },
+      teamResultsKept: 4,
+    });
+    expect(JSON.stringify(receipt)).not.toContain("alice");
+    expect(db.deleteOrganization).toHaveBeenCalledWith(10);
+    expect(db.deleteOrganization).toHaveBeenCalledTimes(1);
+    expect(db.createAccountDeletion).toHaveBeenCalledWith({ receiptId: receipt.receiptId, userId: 7, summary: receipt });
+    expect(await exists("uploads/7/pending.mp4")).toBe(false);
+    expect(await exists("uploads/8/someone-else.mp4")).toBe(true);
+    expect(await exists("takeouts/7/3-1.zip")).toBe(false);
+    expect(clearCookie).toHaveBeenCalled();
+  });
+
+  it("refuses while the user is the only owner of a team with other members", async () => {
+    vi.mocked(db.getUserOrganizations).mockResolvedValueOnce([{ id: 10, name: "Acme", role: "owner" }]);
+    vi.mocked(db.countOrganizationOwners).mockResolvedValueOnce(1);
+    vi.mocked(db.getOrganizationMembers).mockResolvedValueOnce([{ userId: 7 }, { userId: 8 }] as any);
+    const { caller } = await createContext();
+
+    await expect(caller.auth.deleteAccount({ password: "correct horse" })).rejects.toMatchObject({
+      code: "PRECONDITION_FAILED",
+      message: expect.stringContaining("Acme"),
+    });
+    expect(db.getWorkspaceResultFiles).not.toHaveBeenCalled();
+    expect(db.deleteUserRows).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+import { randomUUID } from "crypto";
+import { TRPCError } from "@trpc/server";
+import type { DetectionResult, User } from "../drizzle/schema.js";
+import {
+  countOrganizationOwners,
+  countUserTeamResults,
+  createAccountDeletion,
+  deleteDetectionResults,
+  deleteOrganization,
+  deleteUserRows,
+  getOrganizationMembers,
+  getUserOrganizations,
+  getWorkspaceResultFiles,
+  type WorkspaceScope,
+} from "./db.js";
+import { getStorageDriver } from "./storage.js";
+import { hasWorkspaceRole, type Workspace } from "./workspaces.js";
+
+/**
+ * User-initiated deletion of results and full account erasure.
+ * Stored files are removed before their rows, so when a file delete fails the
+ * rows that still point at it stay and the deletion can be retried.
+ */
+
+const DELETE_BATCH_SIZE = 500;
+
+export interface ResultDeletionSummary {
+  results: number;
+  shareLinks: number;
+  files: number;
+  // Files the storage driver can't delete (e.g. the Forge proxy); their rows are gone regardless
+  filesNotDeleted: number;
+}
+
+export interface DeletionReceipt {
+  receiptId: string;
+  userId: number;
+  deletedAt: string;
+  deleted: ResultDeletionSummary & Record<string, number>;
+  // Results the user ran in team workspaces stay with the team
+  teamResultsKept: number;
+}
+
+async function deleteStoredFiles(keys: string[]) {
+  const driver = getStorageDriver();
+  if (!driver.delete) {
+    if (keys.length > 0) {
+      console.warn(`[Deletion] The ${driver.name} storage driver can't delete files; ${keys.length} left in storage`);
+    }
+    return { deleted: 0, notDeleted: keys.length };
+  }
+
+  for (const key of keys) {
+    try {
+      await driver.delete(key);
+    } catch (error) {
+      console.error(`[Deletion] Failed to delete ${key}:`, error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Some files could not be deleted; please try again",
+      });
+    }
+  }
+  return { deleted: keys.length, notDeleted: 0 };
+}
+
+/**
+ * Delete results of the workspace (all of them without `ids`), their stored
+ * files and their share links. Ids outside the workspace, or not run by
+ * `createdBy` when given, are ignored.
+ */
+export async function deleteWorkspaceResults(
+  scope: WorkspaceScope,
+  ids?: number[],
+  createdBy?: number
+): Promise<ResultDeletionSummary> {
+  const rows = await getWorkspaceResultFiles(scope, ids, createdBy);
+  const summary: ResultDeletionSummary = { results: 0, shareLinks: 0, files: 0, filesNotDeleted: 0 };
+
+  for (let i = 0; i < rows.length; i += DELETE_BATCH_SIZE) {
+    const batch = rows.slice(i, i + DELETE_BATCH_SIZE);
+    const files = await deleteStoredFiles(batch.flatMap(row => (row.s3Key ? [row.s3Key] : [])));
+    const deleted = await deleteDetectionResults(batch.map(row => row.id));
+
+    summary.results += deleted.results;
+    summary.shareLinks += deleted.shareLinks;
+    summary.files += files.deleted;
+    summary.filesNotDeleted += files.notDeleted;
+  }
+  return summary;
+}
+
+/**
+ * Who may delete a result: whoever ran it, and the workspace's owners.
+ * Analysts share a team's history but shouldn't be able to wipe each other's results.
+ */
+export function canDeleteResult(workspace: Workspace, result: Pick<DetectionResult, "userId">) {
+  return result.userId === workspace.userId || hasWorkspaceRole(workspace.role, "owner");
+}
+
+/**
+ * Delete results on behalf of a workspace member; results they may not delete are skipped
+ */
+export async function deleteResultsAsMember(workspace: Workspace, ids: number[]) {
+  const createdBy = hasWorkspaceRole(workspace.role, "owner") ? undefined : workspace.userId;
+  return await deleteWorkspaceResults(workspace, ids, createdBy);
+}
+
+/**
+ * Organizations that disappear with the user: ones they alone own and nobody
+ * else belongs to. Refuses when a solely-owned team still has other members.
+ */
+async function getOrganizationsToErase(userId: number) {
+  const owned = (await getUserOrganizations(userId)).filter(org => org.role === "owner");
+  const toErase: typeof owned = [];
+
+  for (const org of owned) {
+    if ((await countOrganizationOwners(org.id)) > 1) continue;
+    if ((await getOrganizationMembers(org.id)).length > 1) {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: `Make another member an owner of ${org.name} before deleting your account`,
+      });
+    }
+    toErase.push(org);
+  }
+  return toErase;
+}
+
+/**
+ * Erase the user: personal results and files, uploads, data exports, single-member
+ * organizations and every row keyed by the user. Returns (and records) a
+ * receipt that holds no personal data.
+ */
+export async function eraseAccount(user: User): Promise<DeletionReceipt> {
+  const organizations = await getOrganizationsToErase(user.id);
+
+  const results = await deleteWorkspaceResults({ userId: user.id, organizationId: null });
+  for (const org of organizations) {
+    const teamResults = await deleteWorkspaceResults({ userId: user.id, organizationId: org.id });
+    results.results += teamResults.results;
+    results.shareLinks += teamResults.shareLinks;
+    results.files += teamResults.files;
+    results.filesNotDeleted += teamResults.filesNotDeleted;
+    await deleteOrganization(org.id);
+  }
+
+  // Files sent through storage.uploadFile (/api/upload ones are swept as orphans) and data exports
+  const driver = getStorageDriver();
+  const listKeys = async (prefix: string) =>
+    driver.list ? (await driver.list(prefix)).map(object => object.key) : [];
+  const uploadFiles = await deleteStoredFiles(await listKeys(`uploads/${user.id}/`));
+  const takeoutFiles = await deleteStoredFiles(await listKeys(`takeouts/${user.id}/`));
+
+  const teamResultsKept = await countUserTeamResults(user.id);
+  const rows = await deleteUserRows(user);
+
+  const receipt: DeletionReceipt = {
+    receiptId: randomUUID(),
+    userId: user.id,
+    deletedAt: new Date().toISOString(),
+    deleted: {
+      ...results,
+      ...rows,
+      shareLinks: results.shareLinks + rows.shareLinks,
+      uploads: uploadFiles.deleted,
+      takeoutArchives: takeoutFiles.deleted,
+      organizations: organizations.length,
+      filesNotDeleted: results.filesNotDeleted + uploadFiles.notDeleted + takeoutFiles.notDeleted,
+    },
+    teamResultsKept,
+  };
+
+  await createAccountDeletion({ receiptId: receipt.receiptId, userId: user.id, summary: receipt });
+  console.log(`[Deletion] Erased user ${user.id}, receipt ${receipt.receiptId}`);
+  return receipt;
+}
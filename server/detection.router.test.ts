@@ -1,25 +1,62 @@
-import { describe, expect, it, beforeEach, vi } from "vitest";
+import { describe, expect, it, afterEach, beforeEach, vi } from "vitest";
 import { appRouter } from "./routers";
 import type { TrpcContext } from "./_core/context";
 import type { User } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { detectImageAI } from "./aiornot";
+import {
+  createDetectionResult,
+  createShareLink,
+  findSharedAnalysis,
+  getDetectionResult,
+  getDetectionResultById,
+  getFilteredDetectionHistory,
+  getShareLink,
+  incrementShareLinkView,
+  revokeShareLink,
+  setUserShareResultsGlobally,
+} from "./db";
+import { hashPassword } from "./password";
+import { resetRateLimits } from "./rateLimit";
+import { createSignedLocalUrl } from "./localStorage";
 
 // Mock the database functions
-vi.mock("./db", () => ({
+vi.mock("./db", async importOriginal => ({
   createDetectionResult: vi.fn().mockResolvedValue({ insertId: 1 }),
+  createAnalysisFailure: vi.fn().mockResolvedValue(undefined),
+  getUserById: vi.fn().mockResolvedValue({ id: 1, plan: "free" }),
+  countUserAnalysesForQuota: vi.fn().mockResolvedValue([]),
+  createVendorCall: vi.fn().mockResolvedValue(undefined),
+  sumVendorCostSince: vi.fn().mockResolvedValue(0),
   getUserDetectionHistory: vi.fn().mockResolvedValue([]),
   getDetectionResultById: vi.fn().mockResolvedValue(null),
+  getDetectionResult: vi.fn().mockResolvedValue(null),
   findDuplicateAnalysis: vi.fn().mockResolvedValue(null),
-  getFilteredDetectionHistory: vi.fn().mockResolvedValue([]),
+  findSharedAnalysis: vi.fn().mockResolvedValue(undefined),
+  setUserShareResultsGlobally: vi.fn().mockResolvedValue(undefined),
+  getFilteredDetectionHistory: vi.fn().mockResolvedValue({
+    items: [],
+    nextCursor: null,
+    total: 0,
+    aiCount: 0,
+    humanCount: 0,
+  }),
+  decodeHistoryCursor: (await importOriginal<typeof import("./db")>()).decodeHistoryCursor,
+  HISTORY_SORT_FIELDS: ["createdAt", "confidence", "fileSize", "processingTimeMs"],
   getDetectionResultsForExport: vi.fn().mockResolvedValue([]),
   createShareLink: vi.fn().mockResolvedValue({}),
   getShareLink: vi.fn().mockResolvedValue(null),
   incrementShareLinkView: vi.fn().mockResolvedValue({}),
   getUserShareLinks: vi.fn().mockResolvedValue([]),
   getShareLinkStats: vi.fn().mockResolvedValue(null),
+  revokeShareLink: vi.fn().mockResolvedValue(undefined),
+  getActiveWebhooks: vi.fn().mockResolvedValue([]),
+  createDetectionJob: vi.fn(async job => ({ id: 9, ...job })),
 }));
 
 // Mock the storage functions
-vi.mock("./storage", () => ({
+vi.mock("./storage", async importOriginal => ({
+  ...(await importOriginal<typeof import("./storage")>()),
   storagePut: vi.fn().mockResolvedValue({
     key: "test-key",
     url: "https://example.com/test.jpg",
@@ -91,6 +128,10 @@ function createMockContext(): TrpcContext {
   };
 }
 
+function cursorFor(v: unknown, id = 5) {
+  return Buffer.from(JSON.stringify({ v, id })).toString("base64url");
+}
+
 describe("Detection Router", () => {
   let ctx: TrpcContext;
 
@@ -98,6 +139,82 @@ describe("Detection Router", () => {
     ctx = createMockContext();
   });
 
+  describe("global result cache", () => {
+    const image = {
+      fileName: "mine.jpg",
+      fileData: Buffer.from("viral image").toString("base64"),
+      mimeType: "image/jpeg",
+    };
+
+    afterEach(() => {
+      ENV.globalCacheTtlHours = "";
+    });
+
+    it("reuses another user's shared verdict without calling the vendor", async () => {
+      ENV.globalCacheTtlHours = "24";
+      vi.mocked(findSharedAnalysis).mockResolvedValueOnce({
+        id: 42,
+        verdict: "human",
+        confidence: "0.1200",
+        detectedGenerator: null,
+        generatorScores: {},
+      });
+      vi.mocked(detectImageAI).mockClear();
+      vi.mocked(createDetectionResult).mockClear();
+
+      const result = await appRouter.createCaller(ctx).detection.analyzeImage(image);
+
+      expect(findSharedAnalysis).toHaveBeenCalledWith(expect.any(String), "aiornot@v2", expect.any(Date));
+      expect(detectImageAI).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ verdict: "human", confidence: "0.1200", isCached: true });
+      expect(createDetectionResult).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          fileName: "mine.jpg",
+          isDuplicate: 1,
+          duplicateOfId: 42,
+          providerVersion: "aiornot@v2",
+        })
+      );
+    });
+
+    it("is skipped while GLOBAL_CACHE_TTL_HOURS is unset", async () => {
+      vi.mocked(findSharedAnalysis).mockClear();
+      vi.mocked(createDetectionResult).mockClear();
+
+      const result = await appRouter.createCaller(ctx).detection.analyzeImage(image);
+
+      expect(findSharedAnalysis).not.toHaveBeenCalled();
+      expect(result.isCached).toBe(false);
+      expect(createDetectionResult).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ isDuplicate: 0, duplicateOfId: null, providerVersion: "aiornot@v2" })
+      );
+    });
+
+    it("lets users opt in to sharing their verdicts", async () => {
+      const caller = appRouter.createCaller(ctx);
+
+      expect(await caller.detection.globalCache()).toEqual({ enabled: false, ttlHours: null, sharing: false });
+      await caller.detection.setGlobalCacheSharing({ share: true });
+
+      expect(setUserShareResultsGlobally).toHaveBeenCalledWith(1, true);
+    });
+  });
+
+  describe("enqueueAnalysis", () => {
+    it("accepts the relative signed URLs of the local storage driver", async () => {
+      const result = await appRouter.createCaller(ctx).detection.enqueueAnalysis({
+        fileType: "video",
+        fileName: "clip.mp4",
+        fileUrl: createSignedLocalUrl("uploads/1-clip.mp4"),
+        mimeType: "video/mp4",
+      });
+
+      expect(result).toEqual({ jobId: 9, status: "queued" });
+    });
+  });
+
   describe("analyzeImage", () => {
     it("should successfully analyze an image", async () => {
       const caller = appRouter.createCaller(ctx);
@@ -287,6 +404,65 @@ describe("Detection Router", () => {
     });
   });
 
+  describe("getFilteredHistory", () => {
+    it("passes filters, sorting and the cursor to the query", async () => {
+      const caller = appRouter.createCaller(ctx);
+      const startDate = new Date("2025-01-01T00:00:00Z");
+
+      const page = await caller.detection.getFilteredHistory({
+        verdict: "ai",
+        fileType: "image",
+        startDate,
+        sortBy: "confidence",
+        sortDir: "asc",
+        cursor: cursorFor("0.8400"),
+        limit: 10,
+      });
+
+      expect(page.total).toBe(0);
+      expect(getFilteredDetectionHistory).toHaveBeenLastCalledWith(
+        expect.objectContaining({ userId: 1, organizationId: null }),
+        { verdict: "ai", fileType: "image", startDate, endDate: undefined },
+        { sortBy: "confidence", sortDir: "asc", cursor: cursorFor("0.8400"), limit: 10 }
+      );
+    });
+
+    it("rejects a malformed cursor", async () => {
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(
+        caller.detection.getFilteredHistory({ cursor: "bad" })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    });
+
+    it("rejects a cursor whose value doesn't fit the sort field", async () => {
+      const caller = appRouter.createCaller(ctx);
+      vi.mocked(getFilteredDetectionHistory).mockClear();
+      const attempts = [
+        { sortBy: "createdAt", cursor: cursorFor("0) OR 1=1 --") },
+        { sortBy: "createdAt", cursor: cursorFor(1740830400000) },
+        { sortBy: "fileSize", cursor: cursorFor("1024") },
+        { sortBy: "processingTimeMs", cursor: cursorFor(null) },
+        { sortBy: "confidence", cursor: cursorFor("high") },
+      ] as const;
+
+      for (const input of attempts) {
+        await expect(caller.detection.getFilteredHistory(input)).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      }
+      expect(getFilteredDetectionHistory).not.toHaveBeenCalled();
+    });
+
+    it("accepts the cursors the query hands out", async () => {
+      const caller = appRouter.createCaller(ctx);
+      vi.mocked(getFilteredDetectionHistory).mockClear();
+
+      await caller.detection.getFilteredHistory({ sortBy: "createdAt", cursor: cursorFor("2025-03-01T12:00:00.000Z") });
+      await caller.detection.getFilteredHistory({ sortBy: "fileSize", cursor: cursorFor(2048) });
+
+      expect(getFilteredDetectionHistory).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("getResult", () => {
     it("should throw NOT_FOUND when result doesn't exist", async () => {
       const caller = appRouter.createCaller(ctx);
@@ -300,4 +476,250 @@ describe("Detection Router", () => {
       }
     });
   });
+
+  describe("sharing", () => {
+    const storedResult = {
+      id: 5,
+      userId: 1,
+      fileName: "portrait.png",
+      fileType: "image",
+      fileHash: "secret-hash",
+      verdict: "ai",
+      confidence: "0.9100",
+      detectedGenerator: "midjourney",
+      rawResponse: { vendor: "payload" },
+      processingTimeMs: 900,
+      createdAt: new Date("2025-03-01T12:00:00Z"),
+    };
+
+    it("creates a share link for the user's own result", async () => {
+      vi.mocked(getDetectionResultById).mockResolvedValueOnce(storedResult as any);
+      const caller = appRouter.createCaller(ctx);
+
+      const link = await caller.detection.createShareLink({ detectionResultId: 5 });
+
+      expect(link.shareToken).toMatch(/^[0-9a-f]{32}$/);
+      expect(link.shareUrl).toBe(`/share/${link.shareToken}`);
+      expect(createShareLink).toHaveBeenLastCalledWith({
+        userId: 1,
+        detectionResultId: 5,
+        shareToken: link.shareToken,
+        expiresAt: null,
+        passwordHash: null,
+        exposeFile: 0,
+      });
+    });
+
+    it("stores expiry, a password hash and file visibility", async () => {
+      vi.mocked(getDetectionResultById).mockResolvedValueOnce(storedResult as any);
+      const caller = appRouter.createCaller(ctx);
+      const before = Date.now();
+
+      await caller.detection.createShareLink({
+        detectionResultId: 5,
+        expiresInHours: 24,
+        password: "hunter22",
+        exposeFile: true,
+      });
+
+      const [link] = vi.mocked(createShareLink).mock.lastCall!;
+      expect(link.expiresAt!.getTime()).toBeGreaterThanOrEqual(before + 24 * 60 * 60 * 1000);
+      expect(link.passwordHash).toMatch(/^scrypt\$/);
+      expect(link.passwordHash).not.toContain("hunter22");
+      expect(link.exposeFile).toBe(1);
+    });
+
+    it("requires share passwords of at least 8 characters", async () => {
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(
+        caller.detection.createShareLink({ detectionResultId: 5, password: "hunter2" })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    });
+
+    it("refuses to share someone else's result", async () => {
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(
+        caller.detection.createShareLink({ detectionResultId: 99 })
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    });
+
+    it("serves a shared result without a session and counts the view", async () => {
+      vi.mocked(getShareLink).mockResolvedValueOnce({
+        shareToken: "tok",
+        detectionResultId: 5,
+        expiresAt: null,
+        createdAt: new Date(),
+      } as any);
+      vi.mocked(getDetectionResult).mockResolvedValueOnce(storedResult as any);
+      const caller = appRouter.createCaller({ ...ctx, user: null });
+
+      const shared = await caller.detection.getSharedResult({ shareToken: "tok" });
+
+      expect(shared.verdict).toBe("ai");
+      expect(shared.confidence).toBe("0.9100");
+      expect(shared).not.toHaveProperty("fileHash");
+      expect(shared).not.toHaveProperty("rawResponse");
+      expect(incrementShareLinkView).toHaveBeenLastCalledWith("tok");
+    });
+
+    it("treats expired links as missing", async () => {
+      vi.mocked(incrementShareLinkView).mockClear();
+      vi.mocked(getShareLink).mockResolvedValueOnce({
+        shareToken: "old",
+        detectionResultId: 5,
+        expiresAt: new Date(Date.now() - 1000),
+      } as any);
+      const caller = appRouter.createCaller({ ...ctx, user: null });
+
+      await expect(
+        caller.detection.getSharedResult({ shareToken: "old" })
+      ).rejects.toMatchObject({ code: "NOT_FOUND", message: "This share link has expired" });
+      expect(incrementShareLinkView).not.toHaveBeenCalled();
+    });
+
+    it("asks for the password of protected links", async () => {
+      const protectedLink = {
+        shareToken: "locked",
+        detectionResultId: 5,
+        expiresAt: null,
+        revokedAt: null,
+        passwordHash: await hashPassword("hunter22"),
+        exposeFile: 0,
+        createdAt: new Date(),
+      };
+      const caller = appRouter.createCaller({ ...ctx, user: null });
+
+      vi.mocked(getShareLink).mockResolvedValueOnce(protectedLink as any);
+      await expect(
+        caller.detection.getSharedResult({ shareToken: "locked" })
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+
+      vi.mocked(getShareLink).mockResolvedValueOnce(protectedLink as any);
+      await expect(
+        caller.detection.getSharedResult({ shareToken: "locked", password: "nope" })
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+
+      vi.mocked(getShareLink).mockResolvedValueOnce(protectedLink as any);
+      vi.mocked(getDetectionResult).mockResolvedValueOnce(storedResult as any);
+      const shared = await caller.detection.getSharedResult({
+        shareToken: "locked",
+        password: "hunter22",
+      });
+      expect(shared.verdict).toBe("ai");
+      expect(shared.fileName).toBeNull();
+    });
+
+    it("limits password guesses per link, whichever address they come from", async () => {
+      resetRateLimits();
+      vi.mocked(getShareLink).mockResolvedValue({
+        shareToken: "guarded",
+        detectionResultId: 5,
+        expiresAt: null,
+        revokedAt: null,
+        passwordHash: await hashPassword("hunter22"),
+        exposeFile: 0,
+        createdAt: new Date(),
+      } as any);
+      const setHeader = vi.fn();
+      const callerAt = (ip: string) =>
+        appRouter.createCaller({
+          user: null,
+          req: { headers: {}, socket: { remoteAddress: ip } } as TrpcContext["req"],
+          res: { setHeader } as unknown as TrpcContext["res"],
+        });
+
+      try {
+        for (let i = 0; i < 10; i++) {
+          await expect(
+            callerAt(`203.0.113.${i}`).detection.getSharedResult({ shareToken: "guarded", password: `guess-${i}` })
+          ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+        }
+        await expect(
+          callerAt("198.51.100.7").detection.getSharedResult({ shareToken: "guarded", password: "hunter22" })
+        ).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS" });
+        expect(setHeader).toHaveBeenCalledWith("Retry-After", "30");
+      } finally {
+        vi.mocked(getShareLink).mockReset();
+        vi.mocked(getShareLink).mockResolvedValue(null);
+        resetRateLimits();
+      }
+    });
+
+    it("treats revoked links as missing", async () => {
+      vi.mocked(getShareLink).mockResolvedValueOnce({
+        shareToken: "gone",
+        detectionResultId: 5,
+        revokedAt: new Date(),
+      } as any);
+      const caller = appRouter.createCaller({ ...ctx, user: null });
+
+      await expect(
+        caller.detection.getSharedResult({ shareToken: "gone" })
+      ).rejects.toMatchObject({ code: "NOT_FOUND", message: "This share link has been revoked" });
+    });
+
+    it("only lets the owner revoke a link", async () => {
+      vi.mocked(getShareLink).mockResolvedValueOnce({ shareToken: "tok", userId: 2 } as any);
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(
+        caller.detection.revokeShareLink({ shareToken: "tok" })
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+      expect(revokeShareLink).not.toHaveBeenCalled();
+    });
+
+    it("regenerates a link with the same lifetime and settings", async () => {
+      const createdAt = new Date(Date.now() - 48 * 60 * 60 * 1000);
+      vi.mocked(getShareLink).mockResolvedValueOnce({
+        shareToken: "old",
+        userId: 1,
+        detectionResultId: 5,
+        createdAt,
+        expiresAt: new Date(createdAt.getTime() + 24 * 60 * 60 * 1000),
+        revokedAt: null,
+        passwordHash: "scrypt$hash",
+        exposeFile: 1,
+      } as any);
+      const caller = appRouter.createCaller(ctx);
+
+      const link = await caller.detection.regenerateShareLink({ shareToken: "old" });
+
+      expect(revokeShareLink).toHaveBeenLastCalledWith("old");
+      const [created] = vi.mocked(createShareLink).mock.lastCall!;
+      expect(created.shareToken).toBe(link.shareToken);
+      expect(created.passwordHash).toBe("scrypt$hash");
+      expect(created.exposeFile).toBe(1);
+      // Renewed: a 24h link regenerated now is valid for another 24h
+      expect(created.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+    });
+  });
+
+  describe("API key access", () => {
+    beforeEach(() => {
+      ctx.apiKey = { id: 9, scopes: ["detections:read"] };
+    });
+
+    it("allows procedures covered by the key's scopes", async () => {
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(caller.detection.getHistory({ limit: 10 })).resolves.toEqual([]);
+    });
+
+    it("rejects procedures that need a scope the key lacks", async () => {
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(caller.detection.analyzeText({ text: "hello" })).rejects.toMatchObject({
+        code: "FORBIDDEN",
+      });
+    });
+
+    it("keeps session-only procedures closed to API keys", async () => {
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(caller.detection.getUserShareLinks()).rejects.toMatchObject({ code: "FORBIDDEN" });
+      await expect(caller.apiKeys.list()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    });
+  });
 });
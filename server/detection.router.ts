@@ -1,179 +1,139 @@
 // @ts-nocheck
 import { z } from "zod";
-import { createHash } from "crypto";
-import { protectedProcedure, router } from "./_core/trpc.js";
+import { randomBytes } from "crypto";
+import { protectedProcedure, publicProcedure, rateLimited, router, scopedProcedure } from "./_core/trpc.js";
 import {
-  detectImageAI,
-  detectAudioVoiceAI,
-  detectAudioMusicAI,
-  detectVideoAI,
-  detectTextAI,
-  getTopDetectedGenerator,
-} from "./aiornot.js";
+  MAX_TEXT_LENGTH,
+  analyzeFile,
+  analyzeText,
+  assertAllowedMimeType,
+  assertFileSize,
+  getGlobalCacheTtlMs,
+  loadFileBuffer,
+  recordAnalysisFailure,
+  toAnalysisError,
+} from "./analysis.js";
+import { enqueueDetectionJob, getJobStatus } from "./jobs.js";
+import { createProgressReporter } from "./progress.js";
+import { buildCsv } from "./export.js";
 import {
-  createDetectionResult,
   getUserDetectionHistory,
+  getDetectionResult,
   getDetectionResultById,
   findDuplicateAnalysis,
   getDetectionResultsForExport,
   getFilteredDetectionHistory,
+  decodeHistoryCursor,
+  HISTORY_SORT_FIELDS,
   createShareLink,
   getShareLink,
   incrementShareLinkView,
   getUserShareLinks,
   getShareLinkStats,
+  revokeShareLink,
+  setUserShareResultsGlobally,
+  getWorkspaceRetentionDays,
+  setWorkspaceRetentionDays,
+  getUserDetectionBatches,
 } from "./db.js";
-import { storagePut, storageGet } from "./storage.js";
+import { hashPassword, verifyPassword } from "./password.js";
+import { getClientIp } from "./loginThrottle.js";
+import { consumeSharePasswordAttempt, rateLimitMessage, retryAfterSeconds } from "./rateLimit.js";
+import { storageGet } from "./storage.js";
+import { assertWorkspaceRole } from "./workspaces.js";
+import { assertWithinQuota, getUsage } from "./quotas.js";
+import { MAX_RETENTION_DAYS } from "./retention.js";
+import { canDeleteResult, deleteResultsAsMember } from "./deletion.js";
+import {
+  MAX_BATCH_ITEMS,
+  createBatch,
+  getBatchResultIds,
+  getBatchSummary,
+  retryBatchItems,
+} from "./batches.js";
 import { TRPCError } from "@trpc/server";
 
-// File type validation
-const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
-const ALLOWED_AUDIO_TYPES = [
-  "audio/mpeg",
-  "audio/wav",
-  "audio/x-m4a",
-  "audio/mp4",
-];
-const ALLOWED_VIDEO_TYPES = ["video/mp4", "video/quicktime", "video/webm"];
-
-const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
-const MAX_AUDIO_SIZE = 50 * 1024 * 1024; // 50MB
-const MAX_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
-const MAX_TEXT_LENGTH = 50000; // 50k characters
-
-// Helper function to calculate file hash
-function calculateFileHash(buffer: Buffer): string {
-  return createHash("sha256").update(buffer).digest("hex");
-}
+// Cap for exports returned inline as tRPC JSON
+const EXPORT_QUERY_LIMIT = 1000;
+
+// Client-generated id of the /api/progress/:progressId event stream
+const progressId = z.string().min(1).max(64).optional();
+
+// Longest a share link can live when an expiry is chosen (one year)
+const MAX_SHARE_LINK_HOURS = 24 * 365;
+
+export const SHARE_PASSWORD_REQUIRED = "This share link is password protected";
+export const SHARE_PASSWORD_INVALID = "Incorrect password for this share link";
+export const SHARE_PASSWORD_MIN_LENGTH = 8;
 
-// Helper function to generate share token
+// Helper function to generate share token (128 bits, unguessable)
 function generateShareToken(): string {
-  return createHash("sha256")
-    .update(Math.random().toString() + Date.now().toString())
-    .digest("hex")
-    .substring(0, 32);
+  return randomBytes(16).toString("hex");
 }
 
 export const detectionRouter = router({
   /**
    * Analyze an image for AI-generated content
    */
-  analyzeImage: protectedProcedure
+  analyzeImage: scopedProcedure("detections:write")
+    .use(rateLimited("analyze"))
     .input(
       z.object({
         fileName: z.string().min(1),
         fileData: z.string(), // base64 encoded
         mimeType: z.string(),
+        progressId,
       })
     )
     .mutation(async ({ ctx, input }) => {
       const startTime = Date.now();
-
-      // Validate file type
-      if (!ALLOWED_IMAGE_TYPES.includes(input.mimeType)) {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: `Invalid image type. Allowed: ${ALLOWED_IMAGE_TYPES.join(", ")}`,
-        });
-      }
-
-      // Decode and validate file size
-      const fileBuffer = Buffer.from(input.fileData, "base64");
-      if (fileBuffer.length > MAX_IMAGE_SIZE) {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: `Image too large. Maximum size: 10MB`,
-        });
-      }
+      const progress = createProgressReporter(ctx.user.id, input.progressId);
 
       try {
-        // Calculate file hash for duplicate detection
-        const fileHash = calculateFileHash(fileBuffer);
-
-        // Check for duplicate analysis
-        const duplicate = await findDuplicateAnalysis(ctx.user.id, fileHash);
-        if (duplicate) {
-          console.log(`[Detection] Found cached result for image hash ${fileHash}`);
-          const fileUrl = duplicate.s3Key ? (await storageGet(duplicate.s3Key)).url : "";
-          return {
-            success: true,
-            verdict: duplicate.verdict as "ai" | "human",
-            confidence: duplicate.confidence.toString(),
-            detectedGenerator: duplicate.detectedGenerator,
-            fileUrl,
-            processingTimeMs: 0,
-            isCached: true,
-          };
-        }
-
-        // Call AI or Not API
-        const apiResponse = await detectImageAI(fileBuffer, input.fileName);
-        const processingTime = Date.now() - startTime;
-
-        // Extract verdict and confidence
-        const aiGenerated = apiResponse.report.ai_generated;
-        const verdict = aiGenerated.verdict;
-        const confidencePercent = Math.round(parseFloat(aiGenerated.ai.confidence.toString()) * 100);
-        const confidence = (confidencePercent / 100).toFixed(4);
-        const detectedGenerator = getTopDetectedGenerator(
-          aiGenerated.generator
-        );
-
-        // Store file in S3
-        const s3Key = `detections/${ctx.user.id}/images/${Date.now()}-${input.fileName}`;
-        const { url: fileUrl } = await storagePut(
-          s3Key,
-          fileBuffer,
-          input.mimeType
+        progress.stage("uploading");
+
+        // Validate file type
+        assertAllowedMimeType("image", input.mimeType);
+
+        // Decode and validate file size
+        const fileBuffer = Buffer.from(input.fileData, "base64");
+        assertFileSize("image", fileBuffer.length);
+
+        return await analyzeFile(
+          {
+            userId: ctx.user.id,
+            organizationId: ctx.workspace.organizationId,
+            fileType: "image",
+            fileName: input.fileName,
+            mimeType: input.mimeType,
+            buffer: fileBuffer,
+            progress,
+          },
+          startTime
         );
-
-        // Save result to database
-        const result = await createDetectionResult(ctx.user.id, {
-          fileName: input.fileName,
-          fileType: "image",
-          fileSize: fileBuffer.length,
-          fileHash,
-          s3Key,
-          verdict,
-          confidence: confidence,
-          detectedGenerator,
-          generatorScores: {},
-          rawResponse: apiResponse.report,
-          processingTimeMs: processingTime,
-          isDuplicate: 0,
-        });
-
-        return {
-          success: true,
-          verdict,
-          confidence: confidence.toString(),
-          detectedGenerator,
-          fileUrl,
-          processingTimeMs: processingTime,
-          isCached: false,
-        };
       } catch (error: any) {
         console.error("[Detection] Image analysis failed:", error);
-        
-        // Check for API plan limitation
-        if (error?.message?.includes("402") || error?.message?.includes("Paid plan")) {
-          throw new TRPCError({
-            code: "FORBIDDEN",
-            message: "Image detection is not available with the current API plan. Please upgrade your account.",
-          });
-        }
-        
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to analyze image. Please try again.",
-        });
+        const failure = toAnalysisError("image", error);
+        recordAnalysisFailure(
+          {
+            userId: ctx.user.id,
+            source: ctx.apiKey ? "api" : "app",
+            fileType: "image",
+            fileName: input.fileName,
+          },
+          error,
+          failure
+        );
+        progress.fail(failure);
+        throw failure;
       }
     }),
 
   /**
    * Analyze audio for AI-generated content
    */
-  analyzeAudio: protectedProcedure
+  analyzeAudio: scopedProcedure("detections:write")
+    .use(rateLimited("analyze"))
     .input(
       z.object({
         fileName: z.string().min(1),
@@ -181,427 +141,397 @@ export const detectionRouter = router({
         fileUrl: z.string().optional(),
         mimeType: z.string(),
         audioType: z.enum(["voice", "music"]),
+        progressId,
       })
     )
     .mutation(async ({ ctx, input }) => {
       const startTime = Date.now();
-
-      if (!ALLOWED_AUDIO_TYPES.includes(input.mimeType)) {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: `Invalid audio type. Allowed: ${ALLOWED_AUDIO_TYPES.join(", ")}`,
-        });
-      }
-
-let fileBuffer: Buffer;
-
-if (input.fileUrl) {
-  const r = await fetch(input.fileUrl, { redirect: "follow" });
-
-  const ct = r.headers.get("content-type") || "";
-  const cl = r.headers.get("content-length") || "";
-
-  console.log("[Fetch fileUrl] status:", r.status, "content-type:", ct, "content-length:", cl);
-
-  if (!r.ok) {
-    const text = await r.text().catch(() => "");
-    throw new TRPCError({
-      code: "BAD_REQUEST",
-      message: `fileUrl fetch failed: ${r.status}. Body: ${text.slice(0, 200)}`,
-    });
-  }
-
-  const ab = await r.arrayBuffer();
-  fileBuffer = Buffer.from(ab);
-
-      // sanity-check: если слишком маленький файл — это почти точно HTML/ошибка
-      if (fileBuffer.length < 1024) {
-        const head = fileBuffer.toString("utf8", 0, Math.min(200, fileBuffer.length));
-        console.log("[Fetch fileUrl] too small buffer, head:", head);
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: `Downloaded file too small (${fileBuffer.length} bytes). Probably not a real video.`,
-        });
-      }
-    } else if (input.fileData) {
-      fileBuffer = Buffer.from(input.fileData, "base64");
-    } else {
-      throw new TRPCError({ code: "BAD_REQUEST", message: "No file data provided" });
-    }
-
-
-      if (fileBuffer.length > MAX_AUDIO_SIZE) {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: `Audio too large. Maximum size: 50MB`,
-        });
-      }
+      const progress = createProgressReporter(ctx.user.id, input.progressId);
 
       try {
-        // Calculate file hash for duplicate detection
-        const fileHash = calculateFileHash(fileBuffer);
-
-        // Check for duplicate analysis
-        const duplicate = await findDuplicateAnalysis(ctx.user.id, fileHash);
-        if (duplicate) {
-          console.log(`[Detection] Found cached result for audio hash ${fileHash}`);
-          const fileUrl = duplicate.s3Key ? (await storageGet(duplicate.s3Key)).url : "";
-          return {
-            success: true,
-            verdict: duplicate.verdict as "ai" | "human",
-            confidence: duplicate.confidence.toString(),
-            detectedGenerator: duplicate.detectedGenerator,
-            fileUrl,
-            processingTimeMs: 0,
-            isCached: true,
-          };
-        }
-
-        const apiResponse =
-          input.audioType === "voice"
-            ? await detectAudioVoiceAI(fileBuffer, input.fileName)
-            : await detectAudioMusicAI(fileBuffer, input.fileName);
-
-        const processingTime = Date.now() - startTime;
-
-        const aiGenerated = apiResponse.report.ai_generated;
-        const verdict = aiGenerated.verdict;
-        const confidencePercent = Math.round(parseFloat(aiGenerated.ai.confidence.toString()) * 100);
-        const confidence = (confidencePercent / 100).toFixed(4);
-        const detectedGenerator = getTopDetectedGenerator(
-          aiGenerated.generator
-        );
-
-        const s3Key = `detections/${ctx.user.id}/audio/${Date.now()}-${input.fileName}`;
-        const { url: fileUrl } = await storagePut(
-          s3Key,
-          fileBuffer,
-          input.mimeType
+        progress.stage("uploading");
+        assertAllowedMimeType("audio", input.mimeType);
+
+        const fileBuffer = await loadFileBuffer(input);
+        assertFileSize("audio", fileBuffer.length);
+
+        return await analyzeFile(
+          {
+            userId: ctx.user.id,
+            organizationId: ctx.workspace.organizationId,
+            fileType: "audio",
+            fileName: input.fileName,
+            mimeType: input.mimeType,
+            buffer: fileBuffer,
+            audioType: input.audioType,
+            progress,
+          },
+          startTime
         );
-
-        await createDetectionResult(ctx.user.id, {
-          fileName: input.fileName,
-          fileType: "audio",
-          fileSize: fileBuffer.length,
-          fileHash,
-          s3Key,
-          verdict,
-          confidence: confidence,
-          detectedGenerator,
-          generatorScores: {},
-          rawResponse: apiResponse.report,
-          processingTimeMs: processingTime,
-          isDuplicate: 0,
-        });
-
-        return {
-          success: true,
-          verdict,
-          confidence: confidence.toString(),
-          detectedGenerator,
-          fileUrl,
-          processingTimeMs: processingTime,
-          isCached: false,
-        };
       } catch (error: any) {
         console.error("[Detection] Audio analysis failed:", error);
-
-        if (error?.message?.includes("402") || error?.message?.includes("Paid plan")) {
-          throw new TRPCError({
-            code: "FORBIDDEN",
-            message: "Audio detection is not available with the current API plan. Please upgrade your account.",
-          });
-        }
-
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to analyze audio. Please try again.",
-        });
+        const failure = toAnalysisError("audio", error);
+        recordAnalysisFailure(
+          {
+            userId: ctx.user.id,
+            source: ctx.apiKey ? "api" : "app",
+            fileType: "audio",
+            fileName: input.fileName,
+          },
+          error,
+          failure
+        );
+        progress.fail(failure);
+        throw failure;
       }
     }),
 
   /**
    * Analyze video for AI-generated content
    */
-  analyzeVideo: protectedProcedure
+  analyzeVideo: scopedProcedure("detections:write")
+    .use(rateLimited("analyze"))
     .input(
       z.object({
         fileName: z.string().min(1),
         fileData: z.string().optional(), // base64 encoded
         fileUrl: z.string().optional(), // direct URL
         mimeType: z.string(),
+        progressId,
       })
     )
     .mutation(async ({ ctx, input }) => {
       const startTime = Date.now();
+      const progress = createProgressReporter(ctx.user.id, input.progressId);
 
-      if (!ALLOWED_VIDEO_TYPES.includes(input.mimeType)) {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: `Invalid video type. Allowed: ${ALLOWED_VIDEO_TYPES.join(", ")}`
-        });
-      }
-
-let fileBuffer: Buffer;
-
-if (input.fileUrl) {
-  const r = await fetch(input.fileUrl, { redirect: "follow" });
-
-  const ct = r.headers.get("content-type") || "";
-  const cl = r.headers.get("content-length") || "";
-
-  console.log("[Fetch fileUrl] status:", r.status, "content-type:", ct, "content-length:", cl);
-
-  if (!r.ok) {
-    const text = await r.text().catch(() => "");
-    throw new TRPCError({
-      code: "BAD_REQUEST",
-      message: `fileUrl fetch failed: ${r.status}. Body: ${text.slice(0, 200)}`,
-    });
-  }
-
-  const ab = await r.arrayBuffer();
-  fileBuffer = Buffer.from(ab);
-
-      // sanity-check: если слишком маленький файл — это почти точно HTML/ошибка
-      if (fileBuffer.length < 1024) {
-        const head = fileBuffer.toString("utf8", 0, Math.min(200, fileBuffer.length));
-        console.log("[Fetch fileUrl] too small buffer, head:", head);
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: `Downloaded file too small (${fileBuffer.length} bytes). Probably not a real video.`,
-        });
+      try {
+        progress.stage("uploading");
+        assertAllowedMimeType("video", input.mimeType);
+
+        const fileBuffer = await loadFileBuffer(input);
+        assertFileSize("video", fileBuffer.length);
+
+        return await analyzeFile(
+          {
+            userId: ctx.user.id,
+            organizationId: ctx.workspace.organizationId,
+            fileType: "video",
+            fileName: input.fileName,
+            mimeType: input.mimeType,
+            buffer: fileBuffer,
+            progress,
+          },
+          startTime
+        );
+      } catch (error: any) {
+        console.error("[Detection] Video analysis failed:", error);
+        console.error("[Detection] Error stack:", error?.stack);
+        const failure = toAnalysisError("video", error);
+        recordAnalysisFailure(
+          {
+            userId: ctx.user.id,
+            source: ctx.apiKey ? "api" : "app",
+            fileType: "video",
+            fileName: input.fileName,
+          },
+          error,
+          failure
+        );
+        progress.fail(failure);
+        throw failure;
       }
-    } else if (input.fileData) {
-      fileBuffer = Buffer.from(input.fileData, "base64");
-    } else {
-      throw new TRPCError({ code: "BAD_REQUEST", message: "No file data provided" });
-    }
-
+    }),
 
-      if (fileBuffer.length > MAX_VIDEO_SIZE) {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: `Video too large. Maximum size: 100MB`,
-        });
-      }
+  /**
+   * Analyze text for AI-generated content
+   */
+  analyzeText: scopedProcedure("detections:write")
+    .use(rateLimited("analyze"))
+    .input(
+      z.object({
+        text: z.string().min(1).max(MAX_TEXT_LENGTH),
+        progressId,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const progress = createProgressReporter(ctx.user.id, input.progressId);
 
       try {
-        // Calculate file hash for duplicate detection
-        const fileHash = calculateFileHash(fileBuffer);
-
-        // Check for duplicate analysis
-        const duplicate = await findDuplicateAnalysis(ctx.user.id, fileHash);
-        if (duplicate) {
-          console.log(`[Detection] Found cached result for video hash ${fileHash}`);
-          const fileUrl = duplicate.s3Key ? (await storageGet(duplicate.s3Key)).url : "";
-          return {
-            success: true,
-            verdict: duplicate.verdict as "ai" | "human",
-            confidence: duplicate.confidence.toString(),
-            detectedGenerator: duplicate.detectedGenerator,
-            fileUrl,
-            processingTimeMs: 0,
-            isCached: true,
-          };
-        }
-
-        const apiResponse = await detectVideoAI(fileBuffer, input.fileName);
-        const processingTime = Date.now() - startTime;
+        return await analyzeText(ctx.workspace, input.text, progress);
+      } catch (error: any) {
+        console.error("[Detection] Text analysis failed:", error);
+        const failure = toAnalysisError("text", error);
+        recordAnalysisFailure(
+          {
+            userId: ctx.user.id,
+            source: ctx.apiKey ? "api" : "app",
+            fileType: "text",
+          },
+          error,
+          failure
+        );
+        progress.fail(failure);
+        throw failure;
+      }
+    }),
 
-        // Video API returns ai_video, ai_voice, ai_music - use ai_video as primary verdict
-        if (!apiResponse?.report?.ai_video) {
-          console.error("[Detection] Invalid video API response structure:", JSON.stringify(apiResponse).substring(0, 500));
-          throw new Error("Invalid response from AI detection service");
-        }
+  /**
+   * Queue a large audio/video file (already uploaded via /api/upload) for
+   * background analysis. Poll getJob for the outcome.
+   */
+  enqueueAnalysis: scopedProcedure("detections:write")
+    .use(rateLimited("analyze"))
+    .input(
+      z.object({
+        fileType: z.enum(["audio", "video"]),
+        fileName: z.string().min(1),
+        // Absolute for remote storage, a signed /api/storage path for the local driver
+        fileUrl: z.string().min(1).max(2048),
+        mimeType: z.string(),
+        audioType: z.enum(["voice", "music"]).optional(),
+        progressId,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertAllowedMimeType(input.fileType, input.mimeType);
+      // The worker checks again, but a used-up quota should fail here, not minutes later
+      await assertWithinQuota(ctx.user.id, input.fileType);
+
+      const job = await enqueueDetectionJob(ctx.user.id, {
+        ...input,
+        organizationId: ctx.workspace.organizationId,
+      });
+      return { jobId: job.id, status: job.status };
+    }),
 
-        const aiVideo = apiResponse.report.ai_video;
-        const verdict: "ai" | "human" = aiVideo.is_detected ? "ai" : "human";
-        const confidencePercent = Math.round(aiVideo.confidence * 100);
-        const confidence = (confidencePercent / 100).toFixed(4);
-        const detectedGenerator: string | null = null; // Video API doesn't return generator info
-
-        const s3Key = `detections/${ctx.user.id}/videos/${Date.now()}-${input.fileName}`;
-        const { url: fileUrl } = await storagePut(
-          s3Key,
-          fileBuffer,
-          input.mimeType
-        );
+  /**
+   * The caller's plan and quota usage for the current day and month
+   */
+  usage: scopedProcedure("detections:read").query(async ({ ctx }) => {
+    return await getUsage(ctx.user.id);
+  }),
 
-        await createDetectionResult(ctx.user.id, {
-          fileName: input.fileName,
-          fileType: "video",
-          fileSize: fileBuffer.length,
-          fileHash,
-          s3Key,
-          verdict,
-          confidence: confidence,
-          detectedGenerator,
-          generatorScores: {},
-          rawResponse: apiResponse.report,
-          processingTimeMs: processingTime,
-          isDuplicate: 0,
-        });
+  /**
+   * Whether the cross-user result cache is on, and whether the caller's verdicts feed it
+   */
+  globalCache: protectedProcedure.query(async ({ ctx }) => {
+    const ttlMs = getGlobalCacheTtlMs();
+    return {
+      enabled: ttlMs !== null,
+      ttlHours: ttlMs === null ? null : ttlMs / (60 * 60 * 1000),
+      sharing: ctx.user.shareResultsGlobally === 1,
+    };
+  }),
 
-        return {
-          success: true,
-          verdict,
-          confidence: confidence.toString(),
-          detectedGenerator,
-          fileUrl,
-          processingTimeMs: processingTime,
-          isCached: false,
-        };
-      } catch (error: any) {
-        console.error("[Detection] Video analysis failed:", error);
-        console.error("[Detection] Error stack:", error?.stack);
-        console.error("[Detection] Error message:", error?.message);
+  /**
+   * Opt in or out of sharing verdicts. Opting out also withdraws verdicts
+   * already shared, since the cache checks the setting on every lookup.
+   */
+  setGlobalCacheSharing: protectedProcedure
+    .input(z.object({ share: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      await setUserShareResultsGlobally(ctx.user.id, input.share);
+      return { success: true, sharing: input.share };
+    }),
 
-        if (error?.message?.includes("402") || error?.message?.includes("Paid plan")) {
-          throw new TRPCError({
-            code: "FORBIDDEN",
-            message: "Video detection is not available with the current API plan. Please upgrade your account.",
-          });
-        }
+  /**
+   * How long the active workspace keeps stored media; null = forever
+   */
+  retention: protectedProcedure.query(async ({ ctx }) => {
+    return {
+      days: await getWorkspaceRetentionDays(ctx.workspace),
+      canEdit: ctx.workspace.role === "owner",
+    };
+  }),
 
-        if (error?.message?.includes("Storage configuration missing")) {
-          console.error("[Detection] Storage not configured properly");
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Server storage not configured. Please contact support.",
-          });
-        }
+  /**
+   * After `days`, stored files and text excerpts are deleted and only the
+   * verdict is kept. Applies to existing results on the next purge run.
+   */
+  setRetention: protectedProcedure
+    .input(z.object({ days: z.number().int().min(1).max(MAX_RETENTION_DAYS).nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      assertWorkspaceRole(ctx.workspace.role, "owner", "change media retention");
+      await setWorkspaceRetentionDays(ctx.workspace, input.days);
+      return { success: true, days: input.days };
+    }),
 
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to analyze video. Please try again.",
-        });
+  /**
+   * Status of a queued analysis, including the result once it succeeded
+   */
+  getJob: scopedProcedure("detections:read")
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const job = await getJobStatus(input.jobId, ctx.user.id);
+      if (!job) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Analysis job not found" });
       }
+      return job;
     }),
 
   /**
-   * Analyze text for AI-generated content
+   * Queue many files (already uploaded via /api/upload) as one batch. Poll getBatch for progress.
    */
-  analyzeText: protectedProcedure
+  createBatch: scopedProcedure("detections:write")
+    .use(rateLimited("analyze"))
     .input(
       z.object({
-        text: z.string().min(1).max(MAX_TEXT_LENGTH),
+        name: z.string().trim().max(255).optional(),
+        items: z
+          .array(
+            z.object({
+              fileType: z.enum(["image", "audio", "video"]),
+              fileName: z.string().min(1).max(255),
+              // Absolute for remote storage, a signed /api/storage path for the local driver
+              fileUrl: z.string().min(1).max(2048),
+              mimeType: z.string(),
+              audioType: z.enum(["voice", "music"]).optional(),
+            })
+          )
+          .min(1)
+          .max(MAX_BATCH_ITEMS),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const startTime = Date.now();
-
-      try {
-        // Calculate text hash for duplicate detection
-        const textHash = calculateFileHash(Buffer.from(input.text, "utf-8"));
+      const batch = await createBatch(ctx.workspace, input.items, input.name);
+      return { batchId: batch.id, name: batch.name };
+    }),
 
-        // Check for duplicate analysis
-        const duplicate = await findDuplicateAnalysis(ctx.user.id, textHash);
-        if (duplicate) {
-          console.log(`[Detection] Found cached result for text hash ${textHash}`);
-          return {
-            success: true,
-            verdict: duplicate.verdict as "ai" | "human",
-            confidence: duplicate.confidence.toString(),
-            detectedGenerator: duplicate.detectedGenerator,
-            fileUrl: "",
-            processingTimeMs: 0,
-            isCached: true,
-          };
-        }
+  /**
+   * Recent batches the caller created in the workspace
+   */
+  listBatches: scopedProcedure("detections:read").query(async ({ ctx }) => {
+    return await getUserDetectionBatches(ctx.workspace);
+  }),
 
-        const apiResponse = await detectTextAI(input.text);
-        const processingTime = Date.now() - startTime;
+  /**
+   * Progress of a batch: every item, and counts by status and verdict
+   */
+  getBatch: scopedProcedure("detections:read")
+    .input(z.object({ batchId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      return await getBatchSummary(ctx.workspace, input.batchId);
+    }),
 
-        const aiGenerated = apiResponse.report.ai_generated;
-        const verdict = aiGenerated.verdict;
-        const confidencePercent = Math.round(parseFloat(aiGenerated.ai.confidence.toString()) * 100);
-        const confidence = (confidencePercent / 100).toFixed(4);
-        const detectedGenerator = getTopDetectedGenerator(
-          aiGenerated.generator
-        );
+  /**
+   * Queue failed batch items again; all failed items without jobIds
+   */
+  retryBatch: scopedProcedure("detections:write")
+    .use(rateLimited("analyze"))
+    .input(z.object({ batchId: z.number(), jobIds: z.array(z.number()).min(1).max(MAX_BATCH_ITEMS).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const requeued = await retryBatchItems(ctx.workspace, input.batchId, input.jobIds);
+      return { success: true, requeued };
+    }),
 
-        await createDetectionResult(ctx.user.id, {
-          fileName: "text-input",
-          fileType: "text",
-          fileSize: input.text.length,
-          fileHash: textHash,
-          s3Key: "",
-          verdict,
-          confidence: confidence,
-          detectedGenerator,
-          generatorScores: {},
-          rawResponse: apiResponse.report,
-          processingTimeMs: processingTime,
-          isDuplicate: 0,
-        });
+  /**
+   * Export the analyzed items of a batch as CSV/JSON
+   */
+  exportBatch: scopedProcedure("detections:read")
+    .input(z.object({ batchId: z.number(), format: z.enum(["csv", "json"]) }))
+    .query(async ({ ctx, input }) => {
+      const ids = await getBatchResultIds(ctx.workspace, input.batchId);
+      const results =
+        ids.length > 0 ? await getDetectionResultsForExport(ctx.workspace, { ids }, EXPORT_QUERY_LIMIT) : [];
 
-        return {
-          success: true,
-          verdict,
-          confidence: confidence.toString(),
-          detectedGenerator,
-          fileUrl: "",
-          processingTimeMs: processingTime,
-          isCached: false,
-        };
-      } catch (error: any) {
-        console.error("[Detection] Text analysis failed:", error);
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to analyze text. Please try again.",
-        });
-      }
+      return input.format === "json"
+        ? { success: true, data: results, format: "json" }
+        : { success: true, data: buildCsv(results), format: "csv" };
     }),
 
   /**
    * Get analysis history for current user
    */
-  getHistory: protectedProcedure
+  getHistory: scopedProcedure("detections:read")
     .input(z.object({ limit: z.number().default(50) }))
     .query(async ({ ctx, input }) => {
-      return await getUserDetectionHistory(ctx.user.id, input.limit);
+      return await getUserDetectionHistory(ctx.workspace, input.limit);
     }),
 
   /**
    * Get a specific detection result
    */
-  getResult: protectedProcedure
+  getResult: scopedProcedure("detections:read")
     .input(z.object({ id: z.number() }))
     .query(async ({ ctx, input }) => {
-      return await getDetectionResultById(input.id, ctx.user.id);
+      return await getDetectionResultById(input.id, ctx.workspace);
     }),
 
   /**
-   * Get filtered detection history with date range, verdict, and file type filters
+   * Delete a result, its stored file and its share links
    */
-  getFilteredHistory: protectedProcedure
+  deleteResult: scopedProcedure("detections:write", "delete results")
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await getDetectionResultById(input.id, ctx.workspace);
+      if (!result) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Detection result not found" });
+      }
+      if (!canDeleteResult(ctx.workspace, result)) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only workspace owners can delete other members' results" });
+      }
+
+      const summary = await deleteResultsAsMember(ctx.workspace, [input.id]);
+      if (summary.results === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Detection result not found" });
+      }
+      return { success: true, ...summary };
+    }),
+
+  /**
+   * Delete several results of the workspace; ids from elsewhere, and other
+   * members' results unless the caller is an owner, are skipped
+   */
+  deleteMany: scopedProcedure("detections:write", "delete results")
+    .input(z.object({ ids: z.array(z.number()).min(1).max(500) }))
+    .mutation(async ({ ctx, input }) => {
+      const summary = await deleteResultsAsMember(ctx.workspace, input.ids);
+      return { success: true, ...summary };
+    }),
+
+  /**
+   * Get filtered detection history with date range, verdict, and file type filters.
+   * Cursor-paginated; totals cover the whole filtered set.
+   */
+  getFilteredHistory: scopedProcedure("detections:read")
     .input(
       z.object({
         verdict: z.enum(["ai", "human"]).optional(),
         fileType: z.enum(["image", "audio", "video", "text"]).optional(),
         startDate: z.date().optional(),
         endDate: z.date().optional(),
-        limit: z.number().default(50),
+        sortBy: z.enum(HISTORY_SORT_FIELDS).default("createdAt"),
+        sortDir: z.enum(["asc", "desc"]).default("desc"),
+        cursor: z.string().nullish(),
+        limit: z.number().int().min(1).max(100).default(25),
       })
     )
     .query(async ({ ctx, input }) => {
+      if (input.cursor && !decodeHistoryCursor(input.cursor, input.sortBy)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid cursor" });
+      }
+
       return await getFilteredDetectionHistory(
-        ctx.user.id,
+        ctx.workspace,
         {
           verdict: input.verdict,
           fileType: input.fileType,
           startDate: input.startDate,
           endDate: input.endDate,
         },
-        input.limit
+        {
+          sortBy: input.sortBy,
+          sortDir: input.sortDir,
+          cursor: input.cursor,
+          limit: input.limit,
+        }
       );
     }),
 
   /**
    * Check for duplicate analysis based on file hash
    */
-  checkDuplicate: protectedProcedure
+  checkDuplicate: scopedProcedure("detections:read")
     .input(
       z.object({
         fileHash: z.string(),
@@ -610,7 +540,7 @@ if (input.fileUrl) {
     .query(async ({ ctx, input }) => {
       try {
         const duplicate = await findDuplicateAnalysis(
-          ctx.user.id,
+          ctx.workspace,
           input.fileHash
         );
         return {
@@ -627,18 +557,31 @@ if (input.fileUrl) {
     }),
 
   /**
-   * Export multiple detection results as CSV
+   * Export the selected results (or everything matching the filters) as CSV/JSON.
+   * Larger exports go through the streaming GET /api/export endpoint.
    */
-  exportResults: protectedProcedure
+  exportResults: scopedProcedure("detections:read")
     .input(
       z.object({
-        ids: z.array(z.number()),
+        ids: z.array(z.number()).optional(),
+        filters: z
+          .object({
+            verdict: z.enum(["ai", "human"]).optional(),
+            fileType: z.enum(["image", "audio", "video", "text"]).optional(),
+            startDate: z.date().optional(),
+            endDate: z.date().optional(),
+          })
+          .optional(),
         format: z.enum(["csv", "json"]),
       })
     )
     .query(async ({ ctx, input }) => {
       try {
-        const results = await getDetectionResultsForExport(ctx.user.id, input.ids);
+        const results = await getDetectionResultsForExport(
+          ctx.workspace,
+          { ids: input.ids, filters: input.filters },
+          EXPORT_QUERY_LIMIT
+        );
 
         if (input.format === "json") {
           return {
@@ -648,42 +591,9 @@ if (input.fileUrl) {
           };
         }
 
-        // CSV format
-        const headers = [
-          "ID",
-          "File Name",
-          "File Type",
-          "Verdict",
-          "Confidence",
-          "Generator",
-          "Date",
-        ];
-        const rows = results.map((r) => [
-          r.id,
-          r.fileName,
-          r.fileType,
-          r.verdict,
-          (parseFloat(r.confidence as any) * 100).toFixed(2) + "%",
-          r.detectedGenerator || "N/A",
-          new Date(r.createdAt).toISOString(),
-        ]);
-
-        const csvContent = [
-          headers.join(","),
-          ...rows.map((row) =>
-            row
-              .map((cell) =>
-                typeof cell === "string" && cell.includes(",")
-                  ? `"${cell}"`
-                  : cell
-              )
-              .join(",")
-          ),
-        ].join("\n");
-
         return {
           success: true,
-          data: csvContent,
+          data: buildCsv(results),
           format: "csv",
         };
       } catch (error) {
@@ -696,22 +606,149 @@ if (input.fileUrl) {
     }),
 
   createShareLink: protectedProcedure
-    .input(z.object({ detectionResultId: z.number() }))
+    .input(
+      z.object({
+        detectionResultId: z.number(),
+        expiresInHours: z.number().int().min(1).max(MAX_SHARE_LINK_HOURS).optional(),
+        password: z.string().min(SHARE_PASSWORD_MIN_LENGTH).max(128).optional(),
+        exposeFile: z.boolean().default(false),
+      })
+    )
     .mutation(async ({ ctx, input }) => {
+      assertWorkspaceRole(ctx.workspace.role, "analyst", "share results");
+
       try {
-        const result = await getDetectionResultById(input.detectionResultId, ctx.user.id);
+        const result = await getDetectionResultById(input.detectionResultId, ctx.workspace);
         if (!result) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Detection result not found" });
         }
         const shareToken = generateShareToken();
-        await createShareLink(ctx.user.id, input.detectionResultId, shareToken);
-        return { success: true, shareToken, shareUrl: `/share/${shareToken}` };
+        const link = await createShareLink({
+          userId: ctx.user.id,
+          detectionResultId: input.detectionResultId,
+          shareToken,
+          expiresAt: input.expiresInHours
+            ? new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000)
+            : null,
+          passwordHash: input.password ? await hashPassword(input.password) : null,
+          exposeFile: input.exposeFile ? 1 : 0,
+        });
+        return {
+          success: true,
+          shareToken,
+          shareUrl: `/share/${shareToken}`,
+          expiresAt: link?.expiresAt ?? null,
+        };
       } catch (error: any) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Detection] Share link creation failed:", error);
         throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create share link" });
       }
     }),
 
+  /**
+   * Public, read-only view of a shared result. Counts a view on every successful lookup.
+   */
+  getSharedResult: publicProcedure
+    .input(
+      z.object({
+        shareToken: z.string().min(1).max(64),
+        password: z.string().max(128).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const shareLink = await getShareLink(input.shareToken);
+      if (!shareLink) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Share link not found" });
+      }
+      if (shareLink.revokedAt) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "This share link has been revoked" });
+      }
+      if (shareLink.expiresAt && shareLink.expiresAt.getTime() <= Date.now()) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "This share link has expired" });
+      }
+      if (shareLink.passwordHash) {
+        if (!input.password) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: SHARE_PASSWORD_REQUIRED });
+        }
+        const retryAfterMs = await consumeSharePasswordAttempt(shareLink.shareToken, getClientIp(ctx.req));
+        if (retryAfterMs > 0) {
+          ctx.res.setHeader("Retry-After", String(retryAfterSeconds(retryAfterMs)));
+          throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: rateLimitMessage(retryAfterMs) });
+        }
+        if (!(await verifyPassword(input.password, shareLink.passwordHash))) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: SHARE_PASSWORD_INVALID });
+        }
+      }
+
+      const result = await getDetectionResult(shareLink.detectionResultId);
+      if (!result) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Shared result no longer exists" });
+      }
+
+      await incrementShareLinkView(input.shareToken);
+
+      // Only what the card needs; owner, hashes and raw vendor output stay private.
+      // File name and file are only revealed when the owner opted in.
+      const exposeFile = shareLink.exposeFile === 1;
+      return {
+        success: true,
+        fileName: exposeFile ? result.fileName : null,
+        fileType: result.fileType,
+        verdict: result.verdict,
+        confidence: result.confidence.toString(),
+        detectedGenerator: result.detectedGenerator,
+        processingTimeMs: result.processingTimeMs ?? 0,
+        fileUrl: exposeFile && result.s3Key ? (await storageGet(result.s3Key)).url : "",
+        createdAt: result.createdAt,
+        sharedAt: shareLink.createdAt,
+      };
+    }),
+
+  /**
+   * Disable a link immediately. Views already made stay counted.
+   */
+  revokeShareLink: protectedProcedure
+    .input(z.object({ shareToken: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const shareLink = await getShareLink(input.shareToken);
+      if (!shareLink || shareLink.userId !== ctx.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Share link not found" });
+      }
+      if (!shareLink.revokedAt) await revokeShareLink(input.shareToken);
+      return { success: true };
+    }),
+
+  /**
+   * Revoke a link and issue a new token with the same lifetime, password and visibility
+   */
+  regenerateShareLink: protectedProcedure
+    .input(z.object({ shareToken: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const shareLink = await getShareLink(input.shareToken);
+      if (!shareLink || shareLink.userId !== ctx.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Share link not found" });
+      }
+
+      if (!shareLink.revokedAt) await revokeShareLink(input.shareToken);
+
+      // Keep the original lifetime, counted from now, so an expired link can be renewed
+      const lifetimeMs = shareLink.expiresAt
+        ? shareLink.expiresAt.getTime() - shareLink.createdAt.getTime()
+        : null;
+
+      const shareToken = generateShareToken();
+      await createShareLink({
+        userId: ctx.user.id,
+        detectionResultId: shareLink.detectionResultId,
+        shareToken,
+        expiresAt: lifetimeMs !== null ? new Date(Date.now() + lifetimeMs) : null,
+        passwordHash: shareLink.passwordHash,
+        exposeFile: shareLink.exposeFile,
+      });
+      return { success: true, shareToken, shareUrl: `/share/${shareToken}` };
+    }),
+
   getShareStats: protectedProcedure
     .input(z.object({ shareToken: z.string() }))
     .query(async ({ ctx, input }) => {
@@ -721,8 +758,9 @@ if (input.fileUrl) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Share link not found" });
         }
         const stats = await getShareLinkStats(input.shareToken);
-        return stats || { viewCount: 0, lastViewedAt: null, createdAt: null };
+        return stats || { viewCount: 0, lastViewedAt: null, createdAt: null, expiresAt: null, revokedAt: null };
       } catch (error: any) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Detection] Share stats retrieval failed:", error);
         throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to retrieve share statistics" });
       }
@@ -730,7 +768,18 @@ if (input.fileUrl) {
 
   getUserShareLinks: protectedProcedure.query(async ({ ctx }) => {
     try {
-      return await getUserShareLinks(ctx.user.id);
+      const links = await getUserShareLinks(ctx.user.id);
+      const now = Date.now();
+      return links.map(link => ({
+        ...link,
+        hasPassword: Boolean(Number(link.hasPassword)),
+        exposeFile: link.exposeFile === 1,
+        status: link.revokedAt
+          ? ("revoked" as const)
+          : link.expiresAt && link.expiresAt.getTime() <= now
+            ? ("expired" as const)
+            : ("active" as const),
+      }));
     } catch (error: any) {
       console.error("[Detection] User share links retrieval failed:", error);
       throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to retrieve share links" });
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  aiOrNotProvider,
+  getDetectionProvider,
+  registerDetectionProvider,
+} from "./detectionProvider";
+import { ENV } from "./_core/env";
+
+vi.mock("./aiornot", () => ({
+  detectImageAI: vi.fn().mockResolvedValue({
+    id: "test-id",
+    report: {
+      ai_generated: {
+        verdict: "ai",
+        ai: { is_detected: true, confidence: 0.9567 },
+        human: { is_detected: false, confidence: 0.0433 },
+        generator: { midjourney: 0.9, dall_e: 0.4 },
+      },
+    },
+  }),
+  detectAudioVoiceAI: vi.fn().mockResolvedValue({
+    id: "test-id",
+    report: {
+      ai_generated: {
+        verdict: "human",
+        ai: { is_detected: false, confidence: 0.1 },
+        human: { is_detected: true, confidence: 0.9 },
+        generator: {},
+        segments: [
+          { start_time: 0, end_time: 2.5, verdict: "human", confidence: 0.12 },
+        ],
+      },
+    },
+  }),
+  detectVideoAI: vi.fn().mockResolvedValue({
+    id: "test-id",
+    report: { ai_video: { is_detected: true, confidence: 0.734 } },
+  }),
+  getTopDetectedGenerator: vi.fn((scores: Record<string, number>) => {
+    const entries = Object.entries(scores);
+    if (entries.length === 0) return null;
+    return entries.reduce((a, b) => (a[1] > b[1] ? a : b))[0];
+  }),
+}));
+
+const file = { buffer: Buffer.from("data"), fileName: "test.bin" };
+
+describe("aiOrNotProvider", () => {
+  it("normalizes image reports", async () => {
+    const result = await aiOrNotProvider.detectImage!(file);
+
+    expect(result).toMatchObject({
+      provider: "aiornot",
+      verdict: "ai",
+      confidence: 0.96,
+      detectedGenerator: "midjourney",
+      generatorScores: { midjourney: 0.9, dall_e: 0.4 },
+      segments: [],
+    });
+  });
+
+  it("normalizes audio segments", async () => {
+    const result = await aiOrNotProvider.detectAudio!({
+      ...file,
+      audioType: "voice",
+    });
+
+    expect(result.verdict).toBe("human");
+    expect(result.segments).toEqual([
+      { startTime: 0, endTime: 2.5, verdict: "human", confidence: 0.12 },
+    ]);
+  });
+
+  it("uses ai_video as the primary video verdict", async () => {
+    const result = await aiOrNotProvider.detectVideo!(file);
+
+    expect(result.verdict).toBe("ai");
+    expect(result.confidence).toBe(0.73);
+    expect(result.detectedGenerator).toBeNull();
+  });
+});
+
+describe("getDetectionProvider", () => {
+  it("defaults to AI or Not", () => {
+    expect(getDetectionProvider("image").name).toBe("aiornot");
+  });
+
+  it("honours per media type overrides", () => {
+    registerDetectionProvider({
+      name: "in-house",
+      detectText: vi.fn(),
+    });
+    ENV.detectionProviders.text = "in-house";
+
+    try {
+      expect(getDetectionProvider("text").name).toBe("in-house");
+      expect(getDetectionProvider("image").name).toBe("aiornot");
+    } finally {
+      ENV.detectionProviders.text = "";
+    }
+  });
+
+  it("rejects providers that cannot handle the media type", () => {
+    registerDetectionProvider({ name: "text-only", detectText: vi.fn() });
+    ENV.detectionProviders.image = "text-only";
+
+    try {
+      expect(() => getDetectionProvider("image")).toThrow(/does not support/);
+    } finally {
+      ENV.detectionProviders.image = "";
+    }
+  });
+});
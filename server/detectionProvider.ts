@@ -0,0 +1,203 @@
+import { ENV } from "./_core/env.js";
+import {
+  detectImageAI,
+  detectAudioVoiceAI,
+  detectAudioMusicAI,
+  detectVideoAI,
+  detectTextAI,
+  getTopDetectedGenerator,
+  type DetectionFileType,
+} from "./aiornot.js";
+
+export type Verdict = "ai" | "human";
+export type AudioKind = "voice" | "music";
+
+/**
+ * A time range inside an audio/video file with its own verdict
+ */
+export interface DetectionSegment {
+  startTime: number;
+  endTime: number;
+  verdict: Verdict;
+  confidence: number;
+}
+
+/**
+ * Vendor-independent detection result.
+ * `confidence` is the probability (0..1) that the content is AI-generated,
+ * `raw` is the untouched vendor report that ends up in `rawResponse`.
+ */
+export interface NormalizedDetection {
+  provider: string;
+  verdict: Verdict;
+  confidence: number;
+  detectedGenerator: string | null;
+  generatorScores: Record<string, number>;
+  segments: DetectionSegment[];
+  raw: unknown;
+}
+
+export interface FileDetectionInput {
+  buffer: Buffer;
+  fileName: string;
+  mimeType?: string;
+}
+
+/**
+ * A detection backend. Each media type is optional so a provider can
+ * specialise (e.g. an in-house text-only model).
+ */
+export interface DetectionProvider {
+  name: string;
+  /** Bump when the model or API changes so cached verdicts from the old one aren't reused */
+  version?: string;
+  detectImage?(input: FileDetectionInput): Promise<NormalizedDetection>;
+  detectAudio?(
+    input: FileDetectionInput & { audioType: AudioKind }
+  ): Promise<NormalizedDetection>;
+  detectVideo?(input: FileDetectionInput): Promise<NormalizedDetection>;
+  detectText?(input: { text: string }): Promise<NormalizedDetection>;
+}
+
+// Confidence is stored with 2 significant decimals, like the vendor UI shows it
+function roundConfidence(value: unknown): number {
+  const parsed = parseFloat(String(value ?? 0));
+  if (Number.isNaN(parsed)) return 0;
+  return Math.round(parsed * 100) / 100;
+}
+
+function normalizeAiGenerated(
+  provider: string,
+  report: any
+): NormalizedDetection {
+  const aiGenerated = report?.ai_generated;
+  if (!aiGenerated) {
+    throw new Error("Invalid response from AI detection service");
+  }
+
+  const generatorScores: Record<string, number> = aiGenerated.generator ?? {};
+  const segments: DetectionSegment[] = (aiGenerated.segments ?? []).map(
+    (s: any) => ({
+      startTime: s.start_time,
+      endTime: s.end_time,
+      verdict: s.verdict,
+      confidence: roundConfidence(s.confidence),
+    })
+  );
+
+  return {
+    provider,
+    verdict: aiGenerated.verdict,
+    confidence: roundConfidence(aiGenerated.ai?.confidence),
+    detectedGenerator: getTopDetectedGenerator(generatorScores),
+    generatorScores,
+    segments,
+    raw: report,
+  };
+}
+
+/**
+ * AI or Not (https://aiornot.com) adapter
+ */
+export const aiOrNotProvider: DetectionProvider = {
+  name: "aiornot",
+  version: "v2",
+
+  async detectImage({ buffer, fileName }) {
+    const response = await detectImageAI(buffer, fileName);
+    return normalizeAiGenerated(this.name, response.report);
+  },
+
+  async detectAudio({ buffer, fileName, audioType }) {
+    const response =
+      audioType === "voice"
+        ? await detectAudioVoiceAI(buffer, fileName)
+        : await detectAudioMusicAI(buffer, fileName);
+    return normalizeAiGenerated(this.name, response.report);
+  },
+
+  async detectVideo({ buffer, fileName }) {
+    const response = await detectVideoAI(buffer, fileName);
+
+    // Video API returns ai_video, ai_voice, ai_music - use ai_video as primary verdict
+    if (!response?.report?.ai_video) {
+      console.error(
+        "[Detection] Invalid video API response structure:",
+        JSON.stringify(response).substring(0, 500)
+      );
+      throw new Error("Invalid response from AI detection service");
+    }
+
+    const aiVideo = response.report.ai_video;
+    return {
+      provider: this.name,
+      verdict: aiVideo.is_detected ? "ai" : "human",
+      confidence: roundConfidence(aiVideo.confidence),
+      detectedGenerator: null, // Video API doesn't return generator info
+      generatorScores: {},
+      segments: [],
+      raw: response.report,
+    };
+  },
+
+  async detectText({ text }) {
+    const response = await detectTextAI(text);
+    return normalizeAiGenerated(this.name, response.report);
+  },
+};
+
+/* -------------------- Registry -------------------- */
+
+const providers = new Map<string, DetectionProvider>([
+  [aiOrNotProvider.name, aiOrNotProvider],
+]);
+
+/**
+ * Make a provider selectable through DETECTION_PROVIDER / DETECTION_PROVIDER_<TYPE>
+ */
+export function registerDetectionProvider(provider: DetectionProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getProviderByName(name: string): DetectionProvider | undefined {
+  return providers.get(name);
+}
+
+export function listDetectionProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+const METHOD_BY_TYPE = {
+  image: "detectImage",
+  audio: "detectAudio",
+  video: "detectVideo",
+  text: "detectText",
+} as const satisfies Record<DetectionFileType, keyof DetectionProvider>;
+
+export function supportsFileType(
+  provider: DetectionProvider,
+  fileType: DetectionFileType
+): boolean {
+  return typeof provider[METHOD_BY_TYPE[fileType]] === "function";
+}
+
+/**
+ * Resolve the configured provider for a media type.
+ * A per-type override wins over the global default.
+ */
+export function getDetectionProvider(
+  fileType: DetectionFileType
+): DetectionProvider {
+  const name =
+    ENV.detectionProviders[fileType] || ENV.detectionProvider || "aiornot";
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new Error(`Unknown detection provider: ${name}`);
+  }
+  if (!supportsFileType(provider, fileType)) {
+    throw new Error(`Detection provider ${name} does not support ${fileType}`);
+  }
+
+  return provider;
+}
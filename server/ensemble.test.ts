@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { aggregateDetections, runDetection } from "./ensemble";
+import {
+  registerDetectionProvider,
+  type NormalizedDetection,
+} from "./detectionProvider";
+import { ENV } from "./_core/env";
+
+function detection(
+  provider: string,
+  verdict: "ai" | "human",
+  confidence: number
+): NormalizedDetection {
+  return {
+    provider,
+    verdict,
+    confidence,
+    detectedGenerator: verdict === "ai" ? `${provider}-gen` : null,
+    generatorScores: {},
+    segments: [],
+    raw: { provider },
+  };
+}
+
+const borderline = [
+  detection("a", "ai", 0.62),
+  detection("b", "human", 0.3),
+  detection("c", "human", 0.4),
+];
+
+describe("aggregateDetections", () => {
+  it("averages confidences with mean", () => {
+    expect(aggregateDetections(borderline, "mean")).toEqual({
+      verdict: "human",
+      confidence: 0.44,
+    });
+  });
+
+  it("takes the highest confidence with max", () => {
+    expect(aggregateDetections(borderline, "max")).toEqual({
+      verdict: "ai",
+      confidence: 0.62,
+    });
+  });
+
+  it("flags AI as soon as one provider does with any", () => {
+    expect(aggregateDetections(borderline, "any").verdict).toBe("ai");
+  });
+
+  it("counts weighted votes", () => {
+    expect(aggregateDetections(borderline, "weighted").verdict).toBe("human");
+    expect(aggregateDetections(borderline, "weighted", { a: 3 })).toEqual({
+      verdict: "ai",
+      confidence: 0.51,
+    });
+  });
+});
+
+describe("runDetection", () => {
+  afterEach(() => {
+    ENV.detectionEnsemble = "";
+    ENV.detectionAggregation = "mean";
+  });
+
+  registerDetectionProvider({
+    name: "yes",
+    detectText: async () => detection("yes", "ai", 0.9),
+  });
+  registerDetectionProvider({
+    name: "no",
+    detectText: async () => detection("no", "human", 0.2),
+  });
+  registerDetectionProvider({
+    name: "broken",
+    detectText: async () => {
+      throw new Error("AI or Not API error (text): 429 - slow down");
+    },
+  });
+
+  it("keeps each provider's raw output", async () => {
+    ENV.detectionEnsemble = "yes,no";
+    ENV.detectionAggregation = "max";
+
+    const result = await runDetection("text", p => p.detectText!({ text: "hi" }));
+
+    expect(result.verdict).toBe("ai");
+    expect(result.confidence).toBe(0.9);
+    expect(result.detectedGenerator).toBe("yes-gen");
+    expect(result.providers).toEqual(["yes", "no"]);
+    expect((result.raw as any).providers).toEqual({
+      yes: { provider: "yes" },
+      no: { provider: "no" },
+    });
+  });
+
+  it("ignores failing providers while others answer", async () => {
+    ENV.detectionEnsemble = "no,broken";
+
+    const result = await runDetection("text", p => p.detectText!({ text: "hi" }));
+
+    expect(result.verdict).toBe("human");
+    expect((result.raw as any).ensemble.errors.broken).toContain("429");
+  });
+
+  it("rethrows when every provider fails", async () => {
+    ENV.detectionEnsemble = "broken,broken";
+
+    await expect(
+      runDetection("text", p => p.detectText!({ text: "hi" }))
+    ).rejects.toThrow("429");
+  });
+});
@@ -0,0 +1,202 @@
+import { ENV } from "./_core/env.js";
+import type { DetectionFileType } from "./aiornot.js";
+import {
+  getDetectionProvider,
+  getProviderByName,
+  supportsFileType,
+  type DetectionProvider,
+  type NormalizedDetection,
+  type Verdict,
+} from "./detectionProvider.js";
+
+export const AGGREGATION_STRATEGIES = ["mean", "max", "weighted", "any"] as const;
+export type AggregationStrategy = (typeof AGGREGATION_STRATEGIES)[number];
+
+export interface EnsembleDetection extends NormalizedDetection {
+  strategy: AggregationStrategy | null;
+  providers: string[];
+}
+
+const AI_THRESHOLD = 0.5;
+
+function parseWeights(value: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const pair of value.split(",")) {
+    const [name, weight] = pair.split("=").map(s => s.trim());
+    const parsed = parseFloat(weight);
+    if (name && !Number.isNaN(parsed)) weights[name] = parsed;
+  }
+  return weights;
+}
+
+function getAggregationStrategy(): AggregationStrategy {
+  const strategy = ENV.detectionAggregation as AggregationStrategy;
+  return AGGREGATION_STRATEGIES.includes(strategy) ? strategy : "mean";
+}
+
+/**
+ * Providers taking part in an analysis. Without DETECTION_ENSEMBLE this is
+ * just the single provider configured for the media type.
+ */
+export function getEnsembleProviders(
+  fileType: DetectionFileType
+): DetectionProvider[] {
+  const names = ENV.detectionEnsemble
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  if (names.length === 0) return [getDetectionProvider(fileType)];
+
+  const providers = names
+    .map(name => getProviderByName(name))
+    .filter((p): p is DetectionProvider => !!p && supportsFileType(p, fileType));
+
+  return providers.length > 0 ? providers : [getDetectionProvider(fileType)];
+}
+
+/**
+ * Identifies what would produce a verdict for `fileType` right now: the
+ * provider(s) with their versions, plus the aggregation for an ensemble.
+ * `variant` separates analyses of the same bytes that call different
+ * endpoints (voice vs. music audio).
+ */
+export function getDetectionSignature(fileType: DetectionFileType, variant?: string): string {
+  const providers = getEnsembleProviders(fileType)
+    .map(p => `${p.name}@${p.version ?? "1"}`)
+    .sort();
+
+  let signature = providers[0];
+  if (providers.length > 1) {
+    const strategy = getAggregationStrategy();
+    const weights = strategy === "weighted" ? `(${ENV.detectionWeights})` : "";
+    signature = `${strategy}${weights}:${providers.join(",")}`;
+  }
+  return variant ? `${signature}/${variant}` : signature;
+}
+
+/**
+ * Combine several provider verdicts into one.
+ *
+ * - mean:     average AI confidence, verdict by threshold
+ * - max:      highest AI confidence wins
+ * - weighted: weighted vote on verdicts, confidence is the weighted mean
+ * - any:      AI as soon as one provider says AI
+ */
+export function aggregateDetections(
+  results: NormalizedDetection[],
+  strategy: AggregationStrategy,
+  weights: Record<string, number> = {}
+): { verdict: Verdict; confidence: number } {
+  if (results.length === 0) {
+    throw new Error("Nothing to aggregate");
+  }
+
+  const confidences = results.map(r => r.confidence);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  switch (strategy) {
+    case "max": {
+      const confidence = Math.max(...confidences);
+      return { verdict: confidence >= AI_THRESHOLD ? "ai" : "human", confidence: round(confidence) };
+    }
+    case "any": {
+      const anyAi = results.some(r => r.verdict === "ai");
+      return { verdict: anyAi ? "ai" : "human", confidence: round(Math.max(...confidences)) };
+    }
+    case "weighted": {
+      let aiVotes = 0;
+      let humanVotes = 0;
+      let weightedSum = 0;
+      let totalWeight = 0;
+
+      for (const result of results) {
+        const weight = weights[result.provider] ?? 1;
+        if (result.verdict === "ai") aiVotes += weight;
+        else humanVotes += weight;
+        weightedSum += result.confidence * weight;
+        totalWeight += weight;
+      }
+
+      // Ties go to "ai" so borderline content is flagged for review
+      return {
+        verdict: aiVotes >= humanVotes ? "ai" : "human",
+        confidence: round(totalWeight > 0 ? weightedSum / totalWeight : 0),
+      };
+    }
+    case "mean":
+    default: {
+      const confidence = confidences.reduce((a, b) => a + b, 0) / confidences.length;
+      return { verdict: confidence >= AI_THRESHOLD ? "ai" : "human", confidence: round(confidence) };
+    }
+  }
+}
+
+/**
+ * Run a detection against every configured provider in parallel and merge
+ * the outcome. A single provider keeps its raw report as-is; an ensemble
+ * stores every provider's raw output keyed by provider name.
+ */
+export async function runDetection(
+  fileType: DetectionFileType,
+  detect: (provider: DetectionProvider) => Promise<NormalizedDetection>
+): Promise<EnsembleDetection> {
+  const providers = getEnsembleProviders(fileType);
+
+  if (providers.length === 1) {
+    const result = await detect(providers[0]);
+    return { ...result, strategy: null, providers: [result.provider] };
+  }
+
+  const settled = await Promise.allSettled(providers.map(p => detect(p)));
+  const results: NormalizedDetection[] = [];
+  const errors: Record<string, string> = {};
+
+  settled.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      results.push(outcome.value);
+    } else {
+      console.error(`[Ensemble] Provider ${providers[i].name} failed:`, outcome.reason);
+      errors[providers[i].name] = outcome.reason?.message ?? String(outcome.reason);
+    }
+  });
+
+  // Nobody answered: surface the first error so callers keep their 402/429 handling
+  if (results.length === 0) {
+    const firstFailure = settled.find(o => o.status === "rejected") as PromiseRejectedResult;
+    throw firstFailure.reason;
+  }
+
+  const strategy = getAggregationStrategy();
+  const { verdict, confidence } = aggregateDetections(
+    results,
+    strategy,
+    parseWeights(ENV.detectionWeights)
+  );
+
+  // Generator attribution comes from the provider most convinced it is AI
+  const lead = results.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+
+  return {
+    provider: "ensemble",
+    verdict,
+    confidence,
+    detectedGenerator: verdict === "ai" ? lead.detectedGenerator : null,
+    generatorScores: lead.generatorScores,
+    segments: results.find(r => r.segments.length > 0)?.segments ?? [],
+    raw: {
+      ensemble: {
+        strategy,
+        results: results.map(r => ({
+          provider: r.provider,
+          verdict: r.verdict,
+          confidence: r.confidence,
+        })),
+        errors,
+      },
+      providers: Object.fromEntries(results.map(r => [r.provider, r.raw])),
+    },
+    strategy,
+    providers: results.map(r => r.provider),
+  };
+}
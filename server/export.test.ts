@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { DetectionResult } from "../drizzle/schema";
+import { buildCsv, csvCell, registerExportRoutes } from "./export";
+import { iterateDetectionResultsForExport } from "./db";
+import { sdk } from "./_core/sdk";
+
+vi.mock("./_core/sdk", () => ({
+  sdk: { authenticateRequest: vi.fn() },
+}));
+
+vi.mock("./db", () => ({
+  iterateDetectionResultsForExport: vi.fn(),
+}));
+
+function createResult(overrides: Partial<DetectionResult> = {}): DetectionResult {
+  return {
+    id: 1,
+    userId: 1,
+    fileName: "photo.jpg",
+    fileType: "image",
+    fileSize: 1024,
+    fileHash: null,
+    s3Key: null,
+    verdict: "ai",
+    confidence: "0.9500",
+    detectedGenerator: "midjourney",
+    generatorScores: {},
+    rawResponse: {},
+    processingTimeMs: 800,
+    isDuplicate: 0,
+    duplicateOfId: null,
+    textExcerpt: null,
+    createdAt: new Date("2025-03-01T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("csvCell", () => {
+  it("quotes fields with commas, quotes and newlines", () => {
+    expect(csvCell("a,b")).toBe('"a,b"');
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(csvCell("line1\nline2")).toBe('"line1\nline2"');
+    expect(csvCell("plain")).toBe("plain");
+    expect(csvCell(null)).toBe("");
+  });
+
+  it("neutralises spreadsheet formulas", () => {
+    expect(csvCell("=HYPERLINK(\"http://evil\")")).toBe("\"'=HYPERLINK(\"\"http://evil\"\")\"");
+    expect(csvCell("+1+1")).toBe("'+1+1");
+    expect(csvCell("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(csvCell(-5)).toBe("-5");
+  });
+
+  it("builds CRLF-terminated rows", () => {
+    const csv = buildCsv([createResult({ fileName: "=cmd.jpg" })]);
+    expect(csv).toBe(
+      "ID,File Name,File Type,Verdict,Confidence,Generator,Date\r\n" +
+        "1,'=cmd.jpg,image,ai,95.00%,midjourney,2025-03-01T12:00:00.000Z\r\n"
+    );
+  });
+});
+
+describe("GET /api/export", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    registerExportRoutes(app);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(done => server.close(() => done())));
+
+  it("streams the selected ids in batches", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 1 } as any);
+    vi.mocked(iterateDetectionResultsForExport).mockImplementationOnce(async function* () {
+      yield [createResult({ id: 3 })];
+      yield [createResult({ id: 2 })];
+    });
+
+    const res = await fetch(`${baseUrl}/api/export?format=json&ids=3,2`);
+    const body = await res.json();
+
+    expect(res.headers.get("content-disposition")).toContain("attachment");
+    expect(body.map((r: DetectionResult) => r.id)).toEqual([3, 2]);
+    expect(iterateDetectionResultsForExport).toHaveBeenLastCalledWith(expect.objectContaining({ userId: 1, organizationId: null }), {
+      ids: [3, 2],
+      filters: {},
+    });
+  });
+
+  it("exports by filter when no ids are given", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 1 } as any);
+    vi.mocked(iterateDetectionResultsForExport).mockImplementationOnce(async function* () {});
+
+    const res = await fetch(`${baseUrl}/api/export?verdict=human&fileType=audio`);
+
+    expect(res.headers.get("content-type")).toContain("text/csv");
+    expect(await res.text()).toBe("ID,File Name,File Type,Verdict,Confidence,Generator,Date\r\n");
+    expect(iterateDetectionResultsForExport).toHaveBeenLastCalledWith(expect.objectContaining({ userId: 1, organizationId: null }), {
+      ids: undefined,
+      filters: { verdict: "human", fileType: "audio" },
+    });
+  });
+
+  it("rejects malformed ids", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 1 } as any);
+
+    const res = await fetch(`${baseUrl}/api/export?ids=1,abc`);
+    expect(res.status).toBe(400);
+  });
+
+  it("requires a session", async () => {
+    vi.mocked(sdk.authenticateRequest).mockRejectedValueOnce(new Error("Invalid session cookie"));
+
+    const res = await fetch(`${baseUrl}/api/export`);
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,127 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { sdk } from "./_core/sdk.js";
+import type { DetectionResult } from "../drizzle/schema.js";
+import { iterateDetectionResultsForExport, type ExportSelection } from "./db.js";
+import { resolveWorkspace } from "./workspaces.js";
+
+export const EXPORT_HEADERS = [
+  "ID",
+  "File Name",
+  "File Type",
+  "Verdict",
+  "Confidence",
+  "Generator",
+  "Date",
+];
+
+// Spreadsheet apps evaluate cells starting with these as formulas
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+/**
+ * Escape one CSV field per RFC 4180, neutralising spreadsheet formulas in text cells
+ */
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+
+  if (typeof value === "string" && FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function csvRow(cells: unknown[]): string {
+  return cells.map(csvCell).join(",") + "\r\n";
+}
+
+export function exportRow(r: DetectionResult): unknown[] {
+  return [
+    r.id,
+    r.fileName,
+    r.fileType,
+    r.verdict,
+    (parseFloat(r.confidence as any) * 100).toFixed(2) + "%",
+    r.detectedGenerator || "N/A",
+    new Date(r.createdAt).toISOString(),
+  ];
+}
+
+export function buildCsv(results: DetectionResult[]): string {
+  return csvRow(EXPORT_HEADERS) + results.map(r => csvRow(exportRow(r))).join("");
+}
+
+const exportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+  ids: z
+    .string()
+    .regex(/^\d+(,\d+)*$/)
+    .transform(value => value.split(",").map(Number))
+    .optional(),
+  verdict: z.enum(["ai", "human"]).optional(),
+  fileType: z.enum(["image", "audio", "video", "text"]).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/export — streamed CSV/JSON download of the current user's results.
+ * Accepts `ids=1,2,3` or the History filters (verdict, fileType, startDate, endDate).
+ */
+export function registerExportRoutes(app: Express) {
+  app.get("/api/export", async (req: Request, res: Response) => {
+    const user = await sdk.authenticateRequest(req).catch(() => null);
+    if (!user) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const parsed = exportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid export parameters" });
+      return;
+    }
+
+    const { format, ids, ...filters } = parsed.data;
+    const selection: ExportSelection = { ids, filters };
+    const fileName = `detection-results-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.status(200);
+    res.setHeader(
+      "Content-Type",
+      format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8"
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "no-store");
+
+    try {
+      const workspace = await resolveWorkspace(user);
+      let first = true;
+      res.write(format === "csv" ? csvRow(EXPORT_HEADERS) : "[");
+
+      for await (const batch of iterateDetectionResultsForExport(workspace, selection)) {
+        let chunk = "";
+        for (const row of batch) {
+          if (format === "csv") {
+            chunk += csvRow(exportRow(row));
+          } else {
+            chunk += (first ? "" : ",") + JSON.stringify(row);
+            first = false;
+          }
+        }
+        // Respect backpressure from slow clients
+        if (!res.write(chunk)) await new Promise(resolve => res.once("drain", resolve));
+      }
+
+      res.end(format === "csv" ? "" : "]");
+    } catch (error) {
+      console.error("[Export] Streaming export failed:", error);
+      // Headers are already sent; cutting the stream short is the only signal left
+      res.destroy(error as Error);
+    }
+  });
+}
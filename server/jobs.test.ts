@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TRPCError } from "@trpc/server";
+import type { DetectionJob } from "../drizzle/schema";
+import { getJobStatus, processDetectionJob, runPendingJobs } from "./jobs";
+import { analyzeFile, fetchRemoteFile, readStoredUpload } from "./analysis";
+import { claimNextDetectionJob, createAnalysisFailure, getDetectionJob, updateDetectionJob } from "./db";
+import { emitWebhookEvent } from "./webhooks";
+
+vi.mock("./db", () => ({
+  updateDetectionJob: vi.fn().mockResolvedValue(undefined),
+  createAnalysisFailure: vi.fn().mockResolvedValue(undefined),
+  claimNextDetectionJob: vi.fn(),
+  getDetectionJob: vi.fn(),
+  requeueStaleDetectionJobs: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("./webhooks", () => ({
+  emitWebhookEvent: vi.fn().mockResolvedValue(undefined),
+  runPendingWebhookDeliveries: vi.fn().mockResolvedValue(0),
+}));
+
+vi.mock("./analysis", async importOriginal => ({
+  ...(await importOriginal<typeof import("./analysis")>()),
+  fetchRemoteFile: vi.fn().mockResolvedValue(Buffer.alloc(2048)),
+  readStoredUpload: vi.fn().mockResolvedValue(Buffer.alloc(2048)),
+  analyzeFile: vi.fn(),
+}));
+
+function createJob(overrides: Partial<DetectionJob> = {}): DetectionJob {
+  return {
+    id: 7,
+    userId: 1,
+    fileType: "video",
+    status: "running",
+    input: {
+      fileName: "clip.mp4",
+      fileUrl: "https://example.com/clip.mp4",
+      mimeType: "video/mp4",
+    },
+    attempts: 1,
+    maxAttempts: 3,
+    lastError: null,
+    stage: null,
+    failedStage: null,
+    detectionResultId: null,
+    batchId: null,
+    runAfter: new Date(),
+    startedAt: new Date(),
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("processDetectionJob", () => {
+  beforeEach(() => {
+    vi.mocked(updateDetectionJob).mockClear();
+    vi.mocked(createAnalysisFailure).mockClear();
+  });
+
+  it("records the detection result on success", async () => {
+    vi.mocked(analyzeFile).mockResolvedValueOnce({
+      success: true,
+      id: 42,
+      verdict: "ai",
+      confidence: "0.9300",
+      detectedGenerator: null,
+      fileUrl: "https://example.com/stored.mp4",
+      processingTimeMs: 1200,
+      isCached: false,
+    });
+
+    await processDetectionJob(createJob());
+
+    expect(updateDetectionJob).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ status: "succeeded", detectionResultId: 42 })
+    );
+  });
+
+  it("reads uploads by storage key rather than through the stored link", async () => {
+    vi.mocked(fetchRemoteFile).mockClear();
+    vi.mocked(analyzeFile).mockRejectedValueOnce(new Error("socket hang up"));
+
+    await processDetectionJob(
+      createJob({
+        input: {
+          fileName: "clip.mp4",
+          fileUrl: "/api/storage/uploads/1/clip.mp4?expires=1&signature=x",
+          fileKey: "uploads/1/clip.mp4",
+          mimeType: "video/mp4",
+        },
+      })
+    );
+
+    expect(readStoredUpload).toHaveBeenCalledWith("uploads/1/clip.mp4");
+    expect(fetchRemoteFile).not.toHaveBeenCalled();
+  });
+
+  it("saves each stage and the one that failed on the job", async () => {
+    vi.mocked(analyzeFile).mockImplementationOnce(async input => {
+      input.progress?.stage("hashing");
+      input.progress?.stage("vendor_call");
+      throw new Error("socket hang up");
+    });
+
+    await processDetectionJob(createJob({ attempts: 3 }));
+
+    expect(vi.mocked(updateDetectionJob).mock.calls.map(([, update]) => update.stage ?? update.status)).toEqual([
+      "uploading",
+      "hashing",
+      "vendor_call",
+      "failed",
+    ]);
+    expect(updateDetectionJob).toHaveBeenLastCalledWith(
+      7,
+      expect.objectContaining({ status: "failed", failedStage: "vendor_call" })
+    );
+  });
+
+  it("requeues transient failures with backoff", async () => {
+    vi.mocked(analyzeFile).mockRejectedValueOnce(
+      new Error("AI or Not Video API error: 503 - unavailable")
+    );
+
+    const before = Date.now();
+    await processDetectionJob(createJob({ attempts: 2 }));
+
+    const [, update] = vi.mocked(updateDetectionJob).mock.calls.at(-1)!;
+    expect(update.status).toBe("queued");
+    expect(update.lastError).toBe("Failed to analyze video. Please try again.");
+    expect((update.runAfter as Date).getTime()).toBeGreaterThanOrEqual(before + 20_000);
+    // Only the final failure is logged
+    expect(createAnalysisFailure).not.toHaveBeenCalled();
+  });
+
+  it("fails for good after the last attempt", async () => {
+    vi.mocked(analyzeFile).mockRejectedValueOnce(new Error("socket hang up"));
+
+    await processDetectionJob(createJob({ attempts: 3 }));
+
+    expect(updateDetectionJob).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ status: "failed" })
+    );
+    expect(createAnalysisFailure).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 1,
+        source: "job",
+        fileType: "video",
+        code: "INTERNAL_SERVER_ERROR",
+        detail: "socket hang up",
+      })
+    );
+  });
+
+  it("does not retry bad input", async () => {
+    vi.mocked(fetchRemoteFile).mockRejectedValueOnce(
+      new TRPCError({ code: "BAD_REQUEST", message: "fileUrl fetch failed: 404." })
+    );
+
+    await processDetectionJob(createJob());
+
+    expect(updateDetectionJob).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ status: "failed", lastError: "fileUrl fetch failed: 404." })
+    );
+    expect(emitWebhookEvent).toHaveBeenCalledWith(1, "detection.failed", {
+      jobId: 7,
+      type: "video",
+      fileName: "clip.mp4",
+      error: "fileUrl fetch failed: 404.",
+    });
+  });
+});
+
+describe("getJobStatus", () => {
+  it("reports the stage a failed job stopped at", async () => {
+    vi.mocked(getDetectionJob).mockResolvedValueOnce(
+      createJob({ status: "failed", stage: "vendor_call", failedStage: "vendor_call", lastError: "Failed to analyze video." })
+    );
+
+    expect(await getJobStatus(7, 1)).toMatchObject({
+      status: "failed",
+      stage: "vendor_call",
+      failedStage: "vendor_call",
+      error: "Failed to analyze video.",
+    });
+  });
+});
+
+describe("runPendingJobs", () => {
+  it("runs at most `concurrency` jobs at a time", async () => {
+    const queue = [1, 2, 3, 4, 5].map(id => createJob({ id }));
+    vi.mocked(claimNextDetectionJob).mockImplementation(async () => queue.shift());
+
+    let running = 0;
+    let peak = 0;
+    vi.mocked(analyzeFile).mockImplementation(async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { success: true, id: 1, verdict: "ai", confidence: "0.9", detectedGenerator: null, fileUrl: "", processingTimeMs: 1, isCached: false };
+    });
+
+    expect(await runPendingJobs(4, 2)).toBe(4);
+    expect(peak).toBe(2);
+    expect(queue).toHaveLength(1);
+  });
+});
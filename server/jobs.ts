@@ -0,0 +1,321 @@
+import { TRPCError } from "@trpc/server";
+import type { Express, Request, Response } from "express";
+import { ENV } from "./_core/env.js";
+import type { DetectionJob } from "../drizzle/schema.js";
+import {
+  analyzeFile,
+  assertFileSize,
+  fetchRemoteFile,
+  readStoredUpload,
+  recordAnalysisFailure,
+  toAnalysisError,
+  type AnalysisOutcome,
+} from "./analysis.js";
+import type { AudioKind, Verdict } from "./detectionProvider.js";
+import {
+  claimNextDetectionJob,
+  createDetectionJob,
+  getDetectionJob,
+  getDetectionResult,
+  requeueStaleDetectionJobs,
+  updateDetectionJob,
+} from "./db.js";
+import { storageGet, storageKeyFromUrl } from "./storage.js";
+import { createProgressReporter, type AnalysisStage, type ProgressReporter } from "./progress.js";
+import { runPendingTakeouts } from "./takeout.js";
+import { emitWebhookEvent, runPendingWebhookDeliveries } from "./webhooks.js";
+
+export interface DetectionJobInput {
+  fileType: "image" | "audio" | "video";
+  fileName: string;
+  fileUrl: string;
+  // Storage key behind fileUrl when it's one of our links; read directly, so the link may expire
+  fileKey?: string | null;
+  mimeType: string;
+  audioType?: AudioKind;
+  progressId?: string;
+  // Workspace the result is filed under; null/absent for personal
+  organizationId?: number | null;
+  batchId?: number;
+}
+
+const RETRY_BASE_DELAY_MS = 10_000;
+// Failed batch items can be queued again this long after failing; their uploads are kept as long
+export const FAILED_JOB_RETRY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// A running job older than this is assumed to belong to a dead worker
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+export async function enqueueDetectionJob(userId: number, input: DetectionJobInput) {
+  let fileKey: string | null;
+  try {
+    fileKey = storageKeyFromUrl(input.fileUrl);
+  } catch (error: any) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `fileUrl read failed: ${error.message}` });
+  }
+
+  const job = await createDetectionJob({
+    userId,
+    fileType: input.fileType,
+    status: "queued",
+    batchId: input.batchId ?? null,
+    input: {
+      fileName: input.fileName,
+      fileUrl: input.fileUrl,
+      fileKey,
+      mimeType: input.mimeType,
+      audioType: input.audioType,
+      progressId: input.progressId,
+      organizationId: input.organizationId ?? null,
+    },
+  });
+
+  if (!job) throw new Error("enqueueDetectionJob: failed to create job");
+  return job;
+}
+
+/**
+ * Client-facing view of a job; `result` is filled in once it succeeded
+ */
+export async function getJobStatus(jobId: number, userId: number) {
+  const job = await getDetectionJob(jobId);
+  if (!job || job.userId !== userId) return null;
+
+  let result: AnalysisOutcome | null = null;
+  if (job.status === "succeeded" && job.detectionResultId) {
+    const row = await getDetectionResult(job.detectionResultId);
+    if (row) {
+      result = {
+        success: true,
+        id: row.id,
+        verdict: row.verdict as Verdict,
+        confidence: row.confidence.toString(),
+        detectedGenerator: row.detectedGenerator,
+        fileUrl: row.s3Key ? (await storageGet(row.s3Key)).url : "",
+        processingTimeMs: row.processingTimeMs ?? 0,
+        isCached: row.isDuplicate === 1,
+      };
+    }
+  }
+
+  const input = job.input as Omit<DetectionJobInput, "fileType">;
+
+  return {
+    id: job.id,
+    status: job.status,
+    fileType: job.fileType,
+    fileName: input.fileName,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.status === "failed" ? job.lastError : null,
+    // Polling clients follow these where no progress stream reaches them
+    stage: job.stage as AnalysisStage | null,
+    failedStage: job.status === "failed" ? (job.failedStage as AnalysisStage | null) : null,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    result,
+  };
+}
+
+// Bad input, plan limits and exhausted quotas won't get better by retrying
+const PERMANENT_ERROR_CODES: TRPCError["code"][] = [
+  "BAD_REQUEST",
+  "FORBIDDEN",
+  "PAYLOAD_TOO_LARGE",
+  "TOO_MANY_REQUESTS",
+];
+
+function isRetryable(error: unknown) {
+  return !(error instanceof TRPCError && PERMANENT_ERROR_CODES.includes(error.code));
+}
+
+/**
+ * Pass stages on to `progress` and save each one on the job row, so getJob
+ * can report them where no progress stream reaches the client
+ */
+function trackJobStages(jobId: number, progress: ProgressReporter) {
+  let current: AnalysisStage | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const reporter: ProgressReporter = {
+    stage(stage) {
+      current = stage;
+      progress.stage(stage);
+      saving = saving
+        .then(() => updateDetectionJob(jobId, { stage }))
+        .catch(error => console.warn(`[Jobs] Could not save the stage of job ${jobId}:`, error));
+    },
+    fail: error => progress.fail(error),
+    done: () => progress.done(),
+  };
+
+  return {
+    reporter,
+    current: () => current,
+    // Wait for stage writes before the final update so they can't overwrite it
+    settled: () => saving,
+  };
+}
+
+/**
+ * Run one claimed job: download, analyze, record the outcome.
+ * Failures are retried with exponential backoff until maxAttempts.
+ */
+export async function processDetectionJob(job: DetectionJob) {
+  const input = job.input as Omit<DetectionJobInput, "fileType">;
+  const fileType = job.fileType as DetectionJobInput["fileType"];
+  const startTime = Date.now();
+  // Only reaches subscribers connected to the same process as the worker
+  const stages = trackJobStages(job.id, createProgressReporter(job.userId, input.progressId));
+  const progress = stages.reporter;
+
+  try {
+    progress.stage("uploading");
+    // Read by key where we can: the signed link the job was queued with may have expired by now
+    const buffer = input.fileKey ? await readStoredUpload(input.fileKey) : await fetchRemoteFile(input.fileUrl);
+    assertFileSize(fileType, buffer.length);
+
+    const outcome = await analyzeFile(
+      {
+        userId: job.userId,
+        organizationId: input.organizationId ?? null,
+        fileType,
+        fileName: input.fileName,
+        mimeType: input.mimeType,
+        buffer,
+        audioType: input.audioType,
+        progress,
+      },
+      startTime
+    );
+
+    await stages.settled();
+    await updateDetectionJob(job.id, {
+      status: "succeeded",
+      detectionResultId: outcome.id,
+      lastError: null,
+      stage: "saved",
+      failedStage: null,
+      completedAt: new Date(),
+    });
+  } catch (error: any) {
+    console.error(`[Jobs] Job ${job.id} attempt ${job.attempts} failed:`, error);
+
+    const failure = toAnalysisError(fileType, error);
+    const canRetry = isRetryable(failure) && job.attempts < job.maxAttempts;
+    const failedStage = stages.current();
+    await stages.settled();
+
+    if (canRetry) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      await updateDetectionJob(job.id, {
+        status: "queued",
+        lastError: failure.message,
+        failedStage,
+        runAfter: new Date(Date.now() + delay),
+      });
+    } else {
+      progress.fail(failure);
+      recordAnalysisFailure(
+        { userId: job.userId, source: "job", fileType, fileName: input.fileName },
+        error,
+        failure
+      );
+      await updateDetectionJob(job.id, {
+        status: "failed",
+        lastError: failure.message,
+        failedStage,
+        completedAt: new Date(),
+      });
+      await emitWebhookEvent(job.userId, "detection.failed", {
+        jobId: job.id,
+        type: fileType,
+        fileName: input.fileName,
+        error: failure.message,
+      });
+    }
+  }
+}
+
+function getJobConcurrency() {
+  const value = parseInt(ENV.jobConcurrency, 10);
+  return Number.isFinite(value) && value > 0 ? value : 2;
+}
+
+/**
+ * Drain up to `max` due jobs, running at most JOB_CONCURRENCY of them at a
+ * time. Returns how many were processed.
+ */
+export async function runPendingJobs(max = 5, concurrency = getJobConcurrency()): Promise<number> {
+  await requeueStaleDetectionJobs(new Date(Date.now() - STALE_JOB_MS));
+
+  let claimed = 0;
+  let processed = 0;
+  const drain = async () => {
+    while (claimed < max) {
+      claimed++;
+      const job = await claimNextDetectionJob();
+      if (!job) return;
+      await processDetectionJob(job);
+      processed++;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, max) }, drain));
+  return processed;
+}
+
+/**
+ * Poll the queue from a long-running server. Returns a stop function.
+ * Serverless deployments hit /api/jobs/run from a cron instead.
+ */
+export function startJobWorker(intervalMs = 2000): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runPendingJobs();
+      await runPendingWebhookDeliveries();
+      await runPendingTakeouts();
+    } catch (error) {
+      console.error("[Jobs] Worker tick failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Scheduled runs authenticate with CRON_SECRET as a bearer token
+ */
+export function isCronRequest(req: Request) {
+  return !!ENV.cronSecret && req.headers.authorization === `Bearer ${ENV.cronSecret}`;
+}
+
+/**
+ * GET /api/jobs/run — queue tick for serverless deployments (Vercel cron).
+ * Also sends due webhook deliveries and builds queued data exports.
+ * Protected by CRON_SECRET sent as a bearer token.
+ */
+
+export function registerJobRoutes(app: Express) {
+  app.get("/api/jobs/run", async (req: Request, res: Response) => {
+    if (!isCronRequest(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    try {
+      const processed = await runPendingJobs();
+      const webhooksDelivered = await runPendingWebhookDeliveries();
+      const takeoutsBuilt = await runPendingTakeouts();
+      res.json({ processed, webhooksDelivered, takeoutsBuilt });
+    } catch (error) {
+      console.error("[Jobs] Cron run failed", error);
+      res.status(500).json({ error: "Job run failed" });
+    }
+  });
+}
@@ -0,0 +1,185 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { Express, Request, Response } from "express";
+import { ENV } from "./_core/env.js";
+import type { StorageBody, StorageDriver, StoredObject } from "./storage.js";
+
+/**
+ * Stores files under LOCAL_STORAGE_DIR for self-hosted installs and tests.
+ * Downloads go through /api/storage/<key> with an HMAC-signed expiry instead
+ * of a public directory, so a URL stops working once it expires.
+ */
+
+const ROUTE_PREFIX = "/api/storage/";
+// Content types served for stored files, by extension; everything else is an opaque download
+const MEDIA_CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  m4a: "audio/mp4",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  zip: "application/zip",
+};
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+
+function getRoot() {
+  return path.resolve(ENV.localStorageDir || "storage");
+}
+
+/**
+ * Absolute path for `key`, refusing ".." segments and anything that would escape the storage root
+ */
+function resolveKeyPath(key: string) {
+  const root = getRoot();
+  const filePath = path.resolve(root, key);
+  if (key.split(/[\\/]/).includes("..") || !filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+function sign(key: string, expires: number) {
+  return createHmac("sha256", ENV.cookieSecret).update(`${key}:${expires}`).digest("base64url");
+}
+
+function encodeKey(key: string) {
+  return key.split("/").map(encodeURIComponent).join("/");
+}
+
+export function createSignedLocalUrl(key: string, ttlSeconds = DOWNLOAD_URL_TTL_SECONDS, now = Date.now()) {
+  const expires = Math.floor(now / 1000) + ttlSeconds;
+  return `${ROUTE_PREFIX}${encodeKey(key)}?expires=${expires}&signature=${sign(key, expires)}`;
+}
+
+/**
+ * Whether `signature` was issued by createSignedLocalUrl for `key` and hasn't expired
+ */
+export function verifySignedLocalUrl(
+  key: string,
+  expires: unknown,
+  signature: unknown,
+  now = Date.now()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < now || typeof signature !== "string") return false;
+
+  const expected = Buffer.from(sign(key, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * The key behind one of our own signed URLs (relative or absolute). Returns
+ * null for URLs that don't point at local storage.
+ */
+export function parseSignedLocalUrl(fileUrl: string): string | null {
+  const url = new URL(fileUrl, "http://local");
+  if (!url.pathname.startsWith(ROUTE_PREFIX)) return null;
+
+  const key = decodeURIComponent(url.pathname.slice(ROUTE_PREFIX.length));
+  if (!verifySignedLocalUrl(key, url.searchParams.get("expires"), url.searchParams.get("signature"))) {
+    throw new Error("Storage URL is invalid or has expired");
+  }
+  resolveKeyPath(key);
+  return key;
+}
+
+/**
+ * Read a file through one of our own signed URLs. Returns null for URLs that don't point at local storage.
+ */
+export async function readSignedLocalUrl(fileUrl: string): Promise<Buffer | null> {
+  const key = parseSignedLocalUrl(fileUrl);
+  return key === null ? null : await readFile(resolveKeyPath(key));
+}
+
+async function listFiles(dir: string, root: string): Promise<StoredObject[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const objects: StoredObject[] = [];
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      objects.push(...(await listFiles(entryPath, root)));
+    } else if (entry.isFile()) {
+      const key = path.relative(root, entryPath).split(path.sep).join("/");
+      objects.push({ key, lastModified: (await stat(entryPath)).mtime });
+    }
+  }
+  return objects;
+}
+
+export const localStorageDriver: StorageDriver = {
+  name: "local",
+
+  async put(key: string, data: StorageBody) {
+    const filePath = resolveKeyPath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+
+    if (data instanceof Readable) {
+      await pipeline(data, createWriteStream(filePath));
+    } else {
+      await writeFile(filePath, data);
+    }
+    return { key, url: createSignedLocalUrl(key) };
+  },
+
+  async get(key: string) {
+    return { key, url: createSignedLocalUrl(key) };
+  },
+
+  async read(key: string) {
+    return await readFile(resolveKeyPath(key));
+  },
+
+  async delete(key: string) {
+    await rm(resolveKeyPath(key), { force: true });
+  },
+
+  async list(prefix: string) {
+    // Only walk the directory the prefix points into
+    const root = getRoot();
+    const dir = path.resolve(root, prefix.slice(0, prefix.lastIndexOf("/") + 1));
+    if (dir !== root && !dir.startsWith(root + path.sep)) return [];
+
+    const objects = await listFiles(dir, root);
+    return objects.filter(object => object.key.startsWith(prefix));
+  },
+};
+
+export function registerStorageRoutes(app: Express) {
+  app.get(`${ROUTE_PREFIX}*`, async (req: Request, res: Response) => {
+    const key = (req.params as Record<string, string>)[0] ?? "";
+    if (!verifySignedLocalUrl(key, req.query.expires, req.query.signature)) {
+      res.status(403).json({ error: "Invalid or expired link" });
+      return;
+    }
+
+    let filePath: string;
+    try {
+      filePath = resolveKeyPath(key);
+      if (!(await stat(filePath)).isFile()) throw new Error("Not a file");
+    } catch {
+      res.status(404).json({ error: "Not found" });
+      return;
+    }
+
+    // Names are chosen by the client, so only media types are served as such; anything
+    // else (HTML, SVG, ...) must never render from this origin
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+    // attachment() sets a type from the file name, so it goes first
+    res.attachment(path.basename(filePath));
+    res.type(MEDIA_CONTENT_TYPES[extension] ?? "application/octet-stream");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Cache-Control", "private, max-age=300");
+    createReadStream(filePath).pipe(res);
+  });
+}
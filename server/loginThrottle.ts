@@ -0,0 +1,112 @@
+import type { IncomingMessage } from "http";
+import { ENV } from "./_core/env.js";
+
+/**
+ * In-memory brute-force protection for local login.
+ *
+ * Failures are counted per username and per client IP inside a sliding window.
+ * Once a key reaches its limit it is locked, and every further failure doubles
+ * the lock (capped). A successful login clears the username counter only, so a
+ * valid account can't be used to reset an IP that is guessing other accounts.
+ *
+ * State lives in the process: each serverless instance keeps its own counters.
+ */
+
+const WINDOW_MS = 15 * 60 * 1000;
+const BASE_LOCK_MS = 30 * 1000;
+const MAX_LOCK_MS = 15 * 60 * 1000;
+
+const LIMITS = {
+  user: 5,
+  ip: 20,
+};
+
+interface Attempts {
+  failures: number;
+  firstFailureAt: number;
+  lockedUntil: number;
+}
+
+const attempts = new Map<string, Attempts>();
+
+function userKey(username: string) {
+  return `user:${username.trim().toLowerCase()}`;
+}
+
+function ipKey(ip: string) {
+  return `ip:${ip}`;
+}
+
+function prune(now: number) {
+  attempts.forEach((entry, key) => {
+    if (entry.lockedUntil < now && entry.firstFailureAt + WINDOW_MS < now) attempts.delete(key);
+  });
+}
+
+/**
+ * Number of trusted reverse proxies (TRUSTED_PROXY_HOPS), also handed to
+ * Express as its "trust proxy" setting so req.ip agrees with getClientIp
+ */
+export function getTrustedProxyHops(): number {
+  const hops = Number.parseInt(ENV.trustedProxyHops, 10);
+  return Number.isFinite(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * The client address as seen by the outermost trusted proxy. Each proxy appends
+ * the address it was reached from to X-Forwarded-For, so only the last `hops`
+ * entries are trustworthy; anything before them is whatever the client sent.
+ */
+export function getClientIp(req: IncomingMessage): string {
+  const socketIp = req.socket?.remoteAddress || "unknown";
+  const hops = getTrustedProxyHops();
+  if (hops === 0) return socketIp;
+
+  const header = req.headers["x-forwarded-for"];
+  const forwarded = (Array.isArray(header) ? header.join(",") : header ?? "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length === 0) return socketIp;
+  return forwarded[Math.max(0, forwarded.length - hops)];
+}
+
+/**
+ * Milliseconds until the next attempt is allowed, 0 when not locked
+ */
+export function getLoginRetryAfter(username: string, ip: string, now = Date.now()): number {
+  const lockedUntil = Math.max(
+    attempts.get(userKey(username))?.lockedUntil ?? 0,
+    attempts.get(ipKey(ip))?.lockedUntil ?? 0
+  );
+  return Math.max(0, lockedUntil - now);
+}
+
+function fail(key: string, limit: number, now: number) {
+  let entry = attempts.get(key);
+  if (!entry || entry.firstFailureAt + WINDOW_MS < now) {
+    entry = { failures: 0, firstFailureAt: now, lockedUntil: 0 };
+  }
+
+  entry.failures += 1;
+  if (entry.failures >= limit) {
+    const lockMs = Math.min(MAX_LOCK_MS, BASE_LOCK_MS * 2 ** (entry.failures - limit));
+    entry.lockedUntil = now + lockMs;
+  }
+  attempts.set(key, entry);
+}
+
+export function recordLoginFailure(username: string, ip: string, now = Date.now()) {
+  prune(now);
+  fail(userKey(username), LIMITS.user, now);
+  fail(ipKey(ip), LIMITS.ip, now);
+}
+
+export function recordLoginSuccess(username: string) {
+  attempts.delete(userKey(username));
+}
+
+/** Test helper */
+export function resetLoginThrottle() {
+  attempts.clear();
+}
@@ -0,0 +1,160 @@
+/**
+ * Canned AI or Not v2 reports served by the mock server.
+ * Shapes follow the interfaces in server/aiornot.ts.
+ */
+
+const processingStatus = { ai_generated: "processed" };
+
+export const imageFixtures = {
+  ai: {
+    meta: {
+      width: 1024,
+      height: 1024,
+      format: "png",
+      size_bytes: 0,
+      md5: "",
+      processing_status: processingStatus,
+    },
+    ai_generated: {
+      verdict: "ai",
+      ai: { is_detected: true, confidence: 0.97 },
+      human: { is_detected: false, confidence: 0.03 },
+      generator: {
+        midjourney: 0.91,
+        dall_e: 0.04,
+        stable_diffusion: 0.03,
+        this_person_does_not_exist: 0.01,
+        adobe_firefly: 0.01,
+      },
+    },
+  },
+  human: {
+    meta: {
+      width: 800,
+      height: 600,
+      format: "jpeg",
+      size_bytes: 0,
+      md5: "",
+      processing_status: processingStatus,
+    },
+    ai_generated: {
+      verdict: "human",
+      ai: { is_detected: false, confidence: 0.08 },
+      human: { is_detected: true, confidence: 0.92 },
+      generator: {
+        midjourney: 0.02,
+        dall_e: 0.02,
+        stable_diffusion: 0.02,
+        this_person_does_not_exist: 0.01,
+        adobe_firefly: 0.01,
+      },
+    },
+  },
+};
+
+export const audioFixtures = {
+  ai: {
+    meta: {
+      duration_seconds: 12.4,
+      format: "mp3",
+      size_bytes: 0,
+      processing_status: processingStatus,
+    },
+    ai_generated: {
+      verdict: "ai",
+      ai: { is_detected: true, confidence: 0.88 },
+      human: { is_detected: false, confidence: 0.12 },
+      generator: { elevenlabs: 0.81, resemble: 0.07 },
+      segments: [
+        { start_time: 0, end_time: 6.2, verdict: "ai", confidence: 0.9 },
+        { start_time: 6.2, end_time: 12.4, verdict: "ai", confidence: 0.86 },
+      ],
+    },
+  },
+  human: {
+    meta: {
+      duration_seconds: 9.1,
+      format: "wav",
+      size_bytes: 0,
+      processing_status: processingStatus,
+    },
+    ai_generated: {
+      verdict: "human",
+      ai: { is_detected: false, confidence: 0.11 },
+      human: { is_detected: true, confidence: 0.89 },
+      generator: {},
+      segments: [
+        { start_time: 0, end_time: 9.1, verdict: "human", confidence: 0.11 },
+      ],
+    },
+  },
+};
+
+export const musicFixtures = {
+  ai: {
+    ...audioFixtures.ai,
+    ai_generated: {
+      ...audioFixtures.ai.ai_generated,
+      generator: { suno: 0.76, udio: 0.14 },
+    },
+  },
+  human: audioFixtures.human,
+};
+
+export const videoFixtures = {
+  ai: {
+    ai_video: { is_detected: true, confidence: 0.93 },
+    ai_voice: { is_detected: false, confidence: 0.2 },
+    ai_music: { is_detected: false, confidence: 0.05 },
+    meta: {
+      duration: 8,
+      total_bytes: 0,
+      md5: "",
+      audio: "aac",
+      video: "h264",
+    },
+    deepfake_video: { is_detected: false, confidence: 0.1 },
+  },
+  human: {
+    ai_video: { is_detected: false, confidence: 0.04 },
+    ai_voice: { is_detected: false, confidence: 0.06 },
+    ai_music: { is_detected: false, confidence: 0.02 },
+    meta: {
+      duration: 15,
+      total_bytes: 0,
+      md5: "",
+      audio: "aac",
+      video: "h264",
+    },
+    deepfake_video: { is_detected: false, confidence: 0.02 },
+  },
+};
+
+export const textFixtures = {
+  ai: {
+    meta: {
+      word_count: 0,
+      character_count: 0,
+      processing_status: processingStatus,
+    },
+    ai_generated: {
+      verdict: "ai",
+      ai: { is_detected: true, confidence: 0.84 },
+      human: { is_detected: false, confidence: 0.16 },
+      generator: { gpt: 0.7, claude: 0.1, gemini: 0.04 },
+    },
+  },
+  human: {
+    meta: {
+      word_count: 0,
+      character_count: 0,
+      processing_status: processingStatus,
+    },
+    ai_generated: {
+      verdict: "human",
+      ai: { is_detected: false, confidence: 0.13 },
+      human: { is_detected: true, confidence: 0.87 },
+      generator: {},
+    },
+  },
+};
@@ -0,0 +1,182 @@
+// Local stand-in for the AI or Not v2 API.
+// Run with `pnpm mock:aiornot` and set AIORNOT_API_URL=http://localhost:4010/v2
+//
+// Responses are picked from aiornotFixtures.ts by markers in the uploaded
+// file name (or in the text for /text/sync):
+//   __402__        402 Payment Required ("Paid plan" message)
+//   __429__        429 Too Many Requests with Retry-After
+//   __malformed__  200 with a body that is not JSON
+//   __invalid__    200 with JSON that has no report
+//   human          the "human" fixture, anything else gets the "ai" one
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import { createHash } from "crypto";
+import type { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import Busboy from "busboy";
+import {
+  audioFixtures,
+  imageFixtures,
+  musicFixtures,
+  textFixtures,
+  videoFixtures,
+} from "./aiornotFixtures.js";
+
+type Fixtures = { ai: any; human: any };
+
+interface MockEndpoint {
+  field: string | null; // multipart field, null for JSON endpoints
+  fixtures: Fixtures;
+}
+
+const ENDPOINTS: Record<string, MockEndpoint> = {
+  "/v2/image/sync": { field: "image", fixtures: imageFixtures },
+  "/v2/audio/sync": { field: "audio", fixtures: audioFixtures },
+  "/v2/audio/music/sync": { field: "audio", fixtures: musicFixtures },
+  "/v2/video/sync": { field: "video", fixtures: videoFixtures },
+  "/v2/text/sync": { field: null, fixtures: textFixtures },
+};
+
+interface ParsedUpload {
+  marker: string;
+  content: Buffer;
+  externalId?: string;
+}
+
+function readMultipart(req: IncomingMessage, field: string): Promise<ParsedUpload> {
+  return new Promise((resolve, reject) => {
+    const bb = Busboy({ headers: req.headers });
+    const chunks: Buffer[] = [];
+    let marker = "";
+    let externalId: string | undefined;
+
+    bb.on("file", (name, stream, info) => {
+      if (name !== field) {
+        stream.resume();
+        return;
+      }
+      marker = info.filename ?? "";
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    });
+    bb.on("field", (name, value) => {
+      if (name === "external_id") externalId = value;
+    });
+    bb.on("error", reject);
+    bb.on("close", () => resolve({ marker, content: Buffer.concat(chunks), externalId }));
+
+    req.pipe(bb);
+  });
+}
+
+async function readJson(req: IncomingMessage): Promise<ParsedUpload> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  const text = String(body.text ?? "");
+  return { marker: text, content: Buffer.from(text, "utf8"), externalId: body.external_id };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function buildReport(fixture: any, content: Buffer) {
+  const report = structuredClone(fixture);
+  const md5 = createHash("md5").update(content).digest("hex");
+
+  if (report.meta?.size_bytes !== undefined) report.meta.size_bytes = content.length;
+  if (report.meta?.total_bytes !== undefined) report.meta.total_bytes = content.length;
+  if (report.meta?.md5 !== undefined) report.meta.md5 = md5;
+  if (report.meta?.character_count !== undefined) {
+    const text = content.toString("utf8");
+    report.meta.character_count = text.length;
+    report.meta.word_count = text.split(/\s+/).filter(Boolean).length;
+  }
+
+  return { report, md5 };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const path = (req.url ?? "").split("?")[0];
+  const endpoint = ENDPOINTS[path];
+
+  if (!endpoint || req.method !== "POST") {
+    return sendJson(res, 404, { detail: "Not Found" });
+  }
+
+  if (!req.headers.authorization?.startsWith("Bearer ")) {
+    return sendJson(res, 401, { detail: "Not authenticated" });
+  }
+
+  let upload: ParsedUpload;
+  try {
+    upload = endpoint.field ? await readMultipart(req, endpoint.field) : await readJson(req);
+  } catch {
+    return sendJson(res, 422, { detail: "Unprocessable payload" });
+  }
+
+  const { marker, content } = upload;
+
+  if (marker.includes("__402__")) {
+    return sendJson(res, 402, { detail: "Paid plan required for this endpoint" });
+  }
+  if (marker.includes("__429__")) {
+    return sendJson(res, 429, { detail: "Rate limit exceeded" }, { "Retry-After": "30" });
+  }
+  if (marker.includes("__malformed__")) {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    return res.end('{"id": "broken", "report": {');
+  }
+  if (marker.includes("__invalid__")) {
+    return sendJson(res, 200, { id: "invalid", created_at: new Date(0).toISOString() });
+  }
+
+  const fixture = /human/i.test(marker) ? endpoint.fixtures.human : endpoint.fixtures.ai;
+  const { report, md5 } = buildReport(fixture, content);
+
+  return sendJson(res, 200, {
+    // Deterministic: identical uploads always get the same id
+    id: `mock-${md5.slice(0, 16)}`,
+    report,
+    created_at: new Date(0).toISOString(),
+    external_id: upload.externalId,
+  });
+}
+
+export interface AIOrNotMockServer {
+  url: string;
+  server: Server;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the mock on the given port (0 picks a free one).
+ * `url` already includes the /v2 prefix and can go straight into AIORNOT_API_URL.
+ */
+export function startAIOrNotMockServer(port = 0): Promise<AIOrNotMockServer> {
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error("[AIOrNot Mock] Request failed:", error);
+      sendJson(res, 500, { detail: "Mock server error" });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.on("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      const { port: actualPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${actualPort}/v2`,
+        server,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.AIORNOT_MOCK_PORT || "4010");
+  startAIOrNotMockServer(port)
+    .then(({ url }) => console.log(`[AIOrNot Mock] Listening on ${url}`))
+    .catch(console.error);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildOpenApiDocument } from "./openapi";
+
+vi.mock("./db", () => ({
+  HISTORY_SORT_FIELDS: ["createdAt", "confidence", "fileSize", "processingTimeMs"],
+}));
+
+describe("buildOpenApiDocument", () => {
+  const doc = buildOpenApiDocument() as any;
+
+  it("documents every public-facing procedure from the router", () => {
+    for (const path of [
+      "/api/trpc/detection.analyzeImage",
+      "/api/trpc/detection.analyzeText",
+      "/api/trpc/detection.getHistory",
+      "/api/trpc/detection.getResult",
+      "/api/trpc/detection.exportResults",
+      "/api/trpc/detection.createShareLink",
+      "/api/trpc/detection.getSharedResult",
+      "/api/v1/detections",
+      "/api/v1/detections/{id}",
+    ]) {
+      expect(doc.paths).toHaveProperty([path]);
+    }
+    expect(doc.paths).not.toHaveProperty(["/api/trpc/storage.getPresignedUrl"]);
+  });
+
+  it("uses GET for queries and POST for mutations, wrapped in the superjson envelope", () => {
+    const analyze = doc.paths["/api/trpc/detection.analyzeText"].post;
+    const body = analyze.requestBody.content["application/json"].schema;
+    expect(body.properties.json.properties.text).toMatchObject({ type: "string", maxLength: 50000 });
+
+    const history = doc.paths["/api/trpc/detection.getFilteredHistory"].get;
+    const input = history.parameters[0].content["application/json"].schema;
+    expect(input.properties.json.properties.startDate).toMatchObject({ type: "string", format: "date-time" });
+    expect(input.properties.json.properties.sortBy.enum).toContain("confidence");
+  });
+
+  it("derives security from how each procedure authenticates", () => {
+    expect(doc.paths["/api/trpc/detection.getSharedResult"].get.security).toEqual([]);
+    expect(doc.paths["/api/trpc/detection.createShareLink"].post.security).toEqual([{ sessionCookie: [] }]);
+    expect(doc.paths["/api/trpc/detection.getResult"].get.security).toEqual([
+      { sessionCookie: [] },
+      { apiKey: [] },
+    ]);
+    expect(doc.paths["/api/trpc/detection.getResult"].get.description).toContain("detections:read");
+  });
+});
@@ -0,0 +1,249 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import type { AnyRouter } from "@trpc/server";
+import type { ProcedureMeta } from "./_core/trpc.js";
+import { COOKIE_NAME } from "../shared/const.js";
+import { appRouter } from "./routers.js";
+import { createDetectionSchema } from "./restApi.js";
+
+/**
+ * OpenAPI 3 document generated from the tRPC router's zod inputs, so it can't
+ * drift from the code. tRPC calls go over /api/trpc with the superjson envelope:
+ * queries as `GET ?input={"json":...}`, mutations as `POST {"json":...}`.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+interface ProcedureDef {
+  type: "query" | "mutation" | "subscription";
+  inputs: z.ZodType[];
+  meta?: ProcedureMeta;
+}
+
+// Internal procedures that aren't part of the public contract
+const EXCLUDED_PROCEDURES = new Set(["storage.getPresignedUrl"]);
+
+const AUTH_DESCRIPTIONS: Record<NonNullable<ProcedureMeta["auth"]>, string> = {
+  session: "Requires a signed-in session (cookie). Not available to API keys.",
+  apiKey: "Requires a signed-in session or an API key with the `{scope}` scope.",
+  admin: "Requires an admin session.",
+};
+
+/**
+ * JSON Schema for the request side of a zod schema. Dates travel as ISO strings
+ * (superjson restores them), so they're described as date-time strings.
+ */
+export function toOpenApiSchema(schema: z.ZodType): JsonSchema {
+  return z.toJSONSchema(schema, {
+    target: "openapi-3.0",
+    io: "input",
+    unrepresentable: "any",
+    override: ctx => {
+      if (ctx.zodSchema._zod.def.type === "date") {
+        ctx.jsonSchema.type = "string";
+        ctx.jsonSchema.format = "date-time";
+      }
+    },
+  }) as JsonSchema;
+}
+
+function inputSchema(def: ProcedureDef): JsonSchema | null {
+  if (def.inputs.length === 0) return null;
+  if (def.inputs.length === 1) return toOpenApiSchema(def.inputs[0]);
+  // Chained .input() calls merge their objects
+  return { allOf: def.inputs.map(toOpenApiSchema) };
+}
+
+function security(meta: ProcedureMeta | undefined) {
+  if (!meta?.auth) return [];
+  if (meta.auth === "apiKey") return [{ sessionCookie: [] }, { apiKey: [] }];
+  return [{ sessionCookie: [] }];
+}
+
+function describeAuth(meta: ProcedureMeta | undefined) {
+  if (!meta?.auth) return "Public.";
+  return AUTH_DESCRIPTIONS[meta.auth].replace("{scope}", meta.scope ?? "");
+}
+
+const trpcResponse = {
+  description: "tRPC result envelope: `{ result: { data: { json, meta } } }`",
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: {
+          result: {
+            type: "object",
+            properties: { data: { type: "object", properties: { json: {}, meta: { type: "object" } } } },
+          },
+        },
+      },
+    },
+  },
+};
+
+const trpcError = {
+  description: "tRPC error envelope: `{ error: { json: { message, code, data: { code, httpStatus } } } }`",
+};
+
+function trpcOperation(path: string, def: ProcedureDef) {
+  const [tag] = path.split(".");
+  const schema = inputSchema(def);
+  const envelope = schema
+    ? { type: "object", required: ["json"], properties: { json: schema } }
+    : null;
+
+  const operation: Record<string, unknown> = {
+    operationId: path,
+    tags: [tag],
+    summary: path,
+    description: describeAuth(def.meta),
+    security: security(def.meta),
+    responses: { "200": trpcResponse, default: trpcError },
+  };
+
+  if (def.type === "query") {
+    if (envelope) {
+      operation.parameters = [
+        {
+          name: "input",
+          in: "query",
+          required: true,
+          description: "URL-encoded JSON of the superjson envelope",
+          content: { "application/json": { schema: envelope } },
+        },
+      ];
+    }
+    return { get: operation };
+  }
+
+  if (envelope) {
+    operation.requestBody = {
+      required: true,
+      content: { "application/json": { schema: envelope } },
+    };
+  }
+  return { post: operation };
+}
+
+const apiError = {
+  description: "Error",
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: {
+          error: {
+            type: "object",
+            properties: { code: { type: "string" }, message: { type: "string" } },
+          },
+        },
+      },
+    },
+  },
+};
+
+const apiDetection = {
+  type: "object",
+  properties: {
+    id: { type: "integer" },
+    type: { type: "string", enum: ["image", "audio", "video", "text"] },
+    fileName: { type: "string" },
+    fileSize: { type: "integer", nullable: true },
+    verdict: { type: "string", enum: ["ai", "human"] },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    detectedGenerator: { type: "string", nullable: true },
+    generatorScores: { type: "object", additionalProperties: { type: "number" } },
+    processingTimeMs: { type: "integer", nullable: true },
+    cached: { type: "boolean" },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+function restPaths() {
+  const detection = { content: { "application/json": { schema: { $ref: "#/components/schemas/Detection" } } } };
+  return {
+    "/api/v1/detections": {
+      post: {
+        operationId: "v1.createDetection",
+        tags: ["v1"],
+        summary: "Analyze content",
+        description: "Requires an API key with the `detections:write` scope. Media is sent base64-encoded.",
+        security: [{ apiKey: [] }],
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: toOpenApiSchema(createDetectionSchema) } },
+        },
+        responses: {
+          "201": { description: "New analysis", ...detection },
+          "200": { description: "Cached result for identical content", ...detection },
+          "400": apiError,
+          "401": apiError,
+          "403": apiError,
+        },
+      },
+    },
+    "/api/v1/detections/{id}": {
+      get: {
+        operationId: "v1.getDetection",
+        tags: ["v1"],
+        summary: "Get one of your results",
+        description: "Requires an API key with the `detections:read` scope.",
+        security: [{ apiKey: [] }],
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        responses: {
+          "200": { description: "Detection result", ...detection },
+          "401": apiError,
+          "403": apiError,
+          "404": apiError,
+        },
+      },
+    },
+  };
+}
+
+export function buildOpenApiDocument(router: AnyRouter = appRouter) {
+  const procedures = router._def.procedures as Record<string, { _def: ProcedureDef }>;
+  const paths: Record<string, unknown> = restPaths();
+  const tags = new Set<string>();
+
+  for (const [path, procedure] of Object.entries(procedures)) {
+    if (EXCLUDED_PROCEDURES.has(path) || procedure._def.type === "subscription") continue;
+    paths[`/api/trpc/${path}`] = trpcOperation(path, procedure._def);
+    tags.add(path.split(".")[0]);
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "AI Content Detector API",
+      version: "1.0.0",
+      description:
+        "Versioned REST endpoints under /api/v1 plus the tRPC procedures used by the web app.",
+    },
+    servers: [{ url: "/" }],
+    tags: [
+      { name: "v1", description: "REST API for server-to-server integrations" },
+      ...Array.from(tags, name => ({ name, description: `tRPC procedures under ${name}.*` })),
+    ],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: "http", scheme: "bearer", description: "API key from the API Keys page" },
+        sessionCookie: { type: "apiKey", in: "cookie", name: COOKIE_NAME },
+      },
+      schemas: { Detection: apiDetection },
+    },
+  };
+}
+
+let cachedDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+export function registerOpenApiRoutes(app: Express) {
+  app.get("/api/openapi.json", (_req: Request, res: Response) => {
+    // The router is fixed at startup, so build once per process
+    cachedDocument ??= buildOpenApiDocument();
+    res.setHeader("Cache-Control", "public, max-age=300");
+    res.json(cachedDocument);
+  });
+}
@@ -0,0 +1,225 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  addOrganizationMember: vi.fn(),
+  countOrganizationOwners: vi.fn().mockResolvedValue(1),
+  createOrganization: vi.fn(),
+  createOrganizationInvitation: vi.fn(),
+  getInvitationsForUser: vi.fn().mockResolvedValue([]),
+  getOrganizationInvitation: vi.fn(),
+  getOrganizationInvitations: vi.fn().mockResolvedValue([]),
+  getOrganizationMembers: vi.fn().mockResolvedValue([]),
+  getOrganizationMembership: vi.fn(),
+  getUserByUsername: vi.fn(),
+  getUserOrganizations: vi.fn().mockResolvedValue([]),
+  getUserDetectionHistory: vi.fn().mockResolvedValue([]),
+  removeOrganizationMember: vi.fn(),
+  renameOrganization: vi.fn(),
+  setActiveOrganization: vi.fn(),
+  updateOrganizationInvitation: vi.fn(),
+  updateOrganizationMemberRole: vi.fn(),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+import { appRouter } from "./routers";
+import {
+  addOrganizationMember,
+  createOrganization,
+  createOrganizationInvitation,
+  getOrganizationInvitation,
+  getOrganizationMembership,
+  getUserDetectionHistory,
+  removeOrganizationMember,
+  setActiveOrganization,
+  updateOrganizationInvitation,
+  updateOrganizationMemberRole,
+} from "./db";
+import type { TrpcContext } from "./_core/context";
+
+type Role = "owner" | "analyst" | "viewer";
+
+function createContext(activeOrganizationId: number | null = null): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      username: "alice",
+      password: "",
+      name: "Alice",
+      email: "Alice@Example.com",
+      role: "user",
+      activeOrganizationId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+// Membership lookups by user id; anyone not listed isn't a member
+function mockMembers(roles: Record<number, Role>) {
+  vi.mocked(getOrganizationMembership).mockImplementation(async (organizationId, userId) =>
+    roles[userId] ? { organizationId, name: "Review team", role: roles[userId] } : undefined
+  );
+}
+
+function invitation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 5,
+    organizationId: 10,
+    invitedByUserId: 2,
+    username: "alice",
+    email: null,
+    role: "analyst",
+    status: "pending",
+    expiresAt: new Date(Date.now() + 60_000),
+    respondedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  } as any;
+}
+
+describe("organizations router", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("creates an organization and switches to it", async () => {
+    vi.mocked(createOrganization).mockResolvedValueOnce({ id: 10, name: "Review team" } as any);
+
+    const org = await appRouter.createCaller(createContext()).organizations.create({ name: " Review team " });
+
+    expect(org).toEqual({ id: 10, name: "Review team" });
+    expect(createOrganization).toHaveBeenCalledWith("Review team", 1);
+    expect(setActiveOrganization).toHaveBeenCalledWith(1, 10);
+  });
+
+  it("only switches to organizations the user belongs to", async () => {
+    mockMembers({});
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.organizations.switch({ organizationId: 10 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    expect(setActiveOrganization).not.toHaveBeenCalled();
+
+    await caller.organizations.switch({ organizationId: null });
+    expect(setActiveOrganization).toHaveBeenCalledWith(1, null);
+  });
+
+  it("lets only owners invite, and lowercases emails", async () => {
+    mockMembers({ 1: "analyst" });
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(
+      caller.organizations.invite({ organizationId: 10, email: "bob@example.com" })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+
+    mockMembers({ 1: "owner" });
+    await caller.organizations.invite({ organizationId: 10, email: "Bob@Example.com", role: "analyst" });
+
+    expect(createOrganizationInvitation).toHaveBeenCalledWith(
+      expect.objectContaining({ organizationId: 10, email: "bob@example.com", username: null, role: "analyst" })
+    );
+  });
+
+  it("requires exactly one of username or email", async () => {
+    mockMembers({ 1: "owner" });
+
+    await expect(
+      appRouter.createCaller(createContext()).organizations.invite({ organizationId: 10 })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("refuses to demote or remove the last owner", async () => {
+    mockMembers({ 1: "owner" });
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(
+      caller.organizations.updateMemberRole({ organizationId: 10, userId: 1, role: "viewer" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(caller.organizations.removeMember({ organizationId: 10, userId: 1 })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(updateOrganizationMemberRole).not.toHaveBeenCalled();
+    expect(removeOrganizationMember).not.toHaveBeenCalled();
+  });
+
+  it("lets members leave but not remove others", async () => {
+    mockMembers({ 1: "viewer", 2: "analyst" });
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.organizations.removeMember({ organizationId: 10, userId: 2 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+
+    await caller.organizations.removeMember({ organizationId: 10, userId: 1 });
+    expect(removeOrganizationMember).toHaveBeenCalledWith(10, 1);
+  });
+
+  it("accepts an invitation addressed to the user's email", async () => {
+    vi.mocked(getOrganizationInvitation).mockResolvedValueOnce(
+      invitation({ username: null, email: "alice@example.com" })
+    );
+    mockMembers({});
+
+    const result = await appRouter.createCaller(createContext()).organizations.accept({ id: 5 });
+
+    expect(result).toEqual({ organizationId: 10 });
+    expect(addOrganizationMember).toHaveBeenCalledWith(10, 1, "analyst");
+    expect(updateOrganizationInvitation).toHaveBeenCalledWith(5, expect.objectContaining({ status: "accepted" }));
+    expect(setActiveOrganization).toHaveBeenCalledWith(1, 10);
+  });
+
+  it("hides invitations addressed to someone else", async () => {
+    vi.mocked(getOrganizationInvitation).mockResolvedValueOnce(invitation({ username: "bob" }));
+
+    await expect(appRouter.createCaller(createContext()).organizations.accept({ id: 5 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    expect(addOrganizationMember).not.toHaveBeenCalled();
+  });
+
+  it("rejects expired invitations", async () => {
+    vi.mocked(getOrganizationInvitation).mockResolvedValueOnce(
+      invitation({ expiresAt: new Date(Date.now() - 1000) })
+    );
+
+    await expect(appRouter.createCaller(createContext()).organizations.decline({ id: 5 })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+  });
+});
+
+describe("workspace scoping", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("reads history from the active organization", async () => {
+    mockMembers({ 1: "viewer" });
+
+    await appRouter.createCaller(createContext(10)).detection.getHistory({ limit: 5 });
+
+    expect(getUserDetectionHistory).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 1, organizationId: 10, role: "viewer" }),
+      5
+    );
+  });
+
+  it("falls back to the personal workspace after leaving an organization", async () => {
+    mockMembers({});
+
+    await appRouter.createCaller(createContext(10)).detection.getHistory({ limit: 5 });
+
+    expect(getUserDetectionHistory).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 1, organizationId: null }),
+      5
+    );
+  });
+
+  it("keeps viewers from running analyses", async () => {
+    mockMembers({ 1: "viewer" });
+
+    await expect(
+      appRouter.createCaller(createContext(10)).detection.analyzeText({ text: "hello world" })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
@@ -0,0 +1,262 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "./_core/trpc.js";
+import {
+  addOrganizationMember,
+  countOrganizationOwners,
+  createOrganization,
+  createOrganizationInvitation,
+  getInvitationsForUser,
+  getOrganizationInvitation,
+  getOrganizationInvitations,
+  getOrganizationMembers,
+  getOrganizationMembership,
+  getUserByUsername,
+  getUserOrganizations,
+  removeOrganizationMember,
+  renameOrganization,
+  setActiveOrganization,
+  updateOrganizationInvitation,
+  updateOrganizationMemberRole,
+} from "./db.js";
+import { WORKSPACE_ROLES, assertWorkspaceRole, type WorkspaceRole } from "./workspaces.js";
+
+const MAX_ORGANIZATIONS = 20;
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const organizationId = z.object({ organizationId: z.number().int().positive() });
+const organizationName = z.string().trim().min(1).max(100);
+
+async function requireMembership(organizationId: number, userId: number, minimum: WorkspaceRole, action: string) {
+  const membership = await getOrganizationMembership(organizationId, userId);
+  if (!membership) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Organization not found" });
+  }
+  assertWorkspaceRole(membership.role, minimum, action);
+  return membership;
+}
+
+// An organization must always keep at least one owner
+async function assertNotLastOwner(organizationId: number, userId: number) {
+  const membership = await getOrganizationMembership(organizationId, userId);
+  if (membership?.role === "owner" && (await countOrganizationOwners(organizationId)) <= 1) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Make another member an owner first; an organization needs at least one owner",
+    });
+  }
+}
+
+/**
+ * The invitation, if it is still open and addressed to this user
+ */
+async function requireOwnInvitation(id: number, user: { username: string; email: string | null }) {
+  const invitation = await getOrganizationInvitation(id);
+  const addressedToUser =
+    invitation &&
+    (invitation.username === user.username ||
+      (!!invitation.email && invitation.email === user.email?.toLowerCase()));
+
+  if (!invitation || !addressedToUser) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+  }
+  if (invitation.status !== "pending" || invitation.expiresAt.getTime() <= Date.now()) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This invitation is no longer valid" });
+  }
+  return invitation;
+}
+
+export const organizationsRouter = router({
+  /**
+   * The user's organizations and the workspace they are currently working in
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const organizations = await getUserOrganizations(ctx.user.id);
+    return {
+      organizations,
+      activeOrganizationId: ctx.workspace.organizationId,
+    };
+  }),
+
+  create: protectedProcedure
+    .input(z.object({ name: organizationName }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const existing = await getUserOrganizations(ctx.user.id);
+        if (existing.length >= MAX_ORGANIZATIONS) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `You can belong to at most ${MAX_ORGANIZATIONS} organizations`,
+          });
+        }
+
+        const organization = await createOrganization(input.name, ctx.user.id);
+        if (!organization) throw new Error("Organization was not saved");
+
+        // Creating a team is almost always followed by working in it
+        await setActiveOrganization(ctx.user.id, organization.id);
+        return { id: organization.id, name: organization.name };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("[Organizations] Create error:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create organization",
+        });
+      }
+    }),
+
+  rename: protectedProcedure
+    .input(organizationId.extend({ name: organizationName }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(input.organizationId, ctx.user.id, "owner", "rename the organization");
+      await renameOrganization(input.organizationId, input.name);
+      return { success: true };
+    }),
+
+  /**
+   * Switch the active workspace; null switches back to the personal one
+   */
+  switch: protectedProcedure
+    .input(z.object({ organizationId: z.number().int().positive().nullable() }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.organizationId !== null) {
+        await requireMembership(input.organizationId, ctx.user.id, "viewer", "open this workspace");
+      }
+      await setActiveOrganization(ctx.user.id, input.organizationId);
+      return { activeOrganizationId: input.organizationId };
+    }),
+
+  members: protectedProcedure.input(organizationId).query(async ({ input, ctx }) => {
+    await requireMembership(input.organizationId, ctx.user.id, "viewer", "see its members");
+    return await getOrganizationMembers(input.organizationId);
+  }),
+
+  updateMemberRole: protectedProcedure
+    .input(organizationId.extend({ userId: z.number().int().positive(), role: z.enum(WORKSPACE_ROLES) }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(input.organizationId, ctx.user.id, "owner", "change member roles");
+
+      const member = await getOrganizationMembership(input.organizationId, input.userId);
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+      }
+      if (input.role !== "owner") {
+        await assertNotLastOwner(input.organizationId, input.userId);
+      }
+
+      await updateOrganizationMemberRole(input.organizationId, input.userId, input.role);
+      return { success: true };
+    }),
+
+  /**
+   * Owners can remove anyone; everyone can remove themselves (leave)
+   */
+  removeMember: protectedProcedure
+    .input(organizationId.extend({ userId: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const leaving = input.userId === ctx.user.id;
+      await requireMembership(
+        input.organizationId,
+        ctx.user.id,
+        leaving ? "viewer" : "owner",
+        "remove members"
+      );
+
+      const member = await getOrganizationMembership(input.organizationId, input.userId);
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+      }
+      await assertNotLastOwner(input.organizationId, input.userId);
+
+      await removeOrganizationMember(input.organizationId, input.userId);
+      return { success: true };
+    }),
+
+  /**
+   * Invite someone by username or email. They see it after signing in.
+   */
+  invite: protectedProcedure
+    .input(
+      organizationId.extend({
+        username: z.string().trim().min(1).max(255).optional(),
+        email: z.string().trim().email().max(320).optional(),
+        role: z.enum(WORKSPACE_ROLES).default("viewer"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(input.organizationId, ctx.user.id, "owner", "invite members");
+
+      if (!input.username === !input.email) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invite by either username or email" });
+      }
+
+      if (input.username) {
+        const invitee = await getUserByUsername(input.username);
+        if (invitee && (await getOrganizationMembership(input.organizationId, invitee.id))) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `${input.username} is already a member` });
+        }
+      }
+
+      const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+      await createOrganizationInvitation({
+        organizationId: input.organizationId,
+        invitedByUserId: ctx.user.id,
+        username: input.username ?? null,
+        email: input.email?.toLowerCase() ?? null,
+        role: input.role,
+        expiresAt,
+      });
+      return { success: true, expiresAt };
+    }),
+
+  listInvitations: protectedProcedure.input(organizationId).query(async ({ input, ctx }) => {
+    await requireMembership(input.organizationId, ctx.user.id, "owner", "see invitations");
+    return await getOrganizationInvitations(input.organizationId);
+  }),
+
+  revokeInvitation: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const invitation = await getOrganizationInvitation(input.id);
+      if (!invitation) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+      }
+      await requireMembership(invitation.organizationId, ctx.user.id, "owner", "revoke invitations");
+
+      if (invitation.status === "pending") {
+        await updateOrganizationInvitation(invitation.id, { status: "revoked", respondedAt: new Date() });
+      }
+      return { success: true };
+    }),
+
+  /**
+   * Open invitations addressed to the signed-in user
+   */
+  myInvitations: protectedProcedure.query(async ({ ctx }) => {
+    return await getInvitationsForUser(ctx.user);
+  }),
+
+  accept: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const invitation = await requireOwnInvitation(input.id, ctx.user);
+
+      // Existing members keep their role; an invitation never demotes anyone
+      const membership = await getOrganizationMembership(invitation.organizationId, ctx.user.id);
+      if (!membership) {
+        await addOrganizationMember(invitation.organizationId, ctx.user.id, invitation.role);
+      }
+      await updateOrganizationInvitation(invitation.id, { status: "accepted", respondedAt: new Date() });
+      await setActiveOrganization(ctx.user.id, invitation.organizationId);
+      return { organizationId: invitation.organizationId };
+    }),
+
+  decline: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const invitation = await requireOwnInvitation(input.id, ctx.user);
+      await updateOrganizationInvitation(invitation.id, { status: "declined", respondedAt: new Date() });
+      return { success: true };
+    }),
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { hashPassword, needsRehash, verifyLegacyPassword, verifyPassword } from "./password";
+
+describe("password hashing", () => {
+  it("verifies the original secret only", async () => {
+    const hash = await hashPassword("correct horse");
+
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse", hash)).toBe(false);
+  });
+
+  it("salts every hash", async () => {
+    expect(await hashPassword("same")).not.toBe(await hashPassword("same"));
+  });
+
+  it("never matches malformed hashes", async () => {
+    expect(await verifyPassword("secret", "secret")).toBe(false);
+    expect(await verifyPassword("secret", "scrypt$x$8$1$c2FsdA==$aGFzaA==")).toBe(false);
+  });
+
+  it("flags plaintext and weaker hashes for rehash", async () => {
+    expect(needsRehash("hunter22")).toBe(true);
+    expect(needsRehash("scrypt$1024$8$1$c2FsdA==$aGFzaA==")).toBe(true);
+    expect(needsRehash(await hashPassword("secret"))).toBe(false);
+  });
+
+  it("compares legacy plaintext values", () => {
+    expect(verifyLegacyPassword("hunter22", "hunter22")).toBe(true);
+    expect(verifyLegacyPassword("hunter2", "hunter22")).toBe(false);
+  });
+});
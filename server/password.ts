@@ -0,0 +1,82 @@
+import { createHash, randomBytes, scrypt as scryptCallback, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: { N: number; r: number; p: number; maxmem: number }
+) => Promise<Buffer>;
+
+// Parameters are stored with every hash so they can be raised later without breaking old ones
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function maxmem(N: number, r: number) {
+  return 256 * N * r;
+}
+
+/**
+ * Hash a secret as `scrypt$N$r$p$salt$hash` (salt and hash base64)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    maxmem: maxmem(SCRYPT_N, SCRYPT_R),
+  });
+  return [
+    "scrypt",
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+}
+
+/**
+ * Constant-time check of a secret against a stored hash. Malformed hashes never match.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parts = stored.split("$");
+  if (parts.length !== 6 || parts[0] !== "scrypt") return false;
+
+  const [N, r, p] = parts.slice(1, 4).map(Number);
+  if (![N, r, p].every(Number.isInteger)) return false;
+
+  const salt = Buffer.from(parts[4], "base64");
+  const expected = Buffer.from(parts[5], "base64");
+  if (expected.length === 0) return false;
+
+  const actual = await scrypt(password, salt, expected.length, { N, r, p, maxmem: maxmem(N, r) });
+  return timingSafeEqual(actual, expected);
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith("scrypt$") && stored.split("$").length === 6;
+}
+
+/**
+ * True for legacy plaintext values and for hashes made with weaker parameters than today's
+ */
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+  const [N, r, p] = stored.split("$").slice(1, 4).map(Number);
+  return N < SCRYPT_N || r < SCRYPT_R || p < SCRYPT_P;
+}
+
+/**
+ * Constant-time comparison for values that were stored before hashing was introduced.
+ * Digests are compared so the check doesn't leak the stored length.
+ */
+export function verifyLegacyPassword(password: string, stored: string): boolean {
+  const a = createHash("sha256").update(password).digest();
+  const b = createHash("sha256").update(stored).digest();
+  return timingSafeEqual(a, b);
+}
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { createProgressReporter, registerProgressRoutes } from "./progress";
+import { sdk } from "./_core/sdk";
+
+vi.mock("./_core/sdk", () => ({
+  sdk: { authenticateRequest: vi.fn() },
+}));
+
+async function readEvents(url: string) {
+  const res = await fetch(url);
+  const body = await res.text();
+  return {
+    status: res.status,
+    events: body
+      .split("\n")
+      .filter(line => line.startsWith("data: "))
+      .map(line => JSON.parse(line.slice(6))),
+  };
+}
+
+describe("progress stream", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    registerProgressRoutes(app);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(done => server.close(() => done())));
+
+  it("replays the stages of a finished analysis", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 1 } as any);
+
+    const progress = createProgressReporter(1, "p-finished");
+    progress.stage("uploading");
+    progress.stage("hashing");
+    progress.done();
+
+    const { status, events } = await readEvents(`${baseUrl}/api/progress/p-finished`);
+
+    expect(status).toBe(200);
+    expect(events.map(e => `${e.stage}:${e.status}`)).toEqual([
+      "uploading:started",
+      "uploading:completed",
+      "hashing:started",
+      "hashing:completed",
+      "saved:completed",
+    ]);
+  });
+
+  it("reports the stage that failed", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 1 } as any);
+
+    const progress = createProgressReporter(1, "p-failed");
+    progress.stage("vendor_call");
+    progress.fail(new Error("Failed to analyze image. Please try again."));
+
+    const { events } = await readEvents(`${baseUrl}/api/progress/p-failed`);
+
+    expect(events.at(-1)).toMatchObject({
+      stage: "vendor_call",
+      status: "failed",
+      message: "Failed to analyze image. Please try again.",
+    });
+  });
+
+  it("does not leak another user's progress", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 2 } as any);
+
+    const progress = createProgressReporter(1, "p-private");
+    progress.stage("hashing");
+    progress.done();
+
+    // User 2 subscribes to a channel nobody published on; end it from the reporter side
+    const pending = readEvents(`${baseUrl}/api/progress/p-private`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    createProgressReporter(2, "p-private").done();
+
+    const { events } = await pending;
+    expect(events).toEqual([expect.objectContaining({ stage: "saved" })]);
+  });
+
+  it("rejects unauthenticated subscribers", async () => {
+    vi.mocked(sdk.authenticateRequest).mockRejectedValueOnce(new Error("Invalid session cookie"));
+
+    const res = await fetch(`${baseUrl}/api/progress/p-finished`);
+    expect(res.status).toBe(401);
+  });
+});
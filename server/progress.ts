@@ -0,0 +1,164 @@
+import { EventEmitter } from "events";
+import type { Express, Request, Response } from "express";
+import { sdk } from "./_core/sdk.js";
+
+/**
+ * Live stage-by-stage progress of an analysis, streamed over server-sent events.
+ *
+ * Channels live in this process's memory, so a stream only sees analyses that
+ * run in the same process: this works on a long-running server (server/_core/index.ts)
+ * only. On serverless deployments the stream and the analysis land on different
+ * instances, so api/index.ts doesn't serve it. Progress is best-effort everywhere:
+ * clients take the outcome from the mutation's result or by polling getJob, which
+ * also reports the stage a queued analysis is in (saved on its detection_jobs row).
+ */
+
+/**
+ * Real analysis stages, in pipeline order
+ */
+export const ANALYSIS_STAGES = [
+  "uploading",
+  "hashing",
+  "cache_check",
+  "vendor_call",
+  "storing",
+  "saved",
+] as const;
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number];
+
+export interface ProgressEvent {
+  stage: AnalysisStage;
+  status: "started" | "completed" | "failed";
+  message?: string;
+  at: string;
+}
+
+export interface ProgressReporter {
+  stage(stage: AnalysisStage): void;
+  fail(error: unknown): void;
+  done(): void;
+}
+
+// Channels are kept briefly after the last event so a late subscriber can replay them
+const CHANNEL_TTL_MS = 5 * 60 * 1000;
+
+interface Channel {
+  events: ProgressEvent[];
+  closed: boolean;
+  expiresAt: number;
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+const channels = new Map<string, Channel>();
+
+function channelKey(userId: number, progressId: string) {
+  return `${userId}:${progressId}`;
+}
+
+function pruneChannels() {
+  const now = Date.now();
+  channels.forEach((channel, key) => {
+    if (channel.expiresAt < now) channels.delete(key);
+  });
+}
+
+function publish(key: string, event: ProgressEvent, close = false) {
+  const channel = channels.get(key) ?? { events: [], closed: false, expiresAt: 0 };
+  channel.events.push(event);
+  channel.closed = channel.closed || close;
+  channel.expiresAt = Date.now() + CHANNEL_TTL_MS;
+  channels.set(key, channel);
+  emitter.emit(key, event, channel.closed);
+}
+
+const noopReporter: ProgressReporter = {
+  stage() {},
+  fail() {},
+  done() {},
+};
+
+/**
+ * Emits stage transitions for one analysis. Without a progressId nothing is published.
+ */
+export function createProgressReporter(
+  userId: number,
+  progressId?: string | null
+): ProgressReporter {
+  if (!progressId) return noopReporter;
+
+  pruneChannels();
+  const key = channelKey(userId, progressId);
+  let current: AnalysisStage | null = null;
+
+  const now = () => new Date().toISOString();
+
+  return {
+    stage(stage) {
+      if (current) publish(key, { stage: current, status: "completed", at: now() });
+      current = stage;
+      publish(key, { stage, status: "started", at: now() });
+    },
+    fail(error) {
+      const message = error instanceof Error ? error.message : String(error);
+      publish(key, { stage: current ?? "uploading", status: "failed", message, at: now() }, true);
+    },
+    done() {
+      if (current && current !== "saved") {
+        publish(key, { stage: current, status: "completed", at: now() });
+      }
+      publish(key, { stage: "saved", status: "completed", at: now() }, true);
+    },
+  };
+}
+
+/**
+ * GET /api/progress/:progressId — server-sent events for one analysis of the current user
+ */
+export function registerProgressRoutes(app: Express) {
+  app.get("/api/progress/:progressId", async (req: Request, res: Response) => {
+    const user = await sdk.authenticateRequest(req).catch(() => null);
+    if (!user) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const key = channelKey(user.id, req.params.progressId);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const send = (event: ProgressEvent) => {
+      res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const cleanup = () => {
+      emitter.off(key, listener);
+      clearInterval(heartbeat);
+    };
+
+    const listener = (event: ProgressEvent, closed: boolean) => {
+      send(event);
+      if (closed) {
+        cleanup();
+        res.end();
+      }
+    };
+
+    // Replay what already happened
+    const channel = channels.get(key);
+    channel?.events.forEach(send);
+    if (channel?.closed) {
+      res.end();
+      return;
+    }
+
+    emitter.on(key, listener);
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15_000);
+    req.on("close", cleanup);
+  });
+}
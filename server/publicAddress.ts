@@ -0,0 +1,90 @@
+import dns from "dns";
+import { isIP, type LookupFunction } from "net";
+
+/**
+ * Guards for requests to hosts someone else chose (webhook endpoints, remote
+ * files): private, loopback, link-local and similar addresses are off limits.
+ */
+
+function isPrivateIPv4(host: string) {
+  const [a, b] = host.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, including ones written with an embedded IPv4 tail
+ */
+function ipv6Groups(host: string): number[] {
+  let address = host.toLowerCase().split("%")[0];
+  const ipv4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (ipv4Tail) {
+    const [a, b, c, d] = ipv4Tail[1].split(".").map(Number);
+    address = `${address.slice(0, ipv4Tail.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = address.split("::");
+  const parse = (part?: string) => (part ? part.split(":").map(group => parseInt(group, 16)) : []);
+  const groups = parse(head);
+  const rest = parse(tail);
+  return [...groups, ...Array<number>(8 - groups.length - rest.length).fill(0), ...rest];
+}
+
+export function isPrivateAddress(host: string): boolean {
+  const version = isIP(host);
+  if (version === 4) return isPrivateIPv4(host);
+  if (version !== 6) return false;
+
+  const groups = ipv6Groups(host);
+  const embeddedIPv4 = `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+  const zeroPrefix = groups.slice(0, 5).every(group => group === 0);
+  // ::ffff:a.b.c.d (mapped), ::a.b.c.d (compatible) and 64:ff9b::a.b.c.d (NAT64) reach IPv4 hosts
+  if ((zeroPrefix && (groups[5] === 0xffff || groups[5] === 0)) || (groups[0] === 0x64 && groups[1] === 0xff9b)) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+export function isPrivateHost(host: string) {
+  return host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || isPrivateAddress(host);
+}
+
+/**
+ * DNS lookup that fails with `message` unless every address the name resolves
+ * to is public. The socket connects to exactly those addresses, so the name
+ * can't be re-pointed at an internal host between the check and the connection.
+ * IP literals never reach a lookup; check those with isPrivateHost first.
+ */
+export function createPublicLookup(message: string, allowPrivate: () => boolean = () => false): LookupFunction {
+  return (hostname, options, callback) => {
+    dns.promises
+      .lookup(hostname, { family: options.family, hints: options.hints, all: true })
+      .then(addresses => {
+        if (addresses.length === 0) {
+          throw Object.assign(new Error(`No addresses for ${hostname}`), { code: "ENOTFOUND" });
+        }
+        if (!allowPrivate() && addresses.some(({ address }) => isPrivateAddress(address))) {
+          throw new Error(message);
+        }
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      })
+      .catch(error => callback(error, ""));
+  };
+}
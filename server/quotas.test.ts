@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  getUserById: vi.fn(),
+  countUserAnalysesForQuota: vi.fn().mockResolvedValue([]),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+import { TRPCError } from "@trpc/server";
+import { ENV } from "./_core/env";
+import { countUserAnalysesForQuota, getUserById } from "./db";
+import { QuotaExceededError, assertWithinQuota, getPlanLimits, getUsage, resetPlanLimits } from "./quotas";
+import { appRouter } from "./routers";
+
+const MB = 1024 * 1024;
+
+function withPlan(plan: "free" | "pro" | "enterprise") {
+  vi.mocked(getUserById).mockResolvedValue({ id: 1, plan } as any);
+}
+
+describe("quotas", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-15T10:30:00Z"));
+    withPlan("free");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    ENV.planLimits = "";
+    resetPlanLimits();
+  });
+
+  it("reports usage for the current UTC day and month", async () => {
+    vi.mocked(countUserAnalysesForQuota).mockResolvedValueOnce([{ fileType: "image", day: 4, month: 31 }]);
+
+    const usage = await getUsage(1);
+
+    expect(countUserAnalysesForQuota).toHaveBeenCalledWith(
+      1,
+      new Date("2026-03-15T00:00:00Z"),
+      new Date("2026-03-01T00:00:00Z")
+    );
+    expect(usage.plan).toBe("free");
+    expect(usage.types.find(type => type.fileType === "image")).toEqual({
+      fileType: "image",
+      daily: { used: 4, limit: 20, resetsAt: new Date("2026-03-16T00:00:00Z") },
+      monthly: { used: 31, limit: 200, resetsAt: new Date("2026-04-01T00:00:00Z") },
+      maxFileSize: 5 * MB,
+    });
+    expect(usage.types.find(type => type.fileType === "text")?.maxFileSize).toBeNull();
+  });
+
+  it("refuses an analysis once the daily quota is used up", async () => {
+    vi.mocked(countUserAnalysesForQuota).mockResolvedValueOnce([{ fileType: "video", day: 2, month: 2 }]);
+
+    const error = await assertWithinQuota(1, "video").catch(err => err);
+
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe("TOO_MANY_REQUESTS");
+    expect(error.message).toContain("resets at 2026-03-16 00:00 UTC");
+    expect(error.cause).toBeInstanceOf(QuotaExceededError);
+    expect(error.cause.details).toEqual({
+      fileType: "video",
+      period: "day",
+      limit: 2,
+      used: 2,
+      resetsAt: new Date("2026-03-16T00:00:00Z"),
+    });
+  });
+
+  it("refuses an analysis once the monthly quota is used up", async () => {
+    vi.mocked(countUserAnalysesForQuota).mockResolvedValueOnce([{ fileType: "audio", day: 0, month: 50 }]);
+
+    await expect(assertWithinQuota(1, "audio")).rejects.toMatchObject({
+      code: "TOO_MANY_REQUESTS",
+      cause: { details: { period: "month", resetsAt: new Date("2026-04-01T00:00:00Z") } },
+    });
+  });
+
+  it("refuses files larger than the plan allows", async () => {
+    await expect(assertWithinQuota(1, "image", 6 * MB)).rejects.toMatchObject({
+      code: "PAYLOAD_TOO_LARGE",
+      cause: { details: { period: "file", limit: 5 * MB, used: 6 * MB } },
+    });
+    await expect(assertWithinQuota(1, "image", 4 * MB)).resolves.toBeUndefined();
+  });
+
+  it("doesn't limit enterprise accounts", async () => {
+    withPlan("enterprise");
+    vi.mocked(countUserAnalysesForQuota).mockResolvedValueOnce([{ fileType: "image", day: 10_000, month: 100_000 }]);
+
+    await expect(assertWithinQuota(1, "image", 500 * MB)).resolves.toBeUndefined();
+  });
+
+  it("applies PLAN_LIMITS overrides on top of the defaults", () => {
+    ENV.planLimits = JSON.stringify({ free: { daily: { image: 50 } }, pro: { maxFileSize: { video: 10 } } });
+    resetPlanLimits();
+
+    expect(getPlanLimits("free").daily).toEqual({ image: 50, audio: 5, video: 2, text: 20 });
+    expect(getPlanLimits("pro").maxFileSize.video).toBe(10);
+  });
+
+  it("ignores invalid PLAN_LIMITS", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ENV.planLimits = "{not json";
+    resetPlanLimits();
+
+    expect(getPlanLimits("free").daily.image).toBe(20);
+  });
+
+  it("exposes quota details to clients in the error shape", () => {
+    const details = { fileType: "text" as const, period: "day" as const, limit: 20, used: 20, resetsAt: null };
+    const error = new TRPCError({ code: "TOO_MANY_REQUESTS", cause: new QuotaExceededError(details) });
+    const format = appRouter._def._config.errorFormatter as any;
+
+    expect(format({ shape: { data: {} }, error }).data.quota).toEqual(details);
+    expect(format({ shape: { data: {} }, error: new TRPCError({ code: "BAD_REQUEST" }) }).data.quota).toBeNull();
+  });
+});
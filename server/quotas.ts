@@ -0,0 +1,160 @@
+import { TRPCError } from "@trpc/server";
+import { ENV } from "./_core/env.js";
+import type { User } from "../drizzle/schema.js";
+import type { DetectionFileType } from "./aiornot.js";
+import { countUserAnalysesForQuota, getUserById } from "./db.js";
+
+export const PLANS = ["free", "pro", "enterprise"] as const;
+export type Plan = User["plan"];
+
+type MediaFileType = Exclude<DetectionFileType, "text">;
+type Limit = number | null; // null = unlimited
+
+export interface PlanLimits {
+  daily: Record<DetectionFileType, Limit>;
+  monthly: Record<DetectionFileType, Limit>;
+  // Bytes; the global per-type maximum in analysis.ts still applies on top
+  maxFileSize: Record<MediaFileType, Limit>;
+}
+
+const MB = 1024 * 1024;
+const FILE_TYPES: DetectionFileType[] = ["image", "audio", "video", "text"];
+
+const DEFAULT_PLAN_LIMITS: Record<Plan, PlanLimits> = {
+  free: {
+    daily: { image: 20, audio: 5, video: 2, text: 20 },
+    monthly: { image: 200, audio: 50, video: 20, text: 200 },
+    maxFileSize: { image: 5 * MB, audio: 20 * MB, video: 50 * MB },
+  },
+  pro: {
+    daily: { image: 500, audio: 100, video: 50, text: 500 },
+    monthly: { image: 10_000, audio: 2_000, video: 1_000, text: 10_000 },
+    maxFileSize: { image: null, audio: null, video: null },
+  },
+  enterprise: {
+    daily: { image: null, audio: null, video: null, text: null },
+    monthly: { image: null, audio: null, video: null, text: null },
+    maxFileSize: { image: null, audio: null, video: null },
+  },
+};
+
+/**
+ * Why an analysis was refused; exposed to clients as `error.data.quota`
+ */
+export interface QuotaDetails {
+  fileType: DetectionFileType;
+  period: "day" | "month" | "file";
+  limit: number;
+  used: number;
+  resetsAt: Date | null;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(readonly details: QuotaDetails) {
+    super(`Quota exceeded: ${details.fileType} ${details.period}`);
+    this.name = "QuotaExceededError";
+  }
+}
+
+let planLimits: Record<Plan, PlanLimits> | undefined;
+
+/**
+ * PLAN_LIMITS overrides individual values, e.g. {"free":{"daily":{"image":50}}}
+ */
+export function getPlanLimits(plan: Plan): PlanLimits {
+  if (!planLimits) {
+    planLimits = structuredClone(DEFAULT_PLAN_LIMITS);
+    if (ENV.planLimits) {
+      try {
+        const overrides = JSON.parse(ENV.planLimits) as Partial<Record<Plan, Partial<PlanLimits>>>;
+        for (const name of PLANS) {
+          for (const key of ["daily", "monthly", "maxFileSize"] as const) {
+            Object.assign(planLimits[name][key], overrides[name]?.[key] ?? {});
+          }
+        }
+      } catch (error) {
+        console.error("[Quotas] Ignoring invalid PLAN_LIMITS:", error);
+      }
+    }
+  }
+  return planLimits[plan] ?? planLimits.free;
+}
+
+// For tests that change ENV.planLimits
+export function resetPlanLimits() {
+  planLimits = undefined;
+}
+
+// Quota periods follow UTC calendar days and months
+function getPeriods(now = new Date()) {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return {
+    dayStart,
+    dayEnd: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+    monthStart,
+    monthEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Usage in the current day and month for every media type
+ */
+export async function getUsage(userId: number) {
+  const user = await getUserById(userId);
+  const plan: Plan = user?.plan ?? "free";
+  const limits = getPlanLimits(plan);
+  const periods = getPeriods();
+  const counts = await countUserAnalysesForQuota(userId, periods.dayStart, periods.monthStart);
+
+  return {
+    plan,
+    dayStart: periods.dayStart,
+    monthStart: periods.monthStart,
+    types: FILE_TYPES.map(fileType => {
+      const row = counts.find(count => count.fileType === fileType);
+      return {
+        fileType,
+        daily: { used: row?.day ?? 0, limit: limits.daily[fileType], resetsAt: periods.dayEnd },
+        monthly: { used: row?.month ?? 0, limit: limits.monthly[fileType], resetsAt: periods.monthEnd },
+        maxFileSize: fileType === "text" ? null : limits.maxFileSize[fileType],
+      };
+    }),
+  };
+}
+
+function quotaError(code: TRPCError["code"], message: string, details: QuotaDetails) {
+  return new TRPCError({ code, message, cause: new QuotaExceededError(details) });
+}
+
+/**
+ * Refuse an analysis the user's plan doesn't allow. Called before any vendor
+ * call; `size` is checked only when given.
+ */
+export async function assertWithinQuota(userId: number, fileType: DetectionFileType, size?: number) {
+  const usage = await getUsage(userId);
+  const entry = usage.types.find(type => type.fileType === fileType)!;
+
+  if (size !== undefined && entry.maxFileSize !== null && size > entry.maxFileSize) {
+    throw quotaError(
+      "PAYLOAD_TOO_LARGE",
+      `Your ${usage.plan} plan allows ${fileType} files up to ${Math.round(entry.maxFileSize / MB)}MB`,
+      { fileType, period: "file", limit: entry.maxFileSize, used: size, resetsAt: null }
+    );
+  }
+
+  for (const [period, quota] of [
+    ["day", entry.daily],
+    ["month", entry.monthly],
+  ] as const) {
+    if (quota.limit !== null && quota.used >= quota.limit) {
+      throw quotaError(
+        "TOO_MANY_REQUESTS",
+        `You've used all ${quota.limit} ${fileType} analyses your ${usage.plan} plan allows ` +
+          `${period === "day" ? "today" : "this month"}. ` +
+          `The quota resets at ${quota.resetsAt.toISOString().slice(0, 16).replace("T", " ")} UTC.`,
+        { fileType, period, limit: quota.limit, used: quota.used, resetsAt: quota.resetsAt }
+      );
+    }
+  }
+}
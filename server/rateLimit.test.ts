@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  getUserByUsername: vi.fn().mockResolvedValue(undefined),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import { getClientIp, resetLoginThrottle } from "./loginThrottle";
+import {
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  getRateLimitRules,
+  resetRateLimits,
+  setRateLimitStore,
+} from "./rateLimit";
+import type { TrpcContext } from "./_core/context";
+
+const rule = { capacity: 3, perMinute: 6 }; // one token every 10s
+
+describe("memory rate limit store", () => {
+  it("allows a burst up to capacity, then refills over time", async () => {
+    const store = createMemoryRateLimitStore();
+    const now = 1_000_000;
+
+    for (let i = 0; i < 3; i++) {
+      expect((await store.take("k", rule, now)).allowed).toBe(true);
+    }
+    expect(await store.take("k", rule, now)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 10_000 });
+    expect(await store.take("k", rule, now + 4_000)).toMatchObject({ allowed: false, retryAfterMs: 6_000 });
+    expect(await store.take("k", rule, now + 10_000)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it("keeps separate buckets per key", async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) await store.take("a", rule, 0);
+
+    expect((await store.take("a", rule, 0)).allowed).toBe(false);
+    expect((await store.take("b", rule, 0)).allowed).toBe(true);
+  });
+});
+
+describe("consumeRateLimit", () => {
+  beforeEach(() => resetRateLimits());
+
+  afterEach(() => {
+    ENV.rateLimits = "";
+    resetRateLimits();
+  });
+
+  it("limits signed-in callers per user even when their IP changes", async () => {
+    ENV.rateLimits = JSON.stringify({ analyze: { user: { capacity: 2 } } });
+    resetRateLimits();
+
+    expect(await consumeRateLimit("analyze", { userId: 1, ip: "198.51.100.1" }, 0)).toBe(0);
+    expect(await consumeRateLimit("analyze", { userId: 1, ip: "198.51.100.2" }, 0)).toBe(0);
+    expect(await consumeRateLimit("analyze", { userId: 1, ip: "198.51.100.3" }, 0)).toBeGreaterThan(0);
+    expect(await consumeRateLimit("analyze", { userId: 2, ip: "198.51.100.3" }, 0)).toBe(0);
+  });
+
+  it("limits every caller behind one IP together", async () => {
+    ENV.rateLimits = JSON.stringify({ upload: { ip: { capacity: 2 } } });
+    resetRateLimits();
+
+    expect(await consumeRateLimit("upload", { userId: 1, ip: "198.51.100.1" }, 0)).toBe(0);
+    expect(await consumeRateLimit("upload", { userId: 2, ip: "198.51.100.1" }, 0)).toBe(0);
+    expect(await consumeRateLimit("upload", { userId: 3, ip: "198.51.100.1" }, 0)).toBeGreaterThan(0);
+  });
+
+  it("keeps budgets apart", async () => {
+    ENV.rateLimits = JSON.stringify({ auth: { ip: { capacity: 1 } } });
+    resetRateLimits();
+
+    expect(await consumeRateLimit("auth", { ip: "198.51.100.1" }, 0)).toBe(0);
+    expect(await consumeRateLimit("auth", { ip: "198.51.100.1" }, 0)).toBeGreaterThan(0);
+    expect(await consumeRateLimit("upload", { ip: "198.51.100.1" }, 0)).toBe(0);
+  });
+
+  it("ignores invalid RATE_LIMITS", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ENV.rateLimits = "{nope";
+    resetRateLimits();
+
+    expect(getRateLimitRules("analyze").user).toEqual({ capacity: 20, perMinute: 10 });
+  });
+
+  it("uses a plugged-in store and lets requests through when it fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const take = vi.fn().mockRejectedValue(new Error("redis unavailable"));
+    setRateLimitStore({ take });
+
+    expect(await consumeRateLimit("analyze", { userId: 1, ip: "198.51.100.1" })).toBe(0);
+    expect(take).toHaveBeenCalledWith("analyze:user:1", expect.any(Object), expect.any(Number));
+  });
+});
+
+describe("rateLimited procedures", () => {
+  afterEach(() => {
+    ENV.rateLimits = "";
+    resetRateLimits();
+    resetLoginThrottle();
+  });
+
+  it("answers with TOO_MANY_REQUESTS and a Retry-After header", async () => {
+    ENV.rateLimits = JSON.stringify({ auth: { ip: { capacity: 1, perMinute: 2 } } });
+    resetRateLimits();
+    const setHeader = vi.fn();
+    const ctx: TrpcContext = {
+      user: null,
+      req: { headers: {}, socket: { remoteAddress: "203.0.113.9" } } as TrpcContext["req"],
+      res: { setHeader } as unknown as TrpcContext["res"],
+    };
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.auth.login({ username: "bob", password: "x" })).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+    await expect(caller.auth.login({ username: "bob", password: "x" })).rejects.toMatchObject({
+      code: "TOO_MANY_REQUESTS",
+    });
+    expect(setHeader).toHaveBeenCalledWith("Retry-After", "30");
+  });
+});
+
+describe("getClientIp", () => {
+  const saved = ENV.trustedProxyHops;
+  const request = (forwarded?: string) =>
+    ({ headers: forwarded ? { "x-forwarded-for": forwarded } : {}, socket: { remoteAddress: "10.0.0.2" } }) as never;
+
+  afterEach(() => {
+    ENV.trustedProxyHops = saved;
+  });
+
+  it("ignores X-Forwarded-For without trusted proxies", () => {
+    ENV.trustedProxyHops = "0";
+    expect(getClientIp(request("203.0.113.9"))).toBe("10.0.0.2");
+  });
+
+  it("takes the address the outermost trusted proxy saw, not what the client sent", () => {
+    ENV.trustedProxyHops = "1";
+    expect(getClientIp(request("198.51.100.1, 203.0.113.9"))).toBe("203.0.113.9");
+
+    ENV.trustedProxyHops = "2";
+    expect(getClientIp(request("198.51.100.1, 203.0.113.9, 10.0.0.1"))).toBe("203.0.113.9");
+  });
+
+  it("falls back to the socket address without the header", () => {
+    ENV.trustedProxyHops = "1";
+    expect(getClientIp(request())).toBe("10.0.0.2");
+  });
+});
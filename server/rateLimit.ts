@@ -0,0 +1,189 @@
+import type { NextFunction, Request, Response } from "express";
+import { ENV } from "./_core/env.js";
+import { getClientIp } from "./loginThrottle.js";
+
+/**
+ * Token-bucket request limits, kept per user and per client IP.
+ *
+ * Each bucket holds up to `capacity` tokens and refills at `perMinute`; a
+ * request takes one token. A signed-in caller must have a token in both their
+ * user bucket and their IP bucket.
+ *
+ * Buckets live in a RateLimitStore. The default keeps them in process memory,
+ * so each instance limits on its own; multi-instance deployments can plug in a
+ * shared store with setRateLimitStore().
+ */
+
+export const RATE_LIMIT_BUDGETS = ["analyze", "auth", "upload"] as const;
+export type RateLimitBudget = (typeof RATE_LIMIT_BUDGETS)[number];
+
+export interface TokenBucketRule {
+  capacity: number;
+  perMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitStore {
+  /** Refill the bucket at `key` for the time elapsed, then try to take one token */
+  take(key: string, rule: TokenBucketRule, now: number): Promise<RateLimitResult>;
+}
+
+const DEFAULT_RULES: Record<RateLimitBudget, { user: TokenBucketRule; ip: TokenBucketRule }> = {
+  // Every analysis may reach a paid vendor
+  analyze: { user: { capacity: 20, perMinute: 10 }, ip: { capacity: 40, perMinute: 20 } },
+  // Login and registration; failed logins are throttled separately in loginThrottle.ts
+  auth: { user: { capacity: 10, perMinute: 5 }, ip: { capacity: 30, perMinute: 10 } },
+  upload: { user: { capacity: 10, perMinute: 5 }, ip: { capacity: 20, perMinute: 10 } },
+};
+
+// Password checks on a share link, per link and per client IP, so a guesser can't
+// just switch addresses or spread guesses over many links
+const SHARE_PASSWORD_RULES = { link: { capacity: 10, perMinute: 2 }, ip: { capacity: 20, perMinute: 5 } };
+
+const IDLE_BUCKET_MS = 60 * 60 * 1000;
+
+export function createMemoryRateLimitStore(): RateLimitStore & { clear(): void } {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  let lastPrune = 0;
+
+  // Full buckets carry no information; drop the ones nobody touched for a while
+  function prune(now: number) {
+    if (now - lastPrune < IDLE_BUCKET_MS) return;
+    lastPrune = now;
+    buckets.forEach((bucket, key) => {
+      if (bucket.updatedAt + IDLE_BUCKET_MS < now) buckets.delete(key);
+    });
+  }
+
+  return {
+    async take(key, rule, now) {
+      prune(now);
+      const ratePerMs = rule.perMinute / 60_000;
+      const bucket = buckets.get(key) ?? { tokens: rule.capacity, updatedAt: now };
+      bucket.tokens = Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) * ratePerMs);
+      bucket.updatedAt = now;
+
+      const allowed = bucket.tokens >= 1;
+      if (allowed) bucket.tokens -= 1;
+      buckets.set(key, bucket);
+
+      return {
+        allowed,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - bucket.tokens) / ratePerMs),
+      };
+    },
+    clear() {
+      buckets.clear();
+    },
+  };
+}
+
+const memoryStore = createMemoryRateLimitStore();
+let store: RateLimitStore = memoryStore;
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+let rules: typeof DEFAULT_RULES | undefined;
+
+/**
+ * RATE_LIMITS overrides individual values, e.g. {"analyze":{"user":{"capacity":50}}}
+ */
+export function getRateLimitRules(budget: RateLimitBudget) {
+  if (!rules) {
+    rules = structuredClone(DEFAULT_RULES);
+    if (ENV.rateLimits) {
+      try {
+        const overrides = JSON.parse(ENV.rateLimits) as Partial<
+          Record<RateLimitBudget, Partial<Record<"user" | "ip", Partial<TokenBucketRule>>>>
+        >;
+        for (const name of RATE_LIMIT_BUDGETS) {
+          Object.assign(rules[name].user, overrides[name]?.user ?? {});
+          Object.assign(rules[name].ip, overrides[name]?.ip ?? {});
+        }
+      } catch (error) {
+        console.error("[RateLimit] Ignoring invalid RATE_LIMITS:", error);
+      }
+    }
+  }
+  return rules[budget];
+}
+
+/** Test helper */
+export function resetRateLimits() {
+  rules = undefined;
+  memoryStore.clear();
+  store = memoryStore;
+}
+
+/**
+ * Take a token for the caller. Returns how long to wait before retrying, 0 when allowed.
+ * A store failure lets the request through rather than taking the app down with it.
+ */
+export async function consumeRateLimit(
+  budget: RateLimitBudget,
+  caller: { userId?: number | null; ip: string },
+  now = Date.now()
+): Promise<number> {
+  const budgetRules = getRateLimitRules(budget);
+  try {
+    if (caller.userId) {
+      const byUser = await store.take(`${budget}:user:${caller.userId}`, budgetRules.user, now);
+      if (!byUser.allowed) return byUser.retryAfterMs;
+    }
+    const byIp = await store.take(`${budget}:ip:${caller.ip}`, budgetRules.ip, now);
+    return byIp.retryAfterMs;
+  } catch (error) {
+    console.error("[RateLimit] Store failed, allowing request:", error);
+    return 0;
+  }
+}
+
+/**
+ * Take a token for one password check on the share link. Returns how long to
+ * wait before retrying, 0 when allowed.
+ */
+export async function consumeSharePasswordAttempt(shareToken: string, ip: string, now = Date.now()) {
+  try {
+    const byLink = await store.take(`sharePassword:link:${shareToken}`, SHARE_PASSWORD_RULES.link, now);
+    if (!byLink.allowed) return byLink.retryAfterMs;
+    const byIp = await store.take(`sharePassword:ip:${ip}`, SHARE_PASSWORD_RULES.ip, now);
+    return byIp.retryAfterMs;
+  } catch (error) {
+    console.error("[RateLimit] Store failed, allowing request:", error);
+    return 0;
+  }
+}
+
+export function retryAfterSeconds(retryAfterMs: number) {
+  return Math.max(1, Math.ceil(retryAfterMs / 1000));
+}
+
+export function rateLimitMessage(retryAfterMs: number) {
+  return `Too many requests. Try again in ${retryAfterSeconds(retryAfterMs)} seconds.`;
+}
+
+/**
+ * Express middleware for REST routes; `getUserId` reads whoever earlier middleware authenticated
+ */
+export function rateLimitMiddleware<R extends Request>(
+  budget: RateLimitBudget,
+  getUserId: (req: R) => number | null | undefined
+) {
+  return async (req: R, res: Response, next: NextFunction) => {
+    const retryAfterMs = await consumeRateLimit(budget, { userId: getUserId(req), ip: getClientIp(req) });
+    if (retryAfterMs > 0) {
+      res.setHeader("Retry-After", String(retryAfterSeconds(retryAfterMs)));
+      res.status(429).json({ error: { code: "TOO_MANY_REQUESTS", message: rateLimitMessage(retryAfterMs) } });
+      return;
+    }
+    next();
+  };
+}
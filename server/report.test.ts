@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { DetectionResult } from "../drizzle/schema";
+import { generateReportId, registerReportRoutes, renderDetectionReport } from "./report";
+import { getDetectionResultsForExport } from "./db";
+import { sdk } from "./_core/sdk";
+
+vi.mock("./_core/sdk", () => ({
+  sdk: { authenticateRequest: vi.fn() },
+}));
+
+vi.mock("./db", () => ({
+  getDetectionResultsForExport: vi.fn(),
+}));
+
+function createResult(overrides: Partial<DetectionResult> = {}): DetectionResult {
+  return {
+    id: 1,
+    userId: 1,
+    fileName: "essay.txt",
+    fileType: "text",
+    fileSize: 420,
+    fileHash: "ab".repeat(32),
+    s3Key: "",
+    verdict: "ai",
+    confidence: "0.8400",
+    detectedGenerator: "gpt",
+    generatorScores: { gpt: 0.7, claude: 0.1 },
+    rawResponse: {},
+    processingTimeMs: 640,
+    isDuplicate: 0,
+    duplicateOfId: null,
+    textExcerpt: "Once upon a time",
+    createdAt: new Date("2025-03-01T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+function collect(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+describe("generateReportId", () => {
+  it("does not depend on id order", () => {
+    const at = new Date("2025-03-01T12:00:00Z");
+    expect(generateReportId([2, 1], at)).toBe(generateReportId([1, 2], at));
+    expect(generateReportId([1], at)).toMatch(/^VR-20250301-[0-9A-F]{8}$/);
+  });
+});
+
+describe("renderDetectionReport", () => {
+  it("renders one page per result", async () => {
+    const doc = renderDetectionReport(
+      [createResult({ id: 1 }), createResult({ id: 2, verdict: "human", generatorScores: {} })],
+      { reportId: "VR-TEST", generatedAt: new Date("2025-03-02T00:00:00Z") }
+    );
+
+    const pdf = await collect(doc);
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(pdf.toString("latin1").match(/\/Type \/Page\b/g)).toHaveLength(2);
+  });
+
+  it("embeds a Unicode font instead of the Latin-1 built-ins", async () => {
+    const doc = renderDetectionReport([createResult({ fileName: "отчёт-2025.txt", textExcerpt: "Привет, мир" })], {
+      reportId: "VR-TEST",
+      generatedAt: new Date("2025-03-02T00:00:00Z"),
+    });
+
+    const pdf = (await collect(doc)).toString("latin1");
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+NotoSans-Regular/);
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+NotoSans-Bold/);
+    expect(pdf).not.toContain("Helvetica");
+    // The CJK font is only read when a report needs it
+    expect(pdf).not.toContain("NotoSansSC");
+  });
+
+  it("sets CJK text in a font that has the glyphs", async () => {
+    const doc = renderDetectionReport([createResult({ fileName: "报告.txt", textExcerpt: "これはテストです" })], {
+      reportId: "VR-TEST",
+      generatedAt: new Date("2025-03-02T00:00:00Z"),
+    });
+
+    const pdf = (await collect(doc)).toString("latin1");
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+NotoSansSC-Bold/);
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+NotoSansSC-Regular/);
+  });
+});
+
+describe("GET /api/reports", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    registerReportRoutes(app);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(done => server.close(() => done())));
+
+  it("returns a PDF for the user's own results", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 1 } as any);
+    vi.mocked(getDetectionResultsForExport).mockResolvedValueOnce([createResult()]);
+
+    const res = await fetch(`${baseUrl}/api/reports?ids=1`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/pdf");
+    expect(res.headers.get("content-disposition")).toMatch(/filename="VR-\d{8}-[0-9A-F]{8}\.pdf"/);
+    expect(getDetectionResultsForExport).toHaveBeenLastCalledWith(
+      expect.objectContaining({ userId: 1, organizationId: null }),
+      { ids: [1] },
+      50
+    );
+  });
+
+  it("returns 404 when none of the ids belong to the user", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 2 } as any);
+    vi.mocked(getDetectionResultsForExport).mockResolvedValueOnce([]);
+
+    const res = await fetch(`${baseUrl}/api/reports?ids=1`);
+    expect(res.status).toBe(404);
+  });
+
+  it("validates the id list", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 1 } as any);
+
+    const res = await fetch(`${baseUrl}/api/reports?ids=1;DROP`);
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,264 @@
+import { createHash } from "crypto";
+import { createRequire } from "module";
+import type { Express, Request, Response } from "express";
+import PDFDocument from "pdfkit";
+import { sdk } from "./_core/sdk.js";
+import type { DetectionResult } from "../drizzle/schema.js";
+import { TEXT_EXCERPT_LENGTH } from "./analysis.js";
+import { getDetectionResultsForExport } from "./db.js";
+import { storageRead } from "./storage.js";
+import { resolveWorkspace } from "./workspaces.js";
+
+// Keeps a single report (and its thumbnail downloads) to a sane size
+export const MAX_REPORT_RESULTS = 50;
+const MAX_THUMBNAIL_BYTES = 10 * 1024 * 1024;
+
+// The built-in PDF fonts only cover Latin-1, which garbles file names in other
+// scripts, so the report embeds Noto Sans. It has no CJK glyphs: text that needs
+// them is set in Noto Sans SC, which covers Latin too. Fonts are registered by
+// path, so PDFKit only reads (and subsets) the ones a report actually uses.
+const FONT = "NotoSans";
+const FONT_BOLD = "NotoSans-Bold";
+const FONT_CJK = "NotoSansSC";
+const FONT_CJK_BOLD = "NotoSansSC-Bold";
+
+const require = createRequire(import.meta.url);
+const FONT_FILES: Record<string, string> = {
+  [FONT]: require.resolve("@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf"),
+  [FONT_BOLD]: require.resolve("@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf"),
+  [FONT_CJK]: require.resolve("@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf"),
+  [FONT_CJK_BOLD]: require.resolve("@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf"),
+};
+
+// CJK punctuation, kana, Han and full-width forms
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+function fontFor(text: string, bold = false) {
+  if (CJK_PATTERN.test(text)) return bold ? FONT_CJK_BOLD : FONT_CJK;
+  return bold ? FONT_BOLD : FONT;
+}
+
+export interface ReportOptions {
+  reportId: string;
+  generatedAt: Date;
+  // JPEG/PNG bytes keyed by detection result id
+  thumbnails?: Map<number, Buffer>;
+}
+
+/**
+ * Stable identifier printed on every page, e.g. VR-20250301-1A2B3C4D
+ */
+export function generateReportId(resultIds: number[], generatedAt: Date): string {
+  const digest = createHash("sha256")
+    .update(`${[...resultIds].sort((a, b) => a - b).join(",")}:${generatedAt.toISOString()}`)
+    .digest("hex")
+    .slice(0, 8)
+    .toUpperCase();
+  const day = generatedAt.toISOString().slice(0, 10).replace(/-/g, "");
+  return `VR-${day}-${digest}`;
+}
+
+function isEmbeddableImage(buffer: Buffer) {
+  const isJpeg = buffer[0] === 0xff && buffer[1] === 0xd8;
+  const isPng = buffer.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  return isJpeg || isPng;
+}
+
+/**
+ * Fetch the stored image so it can be embedded. PDFKit only handles JPEG and PNG;
+ * anything else (or a storage failure) just leaves the thumbnail out.
+ */
+export async function loadThumbnail(result: DetectionResult): Promise<Buffer | null> {
+  if (result.fileType !== "image" || !result.s3Key) return null;
+
+  try {
+    const buffer = await storageRead(result.s3Key);
+    if (buffer.length > MAX_THUMBNAIL_BYTES || !isEmbeddableImage(buffer)) return null;
+    return buffer;
+  } catch (error) {
+    console.warn(`[Report] Thumbnail unavailable for result ${result.id}:`, error);
+    return null;
+  }
+}
+
+function formatGenerator(generator: string) {
+  return generator
+    .split("_")
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function field(doc: PDFKit.PDFDocument, label: string, value: string) {
+  doc.font(FONT_BOLD).fontSize(9).fillColor("#475569").text(label.toUpperCase());
+  doc.font(fontFor(value)).fontSize(11).fillColor("#0f172a").text(value).moveDown(0.4);
+}
+
+function renderResult(doc: PDFKit.PDFDocument, result: DetectionResult, thumbnail?: Buffer) {
+  const confidence = parseFloat(result.confidence as any) * 100;
+  const isAI = result.verdict === "ai";
+
+  const title = `Result #${result.id} — ${result.fileName}`;
+  doc.font(fontFor(title, true)).fontSize(16).fillColor("#0f172a").text(title).moveDown(0.5);
+
+  doc
+    .font(FONT_BOLD)
+    .fontSize(14)
+    .fillColor(isAI ? "#dc2626" : "#16a34a")
+    .text(`${isAI ? "AI-Generated" : "Authentic"} (${confidence.toFixed(2)}% confidence)`)
+    .moveDown(0.8);
+
+  if (thumbnail) {
+    doc.image(thumbnail, { fit: [240, 180] }).moveDown(0.8);
+  } else if (result.fileType === "text" && result.textExcerpt) {
+    field(doc, "Text excerpt", `${result.textExcerpt}${result.textExcerpt.length >= TEXT_EXCERPT_LENGTH ? "…" : ""}`);
+  }
+
+  field(doc, "File type", result.fileType);
+  if (result.fileSize !== null) field(doc, "File size", `${result.fileSize.toLocaleString("en-US")} bytes`);
+  field(doc, "SHA-256", result.fileHash || "Not recorded");
+  field(doc, "Detected generator", result.detectedGenerator ? formatGenerator(result.detectedGenerator) : "None");
+  field(doc, "Processing time", result.processingTimeMs !== null ? `${result.processingTimeMs} ms` : "Not recorded");
+  field(doc, "Analyzed at", new Date(result.createdAt).toISOString());
+  if (result.isDuplicate) field(doc, "Note", "Served from a previous analysis of the same file");
+
+  const scores = Object.entries((result.generatorScores ?? {}) as Record<string, number>)
+    .filter(([, score]) => typeof score === "number")
+    .sort((a, b) => b[1] - a[1]);
+
+  if (scores.length > 0) {
+    doc.moveDown(0.4);
+    doc.font(FONT_BOLD).fontSize(9).fillColor("#475569").text("GENERATOR BREAKDOWN").moveDown(0.3);
+
+    for (const [name, score] of scores) {
+      const y = doc.y;
+      const width = Math.max(0, Math.min(1, score)) * 200;
+      doc.font(FONT).fontSize(10).fillColor("#0f172a").text(formatGenerator(name), 50, y, { width: 140 });
+      doc.rect(200, y + 2, 200, 8).fill("#e2e8f0");
+      doc.rect(200, y + 2, width, 8).fill(isAI ? "#ef4444" : "#22c55e");
+      doc.fillColor("#0f172a").text(`${(score * 100).toFixed(1)}%`, 410, y);
+      doc.x = 50;
+      doc.moveDown(0.2);
+    }
+  }
+}
+
+/**
+ * Lay out a forensic report, one page per result. The caller pipes the document and calls end().
+ */
+export function renderDetectionReport(results: DetectionResult[], options: ReportOptions) {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 50,
+    bufferPages: true,
+    info: {
+      Title: `Detection report ${options.reportId}`,
+      Subject: "AI content detection forensic report",
+      CreationDate: options.generatedAt,
+    },
+  });
+  Object.entries(FONT_FILES).forEach(([name, file]) => doc.registerFont(name, file));
+
+  doc
+    .font(FONT_BOLD)
+    .fontSize(22)
+    .fillColor("#0f172a")
+    .text("AI Content Detection Report")
+    .moveDown(0.3);
+  doc
+    .font(FONT)
+    .fontSize(10)
+    .fillColor("#475569")
+    .text(`Report ID: ${options.reportId}`)
+    .text(`Generated: ${options.generatedAt.toISOString()}`)
+    .text(`Results: ${results.length}`)
+    .moveDown(1.5);
+
+  results.forEach((result, index) => {
+    if (index > 0) doc.addPage();
+    renderResult(doc, result, options.thumbnails?.get(result.id));
+  });
+
+  // Footer with report id and page numbers on every page
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise trigger an automatic page break
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font(FONT)
+      .fontSize(8)
+      .fillColor("#94a3b8")
+      .text(
+        `${options.reportId} • Page ${i + 1} of ${range.count}`,
+        50,
+        doc.page.height - 40,
+        { align: "center", width: doc.page.width - 100, lineBreak: false }
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+
+  return doc;
+}
+
+/**
+ * GET /api/reports?ids=1,2,3 — PDF report for the current user's results
+ */
+export function registerReportRoutes(app: Express) {
+  app.get("/api/reports", async (req: Request, res: Response) => {
+    const user = await sdk.authenticateRequest(req).catch(() => null);
+    if (!user) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const rawIds = typeof req.query.ids === "string" ? req.query.ids : "";
+    if (!/^\d+(,\d+)*$/.test(rawIds)) {
+      res.status(400).json({ error: "ids must be a comma-separated list of result ids" });
+      return;
+    }
+
+    const ids = Array.from(new Set(rawIds.split(",").map(Number)));
+    if (ids.length > MAX_REPORT_RESULTS) {
+      res.status(400).json({ error: `A report can include at most ${MAX_REPORT_RESULTS} results` });
+      return;
+    }
+
+    try {
+      // Only returns rows of the active workspace, so foreign ids are silently dropped
+      const workspace = await resolveWorkspace(user);
+      const results = await getDetectionResultsForExport(workspace, { ids }, MAX_REPORT_RESULTS);
+      if (results.length === 0) {
+        res.status(404).json({ error: "No matching results" });
+        return;
+      }
+
+      // Keep the order the ids were requested in
+      results.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+
+      const thumbnails = new Map<number, Buffer>();
+      for (const result of results) {
+        const thumbnail = await loadThumbnail(result);
+        if (thumbnail) thumbnails.set(result.id, thumbnail);
+      }
+
+      const generatedAt = new Date();
+      const reportId = generateReportId(
+        results.map(r => r.id),
+        generatedAt
+      );
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${reportId}.pdf"`);
+      res.setHeader("Cache-Control", "no-store");
+
+      const doc = renderDetectionReport(results, { reportId, generatedAt, thumbnails });
+      doc.pipe(res);
+      doc.end();
+    } catch (error) {
+      console.error("[Report] Failed to generate report:", error);
+      if (!res.headersSent) res.status(500).json({ error: "Failed to generate report" });
+      else res.destroy(error as Error);
+    }
+  });
+}
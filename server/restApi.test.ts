@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { DetectionResult } from "../drizzle/schema";
+import { registerRestApiRoutes } from "./restApi";
+import { generateApiKey } from "./apiKeys";
+import { getApiKeyByHash, getDetectionResultById, getUserById } from "./db";
+import { analyzeText } from "./analysis";
+
+vi.mock("./db", () => ({
+  getApiKeyByHash: vi.fn(),
+  createAnalysisFailure: vi.fn().mockResolvedValue(undefined),
+  getUserById: vi.fn(),
+  touchApiKey: vi.fn().mockResolvedValue(undefined),
+  getDetectionResultById: vi.fn(),
+}));
+
+vi.mock("./analysis", async importOriginal => ({
+  ...(await importOriginal<typeof import("./analysis")>()),
+  analyzeText: vi.fn(),
+  analyzeFile: vi.fn(),
+}));
+
+const { key, keyHash, keyPrefix } = generateApiKey();
+
+function mockKey(overrides: Record<string, unknown> = {}) {
+  vi.mocked(getApiKeyByHash).mockImplementation(async hash =>
+    hash === keyHash
+      ? ({
+          id: 3,
+          userId: 1,
+          name: "backend",
+          keyPrefix,
+          keyHash,
+          scopes: ["detections:read", "detections:write"],
+          lastUsedAt: null,
+          revokedAt: null,
+          createdAt: new Date(),
+          ...overrides,
+        } as any)
+      : undefined
+  );
+}
+
+function createResult(overrides: Partial<DetectionResult> = {}): DetectionResult {
+  return {
+    id: 42,
+    userId: 1,
+    fileName: "text-input",
+    fileType: "text",
+    fileSize: 5,
+    fileHash: "abc",
+    s3Key: "",
+    verdict: "human",
+    confidence: "0.8000",
+    detectedGenerator: null,
+    generatorScores: {},
+    rawResponse: { secret: true },
+    processingTimeMs: 120,
+    isDuplicate: 0,
+    duplicateOfId: null,
+    textExcerpt: "hello",
+    createdAt: new Date("2025-03-01T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("REST API /api/v1/detections", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    registerRestApiRoutes(app);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(done => server.close(() => done())));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockKey();
+    vi.mocked(getUserById).mockResolvedValue({ id: 1, username: "alice" } as any);
+  });
+
+  const post = (body: unknown, token = key) =>
+    fetch(`${baseUrl}/api/v1/detections`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+
+  it("rejects missing, unknown and revoked keys", async () => {
+    const missing = await fetch(`${baseUrl}/api/v1/detections/42`);
+    expect(missing.status).toBe(401);
+
+    expect((await post({ type: "text", text: "hi" }, "vk_unknown")).status).toBe(401);
+
+    mockKey({ revokedAt: new Date() });
+    expect((await post({ type: "text", text: "hi" })).status).toBe(401);
+  });
+
+  it("enforces scopes", async () => {
+    mockKey({ scopes: ["detections:read"] });
+
+    const res = await post({ type: "text", text: "hello" });
+
+    expect(res.status).toBe(403);
+    expect(analyzeText).not.toHaveBeenCalled();
+  });
+
+  it("creates a text detection and returns the stored result", async () => {
+    vi.mocked(analyzeText).mockResolvedValue({ id: 42, isCached: false } as any);
+    vi.mocked(getDetectionResultById).mockResolvedValue(createResult());
+
+    const res = await post({ type: "text", text: "hello" });
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(analyzeText).toHaveBeenCalledWith(expect.objectContaining({ userId: 1, organizationId: null }), "hello");
+    expect(body).toMatchObject({ id: 42, type: "text", verdict: "human", confidence: 0.8 });
+    expect(body).not.toHaveProperty("rawResponse");
+  });
+
+  it("validates the body and media types", async () => {
+    expect((await post({ type: "pdf" })).status).toBe(400);
+
+    const res = await post({ type: "image", fileName: "a.gif", fileData: "AAAA", mimeType: "image/gif" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.message).toContain("Invalid image type");
+  });
+
+  it("returns only the caller's own results", async () => {
+    vi.mocked(getDetectionResultById).mockResolvedValue(undefined);
+
+    const res = await fetch(`${baseUrl}/api/v1/detections/7`, {
+      headers: { Authorization: `Bearer ${key}` },
+    });
+
+    expect(res.status).toBe(404);
+    expect(getDetectionResultById).toHaveBeenCalledWith(7, expect.objectContaining({ userId: 1, organizationId: null }));
+  });
+});
@@ -0,0 +1,170 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { TRPCError } from "@trpc/server";
+import { getDetectionResultById } from "./db.js";
+import {
+  MAX_TEXT_LENGTH,
+  analyzeFile,
+  analyzeText,
+  assertAllowedMimeType,
+  assertFileSize,
+  recordAnalysisFailure,
+  toAnalysisError,
+  toApiDetection,
+} from "./analysis.js";
+import {
+  authenticateApiKey,
+  getBearerApiKey,
+  hasScope,
+  type ApiKeyAuth,
+  type ApiKeyScope,
+} from "./apiKeys.js";
+import { assertScopeRole, resolveWorkspace, type Workspace } from "./workspaces.js";
+import { QuotaExceededError } from "./quotas.js";
+import { rateLimitMiddleware } from "./rateLimit.js";
+
+/**
+ * Versioned REST API for server-to-server use. Mirrors detection.analyze* and
+ * detection.getResult; authenticated with `Authorization: Bearer <api key>` only.
+ */
+
+const mediaSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  fileData: z.string().min(1), // base64 encoded
+  mimeType: z.string().min(1),
+});
+
+export const createDetectionSchema = z.discriminatedUnion("type", [
+  mediaSchema.extend({ type: z.literal("image") }),
+  mediaSchema.extend({
+    type: z.literal("audio"),
+    audioType: z.enum(["voice", "music"]).default("voice"),
+  }),
+  mediaSchema.extend({ type: z.literal("video") }),
+  z.object({ type: z.literal("text"), text: z.string().min(1).max(MAX_TEXT_LENGTH) }),
+]);
+
+type ApiRequest = Request & { workspace?: Workspace; apiKey?: ApiKeyAuth };
+
+async function createDetection(workspace: Workspace, input: z.infer<typeof createDetectionSchema>) {
+  if (input.type === "text") return await analyzeText(workspace, input.text);
+
+  assertAllowedMimeType(input.type, input.mimeType);
+  const buffer = Buffer.from(input.fileData, "base64");
+  assertFileSize(input.type, buffer.length);
+
+  return await analyzeFile({
+    userId: workspace.userId,
+    organizationId: workspace.organizationId,
+    fileType: input.type,
+    fileName: input.fileName,
+    mimeType: input.mimeType,
+    buffer,
+    audioType: input.type === "audio" ? input.audioType : undefined,
+  });
+}
+
+function sendError(res: Response, status: number, code: string, message: string) {
+  res.status(status).json({ error: { code, message } });
+}
+
+function requireApiKey(scope: ApiKeyScope) {
+  return async (req: ApiRequest, res: Response, next: NextFunction) => {
+    const key = getBearerApiKey(req);
+    const auth = key ? await authenticateApiKey(key).catch(() => null) : null;
+    if (!auth) {
+      sendError(res, 401, "UNAUTHORIZED", "Missing or invalid API key");
+      return;
+    }
+    if (!hasScope(auth.apiKey, scope)) {
+      sendError(res, 403, "FORBIDDEN", `API key is missing the ${scope} scope`);
+      return;
+    }
+
+    // Keys act in the owner's active workspace, with the owner's role there
+    const workspace = await resolveWorkspace(auth.user).catch(() => null);
+    if (!workspace) {
+      sendError(res, 500, "INTERNAL_SERVER_ERROR", "Failed to resolve workspace");
+      return;
+    }
+    try {
+      assertScopeRole(workspace, scope);
+    } catch (error) {
+      sendError(res, 403, "FORBIDDEN", (error as TRPCError).message);
+      return;
+    }
+
+    req.workspace = workspace;
+    req.apiKey = auth.apiKey;
+    next();
+  };
+}
+
+export function registerRestApiRoutes(app: Express) {
+  app.post(
+    "/api/v1/detections",
+    requireApiKey("detections:write"),
+    rateLimitMiddleware<ApiRequest>("analyze", req => req.workspace?.userId),
+    async (req: ApiRequest, res: Response) => {
+      const parsed = createDetectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        sendError(res, 400, "BAD_REQUEST", parsed.error.issues[0]?.message ?? "Invalid request body");
+        return;
+      }
+
+      const input = parsed.data;
+      const workspace = req.workspace!;
+
+      try {
+        const outcome = await createDetection(workspace, input);
+        const stored = outcome.id ? await getDetectionResultById(outcome.id, workspace) : undefined;
+        if (!stored) throw new Error("Detection result was not saved");
+
+        res.status(outcome.isCached ? 200 : 201).json(toApiDetection(stored));
+      } catch (error) {
+        console.error("[REST] Detection failed:", error);
+        const failure = toAnalysisError(input.type, error);
+        recordAnalysisFailure(
+          {
+            userId: workspace.userId,
+            source: "api",
+            fileType: input.type,
+            fileName: input.type === "text" ? null : input.fileName,
+          },
+          error,
+          failure
+        );
+        if (failure.cause instanceof QuotaExceededError && failure.cause.details.resetsAt) {
+          const seconds = Math.ceil((failure.cause.details.resetsAt.getTime() - Date.now()) / 1000);
+          res.setHeader("Retry-After", String(Math.max(seconds, 1)));
+        }
+        sendError(res, getHTTPStatusCodeFromError(failure), failure.code, failure.message);
+      }
+    }
+  );
+
+  app.get(
+    "/api/v1/detections/:id",
+    requireApiKey("detections:read"),
+    async (req: ApiRequest, res: Response) => {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        sendError(res, 400, "BAD_REQUEST", "Invalid detection id");
+        return;
+      }
+
+      try {
+        const result = await getDetectionResultById(id, req.workspace!);
+        if (!result) {
+          sendError(res, 404, "NOT_FOUND", "Detection not found");
+          return;
+        }
+        res.json(toApiDetection(result));
+      } catch (error) {
+        console.error("[REST] Failed to load detection:", error);
+        sendError(res, 500, "INTERNAL_SERVER_ERROR", "Failed to load detection");
+      }
+    }
+  );
+}
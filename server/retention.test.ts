@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, utimes } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+
+vi.mock("./db", () => ({
+  findExpiredMedia: vi.fn(),
+  markMediaPurged: vi.fn(),
+  findExpiredTakeoutExports: vi.fn(),
+  updateTakeoutExport: vi.fn(),
+  findReferencedStorageKeys: vi.fn(),
+  getPendingJobUploads: vi.fn(),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+import { ENV } from "./_core/env";
+import * as db from "./db";
+import { storagePut, storageRead } from "./storage";
+import { deleteExpiredTakeouts, purgeExpiredMedia, sweepOrphanedUploads } from "./retention";
+
+const now = new Date("2026-03-01T12:00:00Z");
+const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
+
+async function putAt(key: string, modifiedAt: Date) {
+  await storagePut(key, Buffer.from(key));
+  await utimes(path.join(ENV.localStorageDir, key), modifiedAt, modifiedAt);
+}
+
+async function exists(key: string) {
+  return storageRead(key).then(
+    () => true,
+    () => false
+  );
+}
+
+describe("retention", () => {
+  const saved = { dir: ENV.localStorageDir, driver: ENV.storageDriver };
+
+  beforeAll(async () => {
+    ENV.localStorageDir = await mkdtemp(path.join(tmpdir(), "retention-test-"));
+    ENV.storageDriver = "local";
+  });
+
+  afterAll(async () => {
+    await rm(ENV.localStorageDir, { recursive: true, force: true });
+    ENV.localStorageDir = saved.dir;
+    ENV.storageDriver = saved.driver;
+  });
+
+  beforeEach(async () => {
+    await rm(path.join(ENV.localStorageDir, "uploads"), { recursive: true, force: true });
+    vi.mocked(db.findReferencedStorageKeys).mockResolvedValue([]);
+    vi.mocked(db.getPendingJobUploads).mockResolvedValue([]);
+  });
+
+  it("deletes expired media and keeps only the verdict", async () => {
+    await storagePut("detections/1/images/old.png", "png");
+    vi.mocked(db.findExpiredMedia).mockResolvedValueOnce([
+      { id: 10, s3Key: "detections/1/images/old.png" },
+      { id: 11, s3Key: null }, // text result, only the excerpt goes
+    ]);
+
+    expect(await purgeExpiredMedia(now)).toBe(2);
+    expect(await exists("detections/1/images/old.png")).toBe(false);
+    expect(db.markMediaPurged).toHaveBeenCalledWith([10, 11], now);
+  });
+
+  it("leaves rows whose file couldn't be deleted for the next run", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.findExpiredMedia).mockResolvedValueOnce([
+      { id: 20, s3Key: "../outside-the-root.png" },
+      { id: 21, s3Key: "detections/1/images/gone.png" },
+    ]);
+
+    expect(await purgeExpiredMedia(now)).toBe(1);
+    expect(db.markMediaPurged).toHaveBeenLastCalledWith([21], now);
+  });
+
+  it("sweeps old uploads nothing refers to", async () => {
+    await putAt("uploads/1/orphan.mp4", twoDaysAgo);
+    await putAt("uploads/1/analyzed.mp4", twoDaysAgo);
+    await putAt("uploads/1/queued file.mp4", twoDaysAgo);
+    await putAt("uploads/1/failed.mp4", twoDaysAgo);
+    await putAt("uploads/1/fresh.mp4", now);
+    await putAt("detections/1/video/kept.mp4", twoDaysAgo);
+
+    vi.mocked(db.findReferencedStorageKeys).mockResolvedValueOnce(["uploads/1/analyzed.mp4"]);
+    vi.mocked(db.getPendingJobUploads).mockResolvedValueOnce([
+      { fileKey: null, fileUrl: "/api/storage/uploads/1/queued%20file.mp4?expires=1&signature=x" },
+      { fileKey: "uploads/1/failed.mp4", fileUrl: "/api/storage/uploads/1/failed.mp4?expires=1&signature=x" },
+    ]);
+
+    expect(await sweepOrphanedUploads(now)).toBe(1);
+    expect(await exists("uploads/1/orphan.mp4")).toBe(false);
+    expect(await exists("uploads/1/analyzed.mp4")).toBe(true);
+    expect(await exists("uploads/1/queued file.mp4")).toBe(true);
+    expect(await exists("uploads/1/failed.mp4")).toBe(true);
+    expect(await exists("uploads/1/fresh.mp4")).toBe(true);
+    expect(await exists("detections/1/video/kept.mp4")).toBe(true);
+    // Failed batch items keep their upload for the retry window
+    expect(db.getPendingJobUploads).toHaveBeenCalledWith(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000));
+  });
+
+  it("honours ORPHAN_UPLOAD_GRACE_HOURS", async () => {
+    await putAt("uploads/2/recent.mp4", new Date(now.getTime() - 2 * 60 * 60 * 1000));
+
+    ENV.orphanUploadGraceHours = "1";
+    try {
+      expect(await sweepOrphanedUploads(now)).toBe(1);
+    } finally {
+      ENV.orphanUploadGraceHours = "24";
+    }
+    expect(await exists("uploads/2/recent.mp4")).toBe(false);
+  });
+
+  it("deletes expired export archives", async () => {
+    await storagePut("takeouts/1/5-1.zip", "zip");
+    vi.mocked(db.findExpiredTakeoutExports).mockResolvedValueOnce([{ id: 5, s3Key: "takeouts/1/5-1.zip" }]);
+
+    expect(await deleteExpiredTakeouts(now)).toBe(1);
+    expect(await exists("takeouts/1/5-1.zip")).toBe(false);
+    expect(db.findExpiredTakeoutExports).toHaveBeenCalledWith(now, 100);
+    expect(db.updateTakeoutExport).toHaveBeenCalledWith(5, { s3Key: null });
+  });
+});
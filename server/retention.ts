@@ -0,0 +1,164 @@
+import type { Express, Request, Response } from "express";
+import { ENV } from "./_core/env.js";
+import {
+  findExpiredMedia,
+  findExpiredTakeoutExports,
+  findReferencedStorageKeys,
+  getPendingJobUploads,
+  markMediaPurged,
+  updateTakeoutExport,
+} from "./db.js";
+import { FAILED_JOB_RETRY_WINDOW_MS, isCronRequest } from "./jobs.js";
+import { getStorageDriver } from "./storage.js";
+
+/**
+ * Media retention: workspaces may keep stored files for a limited number of
+ * days, after which only the verdict metadata stays. Uploads that never made
+ * it into an analysis are swept once they are old enough. Data export
+ * archives are deleted once their download link expires.
+ */
+
+export const MAX_RETENTION_DAYS = 3650;
+export const UPLOADS_PREFIX = "uploads/";
+
+const PURGE_BATCH_SIZE = 100;
+const ORPHAN_BATCH_SIZE = 500;
+
+function getOrphanGraceMs() {
+  const hours = parseFloat(ENV.orphanUploadGraceHours);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+function safeDecode(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Delete stored files past their workspace's retention period and null their
+ * keys. Rows whose file couldn't be deleted are retried on the next run.
+ */
+export async function purgeExpiredMedia(now = new Date(), limit = PURGE_BATCH_SIZE): Promise<number> {
+  const driver = getStorageDriver();
+  if (!driver.delete) {
+    console.warn(`[Retention] The ${driver.name} storage driver can't delete files; skipping media purge`);
+    return 0;
+  }
+
+  const expired = await findExpiredMedia(now, limit);
+  const purged: number[] = [];
+
+  for (const row of expired) {
+    try {
+      if (row.s3Key) await driver.delete(row.s3Key);
+      purged.push(row.id);
+    } catch (error) {
+      console.error(`[Retention] Failed to delete ${row.s3Key} of result ${row.id}:`, error);
+    }
+  }
+
+  await markMediaPurged(purged, now);
+  return purged.length;
+}
+
+/**
+ * Delete objects under uploads/ that are older than the grace period and that
+ * neither a result nor an unfinished job refers to.
+ */
+export async function sweepOrphanedUploads(now = new Date(), limit = ORPHAN_BATCH_SIZE): Promise<number> {
+  const driver = getStorageDriver();
+  if (!driver.list || !driver.delete) {
+    console.warn(`[Retention] The ${driver.name} storage driver can't list files; skipping orphan sweep`);
+    return 0;
+  }
+
+  const cutoff = now.getTime() - getOrphanGraceMs();
+  const candidates = (await driver.list(UPLOADS_PREFIX))
+    .filter(object => object.lastModified.getTime() < cutoff)
+    .slice(0, limit);
+  if (candidates.length === 0) return 0;
+
+  const referenced = new Set(await findReferencedStorageKeys(candidates.map(object => object.key)));
+  // Queued and running jobs, and failed batch items that can still be retried, will read their upload
+  const pending = await getPendingJobUploads(new Date(now.getTime() - FAILED_JOB_RETRY_WINDOW_MS));
+  const pendingKeys = new Set(pending.flatMap(upload => (upload.fileKey ? [upload.fileKey] : [])));
+  const pendingUrls = pending.map(upload => safeDecode(upload.fileUrl));
+
+  let deleted = 0;
+  for (const { key } of candidates) {
+    if (referenced.has(key) || pendingKeys.has(key) || pendingUrls.some(url => url.includes(key))) continue;
+    try {
+      await driver.delete(key);
+      deleted++;
+    } catch (error) {
+      console.error(`[Retention] Failed to delete orphaned upload ${key}:`, error);
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Delete data export archives whose download window has passed
+ */
+export async function deleteExpiredTakeouts(now = new Date(), limit = PURGE_BATCH_SIZE): Promise<number> {
+  const driver = getStorageDriver();
+  if (!driver.delete) {
+    console.warn(`[Retention] The ${driver.name} storage driver can't delete files; skipping export cleanup`);
+    return 0;
+  }
+
+  let deleted = 0;
+  for (const row of await findExpiredTakeoutExports(now, limit)) {
+    try {
+      await driver.delete(row.s3Key!);
+      await updateTakeoutExport(row.id, { s3Key: null });
+      deleted++;
+    } catch (error) {
+      console.error(`[Retention] Failed to delete export archive ${row.s3Key}:`, error);
+    }
+  }
+  return deleted;
+}
+
+export async function runRetention(now = new Date()) {
+  const mediaPurged = await purgeExpiredMedia(now);
+  const orphansDeleted = await sweepOrphanedUploads(now);
+  const takeoutsDeleted = await deleteExpiredTakeouts(now);
+  if (mediaPurged > 0 || orphansDeleted > 0 || takeoutsDeleted > 0) {
+    console.log(
+      `[Retention] Purged media of ${mediaPurged} results, deleted ${orphansDeleted} orphaned uploads and ${takeoutsDeleted} expired exports`
+    );
+  }
+  return { mediaPurged, orphansDeleted, takeoutsDeleted };
+}
+
+export function registerRetentionRoutes(app: Express) {
+  app.get("/api/jobs/retention", async (req: Request, res: Response) => {
+    if (!isCronRequest(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    try {
+      res.json(await runRetention());
+    } catch (error) {
+      console.error("[Retention] Cron run failed", error);
+      res.status(500).json({ error: "Retention run failed" });
+    }
+  });
+}
+
+/**
+ * Hourly purge for long-running servers; serverless deployments use the cron route.
+ * Returns a stop function.
+ */
+export function startRetentionWorker(intervalMs = 60 * 60 * 1000): () => void {
+  const timer = setInterval(() => {
+    runRetention().catch(error => console.error("[Retention] Worker tick failed:", error));
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -1,15 +1,50 @@
 import { z } from "zod";
-import { router, publicProcedure, protectedProcedure } from "./_core/trpc.js";
+import { router, publicProcedure, protectedProcedure, rateLimited } from "./_core/trpc.js";
 import { detectionRouter } from "./detection.router.js";
-import { getUploadUrl, storagePut } from "./storage.js"; // ✅ добавили storagePut
-import { getUserByUsername, createUser } from "./db.js";
+import { apiKeysRouter } from "./apiKeys.router.js";
+import { webhooksRouter } from "./webhooks.router.js";
+import { organizationsRouter } from "./organizations.router.js";
+import { adminRouter } from "./admin.router.js";
+import { takeoutRouter } from "./takeout.router.js";
+import { getUploadUrl, storagePut, toKeySegment } from "./storage.js"; // ✅ добавили storagePut
+import { getUserByUsername, createUser, updateUserPassword } from "./db.js";
+import { eraseAccount } from "./deletion.js";
 import { sdk } from "./_core/sdk.js";
 import { TRPCError } from "@trpc/server";
+import {
+  hashPassword,
+  isPasswordHash,
+  needsRehash,
+  verifyLegacyPassword,
+  verifyPassword,
+} from "./password.js";
+import {
+  getClientIp,
+  getLoginRetryAfter,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "./loginThrottle.js";
+
+// Verified when the username doesn't exist so both paths cost one scrypt run
+const dummyPasswordHash = hashPassword("vidary-dummy-password");
+
+// Never send the stored hash to the client
+function toPublicUser<T extends { password?: unknown }>(user: T): Omit<T, "password"> {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+async function checkPassword(password: string, stored: string) {
+  if (isPasswordHash(stored)) return verifyPassword(password, stored);
+  // Rows created before hashing still hold the plaintext; they are rehashed on first login
+  return verifyLegacyPassword(password, stored);
+}
 
 export const appRouter = router({
   // Auth procedures
   auth: router({
     register: publicProcedure
+      .use(rateLimited("auth"))
       .input(z.object({ username: z.string().min(3), password: z.string().min(6) }))
       .mutation(async ({ input, ctx }) => {
         const existing = await getUserByUsername(input.username);
@@ -18,23 +53,57 @@ export const appRouter = router({
         }
         const user = await createUser({
           username: input.username,
-          password: input.password, // In production, use bcrypt to hash passwords
+          password: await hashPassword(input.password),
           name: input.username,
           role: "user",
         });
         await sdk.createSession(ctx.res, user.id);
-        return { success: true, user };
+        return { success: true, user: toPublicUser(user) };
       }),
 
     login: publicProcedure
+      .use(rateLimited("auth"))
       .input(z.object({ username: z.string(), password: z.string() }))
       .mutation(async ({ input, ctx }) => {
+        const ip = getClientIp(ctx.req);
+        const retryAfter = getLoginRetryAfter(input.username, ip);
+        if (retryAfter > 0) {
+          throw new TRPCError({
+            code: "TOO_MANY_REQUESTS",
+            message: `Too many failed login attempts. Try again in ${Math.ceil(retryAfter / 1000)} seconds.`,
+          });
+        }
+
         const user = await getUserByUsername(input.username);
-        if (!user || user.password !== input.password) {
+        let valid = false;
+        if (user) {
+          valid = await checkPassword(input.password, user.password);
+        } else {
+          await verifyPassword(input.password, await dummyPasswordHash);
+        }
+
+        if (!user || !valid) {
+          recordLoginFailure(input.username, ip);
           throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid username or password" });
         }
+        recordLoginSuccess(input.username);
+
+        // Only reported after a correct password so it doesn't reveal which accounts exist
+        if (user.disabledAt) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "This account has been disabled" });
+        }
+
+        if (needsRehash(user.password)) {
+          try {
+            await updateUserPassword(user.id, await hashPassword(input.password));
+          } catch (error) {
+            // Not fatal: the old value still verifies and is retried on the next login
+            console.error("[Auth] Failed to rehash password:", error);
+          }
+        }
+
         await sdk.createSession(ctx.res, user.id);
-        return { success: true, user };
+        return { success: true, user: toPublicUser(user) };
       }),
 
     logout: publicProcedure.mutation(async ({ ctx }) => {
@@ -42,20 +111,42 @@ export const appRouter = router({
       return { success: true };
     }),
 
+    /**
+     * Erase the account and everything it owns. Needs the password again;
+     * returns the deletion receipt.
+     */
+    deleteAccount: protectedProcedure
+      .use(rateLimited("auth"))
+      .input(z.object({ password: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        if (!(await checkPassword(input.password, ctx.user.password))) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "Incorrect password" });
+        }
+
+        const receipt = await eraseAccount(ctx.user);
+        sdk.clearSession(ctx.res);
+        return { success: true, receipt };
+      }),
+
     me: publicProcedure.query(async ({ ctx }) => {
-      return ctx.user || null;
+      return ctx.user ? toPublicUser(ctx.user) : null;
     }),
   }),
 
   // Sub-routers
   detection: detectionRouter,
+  apiKeys: apiKeysRouter,
+  webhooks: webhooksRouter,
+  organizations: organizationsRouter,
+  admin: adminRouter,
+  takeout: takeoutRouter,
 
   storage: router({
     // ✅ оставляем как есть (может пригодиться позже)
     getPresignedUrl: protectedProcedure
       .input(z.object({ fileName: z.string(), fileType: z.string() }))
       .mutation(async ({ input, ctx }) => {
-        const key = `uploads/${ctx.user.id}/${Date.now()}-${input.fileName}`;
+        const key = `uploads/${ctx.user.id}/${Date.now()}-${toKeySegment(input.fileName)}`;
         return await getUploadUrl(key);
       }),
 
@@ -69,7 +160,7 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
-        const key = `uploads/${ctx.user.id}/${Date.now()}-${input.fileName}`;
+        const key = `uploads/${ctx.user.id}/${Date.now()}-${toKeySegment(input.fileName)}`;
         const buffer = Buffer.from(input.fileData, "base64");
 
         const { url } = await storagePut(key, buffer, input.mimeType);
@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import dns from "dns";
+import express from "express";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { Readable } from "stream";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { ENV } from "./_core/env";
+import {
+  getStorageDriver,
+  storageGet,
+  storageKeyFromUrl,
+  storagePut,
+  storageRead,
+  toKeySegment,
+} from "./storage";
+import { fetchRemoteFile } from "./analysis";
+import {
+  createSignedLocalUrl,
+  readSignedLocalUrl,
+  registerStorageRoutes,
+  verifySignedLocalUrl,
+} from "./localStorage";
+
+describe("local storage driver", () => {
+  let root: string;
+  let server: Server;
+  let baseUrl: string;
+  const saved = { dir: ENV.localStorageDir, driver: ENV.storageDriver, secret: ENV.cookieSecret };
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "storage-test-"));
+    ENV.localStorageDir = root;
+    ENV.storageDriver = "local";
+    ENV.cookieSecret = "test-secret";
+
+    const app = express();
+    registerStorageRoutes(app);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(done => server.close(() => done()));
+    await rm(root, { recursive: true, force: true });
+    ENV.localStorageDir = saved.dir;
+    ENV.storageDriver = saved.driver;
+    ENV.cookieSecret = saved.secret;
+  });
+
+  it("is picked by STORAGE_DRIVER and rejects unknown names", () => {
+    expect(getStorageDriver().name).toBe("local");
+
+    ENV.storageDriver = "ftp";
+    expect(() => getStorageDriver()).toThrow("Unknown storage driver: ftp");
+    ENV.storageDriver = "local";
+  });
+
+  it("stores buffers and streams and reads them back", async () => {
+    await storagePut("/1/images/a.png", Buffer.from("png bytes"), "image/png");
+    await storagePut("1/audio/b.mp3", Readable.from([Buffer.from("mp3 "), Buffer.from("bytes")]), "audio/mpeg");
+
+    expect((await storageRead("1/images/a.png")).toString()).toBe("png bytes");
+    expect((await storageRead("1/audio/b.mp3")).toString()).toBe("mp3 bytes");
+  });
+
+  it("refuses keys outside the storage root", async () => {
+    await expect(storagePut("../escape.txt", "x")).rejects.toThrow("Invalid storage key");
+    await expect(storageRead("1/../../etc/passwd")).rejects.toThrow("Invalid storage key");
+    // Stays inside the root, but would reach another user's directory
+    await expect(storagePut("detections/1/image/../../2/image/x.png", "x")).rejects.toThrow("Invalid storage key");
+  });
+
+  it("reduces client file names to one key segment", () => {
+    expect(toKeySegment("../../2/image/x.png")).toBe("x.png");
+    expect(toKeySegment("..\\..\\evil.png")).toBe("evil.png");
+    expect(toKeySegment("..")).toBe("_");
+    expect(toKeySegment("photo..final.png")).toBe("photo_final.png");
+    expect(toKeySegment("")).toBe("file");
+  });
+
+  it("serves files through signed URLs", async () => {
+    await storagePut("2/report.png", Buffer.from("hello"), "image/png");
+    const { url } = await storageGet("2/report.png");
+
+    const res = await fetch(`${baseUrl}${url}`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/png");
+    expect(await res.text()).toBe("hello");
+    expect(res.headers.get("x-content-type-options")).toBe("nosniff");
+    expect(res.headers.get("content-disposition")).toContain("attachment");
+
+    const tampered = url.replace("2/report.png", "2/other.png");
+    expect((await fetch(`${baseUrl}${tampered}`)).status).toBe(403);
+    expect((await fetch(`${baseUrl}/api/storage/2/report.png`)).status).toBe(403);
+  });
+
+  it("never serves markup from the app's origin", async () => {
+    await storagePut("2/x.html", "<script>alert(1)</script>", "text/html");
+    await storagePut("2/x.svg", "<svg onload=alert(1)></svg>", "image/svg+xml");
+
+    for (const key of ["2/x.html", "2/x.svg"]) {
+      const res = await fetch(`${baseUrl}${(await storageGet(key)).url}`);
+      expect(res.headers.get("content-type")).toBe("application/octet-stream");
+      expect(res.headers.get("content-disposition")).toContain("attachment");
+    }
+  });
+
+  it("expires signed URLs", async () => {
+    const issuedAt = Date.now() - 2 * 60 * 60 * 1000;
+    const url = new URL(createSignedLocalUrl("2/report.png", 60, issuedAt), baseUrl);
+
+    expect(verifySignedLocalUrl("2/report.png", url.searchParams.get("expires"), url.searchParams.get("signature"), issuedAt)).toBe(true);
+    expect((await fetch(url)).status).toBe(403);
+    await expect(readSignedLocalUrl(url.href)).rejects.toThrow("invalid or has expired");
+  });
+
+  it("reads its own URLs without going over HTTP", async () => {
+    await storagePut("3/my file.txt", "contents");
+    const { url } = await storageGet("3/my file.txt");
+
+    expect((await readSignedLocalUrl(url))?.toString()).toBe("contents");
+    expect(await readSignedLocalUrl("https://cdn.example.com/uploads/x.png")).toBeNull();
+  });
+
+  it("maps its own links back to storage keys", async () => {
+    const { url } = await storageGet("uploads/1-clip.mp4");
+
+    expect(storageKeyFromUrl(url)).toBe("uploads/1-clip.mp4");
+    expect(storageKeyFromUrl("https://cdn.example.com/uploads/1-clip.mp4")).toBeNull();
+    expect(() => storageKeyFromUrl(url.replace("1-clip", "2-clip"))).toThrow("invalid or has expired");
+  });
+
+  it("recognizes links into the configured S3 bucket only", () => {
+    const saved = { ...ENV.s3 };
+    ENV.storageDriver = "s3";
+    try {
+      Object.assign(ENV.s3, { bucket: "media", region: "eu-west-1", endpoint: "" });
+      expect(storageKeyFromUrl("https://media.s3.eu-west-1.amazonaws.com/uploads/1-a%20b.mp4?X-Amz-Signature=x")).toBe(
+        "uploads/1-a b.mp4"
+      );
+      expect(storageKeyFromUrl("https://other.s3.eu-west-1.amazonaws.com/uploads/1-a.mp4")).toBeNull();
+
+      Object.assign(ENV.s3, { endpoint: "https://s3.example-storage.com" });
+      expect(storageKeyFromUrl("https://s3.example-storage.com/media/uploads/1-a.mp4")).toBe("uploads/1-a.mp4");
+      expect(storageKeyFromUrl("https://s3.example-storage.com/other/uploads/1-a.mp4")).toBeNull();
+    } finally {
+      Object.assign(ENV.s3, saved);
+      ENV.storageDriver = "local";
+    }
+  });
+
+  describe("fetchRemoteFile", () => {
+    it("reads storage links by key", async () => {
+      await storagePut("uploads/2-voice.mp3", "mp3 bytes");
+      const { url } = await storageGet("uploads/2-voice.mp3");
+
+      expect((await fetchRemoteFile(url)).toString()).toBe("mp3 bytes");
+    });
+
+    it("never requests private addresses", async () => {
+      await expect(fetchRemoteFile(`${baseUrl}/internal/metadata`)).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+        message: "fileUrl fetch failed: fileUrl must point to a public host",
+      });
+      await expect(fetchRemoteFile("http://[::ffff:127.0.0.1]/x")).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    });
+
+    it("checks what a host name resolves to", async () => {
+      const lookup = vi.spyOn(dns.promises, "lookup").mockResolvedValue([{ address: "10.0.0.8", family: 4 }] as never);
+      try {
+        await expect(fetchRemoteFile("http://files.example.com/clip.mp4")).rejects.toMatchObject({
+          message: "fileUrl fetch failed: fileUrl must point to a public host",
+        });
+        expect(lookup).toHaveBeenCalledTimes(1);
+      } finally {
+        lookup.mockRestore();
+      }
+    });
+  });
+});
@@ -1,9 +1,53 @@
-// Preconfigured storage helpers for Manus WebDev templates
-// Supports both Biz-provided storage proxy and direct AWS S3
+// Storage helpers behind a small driver interface:
+// the Biz-provided Forge proxy, direct AWS S3, or the local disk (server/localStorage.ts)
+import path from "path";
+import { Readable } from "stream";
 import { createPresignedPost } from "@aws-sdk/s3-presigned-post";
 import { ENV } from './_core/env.js';
-import { S3Client, PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { localStorageDriver, parseSignedLocalUrl } from "./localStorage.js";
+
+export type StorageBody = Buffer | Uint8Array | string | Readable;
+
+export const STORAGE_DRIVERS = ["forge", "s3", "local"] as const;
+export type StorageDriverName = (typeof STORAGE_DRIVERS)[number];
+
+export interface StoredObject {
+  key: string;
+  lastModified: Date;
+}
+
+export interface StorageDriver {
+  name: StorageDriverName;
+  put(key: string, data: StorageBody, contentType: string): Promise<{ key: string; url: string }>;
+  /** A download URL for the object; signed and short-lived where the backend supports it */
+  get(key: string): Promise<{ key: string; url: string }>;
+  /** The object's bytes, for server-side use (reports, re-analysis) */
+  read(key: string): Promise<Buffer>;
+  /** Remove an object; missing objects are not an error. Used by the retention purge */
+  delete?(key: string): Promise<void>;
+  /** Every object under `prefix`, used to find orphaned uploads */
+  list?(prefix: string): Promise<StoredObject[]>;
+  /** Direct browser upload (presigned POST); not every driver supports it */
+  getUploadUrl?(
+    key: string
+  ): Promise<{ key: string; url: string; fields: Record<string, string>; fileUrl: string }>;
+}
+
+async function toBuffer(data: StorageBody): Promise<Buffer | string> {
+  if (!(data instanceof Readable)) return typeof data === "string" ? data : Buffer.from(data);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of data) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
 
 // --- Forge Proxy Helpers ---
 function getStorageConfig() {
@@ -20,10 +64,83 @@ function normalizeKey(relKey: string): string {
   return relKey.replace(/^\/+/, "");
 }
 
+/**
+ * A client-supplied file name reduced to a single key segment: no directories,
+ * no separators and no ".." that could point the key at someone else's files
+ */
+export function toKeySegment(fileName: string): string {
+  const base = path.posix.basename(fileName.replace(/\\/g, "/"));
+  return base.replace(/\.{2,}/g, "_").replace(/[\/\\\x00-\x1f]/g, "_") || "file";
+}
+
 function buildAuthHeaders(apiKey: string): HeadersInit {
   return { Authorization: `Bearer ${apiKey}` };
 }
 
+function forgeUrl(path: string, key: string) {
+  const url = new URL(path, ensureTrailingSlash(getStorageConfig().baseUrl));
+  url.searchParams.set("path", key);
+  return url;
+}
+
+const forgeDriver: StorageDriver = {
+  name: "forge",
+
+  async put(key, data, contentType) {
+    const body = await toBuffer(data);
+    const form = new FormData();
+    form.append("file", new Blob([body as any], { type: contentType }), key.split("/").pop() ?? key);
+
+    const response = await fetch(forgeUrl("v1/storage/upload", key), {
+      method: "POST",
+      headers: buildAuthHeaders(getStorageConfig().apiKey),
+      body: form,
+    });
+    if (!response.ok) {
+      throw new Error(`Storage upload failed (${response.status})`);
+    }
+    const { url } = await response.json();
+    return { key, url };
+  },
+
+  async get(key) {
+    const response = await fetch(forgeUrl("v1/storage/downloadUrl", key), {
+      method: "GET",
+      headers: buildAuthHeaders(getStorageConfig().apiKey),
+    });
+    if (!response.ok) {
+      throw new Error(`Storage download URL failed (${response.status})`);
+    }
+    const { url } = await response.json();
+    return { key, url };
+  },
+
+  async read(key) {
+    const { url } = await this.get(key);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Storage download failed (${response.status})`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async getUploadUrl(key) {
+    const response = await fetch(forgeUrl("v1/storage/uploadUrl", key), {
+      method: "GET",
+      headers: buildAuthHeaders(getStorageConfig().apiKey),
+    });
+    if (!response.ok) {
+      throw new Error(`Storage upload URL failed (${response.status})`);
+    }
+
+    const json = await response.json();
+    if (json?.url && json?.fields && json?.fileUrl) {
+      return { key, url: json.url, fields: json.fields, fileUrl: json.fileUrl };
+    }
+    throw new Error("Forge proxy must return {url, fields, fileUrl} for POST upload.");
+  },
+};
+
 // --- AWS S3 Client ---
 let s3Client: S3Client | null = null;
 function getS3Client() {
@@ -34,8 +151,7 @@ function getS3Client() {
   let endpoint = ENV.s3.endpoint?.trim();
 
   if (!accessKeyId || !secretAccessKey) {
-    console.warn("[S3] Missing credentials");
-    return null;
+    throw new Error("S3 storage needs S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
   }
 
   // Ensure endpoint has protocol
@@ -55,52 +171,16 @@ function getS3Client() {
   return s3Client;
 }
 
-// --- Public API ---
-
-export async function storagePut(
-  relKey: string,
-  data: Buffer | Uint8Array | string,
-  contentType = "application/octet-stream"
-): Promise<{ key: string; url: string }> {
-  const { baseUrl, apiKey } = getStorageConfig();
-  const key = normalizeKey(relKey);
-
-  // Try Forge Proxy first
-  if (baseUrl && apiKey) {
-    const uploadUrl = new URL("v1/storage/upload", ensureTrailingSlash(baseUrl));
-    uploadUrl.searchParams.set("path", key);
-
-    const blob =
-      typeof data === "string"
-        ? new Blob([data], { type: contentType })
-        : new Blob([data as any], { type: contentType });
-
-    const form = new FormData();
-    form.append("file", blob, key.split("/").pop() ?? key);
-
-    const response = await fetch(uploadUrl, {
-      method: "POST",
-      headers: buildAuthHeaders(apiKey),
-      body: form,
-    });
-
-    if (response.ok) {
-      const { url } = await response.json();
-      return { key, url };
-    }
-  }
+const s3Driver: StorageDriver = {
+  name: "s3",
 
-  // Fallback to direct S3
-  const client = getS3Client();
-  if (client && ENV.s3.bucket) {
-    const command = new PutObjectCommand({
-      Bucket: ENV.s3.bucket,
-      Key: key,
-      Body: data as any,
-      ContentType: contentType,
+  async put(key, data, contentType) {
+    // lib-storage switches to a multipart upload for large bodies and accepts streams
+    const upload = new Upload({
+      client: getS3Client(),
+      params: { Bucket: ENV.s3.bucket, Key: key, Body: data, ContentType: contentType },
     });
-
-    await (client as any).send(command);
+    await upload.done();
 
     // Construct URL (assumes public access or correct endpoint)
     const url = ENV.s3.endpoint
@@ -108,72 +188,48 @@ export async function storagePut(
       : `https://${ENV.s3.bucket}.s3.${ENV.s3.region || "us-east-1"}.amazonaws.com/${key}`;
 
     return { key, url };
-  }
-
-  throw new Error("Storage configuration missing: set BUILT_IN_FORGE_API_KEY or S3 credentials");
-}
-
-export async function storageGet(relKey: string): Promise<{ key: string; url: string }> {
-  const { baseUrl, apiKey } = getStorageConfig();
-  const key = normalizeKey(relKey);
+  },
 
-  // Try Forge Proxy first
-  if (baseUrl && apiKey) {
-    const downloadApiUrl = new URL("v1/storage/downloadUrl", ensureTrailingSlash(baseUrl));
-    downloadApiUrl.searchParams.set("path", key);
-    const response = await fetch(downloadApiUrl, {
-      method: "GET",
-      headers: buildAuthHeaders(apiKey),
-    });
-    if (response.ok) {
-      const { url } = await response.json();
-      return { key, url };
-    }
-  }
-
-  // Fallback to direct S3 (Presigned URL for download)
-  const client = getS3Client();
-  if (client && ENV.s3.bucket) {
-    const command = new GetObjectCommand({
-      Bucket: ENV.s3.bucket,
-      Key: key,
-    });
-    const url = await getSignedUrl(client as any, command as any, { expiresIn: 3600 });
+  async get(key) {
+    const command = new GetObjectCommand({ Bucket: ENV.s3.bucket, Key: key });
+    const url = await getSignedUrl(getS3Client() as any, command as any, { expiresIn: 3600 });
     return { key, url };
-  }
-
-  throw new Error("Storage configuration missing");
-}
-
-export async function getUploadUrl(
-  relKey: string
-): Promise<{ key: string; url: string; fields: Record<string, string>; fileUrl: string }> {
-  const { baseUrl, apiKey } = getStorageConfig();
-  const key = normalizeKey(relKey);
-
-  if (baseUrl && apiKey) {
-    const uploadApiUrl = new URL("v1/storage/uploadUrl", ensureTrailingSlash(baseUrl));
-    uploadApiUrl.searchParams.set("path", key);
+  },
+
+  async read(key) {
+    const response = await getS3Client().send(new GetObjectCommand({ Bucket: ENV.s3.bucket, Key: key }));
+    if (!response.Body) throw new Error(`Storage object not found: ${key}`);
+    return Buffer.from(await response.Body.transformToByteArray());
+  },
+
+  async delete(key) {
+    await getS3Client().send(new DeleteObjectCommand({ Bucket: ENV.s3.bucket, Key: key }));
+  },
+
+  async list(prefix) {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await getS3Client().send(
+        new ListObjectsV2Command({ Bucket: ENV.s3.bucket, Prefix: prefix, ContinuationToken: continuationToken })
+      );
+      for (const object of page.Contents ?? []) {
+        if (object.Key) objects.push({ key: object.Key, lastModified: object.LastModified ?? new Date(0) });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
 
-    const response = await fetch(uploadApiUrl, {
-      method: "GET",
-      headers: buildAuthHeaders(apiKey),
-    });
+    return objects;
+  },
 
-    if (response.ok) {
-      const json = await response.json();
-      if (json?.url && json?.fields && json?.fileUrl) {
-        return { key, url: json.url, fields: json.fields, fileUrl: json.fileUrl };
-      }
-      throw new Error("Forge proxy must return {url, fields, fileUrl} for POST upload.");
+  async getUploadUrl(key) {
+    if (!ENV.s3.endpoint) {
+      throw new Error("Direct uploads to S3 need S3_ENDPOINT");
     }
-  }
-
-  const client = getS3Client();
-  if (client && ENV.s3.bucket && ENV.s3.endpoint) {
     const maxSize = 120 * 1024 * 1024;
 
-    const { url, fields } = await createPresignedPost(client as any, {
+    const { url, fields } = await createPresignedPost(getS3Client() as any, {
       Bucket: ENV.s3.bucket,
       Key: key,
       Expires: 3600,
@@ -185,7 +241,103 @@ export async function getUploadUrl(
     const fileUrl = `${base}/${ENV.s3.bucket}/${key}`;
 
     return { key, url, fields, fileUrl };
+  },
+};
+
+// --- Driver selection ---
+const drivers: Record<StorageDriverName, StorageDriver> = {
+  forge: forgeDriver,
+  s3: s3Driver,
+  local: localStorageDriver,
+};
+
+/**
+ * STORAGE_DRIVER picks a backend explicitly. Otherwise the Forge proxy wins,
+ * then S3; without either, development and tests fall back to the local disk
+ * while production refuses to start writing files nobody configured.
+ */
+export function getStorageDriver(): StorageDriver {
+  const name = ENV.storageDriver.trim();
+  if (name) {
+    if (!STORAGE_DRIVERS.includes(name as StorageDriverName)) {
+      throw new Error(`Unknown storage driver: ${name}`);
+    }
+    return drivers[name as StorageDriverName];
+  }
+
+  const { baseUrl, apiKey } = getStorageConfig();
+  if (baseUrl && apiKey) return forgeDriver;
+  if (ENV.s3.bucket && ENV.s3.accessKeyId && ENV.s3.secretAccessKey) return s3Driver;
+  if (!ENV.isProduction) return localStorageDriver;
+
+  throw new Error(
+    "Storage configuration missing: set STORAGE_DRIVER=local, BUILT_IN_FORGE_API_KEY or S3 credentials"
+  );
+}
+
+// --- Public API ---
+
+export async function storagePut(
+  relKey: string,
+  data: StorageBody,
+  contentType = "application/octet-stream"
+): Promise<{ key: string; url: string }> {
+  return await getStorageDriver().put(normalizeKey(relKey), data, contentType);
+}
+
+export async function storageGet(relKey: string): Promise<{ key: string; url: string }> {
+  return await getStorageDriver().get(normalizeKey(relKey));
+}
+
+export async function storageRead(relKey: string): Promise<Buffer> {
+  return await getStorageDriver().read(normalizeKey(relKey));
+}
+
+/**
+ * Key of the object in the configured S3 bucket that `url` points at, path or virtual-host style
+ */
+function s3KeyFromUrl(url: URL): string | null {
+  const { bucket, region, endpoint } = ENV.s3;
+  if (!bucket) return null;
+
+  const endpointHost = endpoint
+    ? new URL(endpoint.startsWith("http") ? endpoint : `https://${endpoint}`).host
+    : `s3.${region || "us-east-1"}.amazonaws.com`;
+  const virtualHosts = [`${bucket}.${endpointHost}`, ...(endpoint ? [] : [`${bucket}.s3.amazonaws.com`])];
+
+  let key: string | null = null;
+  if (virtualHosts.includes(url.host)) key = url.pathname.slice(1);
+  else if (url.host === endpointHost && url.pathname.startsWith(`/${bucket}/`)) key = url.pathname.slice(bucket.length + 2);
+  if (!key) return null;
+
+  const decoded = key.split("/").map(decodeURIComponent);
+  return decoded.includes("..") || decoded.includes("") ? null : decoded.join("/");
+}
+
+/**
+ * The storage key behind a file URL we handed out (signed local links, links
+ * into the configured S3 bucket), or null when the URL points anywhere else.
+ * Throws for local links with a bad or expired signature.
+ */
+export function storageKeyFromUrl(fileUrl: string): string | null {
+  const localKey = parseSignedLocalUrl(fileUrl);
+  if (localKey !== null) return localKey;
+
+  let url: URL;
+  try {
+    url = new URL(fileUrl);
+  } catch {
+    return null;
   }
+  return getStorageDriver().name === "s3" ? s3KeyFromUrl(url) : null;
+}
 
-  throw new Error("Storage configuration missing: set forge key or S3  credentials");
+export async function getUploadUrl(
+  relKey: string
+): Promise<{ key: string; url: string; fields: Record<string, string>; fileUrl: string }> {
+  const driver = getStorageDriver();
+  if (!driver.getUploadUrl) {
+    throw new Error(`The ${driver.name} storage driver doesn't support direct uploads; use /api/upload`);
+  }
+  return await driver.getUploadUrl(normalizeKey(relKey));
 }
@@ -0,0 +1,19 @@
+import { protectedProcedure, router } from "./_core/trpc.js";
+import { getTakeoutStatus, requestTakeout } from "./takeout.js";
+
+export const takeoutRouter = router({
+  /**
+   * Latest export of the signed-in user, with a download link while it's available
+   */
+  latest: protectedProcedure.query(async ({ ctx }) => {
+    return await getTakeoutStatus(ctx.user.id);
+  }),
+
+  /**
+   * Queue a new export; returns the one in progress if there is one
+   */
+  request: protectedProcedure.mutation(async ({ ctx }) => {
+    await requestTakeout(ctx.user.id);
+    return await getTakeoutStatus(ctx.user.id);
+  }),
+});
@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { inflateRawSync } from "zlib";
+
+vi.mock("./db", () => ({
+  getUserById: vi.fn(),
+  getUserOrganizations: vi.fn(),
+  getUserDetectionResults: vi.fn(),
+  getUserShareLinks: vi.fn(),
+  getLatestTakeoutExport: vi.fn(),
+  createTakeoutExport: vi.fn(),
+  claimNextTakeoutExport: vi.fn(),
+  updateTakeoutExport: vi.fn(),
+  requeueStaleTakeoutExports: vi.fn(),
+  HISTORY_SORT_FIELDS: ["createdAt"],
+}));
+
+import { ENV } from "./_core/env";
+import * as db from "./db";
+import { storagePut, storageRead } from "./storage";
+import { getTakeoutStatus, processTakeoutExport, requestTakeout } from "./takeout";
+import type { TakeoutExport } from "../drizzle/schema";
+
+/**
+ * Read every entry of a ZIP through its central directory
+ */
+function readZip(zip: Buffer) {
+  const entries = new Map<string, Buffer>();
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  let offset = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const size = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const skip = nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const local = zip.readUInt32LE(offset + 42);
+    const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    const data = zip.subarray(start, start + size);
+    entries.set(name, method === 8 ? inflateRawSync(data) : data);
+    offset += 46 + skip;
+  }
+  return entries;
+}
+
+const user = {
+  id: 7,
+  username: "alice",
+  email: "alice@example.com",
+  password: "hashed-secret",
+  role: "user",
+} as any;
+
+const results = [
+  { id: 1, userId: 7, fileName: "cat.png", fileType: "image", verdict: "ai", confidence: 91, s3Key: "detections/7/images/cat.png", createdAt: new Date("2026-01-02T00:00:00Z") },
+  { id: 2, userId: 7, fileName: "notes/today.txt", fileType: "text", verdict: "human", confidence: 80, s3Key: null, createdAt: new Date("2026-01-03T00:00:00Z") },
+  { id: 3, userId: 7, fileName: "gone.mp4", fileType: "video", verdict: "ai", confidence: 70, s3Key: "detections/7/video/gone.mp4", createdAt: new Date("2026-01-04T00:00:00Z") },
+] as any[];
+
+function takeoutRow(overrides: Partial<TakeoutExport> = {}): TakeoutExport {
+  return {
+    id: 4,
+    userId: 7,
+    status: "running",
+    attempts: 1,
+    lastError: null,
+    s3Key: null,
+    fileSize: null,
+    expiresAt: null,
+    startedAt: new Date(),
+    completedAt: null,
+    createdAt: new Date("2026-03-01T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("takeout", () => {
+  const saved = { dir: ENV.localStorageDir, driver: ENV.storageDriver };
+
+  beforeAll(async () => {
+    ENV.localStorageDir = await mkdtemp(path.join(tmpdir(), "takeout-test-"));
+    ENV.storageDriver = "local";
+  });
+
+  afterAll(async () => {
+    await rm(ENV.localStorageDir, { recursive: true, force: true });
+    ENV.localStorageDir = saved.dir;
+    ENV.storageDriver = saved.driver;
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getUserById).mockResolvedValue(user);
+    vi.mocked(db.getUserOrganizations).mockResolvedValue([{ id: 10, name: "Acme", role: "owner" }]);
+    vi.mocked(db.getUserDetectionResults).mockResolvedValue(results);
+    vi.mocked(db.getUserShareLinks).mockResolvedValue([{ id: 5, shareToken: "tok", viewCount: 12 }] as any);
+  });
+
+  it("builds an archive with profile, results, media and share links", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    await storagePut("detections/7/images/cat.png", Buffer.from("png-bytes"));
+
+    await processTakeoutExport(takeoutRow());
+
+    const update = vi.mocked(db.updateTakeoutExport).mock.calls[0][1];
+    expect(update).toMatchObject({ status: "succeeded", s3Key: expect.stringMatching(/^takeouts\/7\/4-\d+\.zip$/) });
+    expect(update.expiresAt!.getTime() - update.completedAt!.getTime()).toBeCloseTo(7 * 24 * 60 * 60 * 1000, -3);
+
+    const zip = await storageRead(update.s3Key!);
+    expect(update.fileSize).toBe(zip.length);
+    const entries = readZip(zip);
+
+    const profile = JSON.parse(entries.get("profile.json")!.toString());
+    expect(profile).toMatchObject({ username: "alice", organizations: [{ name: "Acme" }] });
+    expect(profile).not.toHaveProperty("password");
+
+    expect(JSON.parse(entries.get("results/results.json")!.toString())).toHaveLength(3);
+    expect(entries.get("results/results.csv")!.toString()).toContain("cat.png");
+    expect(JSON.parse(entries.get("share-links.json")!.toString())).toEqual([{ id: 5, shareToken: "tok", viewCount: 12 }]);
+    expect(entries.get("media/1-cat.png")!.toString()).toBe("png-bytes");
+
+    const manifest = JSON.parse(entries.get("manifest.json")!.toString());
+    expect(manifest.media).toEqual([{ resultId: 1, path: "media/1-cat.png" }]);
+    expect(manifest.missingMedia).toEqual([{ resultId: 3, fileName: "gone.mp4" }]);
+  });
+
+  it("requeues a failed build until attempts run out", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.getUserDetectionResults).mockRejectedValue(new Error("db down"));
+
+    await processTakeoutExport(takeoutRow({ attempts: 1 }));
+    expect(db.updateTakeoutExport).toHaveBeenLastCalledWith(4, expect.objectContaining({ status: "queued", lastError: "db down" }));
+
+    await processTakeoutExport(takeoutRow({ attempts: 3 }));
+    expect(db.updateTakeoutExport).toHaveBeenLastCalledWith(4, expect.objectContaining({ status: "failed" }));
+  });
+
+  it("reuses an export in progress and limits new ones to one an hour", async () => {
+    const now = new Date("2026-03-01T10:30:00Z").getTime();
+
+    vi.mocked(db.getLatestTakeoutExport).mockResolvedValueOnce(takeoutRow({ status: "queued" }));
+    expect(await requestTakeout(7, now)).toMatchObject({ id: 4, status: "queued" });
+    expect(db.createTakeoutExport).not.toHaveBeenCalled();
+
+    vi.mocked(db.getLatestTakeoutExport).mockResolvedValueOnce(takeoutRow({ status: "succeeded" }));
+    await expect(requestTakeout(7, now)).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS" });
+
+    vi.mocked(db.getLatestTakeoutExport).mockResolvedValueOnce(takeoutRow({ status: "succeeded" }));
+    vi.mocked(db.createTakeoutExport).mockResolvedValueOnce(takeoutRow({ id: 5, status: "queued" }));
+    expect(await requestTakeout(7, now + 60 * 60 * 1000)).toMatchObject({ id: 5 });
+  });
+
+  it("only links archives that haven't expired", async () => {
+    const now = new Date("2026-03-05T00:00:00Z");
+    const built = { status: "succeeded" as const, s3Key: "takeouts/7/4-1.zip", fileSize: 100 };
+
+    vi.mocked(db.getLatestTakeoutExport).mockResolvedValueOnce(
+      takeoutRow({ ...built, expiresAt: new Date("2026-03-08T00:00:00Z") })
+    );
+    expect((await getTakeoutStatus(7, now))?.downloadUrl).toMatch(/^\/api\/storage\/takeouts\/7\/4-1\.zip\?expires=/);
+
+    vi.mocked(db.getLatestTakeoutExport).mockResolvedValueOnce(
+      takeoutRow({ ...built, expiresAt: new Date("2026-03-04T00:00:00Z") })
+    );
+    expect(await getTakeoutStatus(7, now)).toMatchObject({ downloadUrl: null, expired: true });
+  });
+});
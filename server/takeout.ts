@@ -0,0 +1,199 @@
+import archiver from "archiver";
+import { PassThrough, type Writable } from "stream";
+import { TRPCError } from "@trpc/server";
+import type { TakeoutExport } from "../drizzle/schema.js";
+import {
+  claimNextTakeoutExport,
+  createTakeoutExport,
+  getLatestTakeoutExport,
+  getUserById,
+  getUserDetectionResults,
+  getUserOrganizations,
+  getUserShareLinks,
+  requeueStaleTakeoutExports,
+  updateTakeoutExport,
+} from "./db.js";
+import { buildCsv } from "./export.js";
+import { storageGet, storagePut, storageRead } from "./storage.js";
+
+/**
+ * Personal data export: one ZIP with the user's profile, every result they
+ * ran (JSON and CSV), the original media and their share links. Built in the
+ * background and downloaded through an expiring link.
+ */
+
+export const TAKEOUT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Archives include every stored file, so don't let anyone rebuild them back to back
+const TAKEOUT_COOLDOWN_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+// A running export older than this is assumed to belong to a dead worker
+const STALE_EXPORT_MS = 30 * 60 * 1000;
+
+function safeFileName(name: string) {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]/g, "_").slice(0, 150) || "file";
+}
+
+/**
+ * Add one entry and wait until archiver has consumed it, so media files are
+ * held in memory one at a time
+ */
+function appendEntry(archive: archiver.Archiver, data: Buffer | string, name: string, store = false) {
+  return new Promise<void>(resolve => {
+    archive.once("entry", () => resolve());
+    archive.append(data, { name, store });
+  });
+}
+
+function toJson(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Stream the user's takeout ZIP into `output`. Returns the archive size in bytes.
+ */
+export async function writeTakeoutArchive(userId: number, output: Writable): Promise<number> {
+  const user = await getUserById(userId);
+  if (!user) throw new Error(`User ${userId} not found`);
+
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const failed = new Promise<never>((_, reject) => archive.on("error", reject));
+  archive.pipe(output);
+
+  const build = async () => {
+    const { password: _password, ...profile } = user;
+    const organizations = await getUserOrganizations(userId);
+    await appendEntry(archive, toJson({ ...profile, organizations }), "profile.json");
+
+    const results = await getUserDetectionResults(userId);
+    await appendEntry(archive, toJson(results), "results/results.json");
+    await appendEntry(archive, buildCsv(results), "results/results.csv");
+
+    await appendEntry(archive, toJson(await getUserShareLinks(userId)), "share-links.json");
+
+    const media: { resultId: number; path: string }[] = [];
+    const missingMedia: { resultId: number; fileName: string }[] = [];
+    for (const result of results) {
+      if (!result.s3Key) continue;
+      try {
+        const buffer = await storageRead(result.s3Key);
+        const path = `media/${result.id}-${safeFileName(result.fileName)}`;
+        // Images, audio and video are already compressed
+        await appendEntry(archive, buffer, path, true);
+        media.push({ resultId: result.id, path });
+      } catch (error) {
+        console.warn(`[Takeout] Media of result ${result.id} unavailable:`, error);
+        missingMedia.push({ resultId: result.id, fileName: result.fileName });
+      }
+    }
+
+    await appendEntry(
+      archive,
+      toJson({ generatedAt: new Date().toISOString(), userId, results: results.length, media, missingMedia }),
+      "manifest.json"
+    );
+    await archive.finalize();
+  };
+
+  await Promise.race([build(), failed]);
+  return archive.pointer();
+}
+
+/**
+ * Build the archive straight into storage
+ */
+async function buildTakeout(takeout: TakeoutExport) {
+  const key = `takeouts/${takeout.userId}/${takeout.id}-${Date.now()}.zip`;
+  const stream = new PassThrough();
+  const upload = storagePut(key, stream, "application/zip");
+
+  try {
+    const size = await writeTakeoutArchive(takeout.userId, stream);
+    await upload;
+    return { key, size };
+  } catch (error) {
+    stream.destroy(error as Error);
+    await upload.catch(() => {});
+    throw error;
+  }
+}
+
+export async function processTakeoutExport(takeout: TakeoutExport) {
+  try {
+    const { key, size } = await buildTakeout(takeout);
+    await updateTakeoutExport(takeout.id, {
+      status: "succeeded",
+      s3Key: key,
+      fileSize: size,
+      lastError: null,
+      completedAt: new Date(),
+      expiresAt: new Date(Date.now() + TAKEOUT_TTL_MS),
+    });
+  } catch (error: any) {
+    console.error(`[Takeout] Export ${takeout.id} attempt ${takeout.attempts} failed:`, error);
+    const canRetry = takeout.attempts < MAX_ATTEMPTS;
+    await updateTakeoutExport(takeout.id, {
+      status: canRetry ? "queued" : "failed",
+      lastError: error?.message ?? String(error),
+      completedAt: canRetry ? null : new Date(),
+    });
+  }
+}
+
+/**
+ * Build up to `max` queued exports. Archives can be large, so one per run by default.
+ */
+export async function runPendingTakeouts(max = 1): Promise<number> {
+  await requeueStaleTakeoutExports(new Date(Date.now() - STALE_EXPORT_MS));
+
+  let processed = 0;
+  while (processed < max) {
+    const takeout = await claimNextTakeoutExport();
+    if (!takeout) break;
+    await processTakeoutExport(takeout);
+    processed++;
+  }
+  return processed;
+}
+
+/**
+ * Queue an export, or return the one already in progress
+ */
+export async function requestTakeout(userId: number, now = Date.now()) {
+  const latest = await getLatestTakeoutExport(userId);
+  if (latest?.status === "queued" || latest?.status === "running") return latest;
+
+  if (latest && now - latest.createdAt.getTime() < TAKEOUT_COOLDOWN_MS) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "You can request a new export once an hour",
+    });
+  }
+
+  const takeout = await createTakeoutExport(userId);
+  if (!takeout) throw new Error("requestTakeout: failed to create export");
+  return takeout;
+}
+
+/**
+ * Client-facing view of the latest export; `downloadUrl` is a short-lived
+ * signed link, only while the archive hasn't expired
+ */
+export async function getTakeoutStatus(userId: number, now = new Date()) {
+  const takeout = await getLatestTakeoutExport(userId);
+  if (!takeout) return null;
+
+  const downloadable =
+    takeout.status === "succeeded" && !!takeout.s3Key && !!takeout.expiresAt && takeout.expiresAt > now;
+
+  return {
+    id: takeout.id,
+    status: takeout.status,
+    fileSize: takeout.fileSize,
+    error: takeout.status === "failed" ? takeout.lastError : null,
+    createdAt: takeout.createdAt,
+    completedAt: takeout.completedAt,
+    expiresAt: takeout.expiresAt,
+    expired: takeout.status === "succeeded" && !downloadable,
+    downloadUrl: downloadable ? (await storageGet(takeout.s3Key!)).url : null,
+  };
+}
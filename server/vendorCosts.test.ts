@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  createVendorCall: vi.fn().mockResolvedValue(undefined),
+  sumVendorCostSince: vi.fn().mockResolvedValue(0),
+}));
+
+vi.mock("./_core/notification", () => ({
+  notifyOwner: vi.fn().mockResolvedValue(true),
+}));
+
+import { ENV } from "./_core/env";
+import { notifyOwner } from "./_core/notification";
+import { createVendorCall, sumVendorCostSince } from "./db";
+import { checkSpendBudgets, meterVendorCall, recordCacheHit } from "./vendorCosts";
+
+const context = { userId: 7, organizationId: 3, fileType: "image" as const, bytes: 2048 };
+
+// Recording is fire-and-forget
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("vendor cost accounting", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  afterEach(() => {
+    ENV.vendorBudgets.daily = "";
+    ENV.vendorBudgets.monthly = "";
+  });
+
+  it("records a successful provider call with its estimated cost", async () => {
+    await expect(meterVendorCall(context, "aiornot", async () => "result")).resolves.toBe("result");
+    await flush();
+
+    expect(createVendorCall).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 7,
+        organizationId: 3,
+        provider: "aiornot",
+        fileType: "image",
+        bytes: 2048,
+        cacheHit: 0,
+        success: 1,
+        estimatedCost: "0.0100",
+      })
+    );
+  });
+
+  it("records failed calls at no cost and rethrows", async () => {
+    const failure = new Error("AI or Not API error: 503");
+    await expect(meterVendorCall(context, "aiornot", () => Promise.reject(failure))).rejects.toBe(failure);
+    await flush();
+
+    expect(createVendorCall).toHaveBeenCalledWith(
+      expect.objectContaining({ success: 0, estimatedCost: "0.0000" })
+    );
+  });
+
+  it("records cache hits without a provider", async () => {
+    recordCacheHit(context, 12);
+    await flush();
+
+    expect(createVendorCall).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: null, cacheHit: 1, durationMs: 12, estimatedCost: "0.0000" })
+    );
+    expect(sumVendorCostSince).not.toHaveBeenCalled();
+  });
+
+  it("doesn't let a recording failure break the analysis", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(createVendorCall).mockRejectedValueOnce(new Error("db down"));
+
+    await expect(meterVendorCall(context, "aiornot", async () => "result")).resolves.toBe("result");
+    await flush();
+  });
+
+  it("alerts the owner when a call crosses the daily budget", async () => {
+    ENV.vendorBudgets.daily = "10";
+    vi.mocked(sumVendorCostSince).mockResolvedValueOnce(10.005);
+
+    await checkSpendBudgets(0.01);
+
+    expect(notifyOwner).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(notifyOwner).mock.calls[0][0].title).toBe("Vendor spend crossed the daily budget");
+  });
+
+  it("doesn't alert again once the budget was already exceeded", async () => {
+    ENV.vendorBudgets.daily = "10";
+    ENV.vendorBudgets.monthly = "100";
+    vi.mocked(sumVendorCostSince).mockResolvedValueOnce(10.5).mockResolvedValueOnce(42);
+
+    await checkSpendBudgets(0.01);
+
+    expect(sumVendorCostSince).toHaveBeenCalledTimes(2);
+    expect(notifyOwner).not.toHaveBeenCalled();
+  });
+
+  it("skips the check when no budget is configured", async () => {
+    await checkSpendBudgets(0.01);
+
+    expect(sumVendorCostSince).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { ENV } from "./_core/env.js";
+import { notifyOwner } from "./_core/notification.js";
+import type { DetectionFileType } from "./aiornot.js";
+import { createVendorCall, sumVendorCostSince } from "./db.js";
+import { estimateVendorCost } from "./vendorPricing.js";
+
+export interface VendorCallContext {
+  userId: number;
+  organizationId?: number | null;
+  fileType: DetectionFileType;
+  bytes: number;
+}
+
+export type BudgetPeriod = "day" | "month";
+
+function parseBudget(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * USD thresholds from VENDOR_BUDGET_DAILY / VENDOR_BUDGET_MONTHLY; null = no alert
+ */
+export function getSpendBudgets(): Record<BudgetPeriod, number | null> {
+  return {
+    day: parseBudget(ENV.vendorBudgets.daily),
+    month: parseBudget(ENV.vendorBudgets.monthly),
+  };
+}
+
+// Budgets follow UTC calendar days and months, like the plan quotas
+export function getBudgetPeriodStart(period: BudgetPeriod, now = new Date()) {
+  return period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Tell the owner when the call that just cost `cost` took the spend over a budget.
+ * Only the call that crosses the line alerts, so there is no state to keep.
+ */
+export async function checkSpendBudgets(cost: number) {
+  const budgets = getSpendBudgets();
+
+  for (const period of ["day", "month"] as const) {
+    const budget = budgets[period];
+    if (budget === null) continue;
+
+    const spend = await sumVendorCostSince(getBudgetPeriodStart(period));
+    if (spend < budget || spend - cost >= budget) continue;
+
+    const label = period === "day" ? "daily" : "monthly";
+    await notifyOwner({
+      title: `Vendor spend crossed the ${label} budget`,
+      content:
+        `Estimated detection vendor spend ${period === "day" ? "today" : "this month"} is ` +
+        `$${spend.toFixed(2)}, over the ${label} budget of $${budget.toFixed(2)}.`,
+    }).catch(error => console.error(`[Spend] Failed to send ${label} budget alert:`, error));
+  }
+}
+
+function recordVendorCall(
+  context: VendorCallContext,
+  call: { provider: string | null; durationMs: number; cacheHit: boolean; success: boolean }
+) {
+  // Cache hits and failed calls aren't billed
+  const cost = call.cacheHit || !call.success ? 0 : estimateVendorCost(context.fileType, 1);
+
+  createVendorCall({
+    userId: context.userId,
+    organizationId: context.organizationId ?? null,
+    provider: call.provider,
+    fileType: context.fileType,
+    bytes: context.bytes,
+    durationMs: call.durationMs,
+    cacheHit: call.cacheHit ? 1 : 0,
+    success: call.success ? 1 : 0,
+    estimatedCost: cost.toFixed(4),
+  })
+    .then(() => (cost > 0 ? checkSpendBudgets(cost) : undefined))
+    .catch(error => console.error("[Spend] Failed to record vendor call:", error));
+}
+
+/**
+ * Run one provider call and record it. Recording never throws and doesn't
+ * delay the analysis.
+ */
+export async function meterVendorCall<T>(
+  context: VendorCallContext,
+  provider: string,
+  call: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await call();
+    recordVendorCall(context, { provider, durationMs: Date.now() - startedAt, cacheHit: false, success: true });
+    return result;
+  } catch (error) {
+    recordVendorCall(context, { provider, durationMs: Date.now() - startedAt, cacheHit: false, success: false });
+    throw error;
+  }
+}
+
+/**
+ * Record an analysis answered from the cache, i.e. a vendor call saved
+ */
+export function recordCacheHit(context: VendorCallContext, durationMs: number) {
+  recordVendorCall(context, { provider: null, durationMs, cacheHit: true, success: true });
+}
@@ -0,0 +1,33 @@
+import { ENV } from "./_core/env.js";
+import type { DetectionFileType } from "./aiornot.js";
+
+// Fallback USD per vendor call; VENDOR_PRICES overrides individual media types
+const DEFAULT_PRICES: Record<DetectionFileType, number> = {
+  image: 0.01,
+  audio: 0.02,
+  video: 0.05,
+  text: 0.005,
+};
+
+function parsePrices(value: string): Partial<Record<DetectionFileType, number>> {
+  const prices: Partial<Record<DetectionFileType, number>> = {};
+  for (const pair of value.split(",")) {
+    const [type, price] = pair.split("=").map(s => s.trim());
+    const parsed = parseFloat(price);
+    if (type in DEFAULT_PRICES && !Number.isNaN(parsed) && parsed >= 0) {
+      prices[type as DetectionFileType] = parsed;
+    }
+  }
+  return prices;
+}
+
+export function getVendorPrices(): Record<DetectionFileType, number> {
+  return { ...DEFAULT_PRICES, ...parsePrices(ENV.vendorPrices) };
+}
+
+/**
+ * Estimated spend for `calls` vendor calls of one media type, in USD
+ */
+export function estimateVendorCost(fileType: DetectionFileType, calls: number) {
+  return calls * getVendorPrices()[fileType];
+}
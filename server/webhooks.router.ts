@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "./_core/trpc.js";
+import {
+  createWebhook,
+  deleteWebhook,
+  getUserWebhooks,
+  getWebhook,
+  getWebhookDeliveries,
+  updateWebhook,
+} from "./db.js";
+import { assertWebhookUrl, generateWebhookSecret, sendTestWebhook } from "./webhooks.js";
+
+const MAX_WEBHOOKS = 10;
+
+const webhookId = z.object({ id: z.number().int().positive() });
+
+async function requireWebhook(id: number, userId: number) {
+  const webhook = await getWebhook(id, userId);
+  if (!webhook) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Webhook not found" });
+  }
+  return webhook;
+}
+
+export const webhooksRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const hooks = await getUserWebhooks(ctx.user.id);
+    return hooks.map(hook => ({ ...hook, active: hook.active === 1 }));
+  }),
+
+  /**
+   * Register an endpoint. The signing secret is returned here and by rotateSecret only.
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        url: z.string().url().max(2048),
+        description: z.string().trim().max(255).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      assertWebhookUrl(input.url);
+
+      try {
+        const existing = await getUserWebhooks(ctx.user.id);
+        if (existing.length >= MAX_WEBHOOKS) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `You can register at most ${MAX_WEBHOOKS} webhooks`,
+          });
+        }
+
+        const webhook = await createWebhook({
+          userId: ctx.user.id,
+          url: input.url,
+          description: input.description || null,
+          secret: generateWebhookSecret(),
+        });
+        if (!webhook) throw new Error("Webhook was not saved");
+
+        return {
+          id: webhook.id,
+          url: webhook.url,
+          description: webhook.description,
+          active: true,
+          secret: webhook.secret,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("[Webhooks] Create error:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create webhook",
+        });
+      }
+    }),
+
+  update: protectedProcedure
+    .input(
+      webhookId.extend({
+        url: z.string().url().max(2048).optional(),
+        description: z.string().trim().max(255).nullish(),
+        active: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await requireWebhook(input.id, ctx.user.id);
+      if (input.url) assertWebhookUrl(input.url);
+
+      await updateWebhook(input.id, ctx.user.id, {
+        url: input.url,
+        description: input.description === undefined ? undefined : input.description || null,
+        active: input.active === undefined ? undefined : input.active ? 1 : 0,
+      });
+      return { success: true };
+    }),
+
+  rotateSecret: protectedProcedure.input(webhookId).mutation(async ({ input, ctx }) => {
+    await requireWebhook(input.id, ctx.user.id);
+
+    const secret = generateWebhookSecret();
+    await updateWebhook(input.id, ctx.user.id, { secret });
+    return { secret };
+  }),
+
+  delete: protectedProcedure.input(webhookId).mutation(async ({ input, ctx }) => {
+    await requireWebhook(input.id, ctx.user.id);
+    await deleteWebhook(input.id, ctx.user.id);
+    return { success: true };
+  }),
+
+  /**
+   * Delivery log, newest first
+   */
+  deliveries: protectedProcedure
+    .input(webhookId.extend({ limit: z.number().int().min(1).max(100).default(25) }))
+    .query(async ({ input, ctx }) => {
+      await requireWebhook(input.id, ctx.user.id);
+
+      const deliveries = await getWebhookDeliveries(input.id, ctx.user.id, input.limit);
+      return deliveries.map(({ payload: _payload, ...delivery }) => delivery);
+    }),
+
+  sendTest: protectedProcedure.input(webhookId).mutation(async ({ input, ctx }) => {
+    const webhook = await requireWebhook(input.id, ctx.user.id);
+
+    try {
+      return await sendTestWebhook(webhook);
+    } catch (error) {
+      console.error("[Webhooks] Test event error:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to send test event",
+      });
+    }
+  }),
+});
@@ -0,0 +1,215 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import dns from "dns";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { Webhook, WebhookDelivery } from "../drizzle/schema";
+import {
+  assertWebhookUrl,
+  deliverWebhook,
+  emitWebhookEvent,
+  signWebhookPayload,
+} from "./webhooks";
+import { createWebhookDeliveries, getActiveWebhooks, updateWebhookDelivery } from "./db";
+import { ENV } from "./_core/env";
+
+vi.mock("./db", () => ({
+  getActiveWebhooks: vi.fn(),
+  createWebhookDeliveries: vi.fn().mockResolvedValue(undefined),
+  updateWebhookDelivery: vi.fn().mockResolvedValue(undefined),
+  getWebhookById: vi.fn(),
+}));
+
+function createWebhook(overrides: Partial<Webhook> = {}): Webhook {
+  return {
+    id: 3,
+    userId: 1,
+    url: "https://example.com/hook",
+    description: null,
+    secret: "whsec_test",
+    active: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createDelivery(overrides: Partial<WebhookDelivery> = {}): WebhookDelivery {
+  return {
+    id: 11,
+    webhookId: 3,
+    userId: 1,
+    eventId: "evt_1",
+    event: "detection.completed",
+    payload: { id: "evt_1", type: "detection.completed", data: { id: 42 } },
+    status: "sending",
+    attempts: 1,
+    maxAttempts: 6,
+    responseStatus: null,
+    lastError: null,
+    nextAttemptAt: new Date(),
+    lastAttemptAt: new Date(),
+    deliveredAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("webhook URLs", () => {
+  it("accepts public https endpoints", () => {
+    expect(() => assertWebhookUrl("https://hooks.example.com/detections")).not.toThrow();
+    expect(() => assertWebhookUrl("https://93.184.215.14/hook")).not.toThrow();
+    expect(() => assertWebhookUrl("https://[2606:2800:21f:cb07:6820:80da:af6b:8b2c]/hook")).not.toThrow();
+  });
+
+  it("rejects internal hosts and non-http schemes", () => {
+    for (const url of [
+      "ftp://example.com/hook",
+      "https://localhost/hook",
+      "https://127.0.0.1/hook",
+      "https://10.0.0.5/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hook",
+      "https://[::ffff:127.0.0.1]/hook",
+      "https://[::ffff:7f00:1]/hook",
+      "https://[::ffff:a9fe:a9fe]/hook",
+      "https://[64:ff9b::10.0.0.1]/hook",
+      "https://[fd00::1]/hook",
+      "https://100.64.0.1/hook",
+      "https://2130706433/hook",
+      "not a url",
+    ]) {
+      expect(() => assertWebhookUrl(url), url).toThrow();
+    }
+  });
+});
+
+describe("emitWebhookEvent", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("queues one delivery per active webhook with a shared event id", async () => {
+    vi.mocked(getActiveWebhooks).mockResolvedValue([createWebhook(), createWebhook({ id: 4 })]);
+
+    await emitWebhookEvent(1, "detection.completed", { id: 42 });
+
+    const [rows] = vi.mocked(createWebhookDeliveries).mock.calls[0];
+    expect(rows.map(row => row.webhookId)).toEqual([3, 4]);
+    expect(rows[0].eventId).toBe(rows[1].eventId);
+    expect(rows[0].payload).toMatchObject({ type: "detection.completed", data: { id: 42 } });
+  });
+
+  it("never throws when queueing fails", async () => {
+    vi.mocked(getActiveWebhooks).mockRejectedValue(new Error("db down"));
+
+    await expect(emitWebhookEvent(1, "detection.completed", {})).resolves.toBeUndefined();
+  });
+});
+
+describe("deliverWebhook", () => {
+  let server: Server;
+  let baseUrl: string;
+  let responseStatus = 200;
+  const received: { headers: Record<string, any>; body: string }[] = [];
+
+  beforeAll(async () => {
+    // The test receiver listens on 127.0.0.1
+    ENV.webhookAllowPrivateHosts = true;
+    const app = express();
+    app.post("/hook", express.text({ type: "*/*" }), (req, res) => {
+      received.push({ headers: req.headers, body: req.body });
+      res.status(responseStatus).end();
+    });
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    ENV.webhookAllowPrivateHosts = false;
+    await new Promise<void>(done => server.close(() => done()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+    ENV.webhookAllowPrivateHosts = true;
+    received.length = 0;
+    responseStatus = 200;
+  });
+
+  it("refuses to deliver to private addresses", async () => {
+    ENV.webhookAllowPrivateHosts = false;
+
+    const result = await deliverWebhook(createDelivery(), createWebhook({ url: `${baseUrl}/hook` }));
+
+    expect(result).toMatchObject({ status: "pending", error: "Webhook URL must point to a public host" });
+    expect(received).toHaveLength(0);
+  });
+
+  it("checks every address a host name resolves to when delivering", async () => {
+    ENV.webhookAllowPrivateHosts = false;
+    vi.spyOn(dns.promises, "lookup").mockResolvedValue([
+      { address: "93.184.215.14", family: 4 },
+      { address: "127.0.0.1", family: 4 },
+    ] as never);
+    const port = new URL(baseUrl).port;
+
+    const result = await deliverWebhook(createDelivery(), createWebhook({ url: `http://hooks.example.com:${port}/hook` }));
+
+    expect(result).toMatchObject({ status: "pending", error: "Webhook URL must point to a public host" });
+    expect(received).toHaveLength(0);
+  });
+
+  it("connects to the address it checked instead of resolving the name again", async () => {
+    const lookup = vi.spyOn(dns.promises, "lookup").mockResolvedValue([{ address: "127.0.0.1", family: 4 }] as never);
+    const port = new URL(baseUrl).port;
+
+    const result = await deliverWebhook(createDelivery(), createWebhook({ url: `http://hooks.example.com:${port}/hook` }));
+
+    expect(result.status).toBe("succeeded");
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(received[0].headers.host).toBe(`hooks.example.com:${port}`);
+  });
+
+  it("signs the body with the webhook secret", async () => {
+    const result = await deliverWebhook(createDelivery(), createWebhook({ url: `${baseUrl}/hook` }));
+
+    expect(result.status).toBe("succeeded");
+    const [{ headers, body }] = received;
+    const t = Number(/t=(\d+)/.exec(headers["x-webhook-signature"])![1]);
+    expect(headers["x-webhook-signature"]).toBe(signWebhookPayload("whsec_test", t, body));
+    expect(headers["x-webhook-event"]).toBe("detection.completed");
+    expect(JSON.parse(body)).toMatchObject({ data: { id: 42 } });
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(
+      11,
+      expect.objectContaining({ status: "succeeded", responseStatus: 200 })
+    );
+  });
+
+  it("schedules a retry with backoff when the endpoint fails", async () => {
+    responseStatus = 500;
+
+    const result = await deliverWebhook(
+      createDelivery({ attempts: 2 }),
+      createWebhook({ url: `${baseUrl}/hook` })
+    );
+
+    expect(result.status).toBe("pending");
+    const [, update] = vi.mocked(updateWebhookDelivery).mock.calls[0];
+    expect(update.lastError).toBe("Endpoint responded with HTTP 500");
+    // Second attempt failed: next one after 2 × base delay
+    expect(update.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now() + 55_000);
+  });
+
+  it("gives up after the last attempt", async () => {
+    responseStatus = 410;
+
+    const result = await deliverWebhook(
+      createDelivery({ attempts: 6 }),
+      createWebhook({ url: `${baseUrl}/hook` })
+    );
+
+    expect(result.status).toBe("failed");
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(11, expect.objectContaining({ status: "failed" }));
+  });
+});
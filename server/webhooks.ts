@@ -0,0 +1,231 @@
+import { createHmac, randomBytes } from "crypto";
+import http from "http";
+import https from "https";
+import { TRPCError } from "@trpc/server";
+import type { Webhook, WebhookDelivery } from "../drizzle/schema.js";
+import {
+  claimNextWebhookDelivery,
+  claimWebhookDelivery,
+  createWebhookDeliveries,
+  createWebhookDelivery,
+  getActiveWebhooks,
+  getWebhookById,
+  requeueStaleWebhookDeliveries,
+  updateWebhookDelivery,
+} from "./db.js";
+import { ENV } from "./_core/env.js";
+import { createPublicLookup, isPrivateHost } from "./publicAddress.js";
+
+export const WEBHOOK_EVENTS = ["detection.completed", "detection.failed", "webhook.test"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+const RETRY_BASE_DELAY_MS = 30_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// A delivery stuck in "sending" longer than this belongs to a dead worker
+const STALE_DELIVERY_MS = 5 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  data: unknown;
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Signing the timestamp lets receivers reject replayed deliveries.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Endpoints must be public http(s) URLs; plain http only outside production.
+ * Host names are checked again, against what they resolve to, on every delivery.
+ */
+export function assertWebhookUrl(value: string) {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Webhook URL is not a valid URL" });
+  }
+
+  const allowHttp = process.env.NODE_ENV !== "production";
+  if (url.protocol !== "https:" && !(allowHttp && url.protocol === "http:")) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Webhook URL must use https" });
+  }
+
+  if (!ENV.webhookAllowPrivateHosts && isPrivateHost(url.hostname.replace(/^\[|\]$/g, ""))) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Webhook URL must point to a public host" });
+  }
+}
+
+// Names are resolved when delivering and the socket connects to the checked addresses
+const publicLookup = createPublicLookup("Webhook URL must point to a public host", () => ENV.webhookAllowPrivateHosts);
+
+/**
+ * POST without following redirects, which could bounce us to an internal address
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  assertWebhookUrl(url);
+  const target = new URL(url);
+  const request = target.protocol === "https:" ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: publicLookup,
+        timeout: DELIVERY_TIMEOUT_MS,
+      },
+      res => {
+        // The body is never read, so let the socket go
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("timeout", () => req.destroy(Object.assign(new Error("Request timed out"), { name: "TimeoutError" })));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+function buildPayload(event: WebhookEvent, data: unknown): WebhookPayload {
+  return {
+    id: `evt_${randomBytes(12).toString("hex")}`,
+    type: event,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+}
+
+/**
+ * Queue an event for every active webhook of the user. Never throws: a broken
+ * webhook setup must not fail the analysis that triggered it.
+ */
+export async function emitWebhookEvent(userId: number, event: WebhookEvent, data: unknown) {
+  try {
+    const hooks = await getActiveWebhooks(userId);
+    if (hooks.length === 0) return;
+
+    const payload = buildPayload(event, data);
+    await createWebhookDeliveries(
+      hooks.map(hook => ({
+        webhookId: hook.id,
+        userId,
+        eventId: payload.id,
+        event,
+        payload,
+      }))
+    );
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue ${event} for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Send one claimed delivery and record the outcome.
+ * Non-2xx answers and network errors are retried with exponential backoff until maxAttempts.
+ */
+export async function deliverWebhook(delivery: WebhookDelivery, webhook?: Webhook) {
+  const hook = webhook ?? (await getWebhookById(delivery.webhookId));
+  if (!hook) {
+    await updateWebhookDelivery(delivery.id, { status: "failed", lastError: "Webhook was deleted" });
+    return { status: "failed" as const, responseStatus: null, error: "Webhook was deleted" };
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    responseStatus = await postWebhook(
+      hook.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "AI-Content-Detector-Webhooks/1.0",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Delivery": String(delivery.id),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(hook.secret, timestamp, body),
+      },
+      body
+    );
+    if (responseStatus < 200 || responseStatus >= 300) error = `Endpoint responded with HTTP ${responseStatus}`;
+  } catch (err: any) {
+    error = err?.name === "TimeoutError" ? "Request timed out" : err?.message || "Request failed";
+  }
+
+  if (!error) {
+    await updateWebhookDelivery(delivery.id, {
+      status: "succeeded",
+      responseStatus,
+      lastError: null,
+      deliveredAt: new Date(),
+    });
+    return { status: "succeeded" as const, responseStatus, error: null };
+  }
+
+  const lastError = error.slice(0, MAX_ERROR_LENGTH);
+  if (delivery.attempts < delivery.maxAttempts) {
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (delivery.attempts - 1);
+    await updateWebhookDelivery(delivery.id, {
+      status: "pending",
+      responseStatus,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+    return { status: "pending" as const, responseStatus, error: lastError };
+  }
+
+  await updateWebhookDelivery(delivery.id, { status: "failed", responseStatus, lastError });
+  return { status: "failed" as const, responseStatus, error: lastError };
+}
+
+/**
+ * Drain up to `max` due deliveries. Runs on the same tick as the job worker.
+ */
+export async function runPendingWebhookDeliveries(max = 10): Promise<number> {
+  await requeueStaleWebhookDeliveries(new Date(Date.now() - STALE_DELIVERY_MS));
+
+  let processed = 0;
+  while (processed < max) {
+    const delivery = await claimNextWebhookDelivery();
+    if (!delivery) break;
+    await deliverWebhook(delivery);
+    processed++;
+  }
+  return processed;
+}
+
+/**
+ * Send a `webhook.test` event right away (single attempt) so the user sees the result immediately
+ */
+export async function sendTestWebhook(webhook: Webhook) {
+  const payload = buildPayload("webhook.test", { webhookId: webhook.id, message: "Test event" });
+  const delivery = await createWebhookDelivery({
+    webhookId: webhook.id,
+    userId: webhook.userId,
+    eventId: payload.id,
+    event: payload.type,
+    payload,
+    maxAttempts: 1,
+  });
+  const claimed = delivery && (await claimWebhookDelivery(delivery));
+  if (!claimed) throw new Error("Test delivery could not be queued");
+
+  return await deliverWebhook(claimed, webhook);
+}
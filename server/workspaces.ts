@@ -0,0 +1,65 @@
+import { TRPCError } from "@trpc/server";
+import type { OrganizationMember, User } from "../drizzle/schema.js";
+import { getOrganizationMembership, type WorkspaceScope } from "./db.js";
+import type { ApiKeyScope } from "./apiKeys.js";
+
+export const WORKSPACE_ROLES = ["owner", "analyst", "viewer"] as const;
+export type WorkspaceRole = OrganizationMember["role"];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, analyst: 1, owner: 2 };
+
+/**
+ * The workspace a request acts in. Personal workspaces have organizationId null
+ * and the user is always their owner.
+ */
+export interface Workspace extends WorkspaceScope {
+  name: string | null;
+  role: WorkspaceRole;
+}
+
+export function personalWorkspace(userId: number): Workspace {
+  return { userId, organizationId: null, name: null, role: "owner" };
+}
+
+/**
+ * The user's active workspace. Falls back to the personal one when the user
+ * has since left (or been removed from) the organization.
+ */
+export async function resolveWorkspace(
+  user: Pick<User, "id"> & { activeOrganizationId?: number | null }
+): Promise<Workspace> {
+  if (!user.activeOrganizationId) return personalWorkspace(user.id);
+
+  const membership = await getOrganizationMembership(user.activeOrganizationId, user.id);
+  if (!membership) return personalWorkspace(user.id);
+
+  return {
+    userId: user.id,
+    organizationId: membership.organizationId,
+    name: membership.name,
+    role: membership.role,
+  };
+}
+
+export function hasWorkspaceRole(role: WorkspaceRole, minimum: WorkspaceRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export function assertWorkspaceRole(role: WorkspaceRole, minimum: WorkspaceRole, action: string) {
+  if (!hasWorkspaceRole(role, minimum)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Only workspace ${minimum === "owner" ? "owners" : `${minimum}s and owners`} can ${action}`,
+    });
+  }
+}
+
+// Least workspace role needed for what each scope allows, for sessions and API keys alike
+const SCOPE_ROLES: Record<ApiKeyScope, { role: WorkspaceRole; action: string }> = {
+  "detections:read": { role: "viewer", action: "view results" },
+  "detections:write": { role: "analyst", action: "run analyses" },
+};
+
+export function assertScopeRole(workspace: Workspace, scope: ApiKeyScope, action = SCOPE_ROLES[scope].action) {
+  assertWorkspaceRole(workspace.role, SCOPE_ROLES[scope].role, action);
+}